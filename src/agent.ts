@@ -14,6 +14,8 @@ import {
   type LanguageModel,
   type LanguageModelMiddleware,
   type ToolLoopAgentSettings,
+  type ToolLoopAgentOnFinishCallback,
+  type StepResult,
 } from "ai";
 import type { LanguageModelV3 } from "@ai-sdk/provider";
 import type { z } from "zod";
@@ -21,6 +23,12 @@ import { DEFAULT_MAX_STEPS } from "./constants/limits";
 import {
   createCheckpointSavedEvent,
   createCheckpointLoadedEvent,
+  createApprovalRequestedEvent,
+  createInterruptEvent,
+  createAbortedEvent,
+  createBudgetExceededEvent,
+  createGitCommitEvent,
+  createFileChangedExternallyEvent,
 } from "./utils/events";
 import type {
   CreateDeepAgentParams,
@@ -36,25 +44,61 @@ import type {
   SandboxBackendProtocol,
   InterruptOnConfig,
   PrepareStepFunction,
+  SubagentBatchOptions,
+  PriceTable,
+  BudgetLimits,
+  TokenUsage,
+  UsageSummary,
 } from "./types";
 import type { BaseCheckpointSaver, Checkpoint, InterruptData } from "./checkpointer/types";
-import { isSandboxBackend } from "./types";
+import type { EgressPolicy } from "./tools/egress";
+import { createCheckpointId } from "./checkpointer/utils";
+import { isSandboxBackend, supportsBackgroundProcesses } from "./types";
 import {
   BASE_PROMPT,
   TODO_SYSTEM_PROMPT,
   FILESYSTEM_SYSTEM_PROMPT,
   TASK_SYSTEM_PROMPT,
   EXECUTE_SYSTEM_PROMPT,
+  GIT_SYSTEM_PROMPT,
+  PROCESS_SYSTEM_PROMPT,
   buildSkillsPrompt,
 } from "./prompts";
 import { createTodosTool } from "./tools/todos";
 import { createFilesystemTools } from "./tools/filesystem";
-import { createSubagentTool } from "./tools/subagent";
+import { createSubagentTool, createSubagentBatchTool } from "./tools/subagent";
 import { createExecuteTool } from "./tools/execute";
+import { createGitTools } from "./tools/git";
+import { createProcessTools } from "./tools/processes";
 import { StateBackend } from "./backends/state";
+import { FilesystemBackend } from "./backends/filesystem";
+import { GitBackend } from "./backends/git";
 import { patchToolCalls } from "./utils/patch-tool-calls";
 import { summarizeIfNeeded } from "./utils/summarization";
-import { applyInterruptConfig, wrapToolsWithApproval, type ApprovalCallback } from "./utils/approval";
+import {
+  applyToolCallLimits,
+  assertCostLimitPriced,
+  budgetStopCondition,
+  BudgetTracker,
+  hasBudgetLimits,
+  withBudgetWrapUp,
+} from "./utils/budget";
+import {
+  addToUsageSummary,
+  addUsage,
+  createEmptyUsage,
+  createUsageSummary,
+  mergeUsageSummaries,
+  priceUsage,
+  toTokenUsage,
+} from "./utils/usage";
+import {
+  applyInterruptConfig,
+  wrapToolsWithApproval,
+  resolveInterrupt,
+  stripToolResults,
+  type ApprovalCallback,
+} from "./utils/approval";
 import type { SummarizationConfig } from "./types";
 
 /**
@@ -64,7 +108,9 @@ function buildSystemPrompt(
   customPrompt?: string,
   hasSubagents?: boolean,
   hasSandbox?: boolean,
-  skills?: Array<{ name: string; description: string; path: string }>
+  skills?: Array<{ name: string; description: string; path: string }>,
+  hasGit?: boolean,
+  hasBackgroundProcesses?: boolean
 ): string {
   const parts = [
     customPrompt || "",
@@ -77,6 +123,14 @@ function buildSystemPrompt(
     parts.push(EXECUTE_SYSTEM_PROMPT);
   }
 
+  if (hasSandbox && hasBackgroundProcesses) {
+    parts.push(PROCESS_SYSTEM_PROMPT);
+  }
+
+  if (hasGit) {
+    parts.push(GIT_SYSTEM_PROMPT);
+  }
+
   if (hasSubagents) {
     parts.push(TASK_SYSTEM_PROMPT);
   }
@@ -89,6 +143,24 @@ function buildSystemPrompt(
   return parts.filter(Boolean).join("\n\n");
 }
 
+/**
+ * Transcript and state as of the last completed step of a run.
+ */
+interface CompletedStep {
+  messages: ModelMessage[];
+  state: DeepAgentState;
+  step: number;
+}
+
+/**
+ * Describe an AbortSignal's reason for the aborted event.
+ */
+function getAbortReason(signal: AbortSignal): string | undefined {
+  const reason = signal.reason;
+  if (reason === undefined) return undefined;
+  return reason instanceof Error ? reason.message : String(reason);
+}
+
 /**
  * Deep Agent wrapper class that provides generate() and stream() methods.
  * Uses ToolLoopAgent from AI SDK v6 for the agent loop.
@@ -104,13 +176,19 @@ export class DeepAgent {
     defaultTools: ToolSet;
     subagents: CreateDeepAgentParams["subagents"];
     includeGeneralPurposeAgent: boolean;
+    batch?: SubagentBatchOptions;
   };
   private toolResultEvictionLimit?: number;
+  private webSearchProvider?: CreateDeepAgentParams["webSearchProvider"];
+  private egressPolicy?: EgressPolicy;
+  private httpCredentials?: CreateDeepAgentParams["httpCredentials"];
+  private httpCache?: CreateDeepAgentParams["httpCache"];
   private enablePromptCaching: boolean;
   private summarizationConfig?: SummarizationConfig;
   private hasSandboxBackend: boolean;
   private interruptOn?: InterruptOnConfig;
   private checkpointer?: BaseCheckpointSaver;
+  private checkpointEveryStep: boolean;
   private skillsMetadata: Array<{ name: string; description: string; path: string }> = [];
   private outputConfig?: { schema: z.ZodType<any>; description?: string };
 
@@ -118,6 +196,8 @@ export class DeepAgent {
   private loopControl?: CreateDeepAgentParams["loopControl"];
   private generationOptions?: CreateDeepAgentParams["generationOptions"];
   private advancedOptions?: CreateDeepAgentParams["advancedOptions"];
+  private pricing?: PriceTable;
+  private budget?: BudgetLimits;
 
   constructor(params: CreateDeepAgentParams) {
     const {
@@ -126,20 +206,28 @@ export class DeepAgent {
       tools = {},
       systemPrompt,
       subagents = [],
+      subagentBatch,
       backend,
       maxSteps = DEFAULT_MAX_STEPS,
       includeGeneralPurposeAgent = true,
       toolResultEvictionLimit,
+      webSearchProvider,
+      egressPolicy,
+      httpCredentials,
+      httpCache,
       enablePromptCaching = false,
       summarization,
       interruptOn,
       checkpointer,
+      checkpointEveryStep = true,
       skillsDir,
       agentId,
       output,
       loopControl,
       generationOptions,
       advancedOptions,
+      pricing,
+      budget,
     } = params;
 
     // Wrap model with middleware if provided
@@ -159,11 +247,24 @@ export class DeepAgent {
     this.backend =
       backend || ((state: DeepAgentState) => new StateBackend(state));
     this.toolResultEvictionLimit = toolResultEvictionLimit;
+    this.webSearchProvider = webSearchProvider;
+    this.egressPolicy = egressPolicy;
+    this.httpCredentials = httpCredentials;
+    this.httpCache = httpCache;
     this.enablePromptCaching = enablePromptCaching;
     this.summarizationConfig = summarization;
     this.interruptOn = interruptOn;
     this.checkpointer = checkpointer;
+    this.checkpointEveryStep = checkpointEveryStep;
     this.outputConfig = output;
+    this.pricing = pricing;
+    this.budget = budget;
+
+    // A cost limit on an unpriced model would silently never apply
+    assertCostLimitPriced(budget, model, pricing);
+    for (const subagent of subagents) {
+      assertCostLimitPriced(subagent.budget ?? budget, subagent.model ?? model, pricing);
+    }
 
     // Store AI SDK passthrough options
     this.loopControl = loopControl;
@@ -198,7 +299,14 @@ export class DeepAgent {
     const hasSubagents =
       includeGeneralPurposeAgent || (subagents && subagents.length > 0);
 
-    this.systemPrompt = buildSystemPrompt(systemPrompt, hasSubagents, this.hasSandboxBackend, this.skillsMetadata);
+    this.systemPrompt = buildSystemPrompt(
+      systemPrompt,
+      hasSubagents,
+      this.hasSandboxBackend,
+      this.skillsMetadata,
+      backend instanceof GitBackend,
+      this.hasSandboxBackend && supportsBackgroundProcesses(backend as SandboxBackendProtocol)
+    );
 
     // Store user-provided tools
     this.userTools = tools;
@@ -209,6 +317,7 @@ export class DeepAgent {
       defaultTools: tools,
       subagents,
       includeGeneralPurposeAgent,
+      batch: subagentBatch,
     };
   }
 
@@ -232,16 +341,11 @@ export class DeepAgent {
   }
 
   /**
-   * Create web tools if TAVILY_API_KEY is available.
+   * Create web tools. web_search is included when a search provider is configured.
    * Uses dynamic import to avoid bundling Node.js dependencies in client builds.
    * @private
    */
   private createWebToolSet(state: DeepAgentState, onEvent?: EventCallback): ToolSet {
-    // Check if TAVILY_API_KEY is present before attempting to load web tools
-    if (!process.env.TAVILY_API_KEY) {
-      return {};
-    }
-
     try {
       // Dynamic import to avoid bundling Node.js-only dependencies
       // This will only load in Node.js environments (server-side)
@@ -250,6 +354,10 @@ export class DeepAgent {
         backend: this.backend,
         onEvent,
         toolResultEvictionLimit: this.toolResultEvictionLimit,
+        webSearchProvider: this.webSearchProvider,
+        egressPolicy: this.egressPolicy,
+        httpCredentials: this.httpCredentials,
+        httpCache: this.httpCache,
       });
       return webTools;
     } catch (error) {
@@ -260,7 +368,7 @@ export class DeepAgent {
   }
 
   /**
-   * Create execute tool if backend is a sandbox.
+   * Create execute tool (and background process tools, if supported) if backend is a sandbox.
    * @private
    */
   private createExecuteToolSet(onEvent?: EventCallback): ToolSet {
@@ -274,9 +382,56 @@ export class DeepAgent {
         backend: sandboxBackend,
         onEvent,
       }),
+      ...(supportsBackgroundProcesses(sandboxBackend)
+        ? createProcessTools({ backend: sandboxBackend, onEvent })
+        : {}),
     };
   }
 
+  /**
+   * Create git tools if backend is a GitBackend.
+   * @private
+   */
+  private createGitToolSet(): ToolSet {
+    if (!(this.backend instanceof GitBackend)) {
+      return {};
+    }
+    return createGitTools(this.backend);
+  }
+
+  /**
+   * Commit the agent's pending file changes when the backend is a GitBackend
+   * committing on `commitOn`. Git failures are logged rather than failing the run.
+   * @private
+   */
+  private async commitGitChanges(
+    state: DeepAgentState,
+    commitOn: "step" | "run"
+  ): Promise<DeepAgentEvent | undefined> {
+    if (!(this.backend instanceof GitBackend) || this.backend.commitOn !== commitOn) {
+      return undefined;
+    }
+    try {
+      const commit = await this.backend.commit({ todos: state.todos });
+      return commit ? createGitCommitEvent(commit) : undefined;
+    } catch (error) {
+      console.error("[DeepAgent] Git commit failed:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Collect the files changed outside the agent since the last step,
+   * when the backend is a FilesystemBackend watching for them.
+   * @private
+   */
+  private takeExternalChangeEvents(): DeepAgentEvent[] {
+    if (!(this.backend instanceof FilesystemBackend)) {
+      return [];
+    }
+    return this.backend.takeExternalChanges().map(createFileChangedExternallyEvent);
+  }
+
   /**
    * Create subagent tool if configured.
    * @private
@@ -289,7 +444,7 @@ export class DeepAgent {
       return {};
     }
 
-    const subagentTool = createSubagentTool(state, {
+    const subagentToolOptions = {
       defaultModel: this.subagentOptions.defaultModel,
       defaultTools: this.userTools,
       subagents: this.subagentOptions.subagents,
@@ -299,9 +454,21 @@ export class DeepAgent {
       interruptOn: this.interruptOn,
       parentGenerationOptions: this.generationOptions,
       parentAdvancedOptions: this.advancedOptions,
-    });
+      pricing: this.pricing,
+      budget: this.budget,
+      webSearchProvider: this.webSearchProvider,
+      egressPolicy: this.egressPolicy,
+      httpCredentials: this.httpCredentials,
+      httpCache: this.httpCache,
+    };
 
-    return { task: subagentTool };
+    return {
+      task: createSubagentTool(state, subagentToolOptions),
+      task_batch: createSubagentBatchTool(state, {
+        ...subagentToolOptions,
+        ...this.subagentOptions.batch,
+      }),
+    };
   }
 
   /**
@@ -324,6 +491,12 @@ export class DeepAgent {
       allTools = { ...allTools, ...executeTools };
     }
 
+    // Add git tools if git backend
+    const gitTools = this.createGitToolSet();
+    if (Object.keys(gitTools).length > 0) {
+      allTools = { ...allTools, ...gitTools };
+    }
+
     // Add subagent tool if configured
     const subagentTools = this.createSubagentToolSet(state, onEvent);
     if (Object.keys(subagentTools).length > 0) {
@@ -406,10 +579,62 @@ export class DeepAgent {
    * @param onEvent - Optional callback for emitting events
    */
   private createAgent(state: DeepAgentState, maxSteps?: number, onEvent?: EventCallback) {
-    const tools = this.createTools(state, onEvent);
+    // Usage of the main agent and its subagents, for budget limits
+    let usage = createEmptyUsage();
+    const toolOnEvent: EventCallback | undefined = hasBudgetLimits(this.budget)
+      ? (event) => {
+          if (event.type === "subagent-finish" && event.usage) {
+            usage = addUsage(usage, event.usage);
+          }
+          onEvent?.(event);
+        }
+      : onEvent;
+    let tools = this.createTools(state, toolOnEvent);
     const settings = this.buildAgentSettings(onEvent);
     const stopConditions = this.buildStopConditions(maxSteps);
 
+    // Budget limits: track usage per step and wrap up once a limit is reached
+    if (hasBudgetLimits(this.budget)) {
+      const budget = new BudgetTracker(this.budget, () => usage);
+      const userOnStepFinish = settings.onStepFinish;
+      settings.onStepFinish = async (step: StepResult<ToolSet>) => {
+        usage = addUsage(usage, priceUsage(toTokenUsage(step.usage), this.model, this.pricing));
+        await userOnStepFinish?.(step);
+      };
+      settings.prepareStep = withBudgetWrapUp(budget, settings.prepareStep, (exceeded) =>
+        onEvent?.(createBudgetExceededEvent(exceeded))
+      );
+      tools = applyToolCallLimits(tools, budget);
+      stopConditions.push(budgetStopCondition(budget));
+    }
+
+    // Filesystem backend: report files changed outside the agent after each step
+    if (this.backend instanceof FilesystemBackend) {
+      const userOnStepFinish = settings.onStepFinish;
+      settings.onStepFinish = async (step: StepResult<ToolSet>) => {
+        await userOnStepFinish?.(step);
+        for (const event of this.takeExternalChangeEvents()) {
+          onEvent?.(event);
+        }
+      };
+    }
+
+    // Git backend: commit the agent's changes after each step or at the end of the run
+    if (this.backend instanceof GitBackend) {
+      const userOnStepFinish = settings.onStepFinish;
+      settings.onStepFinish = async (step: StepResult<ToolSet>) => {
+        await userOnStepFinish?.(step);
+        const event = await this.commitGitChanges(state, "step");
+        if (event) onEvent?.(event);
+      };
+      const userOnFinish = settings.onFinish;
+      settings.onFinish = async (result: Parameters<ToolLoopAgentOnFinishCallback<ToolSet>>[0]) => {
+        await userOnFinish?.(result);
+        const event = await this.commitGitChanges(state, "run");
+        if (event) onEvent?.(event);
+      };
+    }
+
     return new ToolLoopAgent({
       ...settings,
       tools,
@@ -440,7 +665,7 @@ export class DeepAgent {
   /**
    * Generate a response (non-streaming).
    */
-  async generate(options: { prompt: string; maxSteps?: number }) {
+  async generate(options: { prompt: string; maxSteps?: number; abortSignal?: AbortSignal }) {
     // Create fresh state for this invocation
     const state: DeepAgentState = {
       todos: [],
@@ -448,7 +673,10 @@ export class DeepAgent {
     };
 
     const agent = this.createAgent(state, options.maxSteps);
-    const result = await agent.generate({ prompt: options.prompt });
+    const result = await agent.generate({
+      prompt: options.prompt,
+      abortSignal: options.abortSignal,
+    });
 
     // Return result with state attached
     // Note: We attach state as a property to preserve getters on result
@@ -464,7 +692,7 @@ export class DeepAgent {
   /**
    * Stream a response.
    */
-  async stream(options: { prompt: string; maxSteps?: number }) {
+  async stream(options: { prompt: string; maxSteps?: number; abortSignal?: AbortSignal }) {
     // Create fresh state for this invocation
     const state: DeepAgentState = {
       todos: [],
@@ -472,7 +700,10 @@ export class DeepAgent {
     };
 
     const agent = this.createAgent(state, options.maxSteps);
-    const result = await agent.stream({ prompt: options.prompt });
+    const result = await agent.stream({
+      prompt: options.prompt,
+      abortSignal: options.abortSignal,
+    });
 
     // Return result with state attached
     // Note: We attach state as a property to preserve getters on result
@@ -492,9 +723,13 @@ export class DeepAgent {
     prompt: string;
     state: DeepAgentState;
     maxSteps?: number;
+    abortSignal?: AbortSignal;
   }) {
     const agent = this.createAgent(options.state, options.maxSteps);
-    const result = await agent.generate({ prompt: options.prompt });
+    const result = await agent.generate({
+      prompt: options.prompt,
+      abortSignal: options.abortSignal,
+    });
 
     // Return result with state attached
     // Note: We attach state as a property to preserve getters on result
@@ -625,9 +860,12 @@ export class DeepAgent {
     options: StreamWithEventsOptions,
     state: DeepAgentState,
     baseStep: number,
-    pendingInterrupt: InterruptData | undefined,
     eventQueue: DeepAgentEvent[],
-    stepNumberRef: { value: number }
+    stepNumberRef: { value: number },
+    checkpointIdRef: { value: string | undefined },
+    completedStepRef: { value: CompletedStep },
+    usageRef: { value: UsageSummary },
+    baseUsage: UsageSummary
   ): Parameters<typeof streamText>[0] {
     const { threadId } = options;
 
@@ -637,7 +875,7 @@ export class DeepAgent {
       tools,
       stopWhen: this.buildStopConditions(options.maxSteps),
       abortSignal: options.abortSignal,
-      onStepFinish: async ({ toolCalls, toolResults }) => {
+      onStepFinish: async ({ toolCalls, toolResults, response, usage }) => {
         // Call user's onStepFinish first if provided
         if (this.loopControl?.onStepFinish) {
           const composedOnStepFinish = this.composeOnStepFinish(this.loopControl.onStepFinish);
@@ -647,6 +885,8 @@ export class DeepAgent {
         // Then execute DeepAgent's checkpointing logic
         stepNumberRef.value++;
         const cumulativeStep = baseStep + stepNumberRef.value;
+        const stepUsage = priceUsage(toTokenUsage(usage), this.model, this.pricing);
+        usageRef.value = addToUsageSummary(usageRef.value, "agent", stepUsage);
 
         // Emit step finish event (relative step number)
         const stepEvent: DeepAgentEvent = {
@@ -657,25 +897,49 @@ export class DeepAgent {
             args: "input" in tc ? tc.input : undefined,
             result: toolResults[i] ? ("output" in toolResults[i] ? toolResults[i].output : undefined) : undefined,
           })),
+          usage: stepUsage,
         };
         eventQueue.push(stepEvent);
+        eventQueue.push(...this.takeExternalChangeEvents());
+
+        const gitCommitEvent = await this.commitGitChanges(state, "step");
+        if (gitCommitEvent) {
+          eventQueue.push(gitCommitEvent);
+        }
+
+        const shouldCheckpoint = !!threadId && !!this.checkpointer && this.checkpointEveryStep;
+        if (!shouldCheckpoint && !options.abortSignal) {
+          return;
+        }
 
-        // Save checkpoint if configured
-        if (threadId && this.checkpointer) {
-          // Get current messages state - we need to track messages as they're built
-          // For now, we'll save with the input messages (will be updated after assistant response)
+        // Remember the last completed step - an aborted run falls back to it.
+        // response.messages accumulates every assistant/tool message produced so far in this run.
+        completedStepRef.value = {
+          messages: [...inputMessages, ...response.messages],
+          // Snapshot - tools keep mutating state.files and state.todos in later steps
+          state: structuredClone(state),
+          step: cumulativeStep,
+        };
+
+        // Save a per-step checkpoint so a failed run can resume from its last completed step
+        if (threadId && this.checkpointer && shouldCheckpoint) {
           const checkpoint: Checkpoint = {
             threadId,
+            checkpointId: createCheckpointId(),
+            parentCheckpointId: checkpointIdRef.value,
             step: cumulativeStep, // Cumulative step number
-            messages: inputMessages, // Current messages before assistant response
-            state: { ...state },
-            interrupt: pendingInterrupt,
+            messages: completedStepRef.value.messages,
+            state: completedStepRef.value.state,
+            usage: mergeUsageSummaries(baseUsage, usageRef.value),
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
           };
           await this.checkpointer.save(checkpoint);
+          checkpointIdRef.value = checkpoint.checkpointId;
 
-          eventQueue.push(createCheckpointSavedEvent(threadId, cumulativeStep));
+          eventQueue.push(
+            createCheckpointSavedEvent(threadId, cumulativeStep, checkpoint.checkpointId)
+          );
         }
       },
     };
@@ -738,6 +1002,7 @@ export class DeepAgent {
   ): Promise<{
     messages: ModelMessage[];
     patchedHistory: ModelMessage[];
+    summarizationUsage?: TokenUsage;
     error?: DeepAgentErrorEvent;
     shouldReturnEmpty?: boolean;
   }> {
@@ -758,6 +1023,7 @@ export class DeepAgent {
     // Build messages with priority: explicit messages > prompt > checkpoint
     let userMessages: ModelMessage[] = [];
     let shouldUseCheckpointHistory = true;
+    let summarizationUsage: TokenUsage | undefined;
 
     if (options.messages && options.messages.length > 0) {
       // Use explicit messages array (preferred)
@@ -796,14 +1062,22 @@ export class DeepAgent {
 
       // Apply summarization if enabled and needed
       if (this.summarizationConfig?.enabled && patchedHistory.length > 0) {
+        const summarizationModel = this.summarizationConfig.model || this.model;
         const summarizationResult = await summarizeIfNeeded(patchedHistory, {
-          model: this.summarizationConfig.model || this.model,
+          model: summarizationModel,
           tokenThreshold: this.summarizationConfig.tokenThreshold,
           keepMessages: this.summarizationConfig.keepMessages,
           generationOptions: this.generationOptions,
           advancedOptions: this.advancedOptions,
         });
         patchedHistory = summarizationResult.messages;
+        if (summarizationResult.usage) {
+          summarizationUsage = priceUsage(
+            summarizationResult.usage,
+            summarizationModel,
+            this.pricing
+          );
+        }
       }
     } else if (!shouldUseCheckpointHistory) {
       // Explicit messages replace checkpoint history - clear patchedHistory
@@ -841,12 +1115,12 @@ export class DeepAgent {
       ...userMessages,
     ];
 
-    return { messages: inputMessages, patchedHistory };
+    return { messages: inputMessages, patchedHistory, summarizationUsage };
   }
 
   /**
    * Load checkpoint context if threadId is provided.
-   * Handles checkpoint restoration and resume from interrupt.
+   * Restores state, history and any pending interrupt.
    *
    * @private
    */
@@ -857,42 +1131,119 @@ export class DeepAgent {
     patchedHistory: ModelMessage[];
     currentStep: number;
     pendingInterrupt: InterruptData | undefined;
+    checkpointId?: string;
+    usage?: UsageSummary;
     checkpointEvent?: CheckpointLoadedEvent;
+    error?: DeepAgentErrorEvent;
   }> {
-    const { threadId, resume } = options;
+    const { threadId, checkpointId: requestedCheckpointId } = options;
     let state: DeepAgentState = options.state || { todos: [], files: {} };
     let patchedHistory: ModelMessage[] = [];
     let currentStep = 0;
     let pendingInterrupt: InterruptData | undefined;
+    let checkpointId: string | undefined;
+    let usage: UsageSummary | undefined;
     let checkpointEvent: CheckpointLoadedEvent | undefined;
 
+    if (requestedCheckpointId && (!threadId || !this.checkpointer)) {
+      return {
+        state,
+        patchedHistory,
+        currentStep,
+        pendingInterrupt,
+        error: {
+          type: "error",
+          error: new Error("'checkpointId' requires 'threadId' and a configured checkpointer"),
+        },
+      };
+    }
+
     if (threadId && this.checkpointer) {
-      const checkpoint = await this.checkpointer.load(threadId);
+      const checkpoint = await this.checkpointer.load(threadId, requestedCheckpointId);
+
+      // Savers without history ignore checkpointId and return the latest checkpoint
+      if (requestedCheckpointId && checkpoint?.checkpointId !== requestedCheckpointId) {
+        return {
+          state,
+          patchedHistory,
+          currentStep,
+          pendingInterrupt,
+          error: {
+            type: "error",
+            error: new Error(`Checkpoint '${requestedCheckpointId}' not found for thread '${threadId}'`),
+          },
+        };
+      }
+
       if (checkpoint) {
         state = checkpoint.state;
         patchedHistory = checkpoint.messages;
         currentStep = checkpoint.step;
         pendingInterrupt = checkpoint.interrupt;
+        checkpointId = checkpoint.checkpointId;
+        usage = checkpoint.usage;
 
         checkpointEvent = createCheckpointLoadedEvent(
           threadId,
           checkpoint.step,
-          checkpoint.messages.length
+          checkpoint.messages.length,
+          checkpoint.checkpointId
         );
       }
     }
 
-    // Handle resume from interrupt
-    if (resume && pendingInterrupt) {
-      const decision = resume.decisions[0];
-      if (decision?.type === 'approve') {
-        pendingInterrupt = undefined;
-      } else {
-        pendingInterrupt = undefined;
-      }
+    return {
+      state,
+      patchedHistory,
+      currentStep,
+      pendingInterrupt,
+      checkpointId,
+      usage,
+      checkpointEvent,
+    };
+  }
+
+  /**
+   * Finish an aborted run: flush queued tool events, checkpoint the last
+   * completed step and report the abort instead of an error.
+   *
+   * @private
+   */
+  private async *finishAborted(
+    signal: AbortSignal,
+    eventQueue: DeepAgentEvent[],
+    completed: CompletedStep,
+    threadId: string | undefined,
+    parentCheckpointId: string | undefined,
+    threadUsage: UsageSummary
+  ): AsyncGenerator<DeepAgentEvent, void, unknown> {
+    while (eventQueue.length > 0) {
+      yield eventQueue.shift()!;
+    }
+
+    if (threadId && this.checkpointer) {
+      const abortedCheckpoint: Checkpoint = {
+        threadId,
+        checkpointId: createCheckpointId(),
+        parentCheckpointId,
+        step: completed.step,
+        messages: completed.messages,
+        state: completed.state,
+        // Tokens spent on the interrupted step were still billed
+        usage: threadUsage,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      await this.checkpointer.save(abortedCheckpoint);
+      yield createCheckpointSavedEvent(threadId, completed.step, abortedCheckpoint.checkpointId);
     }
 
-    return { state, patchedHistory, currentStep, pendingInterrupt, checkpointEvent };
+    yield createAbortedEvent(
+      completed.messages,
+      completed.state,
+      completed.step,
+      getAbortReason(signal)
+    );
   }
 
   async *streamWithEvents(
@@ -902,14 +1253,96 @@ export class DeepAgent {
 
     // Load checkpoint context (state, history, step tracking)
     const context = await this.loadCheckpointContext(options);
+    if (context.error) {
+      yield context.error;
+      return;
+    }
     const { state, currentStep, pendingInterrupt, checkpointEvent } = context;
     let patchedHistory = context.patchedHistory; // Mutable - may be reassigned during message building
+    // Latest checkpoint in this run's chain - parent of the next one saved
+    const checkpointIdRef = { value: context.checkpointId };
+    // Usage of earlier runs on this thread, and of this run so far
+    const baseUsage = context.usage ?? createUsageSummary();
+    const usageRef = { value: createUsageSummary() };
+    const budget = hasBudgetLimits(this.budget)
+      ? new BudgetTracker(this.budget, () => usageRef.value.total)
+      : undefined;
 
     // Yield checkpoint-loaded event if checkpoint was restored
     if (checkpointEvent) {
       yield checkpointEvent;
     }
 
+    // Still waiting for a decision and no new input - report the interrupt again
+    if (threadId && pendingInterrupt && !resume && !options.prompt && !options.messages) {
+      yield createInterruptEvent(
+        threadId,
+        pendingInterrupt.toolCalls ?? [pendingInterrupt.toolCall],
+        pendingInterrupt.step
+      );
+      return;
+    }
+
+    // Event queue for collecting events from tool executions
+    const eventQueue: DeepAgentEvent[] = [];
+    const stepNumberRef = { value: 0 }; // Mutable reference for stepNumber
+    const baseStep = currentStep; // Cumulative step from checkpoint
+
+    // Event callback that tools will use to emit events
+    const onEvent: EventCallback = (event) => {
+      if (event.type === "subagent-finish" && event.usage) {
+        usageRef.value = addToUsageSummary(usageRef.value, "subagents", event.usage);
+      }
+      eventQueue.push(event);
+    };
+
+    // Create tools with event callback
+    const baseTools = this.createTools(state, onEvent);
+    let tools = baseTools;
+
+    // Resume from interrupt: run approved tool calls, reject denied ones
+    if (resume && pendingInterrupt) {
+      try {
+        const resumed = await resolveInterrupt(
+          patchedHistory,
+          pendingInterrupt,
+          resume,
+          baseTools,
+          options.abortSignal
+        );
+        patchedHistory = resumed.messages;
+
+        while (eventQueue.length > 0) {
+          yield eventQueue.shift()!;
+        }
+        for (const resolved of resumed.resolved) {
+          yield {
+            type: "tool-result",
+            toolName: resolved.toolName,
+            toolCallId: resolved.toolCallId,
+            result: resolved.result,
+            isError: resolved.isError,
+          };
+        }
+      } catch (error) {
+        // The interrupt checkpoint is untouched, so the run can still be resumed
+        if (options.abortSignal?.aborted) {
+          yield createAbortedEvent(
+            patchedHistory,
+            state,
+            currentStep,
+            getAbortReason(options.abortSignal)
+          );
+          return;
+        }
+        yield {
+          type: "error",
+          error: error instanceof Error ? error : new Error(String(error)),
+        };
+        return;
+      }
+    }
+
     // Build message array with validation and priority logic
     const messageResult = await this.buildMessageArray(options, patchedHistory);
 
@@ -933,29 +1366,61 @@ export class DeepAgent {
     // Extract results
     const inputMessages = messageResult.messages;
     patchedHistory = messageResult.patchedHistory;
+    if (messageResult.summarizationUsage) {
+      usageRef.value = addToUsageSummary(
+        usageRef.value,
+        "summarization",
+        messageResult.summarizationUsage
+      );
+    }
 
-    // Event queue for collecting events from tool executions
-    const eventQueue: DeepAgentEvent[] = [];
-    const stepNumberRef = { value: 0 }; // Mutable reference for stepNumber
-    const baseStep = currentStep; // Cumulative step from checkpoint
-
-    // Event callback that tools will use to emit events
-    const onEvent: EventCallback = (event) => {
-      eventQueue.push(event);
-    };
-
-    // Create tools with event callback
-    let tools = this.createTools(state, onEvent);
-
-    // Wrap tools with approval checking if interruptOn is configured and callback provided
-    // This intercepts tool execution and requests approval before running
-    const hasInterruptOn = !!this.interruptOn;
-    const hasApprovalCallback = !!options.onApprovalRequest;
+    // Wrap tools with approval checking if interruptOn is configured.
+    // With a callback, approval is requested inline. Without one, the run is
+    // suspended into an interrupt checkpoint when a thread can hold it, and
+    // tools requiring approval are auto-denied otherwise.
+    const pendingApprovals: InterruptData["toolCall"][] = [];
+    const canInterrupt = !!threadId && !!this.checkpointer;
+
+    if (this.interruptOn) {
+      if (options.onApprovalRequest) {
+        tools = wrapToolsWithApproval(tools, this.interruptOn, options.onApprovalRequest);
+      } else if (canInterrupt) {
+        tools = wrapToolsWithApproval(tools, this.interruptOn, async (request) => {
+          pendingApprovals.push({
+            toolCallId: request.toolCallId,
+            toolName: request.toolName,
+            args: request.args,
+          });
+          onEvent(
+            createApprovalRequestedEvent(
+              request.approvalId,
+              request.toolCallId,
+              request.toolName,
+              request.args
+            )
+          );
+          // Placeholder result - stripped from the transcript when the interrupt is saved
+          return false;
+        });
+      } else {
+        tools = wrapToolsWithApproval(tools, this.interruptOn, undefined);
+      }
+    }
 
-    if (hasInterruptOn && hasApprovalCallback) {
-      tools = wrapToolsWithApproval(tools, this.interruptOn, options.onApprovalRequest);
+    // Refuse calls beyond a tool's call limit
+    if (budget) {
+      tools = applyToolCallLimits(tools, budget);
     }
 
+    // Fallback for an aborted run: the input, before any step of this run completed
+    const completedStepRef: { value: CompletedStep } = {
+      value: {
+        messages: inputMessages,
+        state: options.abortSignal ? structuredClone(state) : state,
+        step: baseStep,
+      },
+    };
+
     try {
       // Build streamText options with callbacks
       const streamOptions = this.buildStreamTextOptions(
@@ -964,11 +1429,30 @@ export class DeepAgent {
         options,
         state,
         baseStep,
-        pendingInterrupt,
         eventQueue,
-        stepNumberRef
+        stepNumberRef,
+        checkpointIdRef,
+        completedStepRef,
+        usageRef,
+        baseUsage
       );
 
+      // Stop after the step that raised approval requests
+      streamOptions.stopWhen = [
+        ...this.buildStopConditions(options.maxSteps),
+        () => pendingApprovals.length > 0,
+      ];
+
+      // Once a budget limit is reached, run one final step without tools, then stop
+      if (budget) {
+        streamOptions.stopWhen.push(budgetStopCondition(budget));
+        streamOptions.prepareStep = withBudgetWrapUp(
+          budget,
+          streamOptions.prepareStep as PrepareStepFunction | undefined,
+          (exceeded) => onEvent(createBudgetExceededEvent(exceeded))
+        );
+      }
+
       // Use streamText with messages array for conversation history
       const result = streamText(streamOptions);
 
@@ -982,8 +1466,8 @@ export class DeepAgent {
           const event = eventQueue.shift()!;
           yield event;
 
-          // If a step finished, yield the next step start
-          if (event.type === "step-finish") {
+          // If a step finished, yield the next step start (unless suspending for approval)
+          if (event.type === "step-finish" && pendingApprovals.length === 0) {
             yield { type: "step-start", stepNumber: event.stepNumber + 1 };
           }
         }
@@ -1001,6 +1485,10 @@ export class DeepAgent {
             args: chunk.input,
           } as DeepAgentEvent;
         } else if (chunk.type === "tool-result") {
+          // Placeholder results of calls awaiting approval are not real results
+          if (pendingApprovals.some((tc) => tc.toolCallId === chunk.toolCallId)) {
+            continue;
+          }
           // Emit tool-result event for UI
           // Note: chunk has output property (AI SDK v6), but we use result for our event type
           yield {
@@ -1010,6 +1498,12 @@ export class DeepAgent {
             result: chunk.output,
             isError: false,
           } as DeepAgentEvent;
+        } else if (chunk.type === "abort") {
+          // streamText ends the stream with an abort part when the signal fires
+          break;
+        } else if (chunk.type === "error") {
+          // streamText reports provider/model failures as stream parts - surface them as run errors
+          throw chunk.error;
         } else if (chunk.type === "tool-error") {
           // Emit tool-result event with error flag for UI
           yield {
@@ -1022,6 +1516,18 @@ export class DeepAgent {
         }
       }
 
+      if (options.abortSignal?.aborted) {
+        yield* this.finishAborted(
+          options.abortSignal,
+          eventQueue,
+          completedStepRef.value,
+          threadId,
+          checkpointIdRef.value,
+          mergeUsageSummaries(baseUsage, usageRef.value)
+        );
+        return;
+      }
+
       // Yield any remaining queued events
       while (eventQueue.length > 0) {
         yield eventQueue.shift()!;
@@ -1030,15 +1536,54 @@ export class DeepAgent {
       // Get the final text
       const finalText = await result.text;
 
-      // Build updated messages array with assistant response
-      // Only include assistant message if there's actual content (avoid empty text blocks)
+      // Build updated messages array with the full transcript of this run:
+      // assistant messages (text and tool-call parts) and tool-result messages.
+      // The AI SDK already omits empty text parts and empty messages.
+      const response = await result.response;
       const updatedMessages: ModelMessage[] = [
         ...inputMessages,
-        ...(finalText ? [{ role: "assistant", content: finalText } as ModelMessage] : []),
+        ...response.messages,
       ];
 
+      // Suspend on approval requests: save an interrupt checkpoint and return control.
+      // The run continues via streamWithEvents({ threadId, resume }).
+      if (threadId && this.checkpointer && pendingApprovals.length > 0) {
+        const interruptStep = baseStep + stepNumberRef.value;
+        const interrupt: InterruptData = {
+          toolCall: pendingApprovals[0]!,
+          toolCalls: [...pendingApprovals],
+          step: interruptStep,
+        };
+        const interruptCheckpoint: Checkpoint = {
+          threadId,
+          checkpointId: createCheckpointId(),
+          parentCheckpointId: checkpointIdRef.value,
+          step: interruptStep,
+          messages: stripToolResults(
+            updatedMessages,
+            pendingApprovals.map((tc) => tc.toolCallId)
+          ),
+          state,
+          interrupt,
+          usage: mergeUsageSummaries(baseUsage, usageRef.value),
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+        await this.checkpointer.save(interruptCheckpoint);
+
+        yield createCheckpointSavedEvent(threadId, interruptStep, interruptCheckpoint.checkpointId);
+        yield createInterruptEvent(threadId, interrupt.toolCalls!, interruptStep);
+        return;
+      }
+
       // Extract output if present (from ToolLoopAgent's native output parsing)
       const output = 'output' in result ? (result as { output: unknown }).output : undefined;
+      const threadUsage = mergeUsageSummaries(baseUsage, usageRef.value);
+
+      const gitCommitEvent = await this.commitGitChanges(state, "run");
+      if (gitCommitEvent) {
+        yield gitCommitEvent;
+      }
 
       // Yield done event with updated messages
       yield {
@@ -1047,24 +1592,50 @@ export class DeepAgent {
         text: finalText,
         messages: updatedMessages,
         ...(output !== undefined ? { output } : {}),
+        usage: usageRef.value,
+        ...(threadId && this.checkpointer ? { threadUsage } : {}),
       };
       
       // Save final checkpoint after done event
       if (threadId && this.checkpointer) {
         const finalCheckpoint: Checkpoint = {
           threadId,
+          checkpointId: createCheckpointId(),
+          parentCheckpointId: checkpointIdRef.value,
           step: baseStep + stepNumberRef.value, // Cumulative step number
           messages: updatedMessages,
           state,
+          usage: threadUsage,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
         };
         await this.checkpointer.save(finalCheckpoint);
 
         // Emit checkpoint-saved event for final checkpoint
-        yield createCheckpointSavedEvent(threadId, baseStep + stepNumberRef.value);
+        yield createCheckpointSavedEvent(
+          threadId,
+          baseStep + stepNumberRef.value,
+          finalCheckpoint.checkpointId
+        );
       }
     } catch (error) {
+      if (options.abortSignal?.aborted) {
+        yield* this.finishAborted(
+          options.abortSignal,
+          eventQueue,
+          completedStepRef.value,
+          threadId,
+          checkpointIdRef.value,
+          mergeUsageSummaries(baseUsage, usageRef.value)
+        );
+        return;
+      }
+
+      // Flush events from steps that completed before the failure (e.g. checkpoint-saved)
+      while (eventQueue.length > 0) {
+        yield eventQueue.shift()!;
+      }
+
       // Yield error event
       yield {
         type: "error",
@@ -1111,6 +1682,10 @@ export class DeepAgent {
  * @param params.maxSteps - Optional maximum number of steps for the agent loop (default: 100)
  * @param params.includeGeneralPurposeAgent - Optional flag to include general-purpose subagent (default: true)
  * @param params.toolResultEvictionLimit - Optional token limit before evicting large tool results to filesystem (default: disabled)
+ * @param params.webSearchProvider - Optional search provider for the web_search tool (default: picked from environment variables)
+ * @param params.egressPolicy - Optional network egress policy for http_request and fetch_url (default: unrestricted)
+ * @param params.httpCredentials - Optional named credential profiles for http_request, kept out of the model's context
+ * @param params.httpCache - Optional cache for fetched pages, GET requests and search results (default: no caching)
  * @param params.enablePromptCaching - Optional flag to enable prompt caching for improved performance (Anthropic only, default: false)
  * @param params.summarization - Optional summarization configuration for automatic conversation summarization
  * @returns A configured DeepAgent instance
@@ -6,10 +6,18 @@ import type {
   BackendProtocol,
   EditResult,
   FileData,
+  FileDownloadResponse,
   FileInfo,
+  FileOperationResult,
+  FileUploadResponse,
   GrepMatch,
   WriteResult,
 } from "../types";
+import {
+  FILE_NOT_FOUND,
+  PATH_ALREADY_EXISTS,
+  OPERATION_NOT_SUPPORTED,
+} from "../constants/errors";
 
 /**
  * Backend that routes file operations to different backends based on path prefix.
@@ -269,5 +277,149 @@ export class CompositeBackend implements BackendProtocol {
     const [backend, strippedKey] = this.getBackendAndKey(filePath);
     return await backend.edit(strippedKey, oldString, newString, replaceAll);
   }
+
+  /**
+   * Delete a file or directory, routing to appropriate backend.
+   */
+  async delete(filePath: string, recursive: boolean = false): Promise<FileOperationResult> {
+    const [backend, strippedKey] = this.getBackendAndKey(filePath);
+    if (!backend.delete) {
+      return { success: false, error: OPERATION_NOT_SUPPORTED("delete") };
+    }
+    const result = await backend.delete(strippedKey, recursive);
+    return result.success ? { ...result, path: filePath } : result;
+  }
+
+  /**
+   * Move a file or directory. Moves between routes are done by copying
+   * the file's bytes and deleting the source, so only files can cross routes.
+   */
+  async move(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, true);
+  }
+
+  /**
+   * Copy a file or directory. Copies between routes are done via the
+   * file's bytes, so only files can cross routes.
+   */
+  async copy(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, false);
+  }
+
+  /**
+   * Create a directory, routing to appropriate backend.
+   */
+  async mkdir(dirPath: string): Promise<FileOperationResult> {
+    const [backend, strippedKey] = this.getBackendAndKey(dirPath);
+    if (!backend.mkdir) {
+      return { success: false, error: OPERATION_NOT_SUPPORTED("mkdir") };
+    }
+    const result = await backend.mkdir(strippedKey);
+    return result.success ? { ...result, path: dirPath } : result;
+  }
+
+  /**
+   * Shared implementation of move and copy.
+   */
+  private async transfer(
+    from: string,
+    to: string,
+    overwrite: boolean,
+    removeSource: boolean
+  ): Promise<FileOperationResult> {
+    const operation = removeSource ? "move" : "copy";
+    const [sourceBackend, sourceKey] = this.getBackendAndKey(from);
+    const [destBackend, destKey] = this.getBackendAndKey(to);
+
+    if (sourceBackend === destBackend) {
+      const method = removeSource ? sourceBackend.move : sourceBackend.copy;
+      if (!method) {
+        return { success: false, error: OPERATION_NOT_SUPPORTED(operation) };
+      }
+      const result = await method.call(sourceBackend, sourceKey, destKey, overwrite);
+      return result.success ? { ...result, path: to } : result;
+    }
+
+    if (
+      !sourceBackend.downloadFiles ||
+      !destBackend.uploadFiles ||
+      (removeSource && !sourceBackend.delete)
+    ) {
+      return { success: false, error: OPERATION_NOT_SUPPORTED(`${operation} between these paths`) };
+    }
+
+    const [download] = await sourceBackend.downloadFiles([sourceKey]);
+    if (!download?.content) {
+      return {
+        success: false,
+        error:
+          download?.error === "is_directory"
+            ? `Error: Cannot ${operation} directory '${from}' to a different backend`
+            : FILE_NOT_FOUND(from),
+      };
+    }
+
+    if (!overwrite) {
+      const [existing] = destBackend.downloadFiles
+        ? await destBackend.downloadFiles([destKey])
+        : [];
+      if (existing?.content) {
+        return { success: false, error: PATH_ALREADY_EXISTS(to) };
+      }
+    }
+
+    const [upload] = await destBackend.uploadFiles([[destKey, download.content]]);
+    if (upload?.error) {
+      return { success: false, error: `Error: Failed to write '${to}': ${upload.error}` };
+    }
+
+    if (removeSource) {
+      const deleted = await sourceBackend.delete!(sourceKey);
+      if (!deleted.success) {
+        return deleted;
+      }
+    }
+    return { success: true, path: to, count: 1 };
+  }
+
+  /**
+   * Upload files, routing each to the appropriate backend.
+   * Files routed to a backend without upload support fail with `permission_denied`.
+   */
+  async uploadFiles(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]> {
+    const responses: FileUploadResponse[] = [];
+    for (const [filePath, content] of files) {
+      const [backend, strippedKey] = this.getBackendAndKey(filePath);
+      if (!backend.uploadFiles) {
+        responses.push({ path: filePath, error: "permission_denied" });
+        continue;
+      }
+      const [result] = await backend.uploadFiles([[strippedKey, content]]);
+      responses.push({ path: filePath, error: result?.error ?? null });
+    }
+    return responses;
+  }
+
+  /**
+   * Download files, routing each to the appropriate backend.
+   * Files routed to a backend without download support fail with `permission_denied`.
+   */
+  async downloadFiles(paths: string[]): Promise<FileDownloadResponse[]> {
+    const responses: FileDownloadResponse[] = [];
+    for (const filePath of paths) {
+      const [backend, strippedKey] = this.getBackendAndKey(filePath);
+      if (!backend.downloadFiles) {
+        responses.push({ path: filePath, content: null, error: "permission_denied" });
+        continue;
+      }
+      const [result] = await backend.downloadFiles([strippedKey]);
+      responses.push(
+        result
+          ? { ...result, path: filePath }
+          : { path: filePath, content: null, error: "file_not_found" }
+      );
+    }
+    return responses;
+  }
 }
 
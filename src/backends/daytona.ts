@@ -17,6 +17,7 @@
  */
 
 import { BaseSandbox } from "./sandbox";
+import { getMimeType } from "./utils";
 import type {
   ExecuteResponse,
   FileUploadResponse,
@@ -215,7 +216,12 @@ export class DaytonaBackend extends BaseSandbox {
             typeof fileData.result === "string"
               ? Buffer.from(fileData.result)
               : fileData.result;
-          responses.push({ path, content: new Uint8Array(content), error: null });
+          responses.push({
+            path,
+            content: new Uint8Array(content),
+            mimeType: getMimeType(path),
+            error: null,
+          });
         }
       } catch (error) {
         responses.push({
@@ -235,7 +241,7 @@ export class DaytonaBackend extends BaseSandbox {
    * Daytona has no auto-cleanup, so dispose() must be called to clean up resources.
    * Only deletes sandbox if we created it (owned: true).
    */
-  async dispose(): Promise<void> {
+  override async dispose(): Promise<void> {
     if (this._owned) {
       const sandbox = await this._getSandbox();
       await this._daytona.delete(sandbox);
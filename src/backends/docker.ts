@@ -0,0 +1,543 @@
+/**
+ * Docker Sandbox Backend
+ *
+ * Runs commands in a local Docker (or Podman) container, giving real isolation
+ * without a third-party sandbox service. Useful on CI runners and developer
+ * machines where a container runtime is available.
+ *
+ * Features:
+ * - Any image with `node` and `tar` (defaults to "node:22-slim")
+ * - Workspace is copied into the container, or bind-mounted for live changes
+ * - CPU, memory, process and network limits (no network by default)
+ * - uploadFiles()/downloadFiles() stream tar archives instead of base64 commands
+ * - Streamed command output and background processes
+ * - No auto-cleanup (must call dispose())
+ * - Default working directory: /workspace
+ *
+ * Note: Starting a container is async, so this backend uses an async factory
+ * pattern via `createDockerSandbox()`.
+ */
+
+import { spawn } from "child_process";
+import * as path from "path";
+import { BaseSandbox } from "./sandbox";
+import { getMimeType } from "./utils";
+import { ProcessManager } from "./processes";
+import { createTarArchive, readTarArchive, type TarEntry } from "../utils/tar";
+import { CONTAINER_COMMAND_FAILED } from "../constants/errors";
+import type {
+  BackgroundProcessInfo,
+  BackgroundProcessOutput,
+  BackgroundProcessProtocol,
+  ExecuteOptions,
+  ExecuteResponse,
+  FileDownloadResponse,
+  FileOperationError,
+  FileUploadResponse,
+} from "../types";
+
+/**
+ * Options for creating a Docker sandbox.
+ */
+export interface DockerSandboxOptions {
+  /**
+   * Container image to run. It must provide `node` (used by file operations)
+   * and `tar` (used by uploadFiles/downloadFiles).
+   * @default "node:22-slim"
+   */
+  image?: string;
+
+  /**
+   * Container runtime CLI. Podman accepts the same commands as Docker.
+   * @default "docker"
+   */
+  runtime?: "docker" | "podman";
+
+  /**
+   * Host directory to make available in the container at `workdir`.
+   * If omitted, the container starts with an empty working directory.
+   */
+  workspace?: string;
+
+  /**
+   * How the workspace gets into the container:
+   * - "copy": copied in at startup; the host directory is never modified
+   * - "mount": bind-mounted, so changes are made directly to the host directory
+   * @default "copy"
+   */
+  workspaceMode?: "copy" | "mount";
+
+  /**
+   * Working directory inside the container.
+   * Relative paths in file operations resolve against it.
+   * @default "/workspace"
+   */
+  workdir?: string;
+
+  /**
+   * Number of CPUs the container may use (e.g. 1.5).
+   */
+  cpus?: number;
+
+  /**
+   * Memory limit, in Docker's format (e.g. "512m", "2g").
+   */
+  memory?: string;
+
+  /**
+   * Maximum number of processes in the container.
+   */
+  pidsLimit?: number;
+
+  /**
+   * Container network. Use "bridge" to allow outbound access.
+   * @default "none"
+   */
+  network?: string;
+
+  /**
+   * Environment variables set in the container.
+   */
+  env?: Record<string, string>;
+
+  /**
+   * User to run commands as (e.g. "node" or "1000:1000").
+   */
+  user?: string;
+
+  /**
+   * Timeout in milliseconds for command execution.
+   * @default 30000 (30 seconds)
+   */
+  timeout?: number;
+
+  /**
+   * Maximum output size in bytes before truncation.
+   * @default 1048576 (1MB)
+   */
+  maxOutputSize?: number;
+
+  /**
+   * Extra arguments passed to `docker run` before the image name.
+   */
+  runArgs?: string[];
+}
+
+/**
+ * Result of a container runtime CLI invocation.
+ */
+interface RuntimeResult {
+  stdout: Buffer;
+  stderr: string;
+  exitCode: number | null;
+}
+
+/**
+ * Map container errors to FileOperationError literals.
+ */
+function mapDockerError(error: string): FileOperationError {
+  const lower = error.toLowerCase();
+  if (lower.includes("no such file") || lower.includes("not found")) {
+    return "file_not_found";
+  }
+  if (lower.includes("permission") || lower.includes("denied") || lower.includes("read-only")) {
+    return "permission_denied";
+  }
+  if (lower.includes("is a directory")) {
+    return "is_directory";
+  }
+  return "invalid_path";
+}
+
+/**
+ * Run the container runtime CLI and collect its output.
+ *
+ * @throws If the runtime cannot be started (e.g. it is not installed)
+ */
+function runRuntime(
+  runtime: string,
+  args: string[],
+  options: { input?: Uint8Array; timeout?: number } = {}
+): Promise<RuntimeResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(runtime, args, { timeout: options.timeout });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+
+    child.stdout.on("data", (data: Buffer) => stdout.push(data));
+    child.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      resolve({ stdout: Buffer.concat(stdout), stderr: stderr.trim(), exitCode: code });
+    });
+
+    // The process may exit before reading all input (e.g. a bad container id)
+    child.stdin.on("error", () => {});
+    child.stdin.end(options.input);
+  });
+}
+
+/**
+ * Docker sandbox backend implementation.
+ *
+ * Use createDockerSandbox() factory function to create instances.
+ */
+export class DockerSandbox extends BaseSandbox implements BackgroundProcessProtocol {
+  /** Container id */
+  readonly id: string;
+  private readonly runtime: string;
+  private readonly workdir: string;
+  private readonly user: string | undefined;
+  private readonly timeout: number;
+  private readonly maxOutputSize: number;
+  private readonly processes: ProcessManager;
+  private readonly processExecIds = new Map<string, string>();
+  private disposed = false;
+
+  constructor(
+    containerId: string,
+    options: Pick<DockerSandboxOptions, "runtime" | "workdir" | "user" | "timeout" | "maxOutputSize"> = {}
+  ) {
+    super();
+    this.id = containerId;
+    this.runtime = options.runtime ?? "docker";
+    this.workdir = options.workdir ?? "/workspace";
+    this.user = options.user;
+    this.timeout = options.timeout ?? 30000;
+    this.maxOutputSize = options.maxOutputSize ?? 1024 * 1024; // 1MB
+    this.processes = new ProcessManager({
+      spawn: (command, id) => {
+        const execId = this.createExecId();
+        this.processExecIds.set(id, execId);
+        return spawn(this.runtime, [...this.execArgs(), "-i", ...this.execEnv(execId), this.id, "sh", "-c", command]);
+      },
+      kill: async (child, id) => {
+        child.kill("SIGTERM");
+        await this.killExec(this.processExecIds.get(id)!);
+      },
+      maxBufferSize: this.maxOutputSize,
+    });
+  }
+
+  /**
+   * Execute a shell command in the container.
+   *
+   * Commands run with `sh -c` in the working directory. When the command
+   * times out or is aborted, every process it started in the container is
+   * killed, not just the local runtime client.
+   */
+  async execute(command: string, options: ExecuteOptions = {}): Promise<ExecuteResponse> {
+    const { abortSignal, onOutput } = options;
+    if (abortSignal?.aborted) {
+      return { output: "Error: Command aborted", exitCode: null, truncated: false };
+    }
+
+    const execId = this.createExecId();
+
+    return new Promise((resolve) => {
+      const child = spawn(this.runtime, [...this.execArgs(), ...this.execEnv(execId), this.id, "sh", "-c", command]);
+
+      let output = "";
+      let truncated = false;
+      let settled = false;
+
+      const onData = (stream: "stdout" | "stderr") => (data: Buffer) => {
+        if (output.length < this.maxOutputSize) {
+          output += data.toString();
+          onOutput?.(data.toString(), stream);
+        } else {
+          truncated = true;
+        }
+      };
+      child.stdout.on("data", onData("stdout"));
+      child.stderr.on("data", onData("stderr"));
+
+      const finish = (response: ExecuteResponse) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        abortSignal?.removeEventListener("abort", onAbort);
+        resolve(response);
+      };
+
+      // Killing the runtime client leaves the command running in the container
+      const stop = (note: string) => {
+        finish({ output: `${output}\n[${note}]`, exitCode: null, truncated });
+        child.kill("SIGTERM");
+        void this.killExec(execId);
+      };
+
+      const timer = setTimeout(() => stop(`Command timed out after ${this.timeout}ms`), this.timeout);
+      const onAbort = () => stop("Command aborted");
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+      child.on("close", (code) => finish({ output, exitCode: code, truncated }));
+      child.on("error", (err) =>
+        finish({ output: `Error: ${err.message}`, exitCode: 1, truncated: false })
+      );
+    });
+  }
+
+  /**
+   * Upload files to the container as a single tar stream.
+   *
+   * Parent directories are created as needed. If the batch fails, files are
+   * retried one at a time so each gets its own result.
+   */
+  override async uploadFiles(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]> {
+    const entries = files.map(([filePath, content]) => ({
+      path: filePath,
+      name: this.toArchiveName(filePath),
+      content,
+    }));
+    const valid = entries.filter((e) => e.name !== null).map((e): [string, Uint8Array] => [e.name!, e.content]);
+
+    const batchError = valid.length > 0 ? await this.extract(valid) : null;
+    const responses: FileUploadResponse[] = [];
+    for (const entry of entries) {
+      if (entry.name === null) {
+        responses.push({ path: entry.path, error: "invalid_path" });
+      } else if (batchError === null || valid.length === 1) {
+        responses.push({ path: entry.path, error: batchError });
+      } else {
+        responses.push({ path: entry.path, error: await this.extract([[entry.name, entry.content]]) });
+      }
+    }
+    return responses;
+  }
+
+  /**
+   * Download files from the container as a single tar stream.
+   */
+  override async downloadFiles(paths: string[]): Promise<FileDownloadResponse[]> {
+    const names = paths.map((p) => this.toArchiveName(p));
+    const requested = names.filter((name): name is string => name !== null);
+
+    let entries = new Map<string, TarEntry>();
+    let stderrLines: string[] = [];
+    if (requested.length > 0) {
+      try {
+        const result = await runRuntime(
+          this.runtime,
+          [...this.execArgs(), this.id, "tar", "-c", "-f", "-", "-h", "--no-recursion", "-C", "/", "--", ...requested],
+          { timeout: this.timeout }
+        );
+        entries = new Map(readTarArchive(result.stdout).map((entry) => [entry.name, entry]));
+        stderrLines = result.stderr.split("\n");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return paths.map((p) => ({ path: p, content: null, error: mapDockerError(message) }));
+      }
+    }
+
+    return paths.map((filePath, i) => {
+      const name = names[i];
+      if (!name) {
+        return { path: filePath, content: null, error: "invalid_path" };
+      }
+      const entry = entries.get(name);
+      if (entry?.type === "file") {
+        return {
+          path: filePath,
+          content: entry.content,
+          mimeType: getMimeType(filePath),
+          error: null,
+        };
+      }
+      if (entry?.type === "directory") {
+        return { path: filePath, content: null, error: "is_directory" };
+      }
+      const line = stderrLines.find((l) => l.includes(name));
+      return {
+        path: filePath,
+        content: null,
+        error: entry ? "invalid_path" : line ? mapDockerError(line) : "file_not_found",
+      };
+    });
+  }
+
+  /**
+   * Start a command in the background and return immediately.
+   * The process keeps running until it exits or is killed; it is not subject
+   * to the execute() timeout.
+   */
+  async startProcess(command: string): Promise<BackgroundProcessInfo> {
+    return this.processes.start(command);
+  }
+
+  /**
+   * Take the output a background process produced since the previous read.
+   */
+  async readProcessOutput(
+    id: string,
+    options: { waitMs?: number } = {}
+  ): Promise<BackgroundProcessOutput> {
+    return this.processes.read(id, options.waitMs);
+  }
+
+  /**
+   * Write to a background process's stdin.
+   */
+  async sendProcessInput(id: string, input: string): Promise<BackgroundProcessInfo> {
+    return this.processes.send(id, input);
+  }
+
+  /**
+   * Stop a background process and everything it started in the container.
+   */
+  async killProcess(id: string): Promise<BackgroundProcessInfo> {
+    return this.processes.kill(id);
+  }
+
+  /**
+   * List background processes, running or exited.
+   */
+  async listProcesses(): Promise<BackgroundProcessInfo[]> {
+    return this.processes.list();
+  }
+
+  /**
+   * Stop and remove the container.
+   *
+   * Docker sandboxes have no auto-cleanup, so dispose() must be called to
+   * clean up resources. Calling it more than once is safe.
+   */
+  override async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    await this.processes.killAll();
+    const result = await runRuntime(this.runtime, ["rm", "-f", this.id]);
+    if (result.exitCode !== 0 && !/no such container/i.test(result.stderr)) {
+      throw new Error(CONTAINER_COMMAND_FAILED(this.runtime, "rm", result.stderr));
+    }
+  }
+
+  /**
+   * Common `exec` arguments: working directory and user.
+   */
+  private execArgs(): string[] {
+    return ["exec", "-w", this.workdir, ...(this.user ? ["-u", this.user] : [])];
+  }
+
+  /**
+   * Unique tag for the processes of one command, so they can be killed later.
+   */
+  private createExecId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  /**
+   * `exec` arguments that tag the command's processes with an exec id.
+   */
+  private execEnv(execId: string): string[] {
+    return ["-e", `DEEPAGENT_EXEC_ID=${execId}`];
+  }
+
+  /**
+   * Absolute container path without the leading slash, as used in archives.
+   */
+  private toArchiveName(filePath: string): string | null {
+    const name = path.posix.resolve(this.workdir, filePath).substring(1);
+    return name || null;
+  }
+
+  /**
+   * Extract a tar archive at the container root.
+   *
+   * @returns null on success, or the error for the whole archive
+   */
+  private async extract(entries: Array<[string, Uint8Array]>): Promise<FileOperationError | null> {
+    try {
+      const result = await runRuntime(
+        this.runtime,
+        [...this.execArgs(), "-i", this.id, "tar", "-x", "-f", "-", "-C", "/"],
+        { input: createTarArchive(entries), timeout: this.timeout }
+      );
+      return result.exitCode === 0 ? null : mapDockerError(result.stderr);
+    } catch (error) {
+      return mapDockerError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Kill every process in the container started by the given execute() call.
+   */
+  private async killExec(execId: string): Promise<void> {
+    const script =
+      `for p in /proc/[0-9]*; do ` +
+      `if tr '\\0' '\\n' < "$p/environ" 2>/dev/null | grep -qx 'DEEPAGENT_EXEC_ID=${execId}'; then ` +
+      `kill -9 "\${p#/proc/}" 2>/dev/null; fi; done`;
+    await runRuntime(this.runtime, ["exec", "-u", "0", this.id, "sh", "-c", script]).catch(() => {});
+  }
+}
+
+/**
+ * Create a Docker sandbox backend.
+ *
+ * This is an async factory function because the container has to be started
+ * (and the workspace copied in) before commands can run.
+ *
+ * @throws If the runtime is unavailable or the container cannot be started
+ *
+ * @example
+ * ```typescript
+ * const backend = await createDockerSandbox({
+ *   image: "node:22-slim",
+ *   workspace: "./my-project",
+ *   cpus: 2,
+ *   memory: "1g",
+ * });
+ * try {
+ *   const agent = createDeepAgent({ model, backend });
+ *   await agent.generate({ prompt: "Run the tests and fix any failures" });
+ * } finally {
+ *   await backend.dispose();
+ * }
+ * ```
+ */
+export async function createDockerSandbox(
+  options: DockerSandboxOptions = {}
+): Promise<DockerSandbox> {
+  const runtime = options.runtime ?? "docker";
+  const image = options.image ?? "node:22-slim";
+  const workdir = options.workdir ?? "/workspace";
+  const workspaceMode = options.workspaceMode ?? "copy";
+  const workspace = options.workspace ? path.resolve(options.workspace) : undefined;
+
+  const runArgs = ["run", "-d", "--init", "--workdir", workdir, "--network", options.network ?? "none"];
+  if (options.cpus !== undefined) runArgs.push("--cpus", String(options.cpus));
+  if (options.memory !== undefined) runArgs.push("--memory", options.memory);
+  if (options.pidsLimit !== undefined) runArgs.push("--pids-limit", String(options.pidsLimit));
+  for (const [key, value] of Object.entries(options.env ?? {})) {
+    runArgs.push("-e", `${key}=${value}`);
+  }
+  if (options.user) runArgs.push("--user", options.user);
+  if (workspace && workspaceMode === "mount") runArgs.push("-v", `${workspace}:${workdir}`);
+  runArgs.push(...(options.runArgs ?? []), image, "tail", "-f", "/dev/null");
+
+  const run = await runRuntime(runtime, runArgs);
+  const containerId = run.stdout.toString().trim();
+  if (run.exitCode !== 0 || !containerId) {
+    throw new Error(CONTAINER_COMMAND_FAILED(runtime, "run", run.stderr));
+  }
+
+  const sandbox = new DockerSandbox(containerId, { ...options, runtime, workdir });
+
+  if (workspace && workspaceMode === "copy") {
+    const copy = await runRuntime(runtime, ["cp", `${workspace}/.`, `${containerId}:${workdir}`]);
+    if (copy.exitCode !== 0) {
+      await sandbox.dispose().catch(() => {});
+      throw new Error(CONTAINER_COMMAND_FAILED(runtime, "cp", copy.stderr));
+    }
+    // Copied files belong to root; hand them to the configured user
+    if (options.user) {
+      await runRuntime(runtime, ["exec", "-u", "0", containerId, "chown", "-R", options.user, workdir]);
+    }
+  }
+
+  return sandbox;
+}
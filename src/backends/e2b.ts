@@ -17,6 +17,7 @@
  */
 
 import { BaseSandbox } from "./sandbox";
+import { getMimeType } from "./utils";
 import type {
   ExecuteResponse,
   FileDownloadResponse,
@@ -185,6 +186,7 @@ export class E2BBackend extends BaseSandbox {
         responses.push({
           path,
           content: new Uint8Array(content),
+          mimeType: getMimeType(path),
           error: null,
         });
       } catch (error) {
@@ -205,7 +207,7 @@ export class E2BBackend extends BaseSandbox {
    * E2B automatically cleans up after 5 minutes of inactivity, but we can
    * manually kill it to clean up immediately.
    */
-  async dispose(): Promise<void> {
+  override async dispose(): Promise<void> {
     await this._sandbox.kill();
   }
 }
@@ -6,29 +6,99 @@ import * as fs from "fs/promises";
 import * as fsSync from "fs";
 import * as path from "path";
 import { spawn } from "child_process";
+import { createHash } from "crypto";
 import fg from "fast-glob";
 import micromatch from "micromatch";
 import type {
   BackendProtocol,
   EditResult,
+  ExternalFileChange,
   FileData,
+  FileDownloadResponse,
   FileInfo,
+  FileOperationError,
+  FileOperationResult,
+  FileUploadResponse,
   GrepMatch,
   WriteResult,
 } from "../types";
 import {
   checkEmptyContent,
+  createFileDataFromBytes,
   formatContentWithLineNumbers,
+  getMimeType,
+  isBinaryContent,
   performStringReplacement,
 } from "./utils";
 import {
   FILE_NOT_FOUND,
   FILE_ALREADY_EXISTS,
+  BINARY_FILE_CANNOT_DISPLAY,
+  BINARY_FILE_CANNOT_EDIT,
+  PATH_ALREADY_EXISTS,
+  DIRECTORY_NOT_EMPTY,
+  CANNOT_MOVE_INTO_ITSELF,
+  NOT_A_DIRECTORY,
+  FILE_CHANGED_EXTERNALLY,
+  PATH_NOT_ALLOWED,
+  PATH_READ_ONLY,
+  FILE_TOO_LARGE,
 } from "../constants/errors";
 import { MAX_FILE_SIZE_MB, DEFAULT_READ_LIMIT } from "../constants/limits";
+import { PathFilter, type PathPolicy } from "./path-filter";
 
 const SUPPORTS_NOFOLLOW = fsSync.constants.O_NOFOLLOW !== undefined;
 
+/**
+ * Version of a file as the backend last read or wrote it.
+ */
+interface FileVersion {
+  /** Path as passed to the backend */
+  filePath: string;
+  /** SHA-256 of the file's bytes */
+  hash: string;
+  mtimeMs: number;
+  size: number;
+  /** Hash (or "deleted") of the external state already reported by the watcher */
+  reported?: string;
+}
+
+/**
+ * A path policy violation, ready to return from a backend operation.
+ */
+interface PolicyViolation {
+  error: string;
+  code: FileOperationError;
+}
+
+/**
+ * Hash file content to compare versions.
+ */
+function hashContent(content: Uint8Array | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Map a Node.js filesystem error to a FileOperationError literal.
+ */
+function mapFsErrorToOperationError(e: unknown): FileOperationError {
+  const code = (e as NodeJS.ErrnoException).code;
+  switch (code) {
+    case "ENOENT":
+    case "ENOTDIR":
+      return "file_not_found";
+    case "EISDIR":
+      return "is_directory";
+    case "EACCES":
+    case "EPERM":
+    case "ELOOP":
+    case "EROFS":
+      return "permission_denied";
+    default:
+      return "invalid_path";
+  }
+}
+
 /**
  * Backend that reads and writes files directly from the filesystem.
  *
@@ -53,11 +123,44 @@ const SUPPORTS_NOFOLLOW = fsSync.constants.O_NOFOLLOW !== undefined;
  *   maxFileSizeMb: 50, // Allow larger files
  * });
  * ```
+ *
+ * @example Restricting what the agent can see and change
+ * ```typescript
+ * const backend = new FilesystemBackend({
+ *   rootDir: './my-project',
+ *   pathPolicy: {
+ *     deny: ['.env*', 'secrets/**'],
+ *     readOnly: ['package.json', 'migrations/**'],
+ *     maxFileSizeBytes: 1024 * 1024,
+ *   },
+ * });
+ * ```
+ *
+ * @example Watching for edits made outside the agent
+ * ```typescript
+ * const backend = new FilesystemBackend({ rootDir: './my-project', watch: true });
+ * // ...
+ * for (const change of backend.takeExternalChanges()) {
+ *   console.log(`${change.path} was ${change.change} externally`);
+ * }
+ * backend.close();
+ * ```
  */
 export class FilesystemBackend implements BackendProtocol {
   private cwd: string;
   private virtualMode: boolean;
   private maxFileSizeBytes: number;
+  private detectExternalChanges: boolean;
+  private watchEnabled: boolean;
+  private pathFilter: PathFilter;
+  /** Versions of files the backend has read or written, by resolved path */
+  private versions = new Map<string, FileVersion>();
+  /** Directory watchers, by directory */
+  private watchers = new Map<string, fsSync.FSWatcher>();
+  /** External changes not yet taken, by resolved path */
+  private externalChanges = new Map<string, ExternalFileChange>();
+  /** Resolved paths the backend is overwriting right now */
+  private writing = new Set<string>();
 
   /**
    * Create a new FilesystemBackend instance.
@@ -69,24 +172,47 @@ export class FilesystemBackend implements BackendProtocol {
    *                              When true, files are stored in memory but paths are validated against filesystem.
    * @param options.maxFileSizeMb - Optional maximum file size in MB (default: 10).
    *                                Files larger than this will be rejected.
+   * @param options.detectExternalChanges - Optional flag (default: true). When true, the backend
+   *                                        remembers the version of every file it reads or writes
+   *                                        and refuses to edit, overwrite or delete a file that was
+   *                                        changed on disk since then.
+   * @param options.watch - Optional flag (default: false). When true, the directories of files
+   *                        the backend has read or written are watched, and external changes to
+   *                        those files are collected for `takeExternalChanges()`.
+   * @param options.pathPolicy - Optional policy of hidden, read-only and allowed paths and a file size cap.
+   *                             `.gitignore` and `.ignore` files are honored in listings and searches
+   *                             unless `respectIgnoreFiles` is false.
    */
   constructor(
     options: {
       rootDir?: string;
       virtualMode?: boolean;
       maxFileSizeMb?: number;
+      detectExternalChanges?: boolean;
+      watch?: boolean;
+      pathPolicy?: PathPolicy;
     } = {}
   ) {
-    const { rootDir, virtualMode = false, maxFileSizeMb = MAX_FILE_SIZE_MB } = options;
+    const {
+      rootDir,
+      virtualMode = false,
+      maxFileSizeMb = MAX_FILE_SIZE_MB,
+      detectExternalChanges = true,
+      watch = false,
+      pathPolicy,
+    } = options;
     this.cwd = rootDir ? path.resolve(rootDir) : process.cwd();
     this.virtualMode = virtualMode;
     this.maxFileSizeBytes = maxFileSizeMb * 1024 * 1024;
+    this.detectExternalChanges = detectExternalChanges;
+    this.watchEnabled = watch && detectExternalChanges;
+    this.pathFilter = new PathFilter(this.cwd, pathPolicy);
   }
 
   /**
    * Resolve a file path with security checks.
    */
-  private resolvePath(key: string): string {
+  protected resolvePath(key: string): string {
     if (this.virtualMode) {
       const vpath = key.startsWith("/") ? key : "/" + key;
       if (vpath.includes("..") || vpath.startsWith("~")) {
@@ -114,12 +240,13 @@ export class FilesystemBackend implements BackendProtocol {
       const resolvedPath = this.resolvePath(dirPath);
       const stat = await fs.stat(resolvedPath);
 
-      if (!stat.isDirectory()) {
+      if (!stat.isDirectory() || this.pathFilter.check(resolvedPath, "read", true)) {
         return [];
       }
 
       const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
       const results: FileInfo[] = [];
+      const isVisible = this.pathFilter.visibility();
 
       const cwdStr = this.cwd.endsWith(path.sep)
         ? this.cwd
@@ -132,6 +259,9 @@ export class FilesystemBackend implements BackendProtocol {
           const entryStat = await fs.stat(fullPath);
           const isFile = entryStat.isFile();
           const isDir = entryStat.isDirectory();
+          if (!(await isVisible(fullPath, isDir))) {
+            continue;
+          }
 
           if (!this.virtualMode) {
             if (isFile) {
@@ -202,8 +332,12 @@ export class FilesystemBackend implements BackendProtocol {
   ): Promise<string> {
     try {
       const resolvedPath = this.resolvePath(filePath);
+      const violation = await this.checkRead(filePath, resolvedPath);
+      if (violation) {
+        return violation.error;
+      }
 
-      let content: string;
+      let bytes: Buffer;
 
       if (SUPPORTS_NOFOLLOW) {
         const stat = await fs.stat(resolvedPath);
@@ -215,7 +349,7 @@ export class FilesystemBackend implements BackendProtocol {
           fsSync.constants.O_RDONLY | fsSync.constants.O_NOFOLLOW
         );
         try {
-          content = await fd.readFile({ encoding: "utf-8" });
+          bytes = await fd.readFile();
         } finally {
           await fd.close();
         }
@@ -227,8 +361,15 @@ export class FilesystemBackend implements BackendProtocol {
         if (!stat.isFile()) {
           return FILE_NOT_FOUND(filePath);
         }
-        content = await fs.readFile(resolvedPath, "utf-8");
+        bytes = await fs.readFile(resolvedPath);
+      }
+
+      await this.trackVersion(filePath, resolvedPath, bytes);
+
+      if (isBinaryContent(bytes)) {
+        return BINARY_FILE_CANNOT_DISPLAY(getMimeType(filePath), bytes.length);
       }
+      const content = bytes.toString("utf-8");
 
       const emptyMsg = checkEmptyContent(content);
       if (emptyMsg) {
@@ -256,8 +397,12 @@ export class FilesystemBackend implements BackendProtocol {
    */
   async readRaw(filePath: string): Promise<FileData> {
     const resolvedPath = this.resolvePath(filePath);
+    const violation = await this.checkRead(filePath, resolvedPath);
+    if (violation) {
+      throw new Error(violation.error);
+    }
 
-    let content: string;
+    let bytes: Buffer;
     let stat: fsSync.Stats;
 
     if (SUPPORTS_NOFOLLOW) {
@@ -268,7 +413,7 @@ export class FilesystemBackend implements BackendProtocol {
         fsSync.constants.O_RDONLY | fsSync.constants.O_NOFOLLOW
       );
       try {
-        content = await fd.readFile({ encoding: "utf-8" });
+        bytes = await fd.readFile();
       } finally {
         await fd.close();
       }
@@ -278,11 +423,13 @@ export class FilesystemBackend implements BackendProtocol {
         throw new Error(`Symlinks are not allowed: ${filePath}`);
       }
       if (!stat.isFile()) throw new Error(`File '${filePath}' not found`);
-      content = await fs.readFile(resolvedPath, "utf-8");
+      bytes = await fs.readFile(resolvedPath);
     }
 
+    await this.trackVersion(filePath, resolvedPath, bytes);
+
     return {
-      content: content.split("\n"),
+      ...createFileDataFromBytes(filePath, bytes),
       created_at: stat.ctime.toISOString(),
       modified_at: stat.mtime.toISOString(),
     };
@@ -294,6 +441,12 @@ export class FilesystemBackend implements BackendProtocol {
   async write(filePath: string, content: string): Promise<WriteResult> {
     try {
       const resolvedPath = this.resolvePath(filePath);
+      const violation =
+        this.checkPolicy(filePath, resolvedPath, "write") ??
+        this.checkSize(filePath, Buffer.byteLength(content, "utf-8"));
+      if (violation) {
+        return { success: false, ...violation };
+      }
 
       try {
         const stat = await fs.lstat(resolvedPath);
@@ -330,6 +483,7 @@ export class FilesystemBackend implements BackendProtocol {
         await fs.writeFile(resolvedPath, content, "utf-8");
       }
 
+      await this.trackVersion(filePath, resolvedPath, content);
       return { success: true, path: filePath };
     } catch (e: unknown) {
       const error = e as Error;
@@ -348,8 +502,12 @@ export class FilesystemBackend implements BackendProtocol {
   ): Promise<EditResult> {
     try {
       const resolvedPath = this.resolvePath(filePath);
+      const violation = this.checkPolicy(filePath, resolvedPath, "write");
+      if (violation) {
+        return { success: false, ...violation };
+      }
 
-      let content: string;
+      let bytes: Buffer;
 
       if (SUPPORTS_NOFOLLOW) {
         const stat = await fs.stat(resolvedPath);
@@ -362,7 +520,7 @@ export class FilesystemBackend implements BackendProtocol {
           fsSync.constants.O_RDONLY | fsSync.constants.O_NOFOLLOW
         );
         try {
-          content = await fd.readFile({ encoding: "utf-8" });
+          bytes = await fd.readFile();
         } finally {
           await fd.close();
         }
@@ -374,9 +532,22 @@ export class FilesystemBackend implements BackendProtocol {
         if (!stat.isFile()) {
           return { success: false, error: FILE_NOT_FOUND(filePath) };
         }
-        content = await fs.readFile(resolvedPath, "utf-8");
+        bytes = await fs.readFile(resolvedPath);
       }
 
+      if (this.isChangedExternally(resolvedPath, bytes)) {
+        return {
+          success: false,
+          error: FILE_CHANGED_EXTERNALLY(filePath),
+          code: "file_changed_externally",
+        };
+      }
+
+      if (isBinaryContent(bytes)) {
+        return { success: false, error: BINARY_FILE_CANNOT_EDIT(filePath) };
+      }
+      const content = bytes.toString("utf-8");
+
       const result = performStringReplacement(
         content,
         oldString,
@@ -389,23 +560,33 @@ export class FilesystemBackend implements BackendProtocol {
       }
 
       const [newContent, occurrences] = result;
+      const tooLarge = this.checkSize(filePath, Buffer.byteLength(newContent, "utf-8"));
+      if (tooLarge) {
+        return { success: false, ...tooLarge };
+      }
 
-      if (SUPPORTS_NOFOLLOW) {
-        const flags =
-          fsSync.constants.O_WRONLY |
-          fsSync.constants.O_TRUNC |
-          fsSync.constants.O_NOFOLLOW;
+      this.writing.add(resolvedPath);
+      try {
+        if (SUPPORTS_NOFOLLOW) {
+          const flags =
+            fsSync.constants.O_WRONLY |
+            fsSync.constants.O_TRUNC |
+            fsSync.constants.O_NOFOLLOW;
 
-        const fd = await fs.open(resolvedPath, flags);
-        try {
-          await fd.writeFile(newContent, "utf-8");
-        } finally {
-          await fd.close();
+          const fd = await fs.open(resolvedPath, flags);
+          try {
+            await fd.writeFile(newContent, "utf-8");
+          } finally {
+            await fd.close();
+          }
+        } else {
+          await fs.writeFile(resolvedPath, newContent, "utf-8");
         }
-      } else {
-        await fs.writeFile(resolvedPath, newContent, "utf-8");
-      }
 
+        await this.trackVersion(filePath, resolvedPath, newContent);
+      } finally {
+        this.writing.delete(resolvedPath);
+      }
       return { success: true, path: filePath, occurrences };
     } catch (e: unknown) {
       const error = e as Error;
@@ -413,6 +594,302 @@ export class FilesystemBackend implements BackendProtocol {
     }
   }
 
+  /**
+   * Delete a file, or a directory when `recursive` is true.
+   * Symlinks are removed themselves; their targets are never touched.
+   */
+  async delete(filePath: string, recursive: boolean = false): Promise<FileOperationResult> {
+    try {
+      const resolvedPath = this.resolvePath(filePath);
+      const stat = await fs.lstat(resolvedPath).catch(() => undefined);
+      if (!stat) {
+        return { success: false, error: FILE_NOT_FOUND(filePath) };
+      }
+      const violation = await this.checkTree(filePath, resolvedPath, "write");
+      if (violation) {
+        return { success: false, ...violation };
+      }
+
+      if (stat.isDirectory()) {
+        const entries = await fs.readdir(resolvedPath);
+        if (entries.length > 0 && !recursive) {
+          return { success: false, error: DIRECTORY_NOT_EMPTY(filePath) };
+        }
+        await fs.rm(resolvedPath, { recursive: true });
+        this.forgetVersions(resolvedPath);
+        return { success: true, path: filePath };
+      }
+
+      if (stat.isFile() && this.versions.has(resolvedPath)) {
+        const bytes = await fs.readFile(resolvedPath);
+        if (this.isChangedExternally(resolvedPath, bytes)) {
+          return {
+            success: false,
+            error: FILE_CHANGED_EXTERNALLY(filePath),
+            code: "file_changed_externally",
+          };
+        }
+      }
+
+      await fs.unlink(resolvedPath);
+      this.forgetVersions(resolvedPath);
+      return { success: true, path: filePath, count: 1 };
+    } catch (e: unknown) {
+      const error = e as Error;
+      return { success: false, error: `Error deleting '${filePath}': ${error.message}` };
+    }
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  async move(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    try {
+      const violation =
+        (await this.checkTree(from, this.resolvePath(from), "write")) ??
+        (await this.checkTree(to, this.resolvePath(to), "write"));
+      if (violation) {
+        return { success: false, ...violation };
+      }
+      const prepared = await this.prepareTransfer(from, to, overwrite);
+      if (typeof prepared === "string") {
+        return { success: false, error: prepared };
+      }
+      const [source, dest] = prepared;
+
+      try {
+        await fs.rename(source, dest);
+      } catch (e: unknown) {
+        // rename cannot cross devices; fall back to copy and remove
+        if ((e as NodeJS.ErrnoException).code !== "EXDEV") {
+          throw e;
+        }
+        await fs.cp(source, dest, { recursive: true, force: true, verbatimSymlinks: true });
+        await fs.rm(source, { recursive: true });
+      }
+
+      this.forgetVersions(source);
+      this.forgetVersions(dest);
+      return { success: true, path: to };
+    } catch (e: unknown) {
+      const error = e as Error;
+      return { success: false, error: `Error moving '${from}': ${error.message}` };
+    }
+  }
+
+  /**
+   * Copy a file or directory. Symlinks are copied as links, not followed.
+   */
+  async copy(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    try {
+      const violation =
+        (await this.checkTree(from, this.resolvePath(from), "read")) ??
+        (await this.checkTree(to, this.resolvePath(to), "write"));
+      if (violation) {
+        return { success: false, ...violation };
+      }
+      const prepared = await this.prepareTransfer(from, to, overwrite);
+      if (typeof prepared === "string") {
+        return { success: false, error: prepared };
+      }
+      const [source, dest] = prepared;
+      await fs.cp(source, dest, { recursive: true, force: true, verbatimSymlinks: true });
+      this.forgetVersions(dest);
+      return { success: true, path: to };
+    } catch (e: unknown) {
+      const error = e as Error;
+      return { success: false, error: `Error copying '${from}': ${error.message}` };
+    }
+  }
+
+  /**
+   * Create a directory and any missing parents.
+   */
+  async mkdir(dirPath: string): Promise<FileOperationResult> {
+    try {
+      const resolvedPath = this.resolvePath(dirPath);
+      const violation = this.checkPolicy(dirPath, resolvedPath, "write", true);
+      if (violation) {
+        return { success: false, ...violation };
+      }
+      const stat = await fs.lstat(resolvedPath).catch(() => undefined);
+      if (stat && !stat.isDirectory()) {
+        return { success: false, error: NOT_A_DIRECTORY(dirPath) };
+      }
+      await fs.mkdir(resolvedPath, { recursive: true });
+      return { success: true, path: dirPath };
+    } catch (e: unknown) {
+      const error = e as Error;
+      return { success: false, error: `Error creating directory '${dirPath}': ${error.message}` };
+    }
+  }
+
+  /**
+   * Validate a move or copy and prepare the destination.
+   *
+   * @returns Resolved source and destination paths, or an error string
+   */
+  private async prepareTransfer(
+    from: string,
+    to: string,
+    overwrite: boolean
+  ): Promise<[string, string] | string> {
+    const source = this.resolvePath(from);
+    const dest = this.resolvePath(to);
+
+    const sourceStat = await fs.lstat(source).catch(() => undefined);
+    if (!sourceStat) {
+      return FILE_NOT_FOUND(from);
+    }
+    if (sourceStat.isDirectory() && (dest + path.sep).startsWith(source + path.sep)) {
+      return CANNOT_MOVE_INTO_ITSELF(from, to);
+    }
+
+    const destStat = await fs.lstat(dest).catch(() => undefined);
+    if (destStat) {
+      if (!overwrite) {
+        return PATH_ALREADY_EXISTS(to);
+      }
+      await fs.rm(dest, { recursive: true });
+    }
+
+    await fs.mkdir(path.dirname(dest), { recursive: true });
+    return [source, dest];
+  }
+
+  /**
+   * Upload files as raw bytes, creating parent directories and
+   * overwriting existing files. Symlinks are never followed.
+   */
+  async uploadFiles(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]> {
+    const responses: FileUploadResponse[] = [];
+
+    for (const [filePath, bytes] of files) {
+      let resolvedPath: string;
+      try {
+        resolvedPath = this.resolvePath(filePath);
+      } catch {
+        responses.push({ path: filePath, error: "invalid_path" });
+        continue;
+      }
+
+      const violation =
+        this.checkPolicy(filePath, resolvedPath, "write") ?? this.checkSize(filePath, bytes.length);
+      if (violation) {
+        responses.push({ path: filePath, error: violation.code });
+        continue;
+      }
+
+      try {
+        if (this.versions.has(resolvedPath)) {
+          const current = await fs.readFile(resolvedPath).catch(() => undefined);
+          if (current && this.isChangedExternally(resolvedPath, current)) {
+            responses.push({ path: filePath, error: "file_changed_externally" });
+            continue;
+          }
+        }
+
+        await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+
+        this.writing.add(resolvedPath);
+        try {
+          if (SUPPORTS_NOFOLLOW) {
+            const flags =
+              fsSync.constants.O_WRONLY |
+              fsSync.constants.O_CREAT |
+              fsSync.constants.O_TRUNC |
+              fsSync.constants.O_NOFOLLOW;
+
+            const fd = await fs.open(resolvedPath, flags, 0o644);
+            try {
+              await fd.writeFile(bytes);
+            } finally {
+              await fd.close();
+            }
+          } else {
+            const stat = await fs.lstat(resolvedPath).catch(() => undefined);
+            if (stat?.isSymbolicLink()) {
+              responses.push({ path: filePath, error: "permission_denied" });
+              continue;
+            }
+            await fs.writeFile(resolvedPath, bytes);
+          }
+
+          await this.trackVersion(filePath, resolvedPath, bytes);
+        } finally {
+          this.writing.delete(resolvedPath);
+        }
+        responses.push({ path: filePath, error: null });
+      } catch (e: unknown) {
+        responses.push({ path: filePath, error: mapFsErrorToOperationError(e) });
+      }
+    }
+
+    return responses;
+  }
+
+  /**
+   * Download files as raw bytes. Symlinks are never followed.
+   */
+  async downloadFiles(paths: string[]): Promise<FileDownloadResponse[]> {
+    const responses: FileDownloadResponse[] = [];
+
+    for (const filePath of paths) {
+      let resolvedPath: string;
+      try {
+        resolvedPath = this.resolvePath(filePath);
+      } catch {
+        responses.push({ path: filePath, content: null, error: "invalid_path" });
+        continue;
+      }
+
+      const violation = await this.checkRead(filePath, resolvedPath);
+      if (violation) {
+        responses.push({ path: filePath, content: null, error: violation.code });
+        continue;
+      }
+
+      try {
+        const stat = await fs.lstat(resolvedPath);
+        if (stat.isSymbolicLink()) {
+          responses.push({ path: filePath, content: null, error: "permission_denied" });
+          continue;
+        }
+        if (stat.isDirectory()) {
+          responses.push({ path: filePath, content: null, error: "is_directory" });
+          continue;
+        }
+
+        let bytes: Buffer;
+        if (SUPPORTS_NOFOLLOW) {
+          const fd = await fs.open(
+            resolvedPath,
+            fsSync.constants.O_RDONLY | fsSync.constants.O_NOFOLLOW
+          );
+          try {
+            bytes = await fd.readFile();
+          } finally {
+            await fd.close();
+          }
+        } else {
+          bytes = await fs.readFile(resolvedPath);
+        }
+
+        await this.trackVersion(filePath, resolvedPath, bytes);
+        responses.push({
+          path: filePath,
+          content: new Uint8Array(bytes),
+          mimeType: getMimeType(filePath),
+          error: null,
+        });
+      } catch (e: unknown) {
+        responses.push({ path: filePath, content: null, error: mapFsErrorToOperationError(e) });
+      }
+    }
+
+    return responses;
+  }
+
   /**
    * Structured search results or error string for invalid input.
    */
@@ -437,20 +914,28 @@ export class FilesystemBackend implements BackendProtocol {
       return [];
     }
 
+    let baseStat: fsSync.Stats;
     try {
-      await fs.stat(baseFull);
+      baseStat = await fs.stat(baseFull);
     } catch {
       return [];
     }
+    if (this.pathFilter.check(baseFull, "read", baseStat.isDirectory())) {
+      return PATH_NOT_ALLOWED(dirPath);
+    }
 
     // Try ripgrep first, fallback to regex search
+    const isVisible = this.pathFilter.visibility();
     let results = await this.ripgrepSearch(pattern, baseFull, glob);
     if (results === null) {
-      results = await this.regexSearch(pattern, baseFull, glob);
+      results = await this.regexSearch(pattern, baseFull, glob, isVisible);
     }
 
     const matches: GrepMatch[] = [];
     for (const [fpath, items] of Object.entries(results)) {
+      if (!(await isVisible(this.resolvePath(fpath), false))) {
+        continue;
+      }
       for (const [lineNum, lineText] of items) {
         matches.push({ path: fpath, line: lineNum, text: lineText });
       }
@@ -467,7 +952,9 @@ export class FilesystemBackend implements BackendProtocol {
     includeGlob: string | null
   ): Promise<Record<string, Array<[number, string]>> | null> {
     return new Promise((resolve) => {
-      const args = ["--json"];
+      // Hidden and ignored files are filtered by the path policy afterwards
+      const args = ["--json", "--hidden", "--glob", "!.git"];
+      args.push(this.pathFilter.respectIgnoreFiles ? "--no-require-git" : "--no-ignore");
       if (includeGlob) {
         args.push("--glob", includeGlob);
       }
@@ -540,7 +1027,8 @@ export class FilesystemBackend implements BackendProtocol {
   private async regexSearch(
     pattern: string,
     baseFull: string,
-    includeGlob: string | null
+    includeGlob: string | null,
+    isVisible: (absPath: string, isDir: boolean) => Promise<boolean>
   ): Promise<Record<string, Array<[number, string]>>> {
     let regex: RegExp;
     try {
@@ -568,6 +1056,9 @@ export class FilesystemBackend implements BackendProtocol {
         ) {
           continue;
         }
+        if (!(await isVisible(fp, false))) {
+          continue;
+        }
 
         const fileStat = await fs.stat(fp);
         if (fileStat.size > this.maxFileSizeBytes) {
@@ -621,7 +1112,7 @@ export class FilesystemBackend implements BackendProtocol {
 
     try {
       const stat = await fs.stat(resolvedSearchPath);
-      if (!stat.isDirectory()) {
+      if (!stat.isDirectory() || this.pathFilter.check(resolvedSearchPath, "read", true)) {
         return [];
       }
     } catch {
@@ -629,6 +1120,7 @@ export class FilesystemBackend implements BackendProtocol {
     }
 
     const results: FileInfo[] = [];
+    const isVisible = this.pathFilter.visibility();
 
     try {
       const matches = await fg(pattern, {
@@ -642,6 +1134,7 @@ export class FilesystemBackend implements BackendProtocol {
         try {
           const fileStat = await fs.stat(matchedPath);
           if (!fileStat.isFile()) continue;
+          if (!(await isVisible(path.resolve(matchedPath), false))) continue;
 
           const normalizedPath = matchedPath.split("/").join(path.sep);
 
@@ -688,5 +1181,215 @@ export class FilesystemBackend implements BackendProtocol {
     results.sort((a, b) => a.path.localeCompare(b.path));
     return results;
   }
+
+  /**
+   * Check a path against the path policy.
+   */
+  private checkPolicy(
+    filePath: string,
+    resolvedPath: string,
+    access: "read" | "write",
+    isDir: boolean = false
+  ): PolicyViolation | undefined {
+    const code = this.pathFilter.check(resolvedPath, access, isDir);
+    if (code === "path_not_allowed") {
+      return { error: PATH_NOT_ALLOWED(filePath), code };
+    }
+    if (code === "path_read_only") {
+      return { error: PATH_READ_ONLY(filePath), code };
+    }
+    return undefined;
+  }
+
+  /**
+   * Check a file size against the policy's size cap.
+   */
+  private checkSize(filePath: string, size: number): PolicyViolation | undefined {
+    const max = this.pathFilter.maxFileSizeBytes;
+    if (max !== undefined && size > max) {
+      return { error: FILE_TOO_LARGE(filePath, size, max), code: "file_too_large" };
+    }
+    return undefined;
+  }
+
+  /**
+   * Check that a file may be read and is within the size cap.
+   */
+  private async checkRead(filePath: string, resolvedPath: string): Promise<PolicyViolation | undefined> {
+    const violation = this.checkPolicy(filePath, resolvedPath, "read");
+    if (violation || this.pathFilter.maxFileSizeBytes === undefined) {
+      return violation;
+    }
+    const stat = await fs.stat(resolvedPath).catch(() => undefined);
+    return stat?.isFile() ? this.checkSize(filePath, stat.size) : undefined;
+  }
+
+  /**
+   * Check a path and, for a directory, everything inside it against the path policy.
+   */
+  private async checkTree(
+    filePath: string,
+    resolvedPath: string,
+    access: "read" | "write"
+  ): Promise<PolicyViolation | undefined> {
+    const stat = await fs.lstat(resolvedPath).catch(() => undefined);
+    const isDir = stat?.isDirectory() ?? false;
+    const violation = this.checkPolicy(filePath, resolvedPath, access, isDir);
+    if (violation || !isDir || !this.pathFilter.hasRules) {
+      return violation;
+    }
+
+    const entries = await fg("**", { cwd: resolvedPath, dot: true, onlyFiles: false, markDirectories: true });
+    for (const entry of entries) {
+      const name = entry.replace(/\/$/, "");
+      const entryViolation = this.checkPolicy(
+        path.posix.join(filePath, name),
+        path.join(resolvedPath, name),
+        access,
+        entry.endsWith("/")
+      );
+      if (entryViolation) {
+        return entryViolation;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Take the external changes collected since the last call (requires `watch`).
+   * Only files the backend has read or written are reported.
+   *
+   * @returns Changed files, oldest first
+   */
+  takeExternalChanges(): ExternalFileChange[] {
+    const changes = [...this.externalChanges.values()];
+    this.externalChanges.clear();
+    return changes;
+  }
+
+  /**
+   * Stop watching for external changes.
+   */
+  close(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * Remember the version of a file the backend just read or wrote.
+   */
+  private async trackVersion(
+    filePath: string,
+    resolvedPath: string,
+    content: Uint8Array | string
+  ): Promise<void> {
+    if (!this.detectExternalChanges) {
+      return;
+    }
+    const stat = await fs.stat(resolvedPath).catch(() => undefined);
+    if (!stat) {
+      return;
+    }
+    this.versions.set(resolvedPath, {
+      filePath,
+      hash: hashContent(content),
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+    });
+    if (this.watchEnabled) {
+      this.watchDirectory(path.dirname(resolvedPath));
+    }
+  }
+
+  /**
+   * Whether a file's current content differs from the version the backend last saw.
+   * Files the backend has not seen are never considered changed.
+   */
+  private isChangedExternally(resolvedPath: string, content: Uint8Array): boolean {
+    const version = this.versions.get(resolvedPath);
+    return version !== undefined && version.hash !== hashContent(content);
+  }
+
+  /**
+   * Forget the versions of a path and everything under it.
+   */
+  private forgetVersions(resolvedPath: string): void {
+    for (const key of [...this.versions.keys()]) {
+      if (key === resolvedPath || key.startsWith(resolvedPath + path.sep)) {
+        this.versions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Watch a directory for changes to the tracked files in it.
+   * Directories are watched rather than files so editors that save by
+   * replacing the file are noticed too.
+   */
+  private watchDirectory(dir: string): void {
+    if (this.watchers.has(dir)) {
+      return;
+    }
+    try {
+      const watcher = fsSync.watch(dir, { persistent: false }, (_event, filename) => {
+        if (filename) {
+          void this.checkExternalChange(path.join(dir, filename.toString()));
+        }
+      });
+      watcher.on("error", () => {
+        watcher.close();
+        this.watchers.delete(dir);
+      });
+      this.watchers.set(dir, watcher);
+    } catch {
+      // Directory is gone or cannot be watched; conflicts are still caught on write
+    }
+  }
+
+  /**
+   * Compare a tracked file on disk with its known version and collect a change
+   * if it differs and has not been reported yet.
+   */
+  private async checkExternalChange(resolvedPath: string): Promise<void> {
+    const version = this.versions.get(resolvedPath);
+    if (!version) {
+      return;
+    }
+
+    let current: string;
+    try {
+      const stat = await fs.stat(resolvedPath);
+      if (!stat.isFile()) {
+        current = "deleted";
+      } else if (stat.mtimeMs === version.mtimeMs && stat.size === version.size) {
+        return;
+      } else {
+        current = hashContent(await fs.readFile(resolvedPath));
+      }
+    } catch {
+      current = "deleted";
+    }
+
+    // The backend may be writing the file itself, or have done so while this check was running
+    const stat = await fs.stat(resolvedPath).catch(() => undefined);
+    const latest = this.versions.get(resolvedPath);
+    if (
+      !latest ||
+      this.writing.has(resolvedPath) ||
+      current === latest.hash ||
+      current === latest.reported ||
+      (stat && stat.mtimeMs === latest.mtimeMs && stat.size === latest.size)
+    ) {
+      return;
+    }
+    latest.reported = current;
+    this.externalChanges.delete(resolvedPath);
+    this.externalChanges.set(resolvedPath, {
+      path: latest.filePath,
+      change: current === "deleted" ? "deleted" : "modified",
+    });
+  }
 }
 
@@ -0,0 +1,533 @@
+/**
+ * GitBackend: FilesystemBackend that records agent changes as git commits.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { spawn } from "child_process";
+import type {
+  EditResult,
+  FileOperationResult,
+  FileUploadResponse,
+  TodoItem,
+  WriteResult,
+} from "../types";
+import { FilesystemBackend } from "./filesystem";
+import type { PathPolicy } from "./path-filter";
+import {
+  GIT_COMMAND_FAILED,
+  INVALID_GIT_REF,
+  NOT_A_GIT_REPOSITORY,
+} from "../constants/errors";
+import { FILESYSTEM_TIMEOUT_MS } from "../constants/limits";
+
+/**
+ * Options for GitBackend.
+ */
+export interface GitBackendOptions {
+  /** Directory inside a git repository to work in (default: current working directory) */
+  rootDir?: string;
+  /** Treat paths as virtual paths under `rootDir`, as in FilesystemBackend (default: false) */
+  virtualMode?: boolean;
+  /** Maximum file size in MB (default: 10) */
+  maxFileSizeMb?: number;
+  /** Refuse to change files edited outside the agent since they were read (default: true) */
+  detectExternalChanges?: boolean;
+  /** Collect external changes to files the agent has read or written (default: false) */
+  watch?: boolean;
+  /** Hidden, read-only and allowed paths, and a file size cap */
+  pathPolicy?: PathPolicy;
+  /**
+   * Branch that receives the agent's commits. It starts from the repository's
+   * HEAD and is never checked out, so the user's branch and index are untouched.
+   * @default "deep-agent/changes"
+   */
+  branch?: string;
+  /**
+   * When the agent commits pending changes: after every step, or once at the end of each run.
+   * @default "step"
+   */
+  commitOn?: "step" | "run";
+  /** Author and committer of the agent's commits */
+  author?: { name: string; email: string };
+}
+
+/**
+ * A commit created by GitBackend.
+ */
+export interface GitCommitInfo {
+  /** Full commit hash */
+  sha: string;
+  /** Branch the commit was added to */
+  branch: string;
+  /** Commit message */
+  message: string;
+  /** Repository-relative paths changed by the commit */
+  files: string[];
+}
+
+/**
+ * A file operation waiting to be committed.
+ */
+interface PendingChange {
+  operation: "write" | "edit" | "delete" | "move" | "copy" | "upload";
+  /** Path as passed to the backend (`from -> to` for moves and copies) */
+  description: string;
+}
+
+interface GitRunOptions {
+  /** Extra environment variables */
+  env?: Record<string, string>;
+  /** Exit codes that count as success */
+  okCodes?: number[];
+  /** Data written to stdin */
+  input?: string;
+  /** Working directory (default: repository root) */
+  cwd?: string;
+}
+
+interface GitOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+}
+
+const DEFAULT_BRANCH = "deep-agent/changes";
+const DEFAULT_AUTHOR = { name: "Deep Agent", email: "deep-agent@localhost" };
+
+/**
+ * Build a commit message from the current todo or the recorded operations.
+ * The in-progress todo becomes the subject; every operation is listed in the body.
+ */
+function buildCommitMessage(changes: PendingChange[], todos: TodoItem[] = []): string {
+  const body = changes.map((c) => `- ${c.operation} ${c.description}`);
+  const todo =
+    todos.find((t) => t.status === "in_progress") ??
+    [...todos].reverse().find((t) => t.status === "completed");
+
+  let subject: string;
+  if (todo) {
+    subject = todo.content;
+  } else {
+    const first = changes[0]!;
+    const rest = changes.length > 1 ? ` (+${changes.length - 1} more)` : "";
+    subject = `${first.operation} ${first.description}${rest}`;
+  }
+
+  return [subject, "", ...body].join("\n");
+}
+
+/**
+ * Backend that works on files in a git repository and records every change
+ * the agent makes as a commit on a dedicated branch.
+ *
+ * Files are read and written on disk exactly as with `FilesystemBackend`.
+ * Each write, edit, delete, move, copy or upload is remembered, and `commit()`
+ * snapshots those paths onto `branch` using a private index, so the user's
+ * checked-out branch, index and unrelated working-tree changes are left alone.
+ * The agent calls `commit()` itself after every step (or run, see `commitOn`),
+ * using the in-progress todo as the commit message.
+ *
+ * The agent also gets `git_status`, `git_diff` and `git_log` tools.
+ *
+ * @example
+ * ```typescript
+ * const backend = new GitBackend({ rootDir: './my-repo', branch: 'agent/refactor' });
+ * const agent = createDeepAgent({
+ *   model: anthropic('claude-sonnet-4-20250514'),
+ *   backend,
+ * });
+ *
+ * await agent.generate({ prompt: 'Split utils.ts into smaller modules' });
+ * // Review: git log agent/refactor; git diff HEAD agent/refactor
+ * ```
+ */
+export class GitBackend extends FilesystemBackend {
+  /** Branch that receives the agent's commits */
+  readonly branch: string;
+  /** When the agent commits pending changes */
+  readonly commitOn: "step" | "run";
+  private rootDir: string;
+  private author: { name: string; email: string };
+  private gitRoot: Promise<string | null> | undefined;
+  private pending: PendingChange[] = [];
+  /** Absolute paths touched since the last commit */
+  private pendingPaths = new Set<string>();
+
+  /**
+   * Create a new GitBackend instance.
+   *
+   * @param options - Configuration options
+   */
+  constructor(options: GitBackendOptions = {}) {
+    const {
+      branch = DEFAULT_BRANCH,
+      commitOn = "step",
+      author = DEFAULT_AUTHOR,
+      ...filesystemOptions
+    } = options;
+    super(filesystemOptions);
+    this.rootDir = options.rootDir ? path.resolve(options.rootDir) : process.cwd();
+    this.branch = branch;
+    this.commitOn = commitOn;
+    this.author = author;
+  }
+
+  /**
+   * Whether there are changes that have not been committed yet.
+   */
+  get hasPendingChanges(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Create a new file with content.
+   */
+  override async write(filePath: string, content: string): Promise<WriteResult> {
+    const result = await super.write(filePath, content);
+    if (result.success) {
+      this.record("write", filePath, [filePath]);
+    }
+    return result;
+  }
+
+  /**
+   * Edit a file by replacing string occurrences.
+   */
+  override async edit(
+    filePath: string,
+    oldString: string,
+    newString: string,
+    replaceAll: boolean = false
+  ): Promise<EditResult> {
+    const result = await super.edit(filePath, oldString, newString, replaceAll);
+    if (result.success) {
+      this.record("edit", filePath, [filePath]);
+    }
+    return result;
+  }
+
+  /**
+   * Delete a file, or a directory when `recursive` is true.
+   */
+  override async delete(filePath: string, recursive: boolean = false): Promise<FileOperationResult> {
+    const result = await super.delete(filePath, recursive);
+    if (result.success) {
+      this.record("delete", filePath, [filePath]);
+    }
+    return result;
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  override async move(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    const result = await super.move(from, to, overwrite);
+    if (result.success) {
+      this.record("move", `${from} -> ${to}`, [from, to]);
+    }
+    return result;
+  }
+
+  /**
+   * Copy a file or directory.
+   */
+  override async copy(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    const result = await super.copy(from, to, overwrite);
+    if (result.success) {
+      this.record("copy", `${from} -> ${to}`, [to]);
+    }
+    return result;
+  }
+
+  /**
+   * Upload files as raw bytes.
+   */
+  override async uploadFiles(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]> {
+    const responses = await super.uploadFiles(files);
+    for (const response of responses) {
+      if (!response.error) {
+        this.record("upload", response.path, [response.path]);
+      }
+    }
+    return responses;
+  }
+
+  /**
+   * Commit every change made since the last commit onto `branch`.
+   *
+   * Only the paths the backend changed are committed, on top of the branch's
+   * previous commit (or HEAD for the first one). If git fails, the changes
+   * stay pending and go into the next commit.
+   *
+   * @param options.message - Commit message (default: derived from `todos` or the operations)
+   * @param options.todos - Current todos; the in-progress one becomes the subject
+   * @returns The new commit, or null if there was nothing to commit
+   * @throws If the root directory is not in a git repository or git fails
+   */
+  async commit(options: { message?: string; todos?: TodoItem[] } = {}): Promise<GitCommitInfo | null> {
+    if (this.pending.length === 0) {
+      return null;
+    }
+
+    const gitRoot = await this.requireGitRoot();
+    const message = options.message ?? buildCommitMessage(this.pending, options.todos);
+    const pathspecs = [...this.pendingPaths]
+      .map((p) => path.relative(gitRoot, p).split(path.sep).join("/"))
+      .filter((p) => p && p !== ".." && !p.startsWith("../"));
+    const committedCount = this.pending.length;
+
+    // In worktrees and submodules .git is a file, so ask git where its files live
+    const indexFile = path.resolve(gitRoot, await this.git(["rev-parse", "--git-path", "deep-agent-index"]));
+    const indexEnv = { GIT_INDEX_FILE: indexFile };
+    try {
+      const branchHead = await this.resolveRef(`refs/heads/${this.branch}`);
+      const parent = branchHead ?? (await this.resolveRef("HEAD"));
+
+      await this.git(parent ? ["read-tree", parent] : ["read-tree", "--empty"], { env: indexEnv });
+
+      // git add fails on paths that exist neither on disk nor in the index
+      const tracked = (
+        await this.git(["--literal-pathspecs", "ls-files", "-z", "--", ...pathspecs], { env: indexEnv })
+      ).split("\0");
+      const addable: string[] = [];
+      for (const spec of pathspecs) {
+        const onDisk = await fs.lstat(path.join(gitRoot, spec)).then(() => true, () => false);
+        if (onDisk || tracked.some((t) => t === spec || t.startsWith(spec + "/"))) {
+          addable.push(spec);
+        }
+      }
+      if (addable.length > 0) {
+        // Exit code 1 means some paths are gitignored; the rest are still staged
+        await this.git(
+          ["-c", "advice.addIgnoredFile=false", "--literal-pathspecs", "add", "-A", "--", ...addable],
+          { env: indexEnv, okCodes: [0, 1] }
+        );
+      }
+
+      const tree = await this.git(["write-tree"], { env: indexEnv });
+      if (parent && tree === (await this.git(["rev-parse", `${parent}^{tree}`]))) {
+        this.clearPending(committedCount);
+        return null;
+      }
+
+      const sha = await this.git(
+        ["commit-tree", tree, ...(parent ? ["-p", parent] : []), "-F", "-"],
+        {
+          env: {
+            GIT_AUTHOR_NAME: this.author.name,
+            GIT_AUTHOR_EMAIL: this.author.email,
+            GIT_COMMITTER_NAME: this.author.name,
+            GIT_COMMITTER_EMAIL: this.author.email,
+          },
+          input: message,
+        }
+      );
+      // Refuse to move the branch if something else updated it meanwhile
+      await this.git(["update-ref", `refs/heads/${this.branch}`, sha, branchHead ?? ""]);
+      this.clearPending(committedCount);
+
+      const files = (
+        await this.git(["diff-tree", "-r", "--root", "--no-commit-id", "--name-only", "-z", sha])
+      )
+        .split("\0")
+        .filter(Boolean);
+
+      return { sha, branch: this.branch, message, files };
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  /**
+   * Show the working tree status for the backend's directory.
+   *
+   * @returns `git status` output, or an error string
+   */
+  async status(): Promise<string> {
+    try {
+      await this.requireGitRoot();
+      const status = await this.git(["status", "--short", "--branch", "--", "."], { cwd: this.rootDir });
+      const branchHead = await this.resolveRef(`refs/heads/${this.branch}`);
+      const note = branchHead
+        ? `Agent changes are committed to branch '${this.branch}' (${branchHead.substring(0, 7)}).`
+        : `No agent commits on branch '${this.branch}' yet.`;
+      return `${status}\n\n${note}`;
+    } catch (e: unknown) {
+      return (e as Error).message;
+    }
+  }
+
+  /**
+   * Show changes as a unified diff.
+   *
+   * @param options.path - Limit the diff to this file or directory
+   * @param options.ref - Compare the working tree with this commit or branch (default: the index)
+   * @param options.staged - Show staged changes instead of unstaged ones
+   * @returns `git diff` output, or an error string
+   */
+  async diff(options: { path?: string; ref?: string; staged?: boolean } = {}): Promise<string> {
+    try {
+      await this.requireGitRoot();
+      const args = ["diff"];
+      if (options.staged) {
+        args.push("--cached");
+      }
+      if (options.ref) {
+        args.push(this.validateRef(options.ref));
+      }
+      args.push("--", this.toPathspec(options.path));
+      return await this.git(args, { cwd: this.rootDir });
+    } catch (e: unknown) {
+      return (e as Error).message;
+    }
+  }
+
+  /**
+   * Show recent commits.
+   *
+   * @param options.ref - Branch or commit to start from (default: `branch` if it exists, else HEAD)
+   * @param options.path - Only show commits touching this file or directory
+   * @param options.maxCount - Maximum number of commits (default: 10)
+   * @returns One line per commit (hash, date, author, subject), or an error string
+   */
+  async log(options: { ref?: string; path?: string; maxCount?: number } = {}): Promise<string> {
+    try {
+      await this.requireGitRoot();
+      let ref = options.ref ? this.validateRef(options.ref) : undefined;
+      if (!ref) {
+        ref = (await this.resolveRef(`refs/heads/${this.branch}`)) ? this.branch : "HEAD";
+      }
+      return await this.git(
+        [
+          "log",
+          `--max-count=${options.maxCount ?? 10}`,
+          "--date=short",
+          "--format=%h %ad %an: %s",
+          ref,
+          "--",
+          this.toPathspec(options.path),
+        ],
+        { cwd: this.rootDir }
+      );
+    } catch (e: unknown) {
+      return (e as Error).message;
+    }
+  }
+
+  /**
+   * Remember a successful operation and the paths it touched.
+   */
+  private record(operation: PendingChange["operation"], description: string, paths: string[]): void {
+    this.pending.push({ operation, description });
+    for (const p of paths) {
+      this.pendingPaths.add(this.resolvePath(p));
+    }
+  }
+
+  /**
+   * Forget the first `count` pending changes once they are committed.
+   *
+   * Changes recorded while the commit ran stay pending. Their paths cannot be
+   * told apart from the committed ones, so all paths are kept until nothing is
+   * pending; staging an unchanged path again is harmless.
+   */
+  private clearPending(count: number): void {
+    this.pending = this.pending.slice(count);
+    if (this.pending.length === 0) {
+      this.pendingPaths.clear();
+    }
+  }
+
+  /**
+   * Locate the repository root once, failing if there is none.
+   */
+  private async requireGitRoot(): Promise<string> {
+    // --show-cdup rather than a search for .git, which is a file in worktrees
+    // and submodules; resolving from rootDir keeps its symlinks as given
+    this.gitRoot ??= this.runGit(["rev-parse", "--show-cdup"], { cwd: this.rootDir }).then((result) =>
+      result.exitCode === 0 ? path.resolve(this.rootDir, result.stdout.trim()) : null
+    );
+    const gitRoot = await this.gitRoot;
+    if (!gitRoot) {
+      throw new Error(NOT_A_GIT_REPOSITORY(this.rootDir));
+    }
+    return gitRoot;
+  }
+
+  /**
+   * Convert a backend path to a pathspec relative to the root directory.
+   */
+  private toPathspec(filePath?: string): string {
+    if (!filePath) {
+      return ".";
+    }
+    const relative = path.relative(this.rootDir, this.resolvePath(filePath));
+    return relative ? relative.split(path.sep).join("/") : ".";
+  }
+
+  /**
+   * Reject refs that git would parse as options.
+   */
+  private validateRef(ref: string): string {
+    if (ref.startsWith("-") || /\s/.test(ref)) {
+      throw new Error(INVALID_GIT_REF(ref));
+    }
+    return ref;
+  }
+
+  /**
+   * Resolve a ref to a commit hash, or null if it does not exist.
+   */
+  private async resolveRef(ref: string): Promise<string | null> {
+    const result = await this.runGit(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    return result.exitCode === 0 ? result.stdout.trim() : null;
+  }
+
+  /**
+   * Run git and return its stdout without trailing whitespace.
+   *
+   * @throws If git exits with a code not in `okCodes` (default: 0 only)
+   */
+  private async git(args: string[], options: GitRunOptions = {}): Promise<string> {
+    const result = await this.runGit(args, options);
+    const okCodes = options.okCodes ?? [0];
+    if (result.exitCode === null || !okCodes.includes(result.exitCode)) {
+      // Skip global options such as -c key=value to name the subcommand
+      const command = args.find((a) => !a.startsWith("-") && !a.includes("=")) ?? args[0]!;
+      throw new Error(GIT_COMMAND_FAILED(command, result.stderr.trim() || `exit code ${result.exitCode}`));
+    }
+    return result.stdout.trimEnd();
+  }
+
+  /**
+   * Spawn git in the repository root, or in `options.cwd`.
+   */
+  private async runGit(args: string[], options: GitRunOptions = {}): Promise<GitOutput> {
+    const cwd = options.cwd ?? (await this.requireGitRoot());
+    return new Promise((resolve) => {
+      const proc = spawn("git", args, {
+        cwd,
+        env: { ...process.env, ...options.env },
+        timeout: FILESYSTEM_TIMEOUT_MS,
+      });
+      let stdout = "";
+      let stderr = "";
+
+      proc.stdout.on("data", (data) => {
+        stdout += data.toString();
+      });
+      proc.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+      proc.on("close", (code) => {
+        resolve({ stdout, stderr, exitCode: code });
+      });
+      proc.on("error", (error) => {
+        resolve({ stdout, stderr: error.message, exitCode: null });
+      });
+
+      proc.stdin.end(options.input);
+    });
+  }
+}
@@ -5,23 +5,29 @@
 // Standard backends (BackendProtocol)
 export { StateBackend } from "./state";
 export { FilesystemBackend } from "./filesystem";
+export { type PathPolicy } from "./path-filter";
+export { GitBackend, type GitBackendOptions, type GitCommitInfo } from "./git";
 export { CompositeBackend } from "./composite";
+export { OverlayBackend, type OverlayChange } from "./overlay";
 export {
   PersistentBackend,
   InMemoryStore,
   type KeyValueStore,
   type PersistentBackendOptions,
 } from "./persistent";
+export { SqliteStore, type SqliteStoreOptions } from "./sqlite-store";
 
 // Sandbox backends (SandboxBackendProtocol)
 export { BaseSandbox } from "./sandbox";
 export { LocalSandbox, type LocalSandboxOptions } from "./local-sandbox";
+export { SandboxPool, type SandboxPoolOptions } from "./sandbox-pool";
 
 // Cloud sandbox providers
 export { E2BBackend, createE2BBackend, type E2BBackendOptions } from "./e2b";
 export { ModalBackend, createModalBackend, type ModalBackendOptions } from "./modal";
 export { RunloopBackend, type RunloopBackendOptions } from "./runloop";
 export { DaytonaBackend, type DaytonaBackendOptions } from "./daytona";
+export { DockerSandbox, createDockerSandbox, type DockerSandboxOptions } from "./docker";
 
 // Re-export utilities
 export * from "./utils";
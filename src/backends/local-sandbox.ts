@@ -6,9 +6,29 @@
  * via shell commands in the local filesystem.
  */
 
-import { spawn } from "child_process";
-import type { ExecuteResponse } from "../types";
+import { spawn, type ChildProcess } from "child_process";
+import type {
+  BackgroundProcessInfo,
+  BackgroundProcessOutput,
+  BackgroundProcessProtocol,
+  ExecuteOptions,
+  ExecuteResponse,
+} from "../types";
 import { BaseSandbox } from "./sandbox";
+import { ProcessManager } from "./processes";
+
+/**
+ * Signal a detached child's whole process group, so commands it started in
+ * the background stop too.
+ */
+function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return;
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // The process group has already exited
+  }
+}
 
 /**
  * Options for LocalSandbox.
@@ -23,7 +43,7 @@ export interface LocalSandboxOptions {
 
   /**
    * Timeout in milliseconds for command execution.
-   * Commands that exceed this timeout will be terminated.
+   * Commands that exceed this timeout are terminated, along with any processes they started.
    * @default 30000 (30 seconds)
    */
   timeout?: number;
@@ -81,13 +101,22 @@ export interface LocalSandboxOptions {
  *   console.error('Tests failed:', result.output);
  * }
  * ```
+ *
+ * @example Background processes
+ * ```typescript
+ * const server = await sandbox.startProcess('npm run dev');
+ * const { output } = await sandbox.readProcessOutput(server.id, { waitMs: 5000 });
+ * await sandbox.execute('curl -s localhost:3000');
+ * await sandbox.killProcess(server.id);
+ * ```
  */
-export class LocalSandbox extends BaseSandbox {
+export class LocalSandbox extends BaseSandbox implements BackgroundProcessProtocol {
   private readonly cwd: string;
   private readonly timeout: number;
   private readonly env: Record<string, string>;
   private readonly maxOutputSize: number;
   private readonly _id: string;
+  private readonly processes: ProcessManager;
 
   /**
    * Create a new LocalSandbox instance.
@@ -101,6 +130,17 @@ export class LocalSandbox extends BaseSandbox {
     this.env = options.env || {};
     this.maxOutputSize = options.maxOutputSize || 1024 * 1024; // 1MB
     this._id = `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    this.processes = new ProcessManager({
+      // Each process leads its own process group, so kill() reaches its children
+      spawn: (command) =>
+        spawn("bash", ["-c", command], {
+          cwd: this.cwd,
+          env: { ...process.env, ...this.env },
+          detached: true,
+        }),
+      kill: (child, _id, force) => killProcessGroup(child, force ? "SIGKILL" : "SIGTERM"),
+      maxBufferSize: this.maxOutputSize,
+    });
   }
 
   /**
@@ -118,6 +158,9 @@ export class LocalSandbox extends BaseSandbox {
    * and environment variables. Output is captured from both stdout and stderr.
    *
    * @param command - Shell command to execute
+   * @param options - Optional abort signal (aborting kills the process and
+   *   resolves with the output captured so far and a null exit code) and
+   *   output callback
    * @returns ExecuteResponse with output, exit code, and truncation status
    *
    * @example
@@ -127,13 +170,20 @@ export class LocalSandbox extends BaseSandbox {
    * console.log('Exit code:', result.exitCode);
    * ```
    */
-  async execute(command: string): Promise<ExecuteResponse> {
+  async execute(command: string, options: ExecuteOptions = {}): Promise<ExecuteResponse> {
+    const { abortSignal, onOutput } = options;
+    if (abortSignal?.aborted) {
+      return { output: "Error: Command aborted", exitCode: null, truncated: false };
+    }
+
     return new Promise((resolve) => {
+      // Lead a process group so a timeout or abort stops everything the command started
       const child = spawn("bash", ["-c", command], {
         cwd: this.cwd,
         env: { ...process.env, ...this.env },
-        timeout: this.timeout,
+        detached: true,
       });
+      const timer = setTimeout(() => killProcessGroup(child, "SIGTERM"), this.timeout);
 
       let output = "";
       let truncated = false;
@@ -141,6 +191,7 @@ export class LocalSandbox extends BaseSandbox {
       child.stdout.on("data", (data: Buffer) => {
         if (output.length < this.maxOutputSize) {
           output += data.toString();
+          onOutput?.(data.toString(), "stdout");
         } else {
           truncated = true;
         }
@@ -149,12 +200,28 @@ export class LocalSandbox extends BaseSandbox {
       child.stderr.on("data", (data: Buffer) => {
         if (output.length < this.maxOutputSize) {
           output += data.toString();
+          onOutput?.(data.toString(), "stderr");
         } else {
           truncated = true;
         }
       });
 
+      // Resolve without waiting for "close" - background processes the
+      // command started may keep the output pipes open after bash is killed
+      const onAbort = () => {
+        clearTimeout(timer);
+        killProcessGroup(child, "SIGTERM");
+        resolve({
+          output: `${output}\n[Command aborted]`,
+          exitCode: null,
+          truncated,
+        });
+      };
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+
       child.on("close", (code) => {
+        clearTimeout(timer);
+        abortSignal?.removeEventListener("abort", onAbort);
         resolve({
           output,
           exitCode: code,
@@ -163,6 +230,8 @@ export class LocalSandbox extends BaseSandbox {
       });
 
       child.on("error", (err) => {
+        clearTimeout(timer);
+        abortSignal?.removeEventListener("abort", onAbort);
         resolve({
           output: `Error: ${err.message}`,
           exitCode: 1,
@@ -171,5 +240,51 @@ export class LocalSandbox extends BaseSandbox {
       });
     });
   }
-}
 
+  /**
+   * Start a command in the background and return immediately.
+   * The process keeps running until it exits or is killed; it is not subject
+   * to the execute() timeout.
+   */
+  async startProcess(command: string): Promise<BackgroundProcessInfo> {
+    return this.processes.start(command);
+  }
+
+  /**
+   * Take the output a background process produced since the previous read.
+   */
+  async readProcessOutput(
+    id: string,
+    options: { waitMs?: number } = {}
+  ): Promise<BackgroundProcessOutput> {
+    return this.processes.read(id, options.waitMs);
+  }
+
+  /**
+   * Write to a background process's stdin.
+   */
+  async sendProcessInput(id: string, input: string): Promise<BackgroundProcessInfo> {
+    return this.processes.send(id, input);
+  }
+
+  /**
+   * Stop a background process and everything it started.
+   */
+  async killProcess(id: string): Promise<BackgroundProcessInfo> {
+    return this.processes.kill(id);
+  }
+
+  /**
+   * List background processes, running or exited.
+   */
+  async listProcesses(): Promise<BackgroundProcessInfo[]> {
+    return this.processes.list();
+  }
+
+  /**
+   * Stop all background processes.
+   */
+  override async dispose(): Promise<void> {
+    await this.processes.killAll();
+  }
+}
@@ -21,6 +21,7 @@
  */
 
 import { BaseSandbox } from "./sandbox";
+import { getMimeType } from "./utils";
 import type {
   ExecuteResponse,
   FileDownloadResponse,
@@ -151,7 +152,12 @@ export class ModalBackend extends BaseSandbox {
         const handle = await this._sandbox.open(path, "r");
         const content = await handle.read();
         await handle.close();
-        responses.push({ path, content: new Uint8Array(content), error: null });
+        responses.push({
+          path,
+          content: new Uint8Array(content),
+          mimeType: getMimeType(path),
+          error: null,
+        });
       } catch (error) {
         responses.push({
           path,
@@ -169,7 +175,7 @@ export class ModalBackend extends BaseSandbox {
    *
    * Modal has no auto-cleanup, so dispose() must be called to clean up resources.
    */
-  async dispose(): Promise<void> {
+  override async dispose(): Promise<void> {
     await this._sandbox.terminate();
   }
 }
@@ -0,0 +1,606 @@
+/**
+ * OverlayBackend: Copy-on-write layer over another backend.
+ */
+
+import type {
+  BackendProtocol,
+  EditResult,
+  FileData,
+  FileDownloadResponse,
+  FileInfo,
+  FileOperationResult,
+  FileUploadResponse,
+  GrepMatch,
+  WriteResult,
+} from "../types";
+import {
+  collectPathsToDelete,
+  createFileData,
+  createFileDataFromBytes,
+  fileDataToBytes,
+  fileDataToString,
+  formatReadResponse,
+  getFileDataSize,
+  getMimeType,
+  globSearchFiles,
+  grepMatchesFromFiles,
+  isBinaryFileData,
+  performStringReplacement,
+  planPathTransfer,
+  updateFileData,
+} from "./utils";
+import { createUnifiedDiff } from "../utils/apply-patch";
+import {
+  FILE_NOT_FOUND,
+  FILE_ALREADY_EXISTS,
+  BINARY_FILE_CANNOT_EDIT,
+  NOT_A_DIRECTORY,
+  OPERATION_NOT_SUPPORTED,
+} from "../constants/errors";
+
+/**
+ * One pending change in an overlay.
+ */
+export interface OverlayChange {
+  /** File path */
+  path: string;
+  /** How the file differs from the base backend */
+  type: "added" | "modified" | "deleted";
+  /** Unified diff of the change; empty for binary files */
+  diff: string;
+  /** Whether either side of the change is a binary file */
+  binary: boolean;
+}
+
+/**
+ * Backend that keeps every change in memory on top of a base backend.
+ *
+ * Reads fall through to the base backend until a file is written, edited,
+ * moved or deleted; from then on the overlay's copy is used. Nothing reaches
+ * the base backend until `commit()` is called, so an agent can run against a
+ * real project while the proposed changeset is reviewed with `diff()` and
+ * then applied or thrown away with `discard()`.
+ *
+ * @example Dry-run an agent against a repository
+ * ```typescript
+ * import { OverlayBackend, FilesystemBackend } from 'deepagentsdk';
+ *
+ * const overlay = new OverlayBackend(new FilesystemBackend({ rootDir: './my-repo' }));
+ * const agent = createDeepAgent({
+ *   model: anthropic('claude-sonnet-4-20250514'),
+ *   backend: overlay,
+ * });
+ *
+ * await agent.generate({ prompt: 'Rename the config loader' });
+ *
+ * for (const change of await overlay.diff()) {
+ *   console.log(change.diff);
+ * }
+ *
+ * if (await confirm('Apply these changes?')) {
+ *   await overlay.commit();
+ * } else {
+ *   overlay.discard();
+ * }
+ * ```
+ */
+export class OverlayBackend implements BackendProtocol {
+  private base: BackendProtocol;
+  /** Files changed in the overlay; null marks a deleted file */
+  private layer = new Map<string, FileData | null>();
+
+  /**
+   * Create a new OverlayBackend instance.
+   *
+   * @param base - Backend to read from and, on commit, write changes to
+   */
+  constructor(base: BackendProtocol) {
+    this.base = base;
+  }
+
+  /**
+   * Files present in the overlay, excluding deletions.
+   */
+  private getOverlayFiles(): Record<string, FileData> {
+    const files: Record<string, FileData> = {};
+    for (const [filePath, fileData] of this.layer) {
+      if (fileData) {
+        files[filePath] = fileData;
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Read a file from the base backend, or undefined if it does not exist.
+   */
+  private async readBase(filePath: string): Promise<FileData | undefined> {
+    try {
+      return await this.base.readRaw(filePath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read a file as the overlay sees it, or undefined if it does not exist.
+   */
+  private async readFile(filePath: string): Promise<FileData | undefined> {
+    if (this.layer.has(filePath)) {
+      return this.layer.get(filePath) ?? undefined;
+    }
+    return this.readBase(filePath);
+  }
+
+  /**
+   * List every file under a directory of the base backend.
+   */
+  private async listBaseFiles(dirPath: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const info of await this.base.lsInfo(dirPath)) {
+      if (info.is_dir) {
+        files.push(...(await this.listBaseFiles(info.path)));
+      } else {
+        files.push(info.path);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Collect the paths of existing files at or under each target.
+   */
+  private async collectPaths(...targets: string[]): Promise<string[]> {
+    const paths = new Set<string>();
+    for (const target of targets) {
+      const dirPrefix = target.endsWith("/") ? target : target + "/";
+      if (await this.readBase(target)) {
+        paths.add(target);
+      }
+      for (const filePath of await this.listBaseFiles(target)) {
+        paths.add(filePath);
+      }
+      for (const filePath of this.layer.keys()) {
+        if (filePath === target || filePath.startsWith(dirPrefix)) {
+          paths.add(filePath);
+        }
+      }
+    }
+    return [...paths].filter((p) => this.layer.get(p) !== null);
+  }
+
+  /**
+   * Whether a base directory still has any file once overlay deletions apply.
+   */
+  private async directoryExists(dirPath: string): Promise<boolean> {
+    const hasDeletions = [...this.layer].some(
+      ([filePath, fileData]) => fileData === null && filePath.startsWith(dirPath)
+    );
+    if (!hasDeletions) {
+      return true;
+    }
+    return (await this.collectPaths(dirPath)).length > 0;
+  }
+
+  /**
+   * List files and directories in the specified directory (non-recursive).
+   */
+  async lsInfo(path: string): Promise<FileInfo[]> {
+    const infos: FileInfo[] = [];
+    const seen = new Set<string>();
+
+    for (const info of await this.base.lsInfo(path)) {
+      if (this.layer.has(info.path)) {
+        continue;
+      }
+      if (info.is_dir && !(await this.directoryExists(info.path))) {
+        continue;
+      }
+      infos.push(info);
+      seen.add(info.path);
+    }
+
+    const normalizedPath = path.endsWith("/") ? path : path + "/";
+    for (const [filePath, fileData] of Object.entries(this.getOverlayFiles())) {
+      if (!filePath.startsWith(normalizedPath)) {
+        continue;
+      }
+      const relative = filePath.substring(normalizedPath.length);
+      if (relative.includes("/")) {
+        const subdir = normalizedPath + relative.split("/")[0] + "/";
+        if (!seen.has(subdir)) {
+          infos.push({ path: subdir, is_dir: true, size: 0, modified_at: "" });
+          seen.add(subdir);
+        }
+        continue;
+      }
+      infos.push({
+        path: filePath,
+        is_dir: false,
+        size: getFileDataSize(fileData),
+        modified_at: fileData.modified_at,
+      });
+    }
+
+    infos.sort((a, b) => a.path.localeCompare(b.path));
+    return infos;
+  }
+
+  /**
+   * Read file content with line numbers.
+   */
+  async read(filePath: string, offset: number = 0, limit: number = 2000): Promise<string> {
+    if (!this.layer.has(filePath)) {
+      return await this.base.read(filePath, offset, limit);
+    }
+    const fileData = this.layer.get(filePath);
+    if (!fileData) {
+      return FILE_NOT_FOUND(filePath);
+    }
+    return formatReadResponse(fileData, offset, limit);
+  }
+
+  /**
+   * Read file content as raw FileData.
+   */
+  async readRaw(filePath: string): Promise<FileData> {
+    if (!this.layer.has(filePath)) {
+      return await this.base.readRaw(filePath);
+    }
+    const fileData = this.layer.get(filePath);
+    if (!fileData) throw new Error(`File '${filePath}' not found`);
+    return fileData;
+  }
+
+  /**
+   * Structured search results or error string for invalid input.
+   */
+  async grepRaw(
+    pattern: string,
+    path: string = "/",
+    glob: string | null = null
+  ): Promise<GrepMatch[] | string> {
+    const overlayMatches = grepMatchesFromFiles(this.getOverlayFiles(), pattern, path, glob);
+    if (typeof overlayMatches === "string") {
+      return overlayMatches;
+    }
+
+    const baseMatches = await this.base.grepRaw(pattern, path, glob);
+    if (typeof baseMatches === "string") {
+      return baseMatches;
+    }
+
+    return [...baseMatches.filter((m) => !this.layer.has(m.path)), ...overlayMatches];
+  }
+
+  /**
+   * Structured glob matching returning FileInfo objects.
+   */
+  async globInfo(pattern: string, path: string = "/"): Promise<FileInfo[]> {
+    const files = this.getOverlayFiles();
+    const infos = (await this.base.globInfo(pattern, path)).filter(
+      (info) => !this.layer.has(info.path)
+    );
+
+    const result = globSearchFiles(files, pattern, path);
+    if (result !== "No files found") {
+      for (const p of result.split("\n")) {
+        const fd = files[p]!;
+        infos.push({
+          path: p,
+          is_dir: false,
+          size: getFileDataSize(fd),
+          modified_at: fd.modified_at,
+        });
+      }
+    }
+    return infos;
+  }
+
+  /**
+   * Create a new file in the overlay.
+   */
+  async write(filePath: string, content: string): Promise<WriteResult> {
+    if (!filePath || filePath.trim() === "") {
+      return {
+        success: false,
+        error: "File path cannot be empty",
+      };
+    }
+
+    if (await this.readFile(filePath)) {
+      return {
+        success: false,
+        error: FILE_ALREADY_EXISTS(filePath),
+      };
+    }
+
+    this.layer.set(filePath, createFileData(content));
+    return { success: true, path: filePath };
+  }
+
+  /**
+   * Edit a file by replacing string occurrences, copying it into the overlay.
+   */
+  async edit(
+    filePath: string,
+    oldString: string,
+    newString: string,
+    replaceAll: boolean = false
+  ): Promise<EditResult> {
+    const fileData = await this.readFile(filePath);
+
+    if (!fileData) {
+      return { success: false, error: FILE_NOT_FOUND(filePath) };
+    }
+
+    if (isBinaryFileData(fileData)) {
+      return { success: false, error: BINARY_FILE_CANNOT_EDIT(filePath) };
+    }
+
+    const result = performStringReplacement(
+      fileDataToString(fileData),
+      oldString,
+      newString,
+      replaceAll
+    );
+
+    if (typeof result === "string") {
+      return { success: false, error: result };
+    }
+
+    const [newContent, occurrences] = result;
+    this.layer.set(filePath, updateFileData(fileData, newContent));
+    return { success: true, path: filePath, occurrences };
+  }
+
+  /**
+   * Mark a file, or every file under a directory when `recursive` is true, as deleted.
+   */
+  async delete(path: string, recursive: boolean = false): Promise<FileOperationResult> {
+    const toDelete = collectPathsToDelete(await this.collectPaths(path), path, recursive);
+    if (typeof toDelete === "string") {
+      return { success: false, error: toDelete };
+    }
+
+    for (const key of toDelete) {
+      this.layer.set(key, null);
+    }
+    return { success: true, path, count: toDelete.length };
+  }
+
+  /**
+   * Move or rename a file or directory within the overlay.
+   */
+  async move(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, true);
+  }
+
+  /**
+   * Copy a file or directory within the overlay.
+   */
+  async copy(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, false);
+  }
+
+  /**
+   * Create a directory.
+   * Directories are created in the base backend as files are committed,
+   * so this only checks for a clashing file.
+   */
+  async mkdir(path: string): Promise<FileOperationResult> {
+    if (await this.readFile(path)) {
+      return { success: false, error: NOT_A_DIRECTORY(path) };
+    }
+    return { success: true, path };
+  }
+
+  /**
+   * Shared implementation of move and copy.
+   */
+  private async transfer(
+    from: string,
+    to: string,
+    overwrite: boolean,
+    removeSource: boolean
+  ): Promise<FileOperationResult> {
+    const pairs = planPathTransfer(await this.collectPaths(from, to), from, to, overwrite);
+    if (typeof pairs === "string") {
+      return { success: false, error: pairs };
+    }
+
+    const now = new Date().toISOString();
+    const moved: Array<[string, FileData]> = [];
+    for (const [src, dest] of pairs) {
+      const fileData = (await this.readFile(src))!;
+      moved.push([dest, removeSource ? fileData : { ...fileData, created_at: now, modified_at: now }]);
+    }
+    if (removeSource) {
+      for (const [src] of pairs) {
+        this.layer.set(src, null);
+      }
+    }
+    for (const [dest, fileData] of moved) {
+      this.layer.set(dest, fileData);
+    }
+    return { success: true, path: to, count: pairs.length };
+  }
+
+  /**
+   * Upload files as raw bytes into the overlay, overwriting existing files.
+   */
+  async uploadFiles(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]> {
+    const responses: FileUploadResponse[] = [];
+    for (const [filePath, bytes] of files) {
+      if (!filePath || filePath.trim() === "") {
+        responses.push({ path: filePath, error: "invalid_path" });
+        continue;
+      }
+      const existing = await this.readFile(filePath);
+      this.layer.set(filePath, createFileDataFromBytes(filePath, bytes, existing?.created_at));
+      responses.push({ path: filePath, error: null });
+    }
+    return responses;
+  }
+
+  /**
+   * Download files as raw bytes, from the overlay or the base backend.
+   */
+  async downloadFiles(paths: string[]): Promise<FileDownloadResponse[]> {
+    const responses: FileDownloadResponse[] = [];
+    for (const filePath of paths) {
+      if (!this.layer.has(filePath)) {
+        if (this.base.downloadFiles) {
+          const [result] = await this.base.downloadFiles([filePath]);
+          responses.push(result ?? { path: filePath, content: null, error: "file_not_found" });
+          continue;
+        }
+      }
+
+      const fileData = await this.readFile(filePath);
+      responses.push(
+        fileData
+          ? {
+              path: filePath,
+              content: fileDataToBytes(fileData),
+              mimeType: fileData.mimeType ?? getMimeType(filePath),
+              error: null,
+            }
+          : { path: filePath, content: null, error: "file_not_found" }
+      );
+    }
+    return responses;
+  }
+
+  /**
+   * List the pending changes against the base backend, sorted by path.
+   * Files written back to their original content are not reported.
+   *
+   * @param paths - Only report changes to these files
+   */
+  async diff(paths?: string[]): Promise<OverlayChange[]> {
+    const changes: OverlayChange[] = [];
+    const keys = [...this.layer.keys()]
+      .filter((p) => !paths || paths.includes(p))
+      .sort((a, b) => a.localeCompare(b));
+
+    for (const filePath of keys) {
+      const after = this.layer.get(filePath) ?? undefined;
+      const before = await this.readBase(filePath);
+      if (!before && !after) {
+        continue;
+      }
+
+      const binary =
+        (before !== undefined && isBinaryFileData(before)) ||
+        (after !== undefined && isBinaryFileData(after));
+      if (before && after && isSameContent(before, after)) {
+        continue;
+      }
+
+      const type = !before ? "added" : !after ? "deleted" : "modified";
+      const diff = binary
+        ? ""
+        : createUnifiedDiff(
+            before ? filePath : null,
+            after ? filePath : null,
+            before ? fileDataToString(before) : "",
+            after ? fileDataToString(after) : ""
+          );
+      changes.push({ path: filePath, type, diff, binary });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Apply pending changes to the base backend.
+   *
+   * Changes are applied file by file and removed from the overlay as they land.
+   * If one fails, the remaining changes stay pending so the commit can be retried.
+   *
+   * @param paths - Only commit changes to these files
+   * @returns Success with the number of files changed, or the first error
+   */
+  async commit(paths?: string[]): Promise<FileOperationResult> {
+    let count = 0;
+    for (const change of await this.diff(paths)) {
+      const error =
+        change.type === "deleted"
+          ? await this.deleteFromBase(change.path)
+          : await this.writeToBase(change.path, this.layer.get(change.path)!);
+      if (error) {
+        return { success: false, error, count };
+      }
+      this.layer.delete(change.path);
+      count++;
+    }
+
+    // Whatever is left in scope matched the base already
+    this.discard(paths);
+    return { success: true, count };
+  }
+
+  /**
+   * Drop pending changes without touching the base backend.
+   *
+   * @param paths - Only drop changes to these files
+   */
+  discard(paths?: string[]): void {
+    if (!paths) {
+      this.layer.clear();
+      return;
+    }
+    for (const filePath of paths) {
+      this.layer.delete(filePath);
+    }
+  }
+
+  /**
+   * Delete a file from the base backend.
+   *
+   * @returns An error string on failure
+   */
+  private async deleteFromBase(filePath: string): Promise<string | undefined> {
+    if (!this.base.delete) {
+      return OPERATION_NOT_SUPPORTED("delete");
+    }
+    return (await this.base.delete(filePath)).error;
+  }
+
+  /**
+   * Write a file's overlay content to the base backend.
+   *
+   * @returns An error string on failure
+   */
+  private async writeToBase(filePath: string, fileData: FileData): Promise<string | undefined> {
+    if (this.base.uploadFiles) {
+      const [result] = await this.base.uploadFiles([[filePath, fileDataToBytes(fileData)]]);
+      return result?.error ? `Error: Failed to write '${filePath}': ${result.error}` : undefined;
+    }
+    if (isBinaryFileData(fileData)) {
+      return OPERATION_NOT_SUPPORTED("writing binary files");
+    }
+
+    const content = fileDataToString(fileData);
+    const original = await this.readBase(filePath);
+    if (!original) {
+      return (await this.base.write(filePath, content)).error;
+    }
+    const originalContent = fileDataToString(original);
+    if (originalContent === "") {
+      return OPERATION_NOT_SUPPORTED("overwriting empty files");
+    }
+    return (await this.base.edit(filePath, originalContent, content)).error;
+  }
+}
+
+/**
+ * Compare the content of two files, ignoring timestamps.
+ */
+function isSameContent(a: FileData, b: FileData): boolean {
+  if (isBinaryFileData(a) || isBinaryFileData(b)) {
+    return a.data === b.data;
+  }
+  return fileDataToString(a) === fileDataToString(b);
+}
@@ -0,0 +1,243 @@
+/**
+ * Path policy and ignore-file filtering for FilesystemBackend.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import micromatch from "micromatch";
+import type { FileOperationError } from "../types";
+
+/**
+ * Which paths the agent may see and change.
+ *
+ * Globs are matched against paths relative to the backend's root directory
+ * (e.g. `src/**`, `config/*.json`). A glob that matches a directory applies
+ * to everything inside it. As in `.gitignore`, a `deny` or `readOnly` glob
+ * without a slash matches a file or directory name at any depth, so `.env*`
+ * also covers `packages/app/.env`. `allow` globs are always root-anchored.
+ */
+export interface PathPolicy {
+  /**
+   * Leave files matched by `.gitignore` and `.ignore` out of listings, glob and grep.
+   * Ignored files can still be read and written by their exact path.
+   * @default true
+   */
+  respectIgnoreFiles?: boolean;
+  /** Only these paths are accessible; everything else is hidden (default: all paths) */
+  allow?: string[];
+  /** Hidden paths: never listed, searched, read or written (e.g. `.env`, `secrets/**`) */
+  deny?: string[];
+  /** Paths that can be read and searched but not written, edited, deleted or moved */
+  readOnly?: string[];
+  /** Largest file, in bytes, that can be read or written */
+  maxFileSizeBytes?: number;
+}
+
+/**
+ * A single line of a `.gitignore` or `.ignore` file.
+ */
+interface IgnoreRule {
+  /** Glob relative to the directory of the ignore file */
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+const IGNORE_FILES = [".gitignore", ".ignore"];
+const MATCH_OPTIONS = { dot: true };
+
+/**
+ * Parse the rules of an ignore file using gitignore syntax.
+ */
+function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    let negate = false;
+    if (line.startsWith("!")) {
+      negate = true;
+      line = line.substring(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.substring(1);
+    }
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) {
+      line = line.slice(0, -1);
+    }
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) {
+      line = line.substring(1);
+    }
+    if (!line) {
+      continue;
+    }
+
+    rules.push({ pattern: anchored ? line : `**/${line}`, negate, dirOnly });
+  }
+  return rules;
+}
+
+/**
+ * Applies a PathPolicy and ignore files to paths under a root directory.
+ */
+export class PathFilter {
+  private rootDir: string;
+  readonly respectIgnoreFiles: boolean;
+  private allow: string[] | undefined;
+  private deny: string[];
+  private readOnly: string[];
+  /** Static directory prefixes of the allow globs, to keep their parents visible */
+  private allowBases: string[];
+  readonly maxFileSizeBytes: number | undefined;
+
+  constructor(rootDir: string, policy: PathPolicy = {}) {
+    this.rootDir = rootDir;
+    this.respectIgnoreFiles = policy.respectIgnoreFiles ?? true;
+    this.allow = policy.allow;
+    this.deny = policy.deny ?? [];
+    this.readOnly = policy.readOnly ?? [];
+    this.allowBases = (policy.allow ?? []).map((g) => micromatch.scan(g).base);
+    this.maxFileSizeBytes = policy.maxFileSizeBytes;
+  }
+
+  /**
+   * Whether the policy restricts any paths (beyond ignore files and the size cap).
+   */
+  get hasRules(): boolean {
+    return this.allow !== undefined || this.deny.length > 0 || this.readOnly.length > 0;
+  }
+
+  /**
+   * Check whether an absolute path may be read or changed.
+   *
+   * @returns The error code of the violation, or null if access is allowed
+   */
+  check(
+    absPath: string,
+    access: "read" | "write",
+    isDir: boolean = false
+  ): Extract<FileOperationError, "path_not_allowed" | "path_read_only"> | null {
+    const rel = this.toRelative(absPath);
+    if (rel === null) {
+      return this.allow ? "path_not_allowed" : null;
+    }
+    if (rel === "") {
+      return null;
+    }
+    if (this.matches(rel, this.deny, true) || !this.isAllowed(rel, isDir)) {
+      return "path_not_allowed";
+    }
+    if (access === "write" && this.matches(rel, this.readOnly, true)) {
+      return "path_read_only";
+    }
+    return null;
+  }
+
+  /**
+   * Create a check for whether a path should appear in listings and searches:
+   * it must be accessible, outside `.git` and (by default) not ignored.
+   * Ignore files are read once per check, so create one per operation.
+   */
+  visibility(): (absPath: string, isDir: boolean) => Promise<boolean> {
+    const ruleCache = new Map<string, Promise<IgnoreRule[]>>();
+    const loadRules = (dir: string): Promise<IgnoreRule[]> => {
+      let rules = ruleCache.get(dir);
+      if (!rules) {
+        rules = Promise.all(
+          IGNORE_FILES.map((name) =>
+            fs.readFile(path.join(this.rootDir, dir, name), "utf-8").then(parseIgnoreFile, () => [])
+          )
+        ).then((lists) => lists.flat());
+        ruleCache.set(dir, rules);
+      }
+      return rules;
+    };
+
+    return async (absPath: string, isDir: boolean) => {
+      if (this.check(absPath, "read", isDir) !== null) {
+        return false;
+      }
+      const rel = this.toRelative(absPath);
+      if (!rel) {
+        return true;
+      }
+
+      const parts = rel.split("/");
+      if (parts.includes(".git")) {
+        return false;
+      }
+      if (!this.respectIgnoreFiles) {
+        return true;
+      }
+
+      // A path is ignored if it or any directory above it is ignored
+      for (let i = 1; i <= parts.length; i++) {
+        let ignored = false;
+        for (let j = 0; j < i; j++) {
+          const dir = parts.slice(0, j).join("/");
+          const target = parts.slice(j, i).join("/");
+          const targetIsDir = i < parts.length || isDir;
+          for (const rule of await loadRules(dir)) {
+            if ((!rule.dirOnly || targetIsDir) && micromatch.isMatch(target, rule.pattern, MATCH_OPTIONS)) {
+              ignored = !rule.negate;
+            }
+          }
+        }
+        if (ignored) {
+          return false;
+        }
+      }
+      return true;
+    };
+  }
+
+  /**
+   * Path relative to the root with forward slashes, or null if outside the root.
+   */
+  private toRelative(absPath: string): string | null {
+    const rel = path.relative(this.rootDir, absPath);
+    if (rel === ".." || rel.startsWith(".." + path.sep) || path.isAbsolute(rel)) {
+      return null;
+    }
+    return rel.split(path.sep).join("/");
+  }
+
+  /**
+   * Whether a glob matches the path or one of its parent directories. With
+   * `anyDepth`, globs without a slash are also matched against each name in
+   * the path, as gitignore does.
+   */
+  private matches(rel: string, globs: string[], anyDepth = false): boolean {
+    if (globs.length === 0) {
+      return false;
+    }
+    const nameGlobs = anyDepth ? globs.filter((glob) => !glob.includes("/")) : [];
+    const parts = rel.split("/");
+    for (let i = 1; i <= parts.length; i++) {
+      if (micromatch.isMatch(parts.slice(0, i).join("/"), globs, MATCH_OPTIONS)) {
+        return true;
+      }
+      if (nameGlobs.length > 0 && micromatch.isMatch(parts[i - 1]!, nameGlobs, MATCH_OPTIONS)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Whether the allow list admits a path. Directories leading to allowed
+   * paths are admitted too, so they can be listed and walked.
+   */
+  private isAllowed(rel: string, isDir: boolean): boolean {
+    if (!this.allow || this.matches(rel, this.allow)) {
+      return true;
+    }
+    return isDir && this.allowBases.some((base) => base === "" || base.startsWith(rel + "/"));
+  }
+}
@@ -10,22 +10,34 @@ import type {
   BackendProtocol,
   EditResult,
   FileData,
+  FileDownloadResponse,
   FileInfo,
+  FileOperationResult,
+  FileUploadResponse,
   GrepMatch,
   WriteResult,
 } from "../types";
 import {
+  collectPathsToDelete,
   createFileData,
+  createFileDataFromBytes,
+  fileDataToBytes,
   fileDataToString,
   formatReadResponse,
+  getFileDataSize,
+  getMimeType,
   globSearchFiles,
   grepMatchesFromFiles,
+  isBinaryFileData,
   performStringReplacement,
+  planPathTransfer,
   updateFileData,
 } from "./utils";
 import {
   FILE_NOT_FOUND,
   FILE_ALREADY_EXISTS,
+  BINARY_FILE_CANNOT_EDIT,
+  NOT_A_DIRECTORY,
 } from "../constants/errors";
 
 /**
@@ -338,22 +350,34 @@ export class PersistentBackend implements BackendProtocol {
       );
     }
 
-    return {
+    const fileData: FileData = {
       content: value.content as string[],
       created_at: value.created_at,
       modified_at: value.modified_at,
     };
+    if (typeof value.data === "string") {
+      fileData.data = value.data;
+    }
+    if (typeof value.mimeType === "string") {
+      fileData.mimeType = value.mimeType;
+    }
+    return fileData;
   }
 
   /**
    * Convert FileData to a value suitable for store.put().
    */
   private convertFromFileData(fileData: FileData): Record<string, unknown> {
-    return {
+    const value: Record<string, unknown> = {
       content: fileData.content,
       created_at: fileData.created_at,
       modified_at: fileData.modified_at,
     };
+    if (fileData.data !== undefined) {
+      value.data = fileData.data;
+      value.mimeType = fileData.mimeType;
+    }
+    return value;
   }
 
   /**
@@ -390,7 +414,7 @@ export class PersistentBackend implements BackendProtocol {
       // This is a file directly in the current directory
       try {
         const fd = this.convertToFileData(item.value);
-        const size = fd.content.join("\n").length;
+        const size = getFileDataSize(fd);
         infos.push({
           path: itemKey,
           is_dir: false,
@@ -489,6 +513,9 @@ export class PersistentBackend implements BackendProtocol {
 
     try {
       const fileData = this.convertToFileData(value);
+      if (isBinaryFileData(fileData)) {
+        return { success: false, error: BINARY_FILE_CANNOT_EDIT(filePath) };
+      }
       const content = fileDataToString(fileData);
       const result = performStringReplacement(
         content,
@@ -514,6 +541,149 @@ export class PersistentBackend implements BackendProtocol {
     }
   }
 
+  /**
+   * Delete a file, or every file under a directory when `recursive` is true.
+   */
+  async delete(path: string, recursive: boolean = false): Promise<FileOperationResult> {
+    const namespace = this.getNamespace();
+    const items = await this.store.list(namespace);
+    const toDelete = collectPathsToDelete(
+      items.map((item) => item.key),
+      path,
+      recursive
+    );
+    if (typeof toDelete === "string") {
+      return { success: false, error: toDelete };
+    }
+
+    for (const key of toDelete) {
+      await this.store.delete(namespace, key);
+    }
+    return { success: true, path, count: toDelete.length };
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  async move(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, true);
+  }
+
+  /**
+   * Copy a file or directory.
+   */
+  async copy(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, false);
+  }
+
+  /**
+   * Create a directory.
+   * Directories are implicit in the store, so this only checks for a clashing file.
+   */
+  async mkdir(path: string): Promise<FileOperationResult> {
+    const existing = await this.store.get(this.getNamespace(), path);
+    if (existing) {
+      return { success: false, error: NOT_A_DIRECTORY(path) };
+    }
+    return { success: true, path };
+  }
+
+  /**
+   * Shared implementation of move and copy.
+   * Destinations are written before sources are removed, so an interrupted
+   * move leaves a copy rather than losing files.
+   */
+  private async transfer(
+    from: string,
+    to: string,
+    overwrite: boolean,
+    removeSource: boolean
+  ): Promise<FileOperationResult> {
+    const namespace = this.getNamespace();
+    const items = await this.store.list(namespace);
+    const values = new Map(items.map((item) => [item.key, item.value]));
+    const pairs = planPathTransfer(Array.from(values.keys()), from, to, overwrite);
+    if (typeof pairs === "string") {
+      return { success: false, error: pairs };
+    }
+
+    const now = new Date().toISOString();
+    for (const [src, dest] of pairs) {
+      const value = values.get(src)!;
+      await this.store.put(
+        namespace,
+        dest,
+        removeSource ? value : { ...value, created_at: now, modified_at: now }
+      );
+    }
+    if (removeSource) {
+      const destinations = new Set(pairs.map(([, dest]) => dest));
+      for (const [src] of pairs) {
+        if (!destinations.has(src)) {
+          await this.store.delete(namespace, src);
+        }
+      }
+    }
+    return { success: true, path: to, count: pairs.length };
+  }
+
+  /**
+   * Upload files as raw bytes, overwriting existing files.
+   * Text content is stored as lines; anything else is stored as base64.
+   */
+  async uploadFiles(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]> {
+    const namespace = this.getNamespace();
+    const responses: FileUploadResponse[] = [];
+
+    for (const [filePath, bytes] of files) {
+      if (!filePath || filePath.trim() === "") {
+        responses.push({ path: filePath, error: "invalid_path" });
+        continue;
+      }
+      try {
+        const existing = await this.store.get(namespace, filePath);
+        const createdAt =
+          typeof existing?.created_at === "string" ? existing.created_at : undefined;
+        const fileData = createFileDataFromBytes(filePath, bytes, createdAt);
+        await this.store.put(namespace, filePath, this.convertFromFileData(fileData));
+        responses.push({ path: filePath, error: null });
+      } catch {
+        responses.push({ path: filePath, error: "permission_denied" });
+      }
+    }
+
+    return responses;
+  }
+
+  /**
+   * Download files as raw bytes.
+   */
+  async downloadFiles(paths: string[]): Promise<FileDownloadResponse[]> {
+    const namespace = this.getNamespace();
+    const responses: FileDownloadResponse[] = [];
+
+    for (const filePath of paths) {
+      const value = await this.store.get(namespace, filePath);
+      if (!value) {
+        responses.push({ path: filePath, content: null, error: "file_not_found" });
+        continue;
+      }
+      try {
+        const fileData = this.convertToFileData(value);
+        responses.push({
+          path: filePath,
+          content: fileDataToBytes(fileData),
+          mimeType: fileData.mimeType ?? getMimeType(filePath),
+          error: null,
+        });
+      } catch {
+        responses.push({ path: filePath, content: null, error: "invalid_path" });
+      }
+    }
+
+    return responses;
+  }
+
   /**
    * Structured search results or error string for invalid input.
    */
@@ -564,7 +734,7 @@ export class PersistentBackend implements BackendProtocol {
     const infos: FileInfo[] = [];
     for (const p of paths) {
       const fd = files[p];
-      const size = fd ? fd.content.join("\n").length : 0;
+      const size = fd ? getFileDataSize(fd) : 0;
       infos.push({
         path: p,
         is_dir: false,
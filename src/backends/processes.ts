@@ -0,0 +1,200 @@
+/**
+ * Background process bookkeeping for sandboxes that run commands as local
+ * child processes (LocalSandbox and DockerSandbox).
+ */
+
+import type { ChildProcessWithoutNullStreams } from "child_process";
+import type { BackgroundProcessInfo, BackgroundProcessOutput } from "../types";
+import { PROCESS_NOT_FOUND, PROCESS_NOT_RUNNING } from "../constants/errors";
+
+/**
+ * How long kill() waits for a process to exit after stopping it.
+ */
+const KILL_WAIT_MS = 5000;
+
+/**
+ * Options for ProcessManager.
+ */
+export interface ProcessManagerOptions {
+  /** Start a command with piped stdio. `id` is the new process's handle. */
+  spawn: (command: string, id: string) => ChildProcessWithoutNullStreams;
+  /** Stop a process and everything it started. Escalate if `force` is set. */
+  kill: (child: ChildProcessWithoutNullStreams, id: string, force: boolean) => void | Promise<void>;
+  /** Most output, in characters, kept between reads. Older output is dropped. */
+  maxBufferSize: number;
+}
+
+/**
+ * A background process and the output it produced since the last read.
+ */
+interface ManagedProcess {
+  info: BackgroundProcessInfo;
+  child: ChildProcessWithoutNullStreams;
+  output: string;
+  truncated: boolean;
+  /** Callbacks waiting for new output or exit */
+  waiters: Set<() => void>;
+}
+
+/**
+ * Tracks background processes and buffers their output between reads.
+ */
+export class ProcessManager {
+  private options: ProcessManagerOptions;
+  private processes = new Map<string, ManagedProcess>();
+  private nextId = 1;
+
+  constructor(options: ProcessManagerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start a command in the background.
+   */
+  start(command: string): BackgroundProcessInfo {
+    const id = `proc-${this.nextId++}`;
+    const child = this.options.spawn(command, id);
+    const proc: ManagedProcess = {
+      info: { id, command, running: true, exitCode: null },
+      child,
+      output: "",
+      truncated: false,
+      waiters: new Set(),
+    };
+    this.processes.set(id, proc);
+
+    const append = (text: string) => {
+      proc.output += text;
+      if (proc.output.length > this.options.maxBufferSize) {
+        proc.output = proc.output.slice(-this.options.maxBufferSize);
+        proc.truncated = true;
+      }
+      this.notify(proc);
+    };
+    child.stdout.on("data", (data: Buffer) => append(data.toString()));
+    child.stderr.on("data", (data: Buffer) => append(data.toString()));
+
+    // Use "exit" rather than "close": processes the command started in the
+    // background may keep the output pipes open after it exits
+    child.on("exit", (code) => {
+      proc.info.running = false;
+      proc.info.exitCode = code;
+      this.notify(proc);
+    });
+    child.on("error", (err) => {
+      append(`Error: ${err.message}\n`);
+      proc.info.running = false;
+      proc.info.exitCode = 1;
+      this.notify(proc);
+    });
+    child.stdin.on("error", () => {});
+
+    return { ...proc.info };
+  }
+
+  /**
+   * Take the output produced since the previous read, waiting up to `waitMs`
+   * for some if there is none yet.
+   */
+  async read(id: string, waitMs: number = 0): Promise<BackgroundProcessOutput> {
+    const proc = this.get(id);
+    if (!proc.output && proc.info.running && waitMs > 0) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          proc.waiters.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, waitMs);
+        proc.waiters.add(done);
+      });
+    }
+
+    const result = { ...proc.info, output: proc.output, truncated: proc.truncated };
+    proc.output = "";
+    proc.truncated = false;
+    return result;
+  }
+
+  /**
+   * Write to a running process's stdin.
+   */
+  async send(id: string, input: string): Promise<BackgroundProcessInfo> {
+    const proc = this.get(id);
+    if (!proc.info.running) {
+      throw new Error(PROCESS_NOT_RUNNING(id));
+    }
+    await new Promise<void>((resolve, reject) => {
+      proc.child.stdin.write(input, (err) => (err ? reject(err) : resolve()));
+    });
+    return { ...proc.info };
+  }
+
+  /**
+   * Stop a process, escalating if it does not exit in time.
+   */
+  async kill(id: string): Promise<BackgroundProcessInfo> {
+    const proc = this.get(id);
+    if (proc.info.running) {
+      await this.options.kill(proc.child, id, false);
+      if (!(await this.waitForExit(proc, KILL_WAIT_MS))) {
+        await this.options.kill(proc.child, id, true);
+        await this.waitForExit(proc, KILL_WAIT_MS);
+      }
+    }
+    return { ...proc.info };
+  }
+
+  /**
+   * List all processes, running or exited.
+   */
+  list(): BackgroundProcessInfo[] {
+    return [...this.processes.values()].map((proc) => ({ ...proc.info }));
+  }
+
+  /**
+   * Stop every running process.
+   */
+  async killAll(): Promise<void> {
+    await Promise.all(
+      [...this.processes.values()]
+        .filter((proc) => proc.info.running)
+        .map((proc) => this.kill(proc.info.id))
+    );
+  }
+
+  private get(id: string): ManagedProcess {
+    const proc = this.processes.get(id);
+    if (!proc) {
+      throw new Error(PROCESS_NOT_FOUND(id));
+    }
+    return proc;
+  }
+
+  private notify(proc: ManagedProcess): void {
+    for (const waiter of [...proc.waiters]) {
+      waiter();
+    }
+  }
+
+  /**
+   * Wait for a process to exit.
+   *
+   * @returns Whether it exited within the time limit
+   */
+  private async waitForExit(proc: ManagedProcess, timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (proc.info.running && Date.now() < deadline) {
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          proc.waiters.delete(done);
+          resolve();
+        };
+        const timer = setTimeout(done, deadline - Date.now());
+        proc.waiters.add(done);
+      });
+    }
+    return !proc.info.running;
+  }
+}
@@ -18,6 +18,7 @@
  */
 
 import { BaseSandbox } from "./sandbox";
+import { getMimeType } from "./utils";
 import type {
   ExecuteResponse,
   FileUploadResponse,
@@ -208,7 +209,7 @@ export class RunloopBackend extends BaseSandbox {
         const result = await this.execute(`base64 "${path}"`);
         const base64Content = result.output.trim();
         const content = Buffer.from(base64Content, "base64");
-        responses.push({ path, content, error: null });
+        responses.push({ path, content, mimeType: getMimeType(path), error: null });
       } catch (error) {
         responses.push({
           path,
@@ -227,7 +228,7 @@ export class RunloopBackend extends BaseSandbox {
    * Runloop has no auto-cleanup, so dispose() must be called to clean up resources.
    * Only shuts down devbox if we created it (owned: true).
    */
-  async dispose(): Promise<void> {
+  override async dispose(): Promise<void> {
     if (this._owned) {
       const devbox = await this._getDevbox();
       await devbox.shutdown();
@@ -0,0 +1,279 @@
+/**
+ * SandboxPool: keep prepared sandboxes warm and lease one per thread.
+ */
+
+import type { BaseCheckpointSaver } from "../checkpointer/types";
+import type { SandboxSnapshot } from "../types";
+import { SANDBOX_POOL_CLOSED, SANDBOX_POOL_EXHAUSTED } from "../constants/errors";
+import type { BaseSandbox } from "./sandbox";
+
+/**
+ * Options for SandboxPool.
+ */
+export interface SandboxPoolOptions<T extends BaseSandbox> {
+  /** Create a new sandbox (e.g. `() => createDockerSandbox({ ... })`) */
+  create: () => T | Promise<T>;
+
+  /**
+   * Number of idle sandboxes to keep ready. The pool tops itself back up
+   * in the background after each acquire().
+   * @default 1
+   */
+  size?: number;
+
+  /**
+   * Maximum number of sandboxes alive at once, leased and idle.
+   * acquire() throws when a new sandbox is needed beyond this limit.
+   * @default Infinity
+   */
+  maxSize?: number;
+
+  /**
+   * Snapshot restored into every new sandbox before `prepare` runs,
+   * e.g. a workspace with dependencies already installed.
+   */
+  snapshot?: SandboxSnapshot;
+
+  /**
+   * Run on every new sandbox before it is handed out (e.g. `npm ci`).
+   */
+  prepare?: (sandbox: T) => Promise<void>;
+
+  /**
+   * Checkpointer whose threads own the leased sandboxes. prune() releases
+   * sandboxes of threads the checkpointer no longer has.
+   */
+  checkpointer?: BaseCheckpointSaver;
+}
+
+/**
+ * Pool of pre-warmed sandboxes, leased per thread.
+ *
+ * Creating a sandbox and installing dependencies is slow. The pool does it
+ * ahead of time, so acquire() usually returns immediately. A thread keeps
+ * its sandbox across runs until it is released.
+ *
+ * @example
+ * ```typescript
+ * const pool = new SandboxPool({
+ *   create: () => createDockerSandbox({ workspace: './app' }),
+ *   size: 2,
+ *   prepare: async (sandbox) => {
+ *     await sandbox.execute('npm ci');
+ *   },
+ *   checkpointer,
+ * });
+ * await pool.warm();
+ *
+ * const backend = await pool.acquire(threadId);
+ * const agent = createDeepAgent({ model, backend, checkpointer });
+ * for await (const event of agent.streamWithEvents({ threadId, prompt })) {
+ *   // ...
+ * }
+ *
+ * // When threads are deleted from the checkpointer
+ * await pool.prune();
+ * ```
+ */
+export class SandboxPool<T extends BaseSandbox> {
+  private readonly options: SandboxPoolOptions<T>;
+  private readonly size: number;
+  private readonly maxSize: number;
+  private idle: T[] = [];
+  /** Leases by thread, as promises so concurrent acquires share one sandbox */
+  private leases = new Map<string, Promise<T>>();
+  /** Idle sandboxes being created and prepared; these never reject */
+  private pending = new Set<Promise<void>>();
+  private closed = false;
+
+  constructor(options: SandboxPoolOptions<T>) {
+    this.options = options;
+    this.size = options.size ?? 1;
+    this.maxSize = options.maxSize ?? Infinity;
+  }
+
+  /**
+   * Number of idle, ready sandboxes.
+   */
+  get idleCount(): number {
+    return this.idle.length;
+  }
+
+  /**
+   * Threads that currently hold a sandbox.
+   */
+  get leasedThreads(): string[] {
+    return [...this.leases.keys()];
+  }
+
+  /**
+   * Create sandboxes until `size` are idle (or the pool is full).
+   * Resolves when they, and any already being created, are ready.
+   *
+   * @throws If creating or preparing a sandbox fails
+   */
+  async warm(): Promise<void> {
+    const started = this.refill();
+    await Promise.all([...this.pending, ...started]);
+  }
+
+  /**
+   * Get the sandbox leased to a thread, leasing an idle one (or creating one)
+   * if the thread has none yet.
+   *
+   * @throws If the pool is full or has been disposed
+   */
+  async acquire(threadId: string): Promise<T> {
+    if (this.closed) {
+      throw new Error(SANDBOX_POOL_CLOSED);
+    }
+    let lease = this.leases.get(threadId);
+    if (!lease) {
+      lease = this.take();
+      this.leases.set(threadId, lease);
+      this.refillInBackground();
+      // A failed lease must not stick to the thread
+      lease.catch(() => {
+        if (this.leases.get(threadId) === lease) {
+          this.leases.delete(threadId);
+        }
+      });
+    }
+    return lease;
+  }
+
+  /**
+   * Dispose a thread's sandbox and end its lease. Does nothing if the thread
+   * holds no sandbox.
+   */
+  async release(threadId: string): Promise<void> {
+    const lease = this.leases.get(threadId);
+    if (!lease) {
+      return;
+    }
+    this.leases.delete(threadId);
+    const sandbox = await lease.catch(() => undefined);
+    await sandbox?.dispose();
+    if (!this.closed) {
+      this.refillInBackground();
+    }
+  }
+
+  /**
+   * Release the sandboxes of threads that no longer exist in the checkpointer.
+   * Does nothing without a checkpointer.
+   *
+   * @returns The released thread ids
+   */
+  async prune(): Promise<string[]> {
+    const { checkpointer } = this.options;
+    if (!checkpointer) {
+      return [];
+    }
+    const released: string[] = [];
+    for (const threadId of this.leasedThreads) {
+      if (!(await checkpointer.exists(threadId))) {
+        await this.release(threadId);
+        released.push(threadId);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Dispose every sandbox, idle and leased. The pool cannot be used afterwards.
+   */
+  async dispose(): Promise<void> {
+    this.closed = true;
+    const leased = await Promise.all(
+      [...this.leases.values()].map((lease) => lease.catch(() => undefined))
+    );
+    // Sandboxes still being created dispose themselves once ready
+    await Promise.all(this.pending);
+    const idle = this.idle;
+    this.leases.clear();
+    this.idle = [];
+    await Promise.all([...leased, ...idle].map((sandbox) => sandbox?.dispose()));
+  }
+
+  /**
+   * Take an idle sandbox, waiting for one being warmed if the pool is full,
+   * or create one.
+   */
+  private async take(): Promise<T> {
+    while (this.idle.length === 0 && this.pending.size > 0 && this.total() >= this.maxSize) {
+      await Promise.race(this.pending);
+    }
+    return this.idle.shift() ?? (await this.createSandbox(false));
+  }
+
+  /**
+   * Start creating sandboxes until `size` will be idle.
+   */
+  private refill(): Promise<T>[] {
+    const started: Promise<T>[] = [];
+    while (
+      !this.closed &&
+      this.idle.length + this.pending.size < this.size &&
+      this.total() < this.maxSize
+    ) {
+      started.push(this.createSandbox(true));
+    }
+    return started;
+  }
+
+  private refillInBackground(): void {
+    for (const creation of this.refill()) {
+      creation.catch((error) => {
+        console.warn("[SandboxPool] Failed to create sandbox:", error);
+      });
+    }
+  }
+
+  /**
+   * Number of sandboxes alive or being created.
+   */
+  private total(): number {
+    return this.idle.length + this.leases.size + this.pending.size;
+  }
+
+  /**
+   * Create and prepare a sandbox.
+   *
+   * @param toIdle - Add it to the idle list when ready (otherwise it is for a lease)
+   */
+  private createSandbox(toIdle: boolean): Promise<T> {
+    if (this.total() >= this.maxSize) {
+      return Promise.reject(new Error(SANDBOX_POOL_EXHAUSTED(this.maxSize)));
+    }
+
+    const creation = (async () => {
+      const sandbox = await this.options.create();
+      try {
+        if (this.options.snapshot) {
+          await sandbox.restore(this.options.snapshot);
+        }
+        await this.options.prepare?.(sandbox);
+      } catch (error) {
+        await sandbox.dispose().catch(() => {});
+        throw error;
+      }
+      return sandbox;
+    })();
+
+    if (toIdle) {
+      const tracked: Promise<void> = creation
+        .then(async (sandbox) => {
+          if (this.closed) {
+            await sandbox.dispose();
+          } else {
+            this.idle.push(sandbox);
+          }
+        })
+        .catch(() => {})
+        .finally(() => this.pending.delete(tracked));
+      this.pending.add(tracked);
+    }
+    return creation;
+  }
+}
@@ -11,22 +11,34 @@
 
 import type {
   EditResult,
+  ExecuteOptions,
   ExecuteResponse,
   FileData,
   FileInfo,
   FileDownloadResponse,
   FileOperationError,
+  FileOperationResult,
   FileUploadResponse,
   GrepMatch,
   SandboxBackendProtocol,
+  SandboxSnapshot,
   WriteResult,
 } from "../types";
 import {
   FILE_NOT_FOUND,
   SYSTEM_REMINDER_FILE_EMPTY,
   STRING_NOT_FOUND,
+  PATH_ALREADY_EXISTS,
+  DIRECTORY_NOT_EMPTY,
+  CANNOT_MOVE_INTO_ITSELF,
+  NOT_A_DIRECTORY,
+  SNAPSHOT_FAILED,
+  RESTORE_FAILED,
 } from "../constants/errors";
 import { DEFAULT_READ_LIMIT } from "../constants/limits";
+import { getMimeType } from "./utils";
+import { createTarArchive, readTarArchive, type TarEntry, type TarFileOptions } from "../utils/tar";
+import { posix } from "path";
 
 /**
  * Map error messages to FileOperationError literals.
@@ -67,6 +79,12 @@ function toBase64(str: string): string {
   return Buffer.from(str, "utf-8").toString("base64");
 }
 
+/**
+ * Bytes written per command when sending data to the sandbox. Encoded as
+ * base64 this stays well under Linux's 128 KiB limit on a single argument.
+ */
+const WRITE_CHUNK_BYTES = 48 * 1024;
+
 /**
  * Build a Node.js script command with embedded base64 arguments.
  * This avoids shell argument parsing issues by embedding values directly in the script.
@@ -108,7 +126,7 @@ export abstract class BaseSandbox implements SandboxBackendProtocol {
    * Execute a shell command in the sandbox.
    * Must be implemented by subclasses.
    */
-  abstract execute(command: string): Promise<ExecuteResponse>;
+  abstract execute(command: string, options?: ExecuteOptions): Promise<ExecuteResponse>;
 
   /**
    * Unique identifier for this sandbox instance.
@@ -130,11 +148,7 @@ export abstract class BaseSandbox implements SandboxBackendProtocol {
 
     for (const [path, content] of files) {
       try {
-        // Use shell command to write file via base64 encoding
-        const base64Content = Buffer.from(content).toString("base64");
-        // Escape single quotes in path for shell safety
-        const escapedPath = path.replace(/'/g, "'\\''");
-        const result = await this.execute(`echo '${base64Content}' | base64 -d > '${escapedPath}'`);
+        const result = await this.writeInChunks(path, content);
 
         if (result.exitCode !== 0) {
           responses.push({
@@ -155,6 +169,27 @@ export abstract class BaseSandbox implements SandboxBackendProtocol {
     return responses;
   }
 
+  /**
+   * Write a file with base64-encoded shell commands, splitting large
+   * content across several commands so none exceeds the argument size limit.
+   *
+   * @returns The result of the last command run
+   */
+  private async writeInChunks(path: string, content: Uint8Array): Promise<ExecuteResponse> {
+    // Escape single quotes in path for shell safety
+    const escapedPath = path.replace(/'/g, "'\\''");
+    let result: ExecuteResponse | undefined;
+    for (let start = 0; start === 0 || start < content.length; start += WRITE_CHUNK_BYTES) {
+      const base64Content = Buffer.from(content.subarray(start, start + WRITE_CHUNK_BYTES)).toString("base64");
+      const redirect = start === 0 ? ">" : ">>";
+      result = await this.execute(`echo '${base64Content}' | base64 -d ${redirect} '${escapedPath}'`);
+      if (result.exitCode !== 0) {
+        break;
+      }
+    }
+    return result!;
+  }
+
   /**
    * Download multiple files from the sandbox.
    *
@@ -182,7 +217,7 @@ export abstract class BaseSandbox implements SandboxBackendProtocol {
         } else {
           const base64Content = result.output.trim();
           const content = Buffer.from(base64Content, "base64");
-          responses.push({ path, content, error: null });
+          responses.push({ path, content, mimeType: getMimeType(path), error: null });
         }
       } catch (error) {
         responses.push({
@@ -450,6 +485,171 @@ console.log(count);
     return { success: true, path: filePath, occurrences: count };
   }
 
+  /**
+   * Delete a file, or a directory when `recursive` is true.
+   */
+  async delete(filePath: string, recursive: boolean = false): Promise<FileOperationResult> {
+    const pathB64 = toBase64(filePath);
+    const script = `
+const fs = require("fs");
+
+const target = Buffer.from("__PATH__", "base64").toString("utf-8");
+const recursive = __RECURSIVE__;
+
+let stat;
+try {
+  stat = fs.lstatSync(target);
+} catch (e) {
+  process.exit(1);
+}
+
+if (stat.isDirectory()) {
+  if (fs.readdirSync(target).length > 0 && !recursive) {
+    process.exit(2);
+  }
+  fs.rmSync(target, { recursive: true });
+} else {
+  fs.unlinkSync(target);
+}
+`;
+    const result = await this.execute(
+      buildNodeScript(script, { PATH: pathB64, RECURSIVE: String(recursive) })
+    );
+
+    if (result.exitCode === 1) {
+      return { success: false, error: FILE_NOT_FOUND(filePath) };
+    }
+    if (result.exitCode === 2) {
+      return { success: false, error: DIRECTORY_NOT_EMPTY(filePath) };
+    }
+    if (result.exitCode !== 0) {
+      return { success: false, error: result.output.trim() || `Failed to delete '${filePath}'` };
+    }
+    return { success: true, path: filePath };
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  async move(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, true);
+  }
+
+  /**
+   * Copy a file or directory. Symlinks are copied as links, not followed.
+   */
+  async copy(from: string, to: string, overwrite: boolean = false): Promise<FileOperationResult> {
+    return this.transfer(from, to, overwrite, false);
+  }
+
+  /**
+   * Create a directory and any missing parents.
+   */
+  async mkdir(dirPath: string): Promise<FileOperationResult> {
+    const pathB64 = toBase64(dirPath);
+    const script = `
+const fs = require("fs");
+
+const dirPath = Buffer.from("__PATH__", "base64").toString("utf-8");
+
+try {
+  if (!fs.lstatSync(dirPath).isDirectory()) {
+    process.exit(1);
+  }
+} catch (e) {
+  // Does not exist yet
+}
+
+fs.mkdirSync(dirPath, { recursive: true });
+`;
+    const result = await this.execute(buildNodeScript(script, { PATH: pathB64 }));
+
+    if (result.exitCode === 1) {
+      return { success: false, error: NOT_A_DIRECTORY(dirPath) };
+    }
+    if (result.exitCode !== 0) {
+      return { success: false, error: result.output.trim() || `Failed to create '${dirPath}'` };
+    }
+    return { success: true, path: dirPath };
+  }
+
+  /**
+   * Shared implementation of move and copy.
+   */
+  private async transfer(
+    from: string,
+    to: string,
+    overwrite: boolean,
+    removeSource: boolean
+  ): Promise<FileOperationResult> {
+    const script = `
+const fs = require("fs");
+const path = require("path");
+
+const source = path.resolve(Buffer.from("__FROM__", "base64").toString("utf-8"));
+const dest = path.resolve(Buffer.from("__TO__", "base64").toString("utf-8"));
+const overwrite = __OVERWRITE__;
+const removeSource = __REMOVE_SOURCE__;
+
+let stat;
+try {
+  stat = fs.lstatSync(source);
+} catch (e) {
+  process.exit(1);
+}
+
+if (stat.isDirectory() && (dest + path.sep).startsWith(source + path.sep)) {
+  process.exit(3);
+}
+
+if (fs.existsSync(dest)) {
+  if (!overwrite) {
+    process.exit(2);
+  }
+  fs.rmSync(dest, { recursive: true });
+}
+
+fs.mkdirSync(path.dirname(dest), { recursive: true });
+
+if (removeSource) {
+  try {
+    fs.renameSync(source, dest);
+  } catch (e) {
+    if (e.code !== "EXDEV") throw e;
+    fs.cpSync(source, dest, { recursive: true, verbatimSymlinks: true });
+    fs.rmSync(source, { recursive: true });
+  }
+} else {
+  fs.cpSync(source, dest, { recursive: true, verbatimSymlinks: true });
+}
+`;
+    const result = await this.execute(
+      buildNodeScript(script, {
+        FROM: toBase64(from),
+        TO: toBase64(to),
+        OVERWRITE: String(overwrite),
+        REMOVE_SOURCE: String(removeSource),
+      })
+    );
+
+    if (result.exitCode === 1) {
+      return { success: false, error: FILE_NOT_FOUND(from) };
+    }
+    if (result.exitCode === 2) {
+      return { success: false, error: PATH_ALREADY_EXISTS(to) };
+    }
+    if (result.exitCode === 3) {
+      return { success: false, error: CANNOT_MOVE_INTO_ITSELF(from, to) };
+    }
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        error: result.output.trim() || `Failed to ${removeSource ? "move" : "copy"} '${from}'`,
+      };
+    }
+    return { success: true, path: to };
+  }
+
   /**
    * Search for pattern in files.
    */
@@ -622,4 +822,196 @@ for (const m of matches) {
     }
     return infos;
   }
+  /**
+   * Capture the files under a directory as a tar archive.
+   *
+   * Files are fetched with downloadFiles(), so sandboxes with a native
+   * download API snapshot faster. File modes and symlinks are kept, so
+   * installed executables such as node_modules/.bin still run after a
+   * restore. Empty directories are not captured.
+   *
+   * @param path - Directory to capture (default: the working directory)
+   * @throws If a file cannot be listed or downloaded
+   *
+   * @example
+   * ```typescript
+   * await sandbox.execute('npm ci');
+   * const prepared = await sandbox.snapshot();
+   * // Later, in a fresh sandbox
+   * await other.restore(prepared);
+   * ```
+   */
+  async snapshot(path: string = "."): Promise<SandboxSnapshot> {
+    // List files and symlinks without following links
+    const script = `
+const fs = require("fs");
+const path = require("path");
+const basePath = Buffer.from("__PATH__", "base64").toString("utf-8");
+
+function walk(dir) {
+  let entries = [];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch (e) {
+    if (e.code === "ENOENT") return;
+    throw e;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = path.relative(basePath, fullPath);
+    if (entry.isDirectory()) {
+      walk(fullPath);
+    } else if (entry.isSymbolicLink()) {
+      console.log(JSON.stringify({ path: relativePath, target: fs.readlinkSync(fullPath) }));
+    } else if (entry.isFile()) {
+      console.log(JSON.stringify({ path: relativePath, mode: fs.lstatSync(fullPath).mode & 0o7777 }));
+    }
+  }
+}
+walk(basePath);
+`;
+    const result = await this.execute(buildNodeScript(script, { PATH: toBase64(path) }));
+    if (result.exitCode !== 0) {
+      throw new Error(SNAPSHOT_FAILED(path, result.output.trim()));
+    }
+    if (result.truncated) {
+      throw new Error(SNAPSHOT_FAILED(path, "the file listing exceeds the sandbox's output limit"));
+    }
+    const listed: Array<{ path: string; mode?: number; target?: string }> = result.output
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+    const files = listed.filter((info) => info.target === undefined);
+    const downloads = await this.downloadFiles(files.map((info) => posix.join(path, info.path)));
+
+    const entries: Array<[string, Uint8Array, TarFileOptions]> = [];
+    for (const [i, download] of downloads.entries()) {
+      if (!download.content) {
+        throw new Error(SNAPSHOT_FAILED(download.path, download.error ?? "no content"));
+      }
+      entries.push([files[i]!.path, download.content, { mode: files[i]!.mode }]);
+    }
+    for (const info of listed) {
+      if (info.target !== undefined) {
+        entries.push([info.path, new Uint8Array(0), { linkTarget: info.target }]);
+      }
+    }
+
+    return {
+      path,
+      archive: createTarArchive(entries),
+      fileCount: entries.length,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Restore a snapshot, making the directory's files match it exactly,
+   * including file modes and symlinks. Files that are not in the snapshot
+   * are deleted.
+   *
+   * @param snapshot - Snapshot from snapshot(), possibly of another sandbox
+   * @param path - Directory to restore into (default: the snapshot's path)
+   * @throws If a file cannot be removed, uploaded or linked
+   */
+  async restore(snapshot: SandboxSnapshot, path: string = snapshot.path): Promise<void> {
+    const entries = readTarArchive(snapshot.archive);
+    const files = entries.filter((entry) => entry.type === "file");
+    const links = entries
+      .filter((entry) => entry.type === "symlink")
+      .map((entry): [string, string] => [entry.name, entry.linkTarget ?? ""]);
+    const names = [...files.map((entry) => entry.name), ...links.map(([name]) => name)];
+    const dirs = [...new Set(names.map((name) => posix.dirname(posix.join(path, name))))];
+    const modes = files.map((entry) => [posix.join(path, entry.name), entry.mode]);
+
+    // The manifest of a large tree does not fit on one command line, so the
+    // scripts below read it from a temporary file
+    const tempFile = await this.execute("mktemp");
+    if (tempFile.exitCode !== 0) {
+      throw new Error(RESTORE_FAILED(path, tempFile.output.trim()));
+    }
+    const manifestPath = tempFile.output.trim();
+    try {
+      const manifest = JSON.stringify({ base: path, files: files.map((entry) => entry.name), links, dirs, modes });
+      const written = await this.writeInChunks(manifestPath, new TextEncoder().encode(manifest));
+      if (written.exitCode !== 0) {
+        throw new Error(RESTORE_FAILED(path, written.output.trim()));
+      }
+      await this.restoreFromManifest(manifestPath, files, path);
+    } finally {
+      await this.execute(`rm -f '${manifestPath.replace(/'/g, "'\\''")}'`).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Make the directory match a snapshot whose manifest has been written to
+   * `manifestPath`: remove stale files, create directories and symlinks,
+   * upload the files and set their modes.
+   */
+  private async restoreFromManifest(manifestPath: string, files: TarEntry[], path: string): Promise<void> {
+    // Remove files that are not in the snapshot, or have the wrong type, then
+    // create parent directories and symlinks in one command
+    const prepare = `
+const fs = require("fs");
+const path = require("path");
+const data = JSON.parse(fs.readFileSync(Buffer.from("__MANIFEST__", "base64").toString("utf-8"), "utf-8"));
+const files = new Set(data.files);
+const links = new Map(data.links);
+
+function walk(dir) {
+  let entries = [];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch (e) {
+    if (e.code === "ENOENT") return;
+    throw e;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = path.relative(data.base, fullPath);
+    if (entry.isDirectory() && !files.has(relativePath) && !links.has(relativePath)) {
+      walk(fullPath);
+    } else if (entry.isSymbolicLink() ? !links.has(relativePath) : !files.has(relativePath)) {
+      fs.rmSync(fullPath, { recursive: true, force: true });
+    }
+  }
+}
+walk(data.base);
+for (const dir of data.dirs) fs.mkdirSync(dir, { recursive: true });
+for (const [name, target] of links) {
+  const fullPath = path.join(data.base, name);
+  fs.rmSync(fullPath, { force: true });
+  fs.symlinkSync(target, fullPath);
+}
+`;
+    const prepared = await this.execute(buildNodeScript(prepare, { MANIFEST: toBase64(manifestPath) }));
+    if (prepared.exitCode !== 0) {
+      throw new Error(RESTORE_FAILED(path, prepared.output.trim()));
+    }
+
+    const uploads = await this.uploadFiles(
+      files.map((entry): [string, Uint8Array] => [posix.join(path, entry.name), entry.content])
+    );
+    const failed = uploads.find((upload) => upload.error);
+    if (failed) {
+      throw new Error(RESTORE_FAILED(path, `${failed.path}: ${failed.error}`));
+    }
+
+    // Uploads keep the mode of a file they overwrite, so set every file's mode
+    const chmod = `
+const fs = require("fs");
+const data = JSON.parse(fs.readFileSync(Buffer.from("__MANIFEST__", "base64").toString("utf-8"), "utf-8"));
+for (const [file, mode] of data.modes) fs.chmodSync(file, mode);
+`;
+    const chmodded = await this.execute(buildNodeScript(chmod, { MANIFEST: toBase64(manifestPath) }));
+    if (chmodded.exitCode !== 0) {
+      throw new Error(RESTORE_FAILED(path, chmodded.output.trim()));
+    }
+  }
+
+  /**
+   * Release the sandbox's resources. The default does nothing; subclasses
+   * backed by a container or cloud sandbox override it to shut it down.
+   */
+  async dispose(): Promise<void> {}
 }
@@ -0,0 +1,139 @@
+/**
+ * SQLite implementation of KeyValueStore.
+ *
+ * Stores values as JSON in a single table keyed by (namespace, key), so
+ * PersistentBackend files and KeyValueStoreSaver checkpoints survive restarts
+ * without one-file-per-key races.
+ */
+
+import type { KeyValueStore } from "./persistent";
+import { openSqliteDatabase, type SqliteDatabase } from "../utils/sqlite";
+
+/**
+ * Options for creating a SqliteStore.
+ */
+export interface SqliteStoreOptions {
+  /**
+   * Path to the database file. Use ":memory:" for a non-persistent database.
+   * The file is created if it does not exist.
+   */
+  path: string;
+
+  /**
+   * Table name for stored values.
+   * Default: "kv_store"
+   */
+  tableName?: string;
+}
+
+/**
+ * KeyValueStore backed by SQLite (`bun:sqlite` on Bun, `better-sqlite3` on Node.js).
+ *
+ * The namespace array is stored in its own indexed column, so listing a
+ * namespace is an index lookup rather than a key-prefix scan. The database
+ * runs in WAL mode so concurrent readers don't block the writer.
+ *
+ * @example
+ * ```typescript
+ * import { PersistentBackend, SqliteStore } from 'deepagentsdk';
+ *
+ * const store = new SqliteStore({ path: './.deepagents/store.db' });
+ * const backend = new PersistentBackend({ store, namespace: 'my-project' });
+ * ```
+ */
+export class SqliteStore implements KeyValueStore {
+  private db: SqliteDatabase;
+  private tableName: string;
+
+  constructor(options: SqliteStoreOptions) {
+    this.tableName = options.tableName ?? "kv_store";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new Error(`Invalid table name: ${this.tableName}`);
+    }
+
+    this.db = openSqliteDatabase(options.path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (namespace, key)
+      );
+    `);
+  }
+
+  /**
+   * Encode a namespace array into its column value.
+   * JSON keeps segments unambiguous even if they contain separators.
+   */
+  private encodeNamespace(namespace: string[]): string {
+    return JSON.stringify(namespace);
+  }
+
+  async get(namespace: string[], key: string): Promise<Record<string, unknown> | undefined> {
+    const row = this.db
+      .prepare(`SELECT value FROM ${this.tableName} WHERE namespace = ? AND key = ?`)
+      .get(this.encodeNamespace(namespace), key) as { value: string } | null | undefined;
+
+    return row ? (JSON.parse(row.value) as Record<string, unknown>) : undefined;
+  }
+
+  async put(namespace: string[], key: string, value: Record<string, unknown>): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.tableName} (namespace, key, value, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      )
+      .run(this.encodeNamespace(namespace), key, JSON.stringify(value), new Date().toISOString());
+  }
+
+  async delete(namespace: string[], key: string): Promise<void> {
+    this.db
+      .prepare(`DELETE FROM ${this.tableName} WHERE namespace = ? AND key = ?`)
+      .run(this.encodeNamespace(namespace), key);
+  }
+
+  async list(namespace: string[]): Promise<Array<{ key: string; value: Record<string, unknown> }>> {
+    const rows = this.db
+      .prepare(`SELECT key, value FROM ${this.tableName} WHERE namespace = ? ORDER BY key`)
+      .all(this.encodeNamespace(namespace)) as Array<{ key: string; value: string }>;
+
+    return rows.map((row) => ({
+      key: row.key,
+      value: JSON.parse(row.value) as Record<string, unknown>,
+    }));
+  }
+
+  /**
+   * Write several entries in a single transaction.
+   * Either all entries are stored or none are.
+   */
+  async putMany(
+    entries: Array<{ namespace: string[]; key: string; value: Record<string, unknown> }>
+  ): Promise<void> {
+    const statement = this.db.prepare(
+      `INSERT INTO ${this.tableName} (namespace, key, value, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+    );
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        statement.run(
+          this.encodeNamespace(entry.namespace),
+          entry.key,
+          JSON.stringify(entry.value),
+          now
+        );
+      }
+    })();
+  }
+
+  /**
+   * Close the underlying database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -6,23 +6,35 @@ import type {
   BackendProtocol,
   EditResult,
   FileData,
+  FileDownloadResponse,
   FileInfo,
+  FileOperationResult,
+  FileUploadResponse,
   GrepMatch,
   WriteResult,
   DeepAgentState,
 } from "../types";
 import {
+  collectPathsToDelete,
   createFileData,
+  createFileDataFromBytes,
+  fileDataToBytes,
   fileDataToString,
   formatReadResponse,
+  getFileDataSize,
+  getMimeType,
   globSearchFiles,
   grepMatchesFromFiles,
+  isBinaryFileData,
   performStringReplacement,
+  planPathTransfer,
   updateFileData,
 } from "./utils";
 import {
   FILE_NOT_FOUND,
   FILE_ALREADY_EXISTS,
+  BINARY_FILE_CANNOT_EDIT,
+  NOT_A_DIRECTORY,
 } from "../constants/errors";
 
 /**
@@ -96,7 +108,7 @@ export class StateBackend implements BackendProtocol {
         continue;
       }
 
-      const size = fd.content.join("\n").length;
+      const size = getFileDataSize(fd);
       infos.push({
         path: k,
         is_dir: false,
@@ -185,6 +197,10 @@ export class StateBackend implements BackendProtocol {
       return { success: false, error: FILE_NOT_FOUND(filePath) };
     }
 
+    if (isBinaryFileData(fileData)) {
+      return { success: false, error: BINARY_FILE_CANNOT_EDIT(filePath) };
+    }
+
     const content = fileDataToString(fileData);
     const result = performStringReplacement(
       content,
@@ -203,6 +219,115 @@ export class StateBackend implements BackendProtocol {
     return { success: true, path: filePath, occurrences };
   }
 
+  /**
+   * Delete a file, or every file under a directory when `recursive` is true.
+   */
+  delete(path: string, recursive: boolean = false): FileOperationResult {
+    const toDelete = collectPathsToDelete(Object.keys(this.getFiles()), path, recursive);
+    if (typeof toDelete === "string") {
+      return { success: false, error: toDelete };
+    }
+
+    for (const key of toDelete) {
+      delete this.state.files[key];
+    }
+    return { success: true, path, count: toDelete.length };
+  }
+
+  /**
+   * Move or rename a file or directory.
+   */
+  move(from: string, to: string, overwrite: boolean = false): FileOperationResult {
+    return this.transfer(from, to, overwrite, true);
+  }
+
+  /**
+   * Copy a file or directory.
+   */
+  copy(from: string, to: string, overwrite: boolean = false): FileOperationResult {
+    return this.transfer(from, to, overwrite, false);
+  }
+
+  /**
+   * Create a directory.
+   * Directories are implicit in state, so this only checks for a clashing file.
+   */
+  mkdir(path: string): FileOperationResult {
+    if (path in this.getFiles()) {
+      return { success: false, error: NOT_A_DIRECTORY(path) };
+    }
+    return { success: true, path };
+  }
+
+  /**
+   * Shared implementation of move and copy.
+   */
+  private transfer(
+    from: string,
+    to: string,
+    overwrite: boolean,
+    removeSource: boolean
+  ): FileOperationResult {
+    const files = this.getFiles();
+    const pairs = planPathTransfer(Object.keys(files), from, to, overwrite);
+    if (typeof pairs === "string") {
+      return { success: false, error: pairs };
+    }
+
+    const now = new Date().toISOString();
+    const moved = pairs.map(([src, dest]): [string, FileData] => [dest, files[src]!]);
+    if (removeSource) {
+      for (const [src] of pairs) {
+        delete this.state.files[src];
+      }
+    }
+    for (const [dest, fileData] of moved) {
+      this.state.files[dest] = removeSource
+        ? fileData
+        : { ...fileData, created_at: now, modified_at: now };
+    }
+    return { success: true, path: to, count: pairs.length };
+  }
+
+  /**
+   * Upload files as raw bytes, overwriting existing files.
+   * Text content is stored as lines; anything else is stored as base64.
+   */
+  uploadFiles(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]> {
+    const responses: FileUploadResponse[] = [];
+    for (const [filePath, bytes] of files) {
+      if (!filePath || filePath.trim() === "") {
+        responses.push({ path: filePath, error: "invalid_path" });
+        continue;
+      }
+      const existing = this.getFiles()[filePath];
+      this.state.files[filePath] = createFileDataFromBytes(filePath, bytes, existing?.created_at);
+      responses.push({ path: filePath, error: null });
+    }
+    return Promise.resolve(responses);
+  }
+
+  /**
+   * Download files as raw bytes.
+   */
+  downloadFiles(paths: string[]): Promise<FileDownloadResponse[]> {
+    const files = this.getFiles();
+    return Promise.resolve(
+      paths.map((filePath): FileDownloadResponse => {
+        const fileData = files[filePath];
+        if (!fileData) {
+          return { path: filePath, content: null, error: "file_not_found" };
+        }
+        return {
+          path: filePath,
+          content: fileDataToBytes(fileData),
+          mimeType: fileData.mimeType ?? getMimeType(filePath),
+          error: null,
+        };
+      })
+    );
+  }
+
   /**
    * Structured search results or error string for invalid input.
    */
@@ -230,7 +355,7 @@ export class StateBackend implements BackendProtocol {
     const infos: FileInfo[] = [];
     for (const p of paths) {
       const fd = files[p];
-      const size = fd ? fd.content.join("\n").length : 0;
+      const size = fd ? getFileDataSize(fd) : 0;
       infos.push({
         path: p,
         is_dir: false,
@@ -3,9 +3,17 @@
  */
 
 import micromatch from "micromatch";
-import { basename } from "path";
+import { basename, extname } from "path";
 import type { FileData, GrepMatch } from "../types";
-import { SYSTEM_REMINDER_FILE_EMPTY, INVALID_REGEX } from "../constants/errors";
+import {
+  SYSTEM_REMINDER_FILE_EMPTY,
+  INVALID_REGEX,
+  BINARY_FILE_CANNOT_DISPLAY,
+  FILE_NOT_FOUND,
+  PATH_ALREADY_EXISTS,
+  DIRECTORY_NOT_EMPTY,
+  CANNOT_MOVE_INTO_ITSELF,
+} from "../constants/errors";
 import {
   MAX_LINE_LENGTH,
   LINE_NUMBER_WIDTH,
@@ -119,6 +127,115 @@ export function updateFileData(fileData: FileData, content: string): FileData {
   };
 }
 
+/**
+ * MIME types by file extension. Anything else is `application/octet-stream`.
+ */
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".svg": "image/svg+xml",
+  ".ico": "image/x-icon",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".tar": "application/x-tar",
+  ".json": "application/json",
+  ".wasm": "application/wasm",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".css": "text/css",
+};
+
+/**
+ * Guess a file's MIME type from its extension.
+ */
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[extname(filePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Check whether a MIME type is an image format models accept as image input.
+ */
+export function isImageMimeType(mimeType: string): boolean {
+  return ["image/png", "image/jpeg", "image/gif", "image/webp"].includes(mimeType);
+}
+
+/**
+ * Check whether bytes look binary: a NUL byte near the start, or invalid UTF-8.
+ */
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  if (bytes.subarray(0, 8000).includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Check whether FileData holds a binary file.
+ */
+export function isBinaryFileData(fileData: FileData): boolean {
+  return fileData.data !== undefined;
+}
+
+/**
+ * Create FileData from raw bytes: text files are stored as lines,
+ * binary files as base64 with a MIME type guessed from the path.
+ */
+export function createFileDataFromBytes(
+  filePath: string,
+  bytes: Uint8Array,
+  createdAt?: string
+): FileData {
+  if (!isBinaryContent(bytes)) {
+    return createFileData(new TextDecoder().decode(bytes), createdAt);
+  }
+
+  const now = new Date().toISOString();
+  return {
+    content: [],
+    data: Buffer.from(bytes).toString("base64"),
+    mimeType: getMimeType(filePath),
+    created_at: createdAt || now,
+    modified_at: now,
+  };
+}
+
+/**
+ * Convert FileData back to raw bytes.
+ */
+export function fileDataToBytes(fileData: FileData): Uint8Array {
+  if (fileData.data !== undefined) {
+    return new Uint8Array(Buffer.from(fileData.data, "base64"));
+  }
+  return new TextEncoder().encode(fileDataToString(fileData));
+}
+
+/**
+ * Size of a file's content in bytes (text size is approximate).
+ */
+export function getFileDataSize(fileData: FileData): number {
+  if (fileData.data !== undefined) {
+    return Buffer.byteLength(fileData.data, "base64");
+  }
+  return fileDataToString(fileData).length;
+}
+
 /**
  * Format file data for read response with line numbers.
  */
@@ -127,6 +244,13 @@ export function formatReadResponse(
   offset: number,
   limit: number
 ): string {
+  if (isBinaryFileData(fileData)) {
+    return BINARY_FILE_CANNOT_DISPLAY(
+      fileData.mimeType ?? "application/octet-stream",
+      getFileDataSize(fileData)
+    );
+  }
+
   const content = fileDataToString(fileData);
   const emptyMsg = checkEmptyContent(content);
   if (emptyMsg) {
@@ -285,3 +409,73 @@ export function grepMatchesFromFiles(
   return matches;
 }
 
+
+/**
+ * Resolve which keys of a flat file map a delete removes.
+ * `target` may name a file or a directory (every key under it).
+ *
+ * @returns Keys to delete, or an error string
+ */
+export function collectPathsToDelete(
+  paths: string[],
+  target: string,
+  recursive: boolean
+): string[] | string {
+  if (paths.includes(target)) {
+    return [target];
+  }
+
+  const dirPrefix = target.endsWith("/") ? target : target + "/";
+  const children = paths.filter((p) => p.startsWith(dirPrefix));
+  if (children.length === 0) {
+    return FILE_NOT_FOUND(target);
+  }
+  if (!recursive) {
+    return DIRECTORY_NOT_EMPTY(target);
+  }
+  return children;
+}
+
+/**
+ * Resolve the source/destination key pairs for a move or copy in a flat file map.
+ * `from` may name a file or a directory (every key under it).
+ *
+ * @returns Source/destination pairs, or an error string
+ */
+export function planPathTransfer(
+  paths: string[],
+  from: string,
+  to: string,
+  overwrite: boolean
+): Array<[string, string]> | string {
+  const existing = new Set(paths);
+  const fromDir = from.endsWith("/") ? from : from + "/";
+  const toBase = to.replace(/\/+$/, "") || "/";
+  const toDir = toBase.endsWith("/") ? toBase : toBase + "/";
+
+  let pairs: Array<[string, string]>;
+  if (existing.has(from)) {
+    if (paths.some((p) => p.startsWith(toDir))) {
+      return PATH_ALREADY_EXISTS(to);
+    }
+    pairs = [[from, toBase]];
+  } else {
+    const children = paths.filter((p) => p.startsWith(fromDir));
+    if (children.length === 0) {
+      return FILE_NOT_FOUND(from);
+    }
+    if (toDir.startsWith(fromDir)) {
+      return CANNOT_MOVE_INTO_ITSELF(from, to);
+    }
+    pairs = children.map((p): [string, string] => [p, toDir + p.substring(fromDir.length)]);
+  }
+
+  if (!overwrite) {
+    const conflict = pairs.find(([, dest]) => existing.has(dest));
+    if (conflict) {
+      return PATH_ALREADY_EXISTS(conflict[1]);
+    }
+  }
+
+  return pairs;
+}
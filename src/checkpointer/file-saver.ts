@@ -2,9 +2,18 @@
  * File-based checkpoint saver for local development.
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, readdirSync } from "node:fs";
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  unlinkSync,
+  readdirSync,
+} from "node:fs";
 import { join } from "node:path";
 import type { Checkpoint, BaseCheckpointSaver } from "./types";
+import { forkCheckpoint, prepareCheckpoint, sortHistory } from "./utils";
 
 /**
  * Options for FileSaver.
@@ -18,7 +27,8 @@ export interface FileSaverOptions {
  * File-based checkpoint saver.
  * 
  * Stores checkpoints as JSON files in a directory. Each thread gets
- * its own file named `{threadId}.json`.
+ * its own file named `{threadId}.json` holding the latest checkpoint, and
+ * a `{threadId}.history.jsonl` file with one line per saved checkpoint.
  * 
  * @example
  * ```typescript
@@ -41,22 +51,53 @@ export class FileSaver implements BaseCheckpointSaver {
     }
   }
 
-  private getFilePath(threadId: string): string {
+  private getSafeId(threadId: string): string {
     // Sanitize threadId to be safe for filenames
-    const safeId = threadId.replace(/[^a-zA-Z0-9_-]/g, '_');
-    return join(this.dir, `${safeId}.json`);
+    return threadId.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+
+  private getFilePath(threadId: string): string {
+    return join(this.dir, `${this.getSafeId(threadId)}.json`);
+  }
+
+  private getHistoryPath(threadId: string): string {
+    return join(this.dir, `${this.getSafeId(threadId)}.history.jsonl`);
+  }
+
+  /**
+   * Read a thread's history file. Later lines win for repeated checkpoint IDs.
+   */
+  private readHistory(threadId: string): Checkpoint[] {
+    const historyPath = this.getHistoryPath(threadId);
+    if (!existsSync(historyPath)) {
+      return [];
+    }
+
+    const byId = new Map<string, Checkpoint>();
+    for (const line of readFileSync(historyPath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const checkpoint = JSON.parse(line) as Checkpoint;
+        byId.set(checkpoint.checkpointId ?? '', checkpoint);
+      } catch {
+        // Skip a partially written line
+      }
+    }
+    return [...byId.values()];
   }
 
   async save(checkpoint: Checkpoint): Promise<void> {
     const filePath = this.getFilePath(checkpoint.threadId);
-    const data = {
-      ...checkpoint,
-      updatedAt: new Date().toISOString(),
-    };
+    const data = prepareCheckpoint(checkpoint);
+    appendFileSync(this.getHistoryPath(checkpoint.threadId), JSON.stringify(data) + '\n', 'utf-8');
     writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
   }
 
-  async load(threadId: string): Promise<Checkpoint | undefined> {
+  async load(threadId: string, checkpointId?: string): Promise<Checkpoint | undefined> {
+    if (checkpointId) {
+      return this.readHistory(threadId).find((c) => c.checkpointId === checkpointId);
+    }
+
     const filePath = this.getFilePath(threadId);
     
     if (!existsSync(filePath)) {
@@ -71,6 +112,18 @@ export class FileSaver implements BaseCheckpointSaver {
     }
   }
 
+  async listHistory(threadId: string): Promise<Checkpoint[]> {
+    return sortHistory(this.readHistory(threadId));
+  }
+
+  async fork(
+    threadId: string,
+    checkpointId: string,
+    newThreadId: string
+  ): Promise<Checkpoint | undefined> {
+    return forkCheckpoint(this, threadId, checkpointId, newThreadId);
+  }
+
   async list(): Promise<string[]> {
     if (!existsSync(this.dir)) {
       return [];
@@ -84,10 +137,14 @@ export class FileSaver implements BaseCheckpointSaver {
 
   async delete(threadId: string): Promise<void> {
     const filePath = this.getFilePath(threadId);
+    const historyPath = this.getHistoryPath(threadId);
     
     if (existsSync(filePath)) {
       unlinkSync(filePath);
     }
+    if (existsSync(historyPath)) {
+      unlinkSync(historyPath);
+    }
   }
 
   async exists(threadId: string): Promise<boolean> {
@@ -2,4 +2,6 @@ export * from "./types";
 export * from "./memory-saver";
 export * from "./file-saver";
 export * from "./kv-saver";
+export * from "./sqlite-saver";
 
+export { createCheckpointId, forkCheckpoint } from "./utils";
@@ -7,6 +7,7 @@
 
 import type { KeyValueStore } from "../backends/persistent";
 import type { Checkpoint, BaseCheckpointSaver, CheckpointSaverOptions } from "./types";
+import { forkCheckpoint, prepareCheckpoint, sortHistory } from "./utils";
 
 /**
  * Options for KeyValueStoreSaver.
@@ -43,34 +44,64 @@ export interface KeyValueStoreSaverOptions extends CheckpointSaverOptions {
 export class KeyValueStoreSaver implements BaseCheckpointSaver {
   private store: KeyValueStore;
   private namespace: string[];
+  private rootNamespace: string;
 
   constructor(options: KeyValueStoreSaverOptions) {
     this.store = options.store;
-    this.namespace = [options.namespace || "default", "checkpoints"];
+    this.rootNamespace = options.namespace || "default";
+    this.namespace = [this.rootNamespace, "checkpoints"];
+  }
+
+  /**
+   * Namespace holding a thread's checkpoint history, keyed by checkpoint ID.
+   */
+  private getHistoryNamespace(threadId: string): string[] {
+    return [this.rootNamespace, "checkpoint-history", threadId];
   }
 
   async save(checkpoint: Checkpoint): Promise<void> {
-    const data = {
-      ...checkpoint,
-      updatedAt: new Date().toISOString(),
-    };
+    const data = prepareCheckpoint(checkpoint);
+    await this.store.put(
+      this.getHistoryNamespace(checkpoint.threadId),
+      data.checkpointId!,
+      data as unknown as Record<string, unknown>
+    );
     await this.store.put(this.namespace, checkpoint.threadId, data as unknown as Record<string, unknown>);
   }
 
-  async load(threadId: string): Promise<Checkpoint | undefined> {
-    const data = await this.store.get(this.namespace, threadId);
+  async load(threadId: string, checkpointId?: string): Promise<Checkpoint | undefined> {
+    const data = checkpointId
+      ? await this.store.get(this.getHistoryNamespace(threadId), checkpointId)
+      : await this.store.get(this.namespace, threadId);
     if (!data) {
       return undefined;
     }
     return data as unknown as Checkpoint;
   }
 
+  async listHistory(threadId: string): Promise<Checkpoint[]> {
+    const items = await this.store.list(this.getHistoryNamespace(threadId));
+    return sortHistory(items.map((item) => item.value as unknown as Checkpoint));
+  }
+
+  async fork(
+    threadId: string,
+    checkpointId: string,
+    newThreadId: string
+  ): Promise<Checkpoint | undefined> {
+    return forkCheckpoint(this, threadId, checkpointId, newThreadId);
+  }
+
   async list(): Promise<string[]> {
     const items = await this.store.list(this.namespace);
     return items.map(item => item.key);
   }
 
   async delete(threadId: string): Promise<void> {
+    const historyNamespace = this.getHistoryNamespace(threadId);
+    for (const item of await this.store.list(historyNamespace)) {
+      await this.store.delete(historyNamespace, item.key);
+    }
     await this.store.delete(this.namespace, threadId);
   }
 
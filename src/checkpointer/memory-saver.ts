@@ -3,6 +3,7 @@
  */
 
 import type { Checkpoint, BaseCheckpointSaver, CheckpointSaverOptions } from "./types";
+import { forkCheckpoint, prepareCheckpoint, sortHistory } from "./utils";
 
 /**
  * In-memory checkpoint saver.
@@ -21,6 +22,7 @@ import type { Checkpoint, BaseCheckpointSaver, CheckpointSaverOptions } from "./
  */
 export class MemorySaver implements BaseCheckpointSaver {
   private checkpoints = new Map<string, Checkpoint>();
+  private history = new Map<string, Checkpoint[]>();
   private namespace: string;
 
   constructor(options: CheckpointSaverOptions = {}) {
@@ -33,17 +35,36 @@ export class MemorySaver implements BaseCheckpointSaver {
 
   async save(checkpoint: Checkpoint): Promise<void> {
     const key = this.getKey(checkpoint.threadId);
-    this.checkpoints.set(key, {
-      ...checkpoint,
-      updatedAt: new Date().toISOString(),
-    });
+    const data = prepareCheckpoint(checkpoint);
+    this.checkpoints.set(key, data);
+
+    const history = (this.history.get(key) ?? []).filter(
+      (c) => c.checkpointId !== data.checkpointId
+    );
+    history.push(data);
+    this.history.set(key, history);
   }
 
-  async load(threadId: string): Promise<Checkpoint | undefined> {
+  async load(threadId: string, checkpointId?: string): Promise<Checkpoint | undefined> {
     const key = this.getKey(threadId);
+    if (checkpointId) {
+      return this.history.get(key)?.find((c) => c.checkpointId === checkpointId);
+    }
     return this.checkpoints.get(key);
   }
 
+  async listHistory(threadId: string): Promise<Checkpoint[]> {
+    return sortHistory(this.history.get(this.getKey(threadId)) ?? []);
+  }
+
+  async fork(
+    threadId: string,
+    checkpointId: string,
+    newThreadId: string
+  ): Promise<Checkpoint | undefined> {
+    return forkCheckpoint(this, threadId, checkpointId, newThreadId);
+  }
+
   async list(): Promise<string[]> {
     const prefix = `${this.namespace}:`;
     const threadIds: string[] = [];
@@ -58,6 +79,7 @@ export class MemorySaver implements BaseCheckpointSaver {
   async delete(threadId: string): Promise<void> {
     const key = this.getKey(threadId);
     this.checkpoints.delete(key);
+    this.history.delete(key);
   }
 
   async exists(threadId: string): Promise<boolean> {
@@ -70,10 +92,11 @@ export class MemorySaver implements BaseCheckpointSaver {
    */
   clear(): void {
     this.checkpoints.clear();
+    this.history.clear();
   }
 
   /**
-   * Get the number of stored checkpoints.
+   * Get the number of threads with stored checkpoints.
    */
   size(): number {
     return this.checkpoints.size;
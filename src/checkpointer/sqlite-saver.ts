@@ -0,0 +1,167 @@
+/**
+ * SQLite-based checkpoint saver.
+ */
+
+import { openSqliteDatabase, type SqliteDatabase } from "../utils/sqlite";
+import type { Checkpoint, BaseCheckpointSaver, CheckpointSaverOptions } from "./types";
+import { forkCheckpoint, prepareCheckpoint } from "./utils";
+
+/**
+ * Options for SqliteSaver.
+ */
+export interface SqliteSaverOptions extends CheckpointSaverOptions {
+  /**
+   * Path to the database file. Use ":memory:" for a non-persistent database.
+   * The file is created if it does not exist.
+   */
+  path: string;
+}
+
+/**
+ * Checkpoint saver backed by SQLite (`bun:sqlite` on Bun, `better-sqlite3` on Node.js).
+ *
+ * Each thread's latest checkpoint is a row keyed by (namespace, thread_id),
+ * and every saved checkpoint is kept in a history table. Both rows are written
+ * in one transaction and the database uses WAL mode, so several processes can
+ * share one checkpoint database without clobbering each other's files.
+ *
+ * @example
+ * ```typescript
+ * const saver = new SqliteSaver({ path: './.checkpoints/checkpoints.db' });
+ * const agent = createDeepAgent({
+ *   model: anthropic('claude-sonnet-4-20250514'),
+ *   checkpointer: saver,
+ * });
+ * ```
+ */
+export class SqliteSaver implements BaseCheckpointSaver {
+  private db: SqliteDatabase;
+  private namespace: string;
+
+  constructor(options: SqliteSaverOptions) {
+    this.namespace = options.namespace || "default";
+    this.db = openSqliteDatabase(options.path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS checkpoints (
+        namespace TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        step INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (namespace, thread_id)
+      );
+      CREATE TABLE IF NOT EXISTS checkpoint_history (
+        namespace TEXT NOT NULL,
+        thread_id TEXT NOT NULL,
+        checkpoint_id TEXT NOT NULL,
+        step INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (namespace, thread_id, checkpoint_id)
+      );
+    `);
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    const data = prepareCheckpoint(checkpoint);
+    const json = JSON.stringify(data);
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO checkpoint_history (namespace, thread_id, checkpoint_id, step, data, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(this.namespace, data.threadId, data.checkpointId, data.step, json, data.createdAt);
+      this.db
+        .prepare(
+          `INSERT INTO checkpoints (namespace, thread_id, step, data, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT (namespace, thread_id) DO UPDATE SET
+             step = excluded.step, data = excluded.data, updated_at = excluded.updated_at`
+        )
+        .run(
+          this.namespace,
+          data.threadId,
+          data.step,
+          json,
+          data.createdAt,
+          data.updatedAt
+        );
+    })();
+  }
+
+  async load(threadId: string, checkpointId?: string): Promise<Checkpoint | undefined> {
+    const row = (
+      checkpointId
+        ? this.db
+            .prepare(
+              "SELECT data FROM checkpoint_history WHERE namespace = ? AND thread_id = ? AND checkpoint_id = ?"
+            )
+            .get(this.namespace, threadId, checkpointId)
+        : this.db
+            .prepare("SELECT data FROM checkpoints WHERE namespace = ? AND thread_id = ?")
+            .get(this.namespace, threadId)
+    ) as { data: string } | null | undefined;
+
+    if (!row) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(row.data) as Checkpoint;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async listHistory(threadId: string): Promise<Checkpoint[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT data FROM checkpoint_history WHERE namespace = ? AND thread_id = ? ORDER BY checkpoint_id DESC"
+      )
+      .all(this.namespace, threadId) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as Checkpoint);
+  }
+
+  async fork(
+    threadId: string,
+    checkpointId: string,
+    newThreadId: string
+  ): Promise<Checkpoint | undefined> {
+    return forkCheckpoint(this, threadId, checkpointId, newThreadId);
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.db
+      .prepare("SELECT thread_id FROM checkpoints WHERE namespace = ? ORDER BY thread_id")
+      .all(this.namespace) as Array<{ thread_id: string }>;
+    return rows.map((row) => row.thread_id);
+  }
+
+  async delete(threadId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM checkpoint_history WHERE namespace = ? AND thread_id = ?")
+        .run(this.namespace, threadId);
+      this.db
+        .prepare("DELETE FROM checkpoints WHERE namespace = ? AND thread_id = ?")
+        .run(this.namespace, threadId);
+    })();
+  }
+
+  async exists(threadId: string): Promise<boolean> {
+    const row = this.db
+      .prepare("SELECT 1 FROM checkpoints WHERE namespace = ? AND thread_id = ?")
+      .get(this.namespace, threadId);
+    return row !== null && row !== undefined;
+  }
+
+  /**
+   * Close the underlying database connection.
+   */
+  close(): void {
+    this.db.close();
+  }
+}
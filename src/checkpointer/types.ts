@@ -2,7 +2,7 @@
  * Type definitions for checkpointer support.
  */
 
-import type { DeepAgentState, ModelMessage } from "../types";
+import type { DeepAgentState, ModelMessage, UsageSummary } from "../types";
 
 /**
  * Data stored in a checkpoint.
@@ -11,15 +11,27 @@ import type { DeepAgentState, ModelMessage } from "../types";
 export interface Checkpoint {
   /** Unique identifier for the conversation thread */
   threadId: string;
+
+  /**
+   * Unique identifier for this checkpoint within the thread's history.
+   * Assigned by the saver on save if not provided.
+   */
+  checkpointId?: string;
+
+  /** ID of the checkpoint this one was created from (previous step or fork source) */
+  parentCheckpointId?: string;
   
   /** Step number when this checkpoint was created */
   step: number;
   
-  /** Conversation history (serialized messages) */
+  /** Conversation history (serialized messages, including tool calls and tool results) */
   messages: ModelMessage[];
   
   /** Agent state (todos and StateBackend files) */
   state: DeepAgentState;
+
+  /** Token usage of the thread up to this checkpoint */
+  usage?: UsageSummary;
   
   /** 
    * Interrupt data if the agent was paused mid-execution.
@@ -45,6 +57,12 @@ export interface InterruptData {
     toolName: string;
     args: unknown;
   };
+
+  /**
+   * All tool calls from the interrupted step that require approval, in order.
+   * `toolCall` is the first entry. Absent in checkpoints written by older versions.
+   */
+  toolCalls?: Array<InterruptData["toolCall"]>;
   
   /** Step number where interrupt occurred */
   step: number;
@@ -56,8 +74,14 @@ export interface InterruptData {
 export interface ResumeDecision {
   /** Type of decision */
   type: 'approve' | 'deny';
+
+  /**
+   * Tool call this decision applies to.
+   * If omitted, decisions are matched to pending tool calls by position.
+   */
+  toolCallId?: string;
   
-  /** Optional modified arguments (for future "edit" feature) */
+  /** Optional modified arguments to execute the tool with (approve only) */
   modifiedArgs?: unknown;
 }
 
@@ -78,19 +102,42 @@ export interface ResumeOptions {
 export interface BaseCheckpointSaver {
   /**
    * Save a checkpoint.
-   * If a checkpoint for the threadId already exists, it is overwritten.
+   * The checkpoint becomes the thread's latest checkpoint and is appended to
+   * its history. A checkpoint without `checkpointId` is assigned one.
    * 
    * @param checkpoint - The checkpoint data to save
    */
   save(checkpoint: Checkpoint): Promise<void>;
   
   /**
-   * Load the latest checkpoint for a thread.
+   * Load a checkpoint for a thread.
    * 
    * @param threadId - The thread identifier
+   * @param checkpointId - Optional checkpoint from the thread's history (defaults to latest)
    * @returns The checkpoint, or undefined if not found
    */
-  load(threadId: string): Promise<Checkpoint | undefined>;
+  load(threadId: string, checkpointId?: string): Promise<Checkpoint | undefined>;
+
+  /**
+   * List every checkpoint saved for a thread, newest first.
+   * Implemented by all built-in savers; optional for custom savers that only
+   * keep the latest checkpoint.
+   * 
+   * @param threadId - The thread identifier
+   * @returns Checkpoints in the thread's history
+   */
+  listHistory?(threadId: string): Promise<Checkpoint[]>;
+
+  /**
+   * Copy a checkpoint into a new thread, leaving the original thread untouched.
+   * Implemented by all built-in savers.
+   * 
+   * @param threadId - The source thread identifier
+   * @param checkpointId - The checkpoint to fork from
+   * @param newThreadId - The thread to create
+   * @returns The new thread's checkpoint, or undefined if the source was not found
+   */
+  fork?(threadId: string, checkpointId: string, newThreadId: string): Promise<Checkpoint | undefined>;
   
   /**
    * List all thread IDs with saved checkpoints.
@@ -100,7 +147,7 @@ export interface BaseCheckpointSaver {
   list(): Promise<string[]>;
   
   /**
-   * Delete a checkpoint.
+   * Delete a thread's checkpoint and its history.
    * 
    * @param threadId - The thread identifier to delete
    */
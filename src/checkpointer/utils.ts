@@ -0,0 +1,67 @@
+/**
+ * Shared helpers for checkpoint saver implementations.
+ */
+
+import type { Checkpoint, BaseCheckpointSaver } from "./types";
+
+let checkpointCounter = 0;
+
+/**
+ * Generate a checkpoint ID.
+ *
+ * IDs sort lexicographically in creation order (timestamp, then a per-process
+ * counter), so savers can order history by ID alone.
+ */
+export function createCheckpointId(): string {
+  const time = Date.now().toString(36).padStart(9, "0");
+  const counter = (++checkpointCounter % 36 ** 4).toString(36).padStart(4, "0");
+  const random = Math.random().toString(36).substring(2, 6).padEnd(4, "0");
+  return `${time}-${counter}-${random}`;
+}
+
+/**
+ * Prepare a checkpoint for storage: assign an ID if missing and stamp updatedAt.
+ */
+export function prepareCheckpoint(checkpoint: Checkpoint): Checkpoint {
+  return {
+    ...checkpoint,
+    checkpointId: checkpoint.checkpointId ?? createCheckpointId(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Sort checkpoints newest first by checkpoint ID.
+ */
+export function sortHistory(checkpoints: Checkpoint[]): Checkpoint[] {
+  return [...checkpoints].sort((a, b) =>
+    (b.checkpointId ?? "").localeCompare(a.checkpointId ?? "")
+  );
+}
+
+/**
+ * Fork a checkpoint into a new thread using a saver's load/save.
+ */
+export async function forkCheckpoint(
+  saver: BaseCheckpointSaver,
+  threadId: string,
+  checkpointId: string,
+  newThreadId: string
+): Promise<Checkpoint | undefined> {
+  const source = await saver.load(threadId, checkpointId);
+  if (!source) {
+    return undefined;
+  }
+
+  const now = new Date().toISOString();
+  const forked: Checkpoint = {
+    ...source,
+    threadId: newThreadId,
+    checkpointId: createCheckpointId(),
+    parentCheckpointId: source.checkpointId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saver.save(forked);
+  return forked;
+}
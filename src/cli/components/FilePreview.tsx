@@ -114,6 +114,41 @@ export function FileEdited({
   );
 }
 
+/**
+ * Compact file deleted notification.
+ */
+interface FileDeletedProps {
+  path: string;
+}
+
+export function FileDeleted({ path }: FileDeletedProps): React.ReactElement {
+  return (
+    <Box>
+      <Text color={colors.warning}>{emoji.delete} Deleted: </Text>
+      <Text color={colors.file}>{path}</Text>
+    </Box>
+  );
+}
+
+/**
+ * Compact file moved notification.
+ */
+interface FileMovedProps {
+  from: string;
+  to: string;
+}
+
+export function FileMoved({ from, to }: FileMovedProps): React.ReactElement {
+  return (
+    <Box>
+      <Text color={colors.success}>{emoji.move} Moved: </Text>
+      <Text color={colors.file}>{from}</Text>
+      <Text dimColor> → </Text>
+      <Text color={colors.file}>{to}</Text>
+    </Box>
+  );
+}
+
 /**
  * Compact file read notification.
  */
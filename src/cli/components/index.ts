@@ -6,7 +6,7 @@ export { Input } from "./Input";
 export { SlashMenu, SlashMenuPanel } from "./SlashMenu";
 export { Message, StreamingMessage, type MessageData, type MessageRole, type ToolCallData } from "./Message";
 export { TodoList, TodosChanged } from "./TodoList";
-export { FilePreview, FileWritten, FileEdited, FileRead, LsResult, GlobResult, GrepResult, FileList } from "./FilePreview";
+export { FilePreview, FileWritten, FileEdited, FileDeleted, FileMoved, FileRead, LsResult, GlobResult, GrepResult, FileList } from "./FilePreview";
 export {
   ToolCall,
   ToolResult,
@@ -9,6 +9,7 @@ import type {
   ModelMessage,
   SummarizationConfig,
   InterruptOnConfig,
+  UsageSummary,
 } from "../../types";
 import type { BaseCheckpointSaver } from "../../checkpointer/types";
 import { createDeepAgent } from "../../agent";
@@ -17,6 +18,7 @@ import type { SandboxBackendProtocol } from "../../types";
 import type { ToolCallData } from "../components/Message";
 import { useEffect } from "react";
 import { DEFAULT_SUMMARIZATION_THRESHOLD, DEFAULT_KEEP_MESSAGES } from "../../constants/limits";
+import { createUsageSummary, mergeUsageSummaries } from "../../utils/usage";
 
 export type AgentStatus =
   | "idle"
@@ -47,7 +49,8 @@ export interface UseAgentOptions {
   summarization?: SummarizationConfig;
   /** 
    * Default interruptOn config for CLI.
-   * Default: { execute: true, write_file: true, edit_file: true }
+   * Default: { execute: true, write_file: true, edit_file: true, delete_file: true, move_file: true,
+   *            apply_patch: true, multi_edit: true }
    */
   interruptOn?: InterruptOnConfig;
   /** Session ID for checkpoint persistence */
@@ -73,6 +76,8 @@ export interface UseAgentReturn {
   toolCalls: ToolCallData[];
   /** Current error if any */
   error: Error | null;
+  /** Token usage reported by the model across this session */
+  usage: UsageSummary;
   /** Send a prompt to the agent, returns the final text and tool calls */
   sendPrompt: (prompt: string) => Promise<{ text: string; toolCalls: ToolCallData[] }>;
   /** Abort current generation */
@@ -125,6 +130,10 @@ const DEFAULT_CLI_INTERRUPT_ON: InterruptOnConfig = {
   execute: true,
   write_file: true,
   edit_file: true,
+  delete_file: true,
+  move_file: true,
+  apply_patch: true,
+  multi_edit: true,
   web_search: true,
   fetch_url: true,
   // Note: http_request does NOT require approval per LangChain pattern
@@ -142,6 +151,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
   const [messages, setMessages] = useState<ModelMessage[]>([]);
   const [toolCalls, setToolCalls] = useState<ToolCallData[]>([]);
   const [error, setError] = useState<Error | null>(null);
+  const [usage, setUsage] = useState<UsageSummary>(createUsageSummary);
   const [currentModel, setCurrentModel] = useState(options.model);
   
   // Load session on mount if sessionId and checkpointer are provided
@@ -256,6 +266,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     setMessages: React.Dispatch<React.SetStateAction<ModelMessage[]>>;
     setToolCalls: React.Dispatch<React.SetStateAction<ToolCallData[]>>;
     setError: React.Dispatch<React.SetStateAction<Error | null>>;
+    setUsage: React.Dispatch<React.SetStateAction<UsageSummary>>;
     addEvent: (event: DeepAgentEvent | { type: "text-segment"; text: string }) => void;
     flushTextSegment: () => void;
     accumulatedTextRef: React.MutableRefObject<string>;
@@ -407,6 +418,18 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     ctx.addEvent(event);
   };
 
+  /**
+   * Handle file-deleted and file-moved events.
+   */
+  const handleFileDeletedOrMovedEvent = (
+    event: DeepAgentEvent,
+    ctx: EventHandlerContext
+  ) => {
+    if (event.type !== "file-deleted" && event.type !== "file-moved") return;
+    ctx.setStatus("tool-call");
+    ctx.addEvent(event);
+  };
+
   /**
    * Handle file-read events.
    */
@@ -540,6 +563,18 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     ctx.addEvent(event);
   };
 
+  /**
+   * Handle budget-exceeded events.
+   */
+  const handleBudgetExceededEvent = (
+    event: DeepAgentEvent,
+    ctx: EventHandlerContext
+  ) => {
+    if (event.type !== "budget-exceeded") return;
+    ctx.flushTextSegment();
+    ctx.addEvent(event);
+  };
+
   /**
    * Handle approval-requested events.
    * Already handled in onApprovalRequest callback, so no-op here.
@@ -582,9 +617,30 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
       ctx.setMessages(event.messages);
       ctx.messagesRef.current = event.messages;
     }
+    if (event.usage) {
+      const runUsage = event.usage;
+      ctx.setUsage((prev) => mergeUsageSummaries(prev, runUsage));
+    }
     ctx.addEvent(event);
   };
 
+  /**
+   * Handle aborted events.
+   * Keeps the transcript and state of the steps that completed before the abort.
+   */
+  const handleAbortedEvent = (
+    event: DeepAgentEvent,
+    ctx: EventHandlerContext
+  ) => {
+    if (event.type !== "aborted") return;
+    ctx.flushTextSegment();
+    ctx.setStatus("idle");
+    ctx.setState(event.state);
+    ctx.setMessages(event.messages);
+    ctx.messagesRef.current = event.messages;
+    ctx.pendingToolCallsRef.current.clear();
+  };
+
   /**
    * Handle error events.
    * Flushes remaining text and marks pending tool calls as failed.
@@ -626,6 +682,8 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     "file-write-start": handleFileWriteStartEvent,
     "file-written": handleFileWrittenEvent,
     "file-edited": handleFileEditedEvent,
+    "file-deleted": handleFileDeletedOrMovedEvent,
+    "file-moved": handleFileDeletedOrMovedEvent,
     "file-read": handleFileReadEvent,
     "ls": handleLsEvent,
     "glob": handleGlobEvent,
@@ -638,9 +696,11 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     "fetch-url-finish": handleFetchUrlFinishEvent,
     "subagent-start": handleSubagentStartEvent,
     "subagent-finish": handleSubagentFinishEvent,
+    "budget-exceeded": handleBudgetExceededEvent,
     "approval-requested": handleApprovalRequestedEvent,
     "approval-response": handleApprovalResponseEvent,
     "done": handleDoneEvent,
+    "aborted": handleAbortedEvent,
     "error": handleErrorEvent,
   };
 
@@ -722,6 +782,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
             setMessages,
             setToolCalls,
             setError,
+            setUsage,
             addEvent,
             flushTextSegment,
             accumulatedTextRef,
@@ -782,6 +843,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     toolCallsRef.current = [];
     pendingToolCallsRef.current.clear();
     setError(null);
+    setUsage(createUsageSummary());
     setStatus("idle");
   }, []);
 
@@ -918,6 +980,7 @@ export function useAgent(options: UseAgentOptions): UseAgentReturn {
     messages,
     toolCalls,
     error,
+    usage,
     sendPrompt,
     abort,
     clear,
@@ -32,6 +32,8 @@ import {
   FilePreview,
   FileWritten,
   FileEdited,
+  FileDeleted,
+  FileMoved,
   FileRead,
   LsResult,
   GlobResult,
@@ -52,7 +54,7 @@ import {
   type MessageData,
 } from "./components/index";
 import { parseCommand, colors, SLASH_COMMANDS } from "./theme";
-import type { FileInfo } from "../types";
+import type { FileInfo, UsageSummary } from "../types";
 import { parseModelString, setProvidersConfig, getProvidersConfig, type ProvidersConfig } from "@/utils/model-parser";
 import { estimateMessagesTokens } from "../utils/summarization";
 
@@ -236,6 +238,7 @@ API Keys:
     OPENAI_BASE_URL=https://custom-openai-endpoint.com/v1
     ZHIPU_BASE_URL=https://api.z.ai/api/coding/paas/v4
     TAVILY_API_KEY=tvly-...  # For web_search tool
+    # Or BRAVE_SEARCH_API_KEY, SERPAPI_API_KEY, EXA_API_KEY or SEARXNG_URL
 
 Examples:
   bun src/cli-ink/index.tsx                                    # uses .env file
@@ -303,6 +306,10 @@ function App({ options, backend }: AppProps): React.ReactElement {
       execute: true,
       write_file: true,
       edit_file: true,
+      delete_file: true,
+      move_file: true,
+      apply_patch: true,
+      multi_edit: true,
     },
   });
 
@@ -625,7 +632,7 @@ function App({ options, backend }: AppProps): React.ReactElement {
         />
       )}
       {panel.view === "features" && <FeaturesPanel features={agent.features} options={options} />}
-      {panel.view === "tokens" && <TokensPanel tokenCount={panel.tokenCount || 0} messageCount={agent.messages.length} />}
+      {panel.view === "tokens" && <TokensPanel tokenCount={panel.tokenCount || 0} messageCount={agent.messages.length} usage={agent.usage} />}
       {panel.view === "models" && (
         <ModelSelectionPanel
           currentModel={agent.currentModel}
@@ -724,6 +731,10 @@ const TOOLS_WITH_SPECIFIC_EVENTS = new Set([
   "grep",
   "write_file",
   "edit_file",
+  "delete_file",
+  "move_file",
+  "apply_patch",
+  "multi_edit",
   "write_todos",
   "web_search",
   "http_request",
@@ -788,6 +799,12 @@ function EventRenderer({ event }: EventRendererProps): React.ReactElement | null
     case "file-edited":
       return <FileEdited path={e.path} occurrences={e.occurrences} />;
 
+    case "file-deleted":
+      return <FileDeleted path={e.path} />;
+
+    case "file-moved":
+      return <FileMoved from={e.from} to={e.to} />;
+
     case "file-read":
       return <FileRead path={e.path} lines={e.lines} />;
 
@@ -866,6 +883,16 @@ function EventRenderer({ event }: EventRendererProps): React.ReactElement | null
     case "subagent-finish":
       return <SubagentFinish name={e.name} />;
 
+    case "budget-exceeded":
+      return (
+        <Box>
+          <Text color={colors.warning}>⚠ Budget reached: </Text>
+          <Text>{e.limit === "tool-calls" ? `${e.toolName} calls` : e.limit}</Text>
+          {e.subagentName && <Text dimColor> (subagent {e.subagentName})</Text>}
+          <Text dimColor> - wrapping up</Text>
+        </Box>
+      );
+
     case "done":
       return (
         <DoneIndicator
@@ -970,9 +997,10 @@ function FeaturesPanel({ features, options }: FeaturesPanelProps): React.ReactEl
 interface TokensPanelProps {
   tokenCount: number;
   messageCount: number;
+  usage: UsageSummary;
 }
 
-function TokensPanel({ tokenCount, messageCount }: TokensPanelProps): React.ReactElement {
+function TokensPanel({ tokenCount, messageCount, usage }: TokensPanelProps): React.ReactElement {
   const formatNumber = (n: number) => n.toLocaleString();
 
   // Estimate percentage of typical context window
@@ -1013,6 +1041,32 @@ function TokensPanel({ tokenCount, messageCount }: TokensPanelProps): React.Reac
         <Text dimColor> (of ~200k)</Text>
       </Box>
       <Box height={1} />
+      <Text bold>Session Usage (reported by the model)</Text>
+      <Box>
+        <Text>Input: </Text>
+        <Text color={colors.primary}>{formatNumber(usage.total.inputTokens)}</Text>
+        <Text dimColor> ({formatNumber(usage.total.cachedInputTokens)} cached)</Text>
+      </Box>
+      <Box>
+        <Text>Output: </Text>
+        <Text color={colors.primary}>{formatNumber(usage.total.outputTokens)}</Text>
+        <Text dimColor> ({formatNumber(usage.total.reasoningTokens)} reasoning)</Text>
+      </Box>
+      {(usage.subagents.totalTokens > 0 || usage.summarization.totalTokens > 0) && (
+        <Box>
+          <Text>Subagents / Summarization: </Text>
+          <Text color={colors.primary}>
+            {formatNumber(usage.subagents.totalTokens)} / {formatNumber(usage.summarization.totalTokens)}
+          </Text>
+        </Box>
+      )}
+      {usage.total.cost !== undefined && (
+        <Box>
+          <Text>Cost: </Text>
+          <Text color={colors.primary}>${usage.total.cost.toFixed(4)}</Text>
+        </Box>
+      )}
+      <Box height={1} />
       {percentage > 50 && (
         <Text color={colors.warning}>
           ⚠️ Consider enabling --summarize to manage context
@@ -46,6 +46,8 @@ export const emoji = {
   tool: "🔧",
   file: "📁",
   edit: "✏️",
+  delete: "🗑️",
+  move: "📦",
   todo: "📋",
   done: "🎉",
   error: "💥",
@@ -18,9 +18,129 @@ export const INVALID_REGEX = (message: string) =>
 export const WEB_SEARCH_ERROR = (message: string) =>
   `Web search error: ${message}`;
 
+export const SEARCH_PROVIDER_REQUEST_FAILED = (provider: string, status: number, body: string) =>
+  `${provider} search request failed with status ${status}${body ? `: ${body}` : ""}`;
+
+export const WEB_SEARCH_PROVIDER_NOT_CONFIGURED =
+  'No web search provider configured. Pass webSearchProvider or set TAVILY_API_KEY, BRAVE_SEARCH_API_KEY, SERPAPI_API_KEY, EXA_API_KEY or SEARXNG_URL.';
+
 export const REQUEST_TIMEOUT = (timeout: number) =>
   `Request timed out after ${timeout} seconds`;
 
+export const REQUEST_ABORTED =
+  'Request aborted';
+
+export const EGRESS_PROTOCOL_NOT_ALLOWED = (url: string) =>
+  `Error: Request to '${url}' blocked by the egress policy: only http and https URLs are allowed`;
+
+export const EGRESS_DOMAIN_NOT_ALLOWED = (host: string) =>
+  `Error: Request to '${host}' blocked by the egress policy: the domain is not allowed`;
+
+export const EGRESS_PRIVATE_ADDRESS = (host: string, address: string) =>
+  `Error: Request to '${host}' blocked by the egress policy: it resolves to the private address ${address}`;
+
+export const EGRESS_METHOD_NOT_ALLOWED = (method: string, allowed: string[]) =>
+  `Error: ${method} requests are blocked by the egress policy. Allowed methods: ${allowed.join(", ")}`;
+
+export const EGRESS_RESPONSE_TOO_LARGE = (url: string, max: number) =>
+  `Error: Response from '${url}' exceeds the egress policy limit of ${max} bytes`;
+
+export const EGRESS_TOO_MANY_REDIRECTS = (url: string, max: number) =>
+  `Error: Request to '${url}' blocked by the egress policy: more than ${max} redirects`;
+
+export const DOCUMENT_EXTRACTION_FAILED = (source: string, message: string) =>
+  `Error: Could not extract text from '${source}': ${message}`;
+
+export const DOCUMENT_PAGE_OUT_OF_RANGE = (source: string, page: number, pageCount: number) =>
+  `Error: Page ${page} is out of range: '${source}' has ${pageCount} page${pageCount === 1 ? "" : "s"}`;
+
+export const CREDENTIAL_PROFILE_NOT_FOUND = (name: string, available: string[]) =>
+  `Error: Unknown credential profile '${name}'. Available profiles: ${available.join(", ") || "none"}`;
+
+export const CREDENTIAL_URL_OUTSIDE_PROFILE = (url: string, name: string, baseURL: string) =>
+  `Error: '${url}' is outside the base URL of credential profile '${name}' (${baseURL})`;
+
+export const SUBAGENT_TIMEOUT = (name: string, timeout: number) =>
+  `Error: subagent '${name}' timed out after ${timeout} seconds`;
+
+export const TOOL_CALL_LIMIT_REACHED = (toolName: string, max: number) =>
+  `Error: call limit for tool '${toolName}' reached (${max} calls). The tool was not executed.`;
+
+export const BUDGET_COST_UNPRICED = (modelId: string) =>
+  `Error: budget.maxCost is set, but pricing has no entry for model '${modelId}', so the cost limit cannot be enforced`;
+
+export const BINARY_FILE_CANNOT_DISPLAY = (mimeType: string, size: number) =>
+  `Binary file (${mimeType}, ${size} bytes) cannot be displayed as text`;
+
+export const BINARY_FILE_CANNOT_EDIT = (path: string) =>
+  `Error: Cannot edit binary file '${path}'`;
+
+export const PATH_ALREADY_EXISTS = (path: string) =>
+  `Error: '${path}' already exists. Choose another destination or set overwrite to true.`;
+
+export const DIRECTORY_NOT_EMPTY = (path: string) =>
+  `Error: '${path}' is a directory. Set recursive to true to delete it and its contents.`;
+
+export const CANNOT_MOVE_INTO_ITSELF = (from: string, to: string) =>
+  `Error: Cannot move or copy '${from}' into itself ('${to}')`;
+
+export const NOT_A_DIRECTORY = (path: string) =>
+  `Error: '${path}' exists and is not a directory`;
+
+export const OPERATION_NOT_SUPPORTED = (operation: string) =>
+  `Error: The current backend does not support ${operation}`;
+
+export const INVALID_PATCH = (message: string) =>
+  `Error: Invalid patch: ${message}`;
+
+export const HUNK_CONTEXT_NOT_FOUND = (line: number) =>
+  `Error: Hunk context not found near line ${line}. Re-read the file and regenerate the hunk.`;
+
+export const PATCH_NOT_APPLIED =
+  'Error: Patch not applied. No files were changed.';
+
+export const FILE_CHANGED_EXTERNALLY = (path: string) =>
+  `Error: '${path}' was changed outside the agent since it was last read. Read it again before changing it.`;
+
+export const PATH_NOT_ALLOWED = (path: string) =>
+  `Error: Access to '${path}' is not allowed by the path policy`;
+
+export const PATH_READ_ONLY = (path: string) =>
+  `Error: '${path}' is read-only. It can be read but not changed.`;
+
+export const FILE_TOO_LARGE = (path: string, size: number, max: number) =>
+  `Error: '${path}' is ${size} bytes, which exceeds the ${max} byte limit`;
+
+export const NOT_A_GIT_REPOSITORY = (path: string) =>
+  `Error: '${path}' is not inside a git repository`;
+
+export const GIT_COMMAND_FAILED = (command: string, message: string) =>
+  `Error: git ${command} failed: ${message}`;
+
+export const INVALID_GIT_REF = (ref: string) =>
+  `Error: Invalid git ref '${ref}'`;
+
+export const CONTAINER_COMMAND_FAILED = (runtime: string, command: string, message: string) =>
+  `Error: ${runtime} ${command} failed: ${message}`;
+
+export const SNAPSHOT_FAILED = (path: string, error: string) =>
+  `Error: Could not snapshot '${path}': ${error}`;
+
+export const RESTORE_FAILED = (path: string, error: string) =>
+  `Error: Could not restore snapshot to '${path}': ${error}`;
+
+export const SANDBOX_POOL_EXHAUSTED = (maxSize: number) =>
+  `Error: Sandbox pool is at its limit of ${maxSize} sandboxes`;
+
+export const SANDBOX_POOL_CLOSED =
+  'Error: Sandbox pool has been disposed';
+
+export const PROCESS_NOT_FOUND = (id: string) =>
+  `Error: No background process with id '${id}'`;
+
+export const PROCESS_NOT_RUNNING = (id: string) =>
+  `Error: Background process '${id}' has already exited`;
+
 export const SYSTEM_REMINDER_FILE_EMPTY =
   'System reminder: File exists but has empty contents';
 
@@ -85,6 +85,17 @@ export const DEFAULT_MAX_STEPS = 100;
  */
 export const DEFAULT_SUBAGENT_MAX_STEPS = 50;
 
+/**
+ * Default number of subagents a single `task_batch` call runs at once.
+ *
+ * Remaining tasks wait for a free slot, so a batch fanning out over many
+ * sources does not open dozens of model connections at the same time.
+ *
+ * @default 5
+ * @see {@link ../tools/subagent | createSubagentBatchTool}
+ */
+export const DEFAULT_SUBAGENT_MAX_CONCURRENCY = 5;
+
 /**
  * Default maximum number of messages to keep in CLI history.
  *
@@ -110,6 +121,18 @@ export const DEFAULT_MAX_HISTORY = 100;
  */
 export const DEFAULT_READ_LIMIT = 2000;
 
+/**
+ * Maximum characters in one page of an extracted document.
+ *
+ * PDF pages, Word page breaks and Excel sheets start new pages; text longer than this is
+ * split further, at line boundaries, so each page fits comfortably in context.
+ * CSV and JSON documents are split into pages of this size.
+ *
+ * @default 20000
+ * @see {@link ../utils/documents | extractDocument}
+ */
+export const DOCUMENT_PAGE_CHARS = 20000;
+
 /**
  * Maximum line length before content is considered invalid.
  *
@@ -142,6 +165,27 @@ export const MAX_FILE_SIZE_MB = 10;
  */
 export const MAX_OUTPUT_SIZE_BYTES = 1048576; // 1MB
 
+/**
+ * Default maximum HTTP response body size under an egress policy.
+ *
+ * http_request and fetch_url stop reading a response once its (decompressed)
+ * body passes this size and return an error instead.
+ *
+ * @default 10485760 (10 MB)
+ * @see {@link ../tools/egress | EgressPolicy}
+ */
+export const DEFAULT_MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Default number of redirects followed under an egress policy.
+ *
+ * Every redirect target is checked against the policy before it is requested.
+ *
+ * @default 5
+ * @see {@link ../tools/egress | EgressPolicy}
+ */
+export const DEFAULT_MAX_REDIRECTS = 5;
+
 // ============================================================================
 // Timeouts
 // ============================================================================
@@ -178,6 +222,17 @@ export const DEFAULT_TIMEOUT_MS = DEFAULT_TIMEOUT_SECONDS * 1000;
  */
 export const FILESYSTEM_TIMEOUT_MS = 30000;
 
+/**
+ * Default time an HTTP cache entry stays fresh, in seconds.
+ *
+ * Used for web search results, and for responses whose headers don't say
+ * how long they may be cached.
+ *
+ * @default 3600 (1 hour)
+ * @see {@link ../tools/http-cache | HttpCache}
+ */
+export const DEFAULT_HTTP_CACHE_TTL_SECONDS = 3600;
+
 // ============================================================================
 // Formatting
 // ============================================================================
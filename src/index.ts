@@ -19,7 +19,16 @@ export { ToolLoopAgent, stepCountIs, hasToolCall } from "ai";
 export type {
   CreateDeepAgentParams,
   DeepAgentState,
+  TokenUsage,
+  UsageSummary,
+  ModelPricing,
+  PriceTable,
+  BudgetLimits,
+  BudgetLimitType,
   SubAgent,
+  SubagentBatchOptions,
+  SubagentFilesystemMode,
+  SubagentFilesystemOptions,
   TodoItem,
   FileData,
   FileInfo,
@@ -31,10 +40,17 @@ export type {
   SummarizationConfig,
   // Sandbox types
   ExecuteResponse,
+  ExecuteOptions,
   SandboxBackendProtocol,
+  BackgroundProcessProtocol,
+  BackgroundProcessInfo,
+  BackgroundProcessOutput,
+  SandboxSnapshot,
   FileUploadResponse,
+  FileOperationResult,
   FileDownloadResponse,
   FileOperationError,
+  ExternalFileChange,
   // Event types for streaming
   DeepAgentEvent,
   EventCallback,
@@ -47,18 +63,31 @@ export type {
   FileWriteStartEvent,
   FileWrittenEvent,
   FileEditedEvent,
+  FileDeletedEvent,
+  FileMovedEvent,
+  GitCommitEvent,
+  FileChangedExternallyEvent,
   ExecuteStartEvent,
   ExecuteFinishEvent,
+  ExecuteOutputEvent,
+  ProcessStartEvent,
+  ProcessExitEvent,
   WebSearchStartEvent,
   WebSearchFinishEvent,
   HttpRequestStartEvent,
   HttpRequestFinishEvent,
   FetchUrlStartEvent,
   FetchUrlFinishEvent,
+  EgressBlockedEvent,
   SubagentStartEvent,
   SubagentFinishEvent,
+  SubagentEventTags,
+  SubagentRunStatus,
   ApprovalRequestedEvent,
   ApprovalResponseEvent,
+  InterruptEvent,
+  AbortedEvent,
+  BudgetExceededEvent,
   CheckpointSavedEvent,
   CheckpointLoadedEvent,
   DoneEvent,
@@ -68,22 +97,32 @@ export type {
   DynamicApprovalConfig,
 } from "./types";
 
-// Type guard for sandbox backends
-export { isSandboxBackend } from "./types";
+// Type guards for sandbox backends
+export { isSandboxBackend, supportsBackgroundProcesses } from "./types";
 
 // Backends
 export {
   StateBackend,
   FilesystemBackend,
+  type PathPolicy,
+  GitBackend,
+  type GitBackendOptions,
+  type GitCommitInfo,
   CompositeBackend,
+  OverlayBackend,
+  type OverlayChange,
   PersistentBackend,
   InMemoryStore,
   type KeyValueStore,
   type PersistentBackendOptions,
+  SqliteStore,
+  type SqliteStoreOptions,
   // Sandbox backends
   BaseSandbox,
   LocalSandbox,
   type LocalSandboxOptions,
+  SandboxPool,
+  type SandboxPoolOptions,
   // Cloud sandbox providers
   E2BBackend,
   createE2BBackend,
@@ -95,6 +134,9 @@ export {
   type RunloopBackendOptions,
   DaytonaBackend,
   type DaytonaBackendOptions,
+  DockerSandbox,
+  createDockerSandbox,
+  type DockerSandboxOptions,
 } from "./backends/index";
 
 // Tools (for advanced usage)
@@ -102,18 +144,65 @@ export {
   createTodosTool,
   createFilesystemTools,
   createSubagentTool,
+  createSubagentBatchTool,
   type CreateSubagentToolOptions,
+  type CreateSubagentBatchToolOptions,
   // Execute tool for sandbox backends
   createExecuteTool,
   createExecuteToolFromBackend,
   type CreateExecuteToolOptions,
+  // Background process tools for sandbox backends
+  createProcessTools,
+  type CreateProcessToolsOptions,
+  // Git tools for GitBackend
+  createGitTools,
+  createGitStatusTool,
+  createGitDiffTool,
+  createGitLogTool,
   // Web tools
   createWebTools,
   htmlToMarkdown,
   type CreateWebToolsOptions,
+  // Web search providers
+  TavilySearchProvider,
+  BraveSearchProvider,
+  SerpApiSearchProvider,
+  ExaSearchProvider,
+  SearxngSearchProvider,
+  MockSearchProvider,
+  createWebSearchProviderFromEnv,
+  type WebSearchProvider,
+  type WebSearchOptions,
+  type WebSearchResult,
+  type WebSearchTopic,
+  type MockSearchResults,
+  type TavilySearchProviderOptions,
+  type BraveSearchProviderOptions,
+  type SerpApiSearchProviderOptions,
+  type ExaSearchProviderOptions,
+  type SearxngSearchProviderOptions,
+  // Network egress policy for http_request and fetch_url
+  fetchWithEgressPolicy,
+  type EgressPolicy,
+  type EgressViolation,
+  type EgressBlock,
+  type EgressRequest,
+  type EgressFetchResult,
+  // Credential profiles for http_request
+  applyCredentialProfile,
+  createSecretRedactor,
+  type HttpCredentialProfile,
+  type HttpCredentialProfiles,
+  type CredentialedRequest,
+  // Persistent cache for web tools
+  HttpCache,
+  normalizeCacheUrl,
+  normalizeCacheQuery,
+  type HttpCacheOptions,
   // Individual tool creator functions
   createLsTool,
   createReadFileTool,
+  type ReadFileImageResult,
   createWriteFileTool,
   createEditFileTool,
   createGlobTool,
@@ -129,6 +218,10 @@ export {
   read_file,
   write_file,
   edit_file,
+  delete_file,
+  move_file,
+  apply_patch,
+  multi_edit,
   glob,
   grep,
   write_todos,
@@ -142,6 +235,7 @@ export {
   FILESYSTEM_SYSTEM_PROMPT,
   TASK_SYSTEM_PROMPT,
   EXECUTE_SYSTEM_PROMPT,
+  GIT_SYSTEM_PROMPT,
   getTaskToolDescription,
   DEFAULT_GENERAL_PURPOSE_DESCRIPTION,
   DEFAULT_SUBAGENT_PROMPT,
@@ -165,6 +259,22 @@ export {
   DEFAULT_KEEP_MESSAGES,
   type SummarizationOptions,
   type SummarizationResult,
+  calculateCost,
+  priceUsage,
+  mergeUsageSummaries,
+  parseUnifiedDiff,
+  createUnifiedDiff,
+  applyFileChanges,
+  type FileEdit,
+  type FileChange,
+  type PatchHunkResult,
+  type PatchResult,
+  detectDocumentFormat,
+  extractDocument,
+  formatDocumentPage,
+  type DocumentFormat,
+  type ExtractedDocument,
+  type ExtractDocumentOptions,
 } from "./utils/index";
 
 // Checkpointer
@@ -47,6 +47,10 @@ You have access to a virtual filesystem. All file paths must start with a /.
 - read_file: read a file from the filesystem
 - write_file: write to a file in the filesystem
 - edit_file: edit a file in the filesystem
+- delete_file: delete a file, or a directory with recursive set
+- move_file: move or rename a file or directory
+- multi_edit: make several edits to one file at once
+- apply_patch: apply a unified diff or a batch of edits across several files atomically
 - glob: find files matching a pattern (e.g., "**/*.py")
 - grep: search for text within files`;
 
@@ -76,6 +80,7 @@ When NOT to use the task tool:
 ## Important Task Tool Usage Notes
 - Whenever possible, parallelize the work that you do. Whenever you have independent steps to complete - kick off tasks (subagents) in parallel to accomplish them faster.
 - Remember to use the \`task\` tool to silo independent tasks within a multi-part objective.
+- When you have many independent tasks, use the \`task_batch\` tool to dispatch them in one call and get all results back together.
 - You should use the \`task\` tool whenever you have a complex task that will take multiple steps, and is independent from other tasks that the agent needs to complete.`;
 
 /**
@@ -130,6 +135,36 @@ If the user then asks followup questions, we have a concise report to reference
   `.trim();
 }
 
+/**
+ * Get the task_batch tool description with available subagent types.
+ */
+export function getTaskBatchToolDescription(
+  subagentDescriptions: string[],
+  maxConcurrency: number
+): string {
+  return `
+Launch several ephemeral subagents from a single call and wait for all of them to finish.
+
+Available agent types and the tools they have access to:
+${subagentDescriptions.join("\n")}
+
+Each entry in \`tasks\` takes a description and a subagent_type, and optionally a timeout_seconds limit. Tasks can use different agent types.
+
+## Usage notes:
+1. Use this tool to fan out over many independent tasks at once (for example, researching a list of sources). Up to ${maxConcurrency} tasks run concurrently; the rest wait for a free slot.
+2. The tasks must not depend on each other - they run in parallel and cannot see each other's results.
+3. Results are returned together, in the same order as the tasks, each marked with its status (success, error or timeout). A failed task does not stop the others.
+4. As with the task tool, each description must be detailed enough for the agent to work autonomously and must say exactly what to report back.
+  `.trim();
+}
+
+/**
+ * Instruction for the final step after a budget limit is reached.
+ */
+export function getBudgetWrapUpPrompt(limitDescription: string): string {
+  return `You have reached your ${limitDescription}, so tools are no longer available. In this final response, summarize what you have done, list anything left unfinished, and give your best answer with what you know now.`;
+}
+
 export const DEFAULT_GENERAL_PURPOSE_DESCRIPTION =
   "General-purpose agent for researching complex questions, searching for files and content, and executing multi-step tasks. When you are searching for a keyword or file and are not confident that you will find the right match in the first few tries use this agent to perform the search for you. This agent has access to all tools as the main agent.";
 
@@ -165,6 +200,25 @@ Use for:
 
 4. **Working Directory**: Commands run in the sandbox's working directory`;
 
+export const PROCESS_SYSTEM_PROMPT = `## Background processes
+
+Use background processes for commands that keep running, such as dev servers and test watchers. \`execute\` waits for a command to exit, so it would block until the timeout.
+
+- start_process: start a command in the background and get its process id
+- read_process_output: read new output, optionally waiting for some (e.g. until a server is listening)
+- send_process_input: write to the process's stdin
+- kill_process: stop the process and everything it started
+
+Kill processes you started once you no longer need them.`;
+
+export const GIT_SYSTEM_PROMPT = `## Git history
+
+You are working in a git repository. Your file changes are committed automatically to a dedicated branch, using your in-progress todo as the commit message, so keep that todo current.
+
+- git_status: see which files are modified, added or untracked
+- git_diff: review changes before and after editing
+- git_log: see recent commits, including your own`;
+
 /**
  * Build skills section for system prompt with progressive disclosure.
  */
@@ -0,0 +1,162 @@
+/**
+ * Named credential profiles for the http_request tool.
+ *
+ * The model refers to a profile by name; its secret headers and query
+ * parameters are added when the request is made, so they never appear in
+ * the prompt, tool calls, tool results, events or checkpoints.
+ */
+
+import {
+  CREDENTIAL_PROFILE_NOT_FOUND,
+  CREDENTIAL_URL_OUTSIDE_PROFILE,
+} from "../constants/errors";
+
+/**
+ * Credentials for one API.
+ *
+ * @example
+ * ```typescript
+ * const agent = createDeepAgent({
+ *   model,
+ *   httpCredentials: {
+ *     github: {
+ *       baseURL: 'https://api.github.com',
+ *       headers: { Authorization: `Bearer ${process.env.GITHUB_TOKEN}` },
+ *       description: 'GitHub REST API',
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export interface HttpCredentialProfile {
+  /**
+   * URL prefix the credentials may be sent to (e.g. "https://api.github.com/").
+   * Requests using the profile must stay under it, and relative request URLs
+   * are resolved against it.
+   */
+  baseURL: string;
+  /** Secret headers added to each request (e.g. `Authorization`) */
+  headers?: Record<string, string>;
+  /** Secret query parameters added to each request (e.g. `api_key`) */
+  params?: Record<string, string>;
+  /** What the API is, shown to the model */
+  description?: string;
+}
+
+/**
+ * Credential profiles by name.
+ */
+export type HttpCredentialProfiles = Record<string, HttpCredentialProfile>;
+
+/**
+ * A request with a profile's credentials applied.
+ */
+export interface CredentialedRequest {
+  url: URL;
+  headers: Record<string, string>;
+  /** Names of the headers that carry secrets */
+  secretHeaders: string[];
+}
+
+/**
+ * Whether a URL is under a profile's base URL: same origin, and a path
+ * inside the base URL's path.
+ */
+function isUnderBaseURL(url: URL, baseURL: URL): boolean {
+  if (url.origin !== baseURL.origin) {
+    return false;
+  }
+  const basePath = baseURL.pathname.endsWith("/") ? baseURL.pathname : `${baseURL.pathname}/`;
+  return url.pathname === baseURL.pathname || url.pathname.startsWith(basePath);
+}
+
+/**
+ * Apply a credential profile to a request.
+ *
+ * @param request.url - Absolute URL, or a path relative to the profile's base URL
+ * @param request.headers - Headers from the model; profile headers replace any with the same name
+ * @param request.params - Query parameters from the model; profile parameters replace any with the same name
+ * @returns The request, or an error message if the profile is unknown or the URL is outside it
+ */
+export function applyCredentialProfile(
+  profiles: HttpCredentialProfiles,
+  name: string,
+  request: { url: string; headers?: Record<string, string>; params?: Record<string, string> }
+): CredentialedRequest | string {
+  const profile = profiles[name];
+  if (!profile) {
+    return CREDENTIAL_PROFILE_NOT_FOUND(name, Object.keys(profiles));
+  }
+
+  const baseURL = new URL(profile.baseURL);
+  // A relative path appends to the base URL's path rather than replacing it
+  const base = baseURL.pathname.endsWith("/") ? baseURL : new URL(`${baseURL.href}/`);
+  const url = new URL(request.url.replace(/^\/+(?!\/)/, ""), base);
+  if (!isUnderBaseURL(url, baseURL)) {
+    return CREDENTIAL_URL_OUTSIDE_PROFILE(url.toString(), name, profile.baseURL);
+  }
+
+  for (const [key, value] of Object.entries(request.params ?? {})) {
+    url.searchParams.append(key, value);
+  }
+  for (const [key, value] of Object.entries(profile.params ?? {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const secretHeaders = Object.keys(profile.headers ?? {});
+  const secretNames = new Set(secretHeaders.map((h) => h.toLowerCase()));
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(request.headers ?? {})) {
+    if (!secretNames.has(key.toLowerCase())) {
+      headers[key] = value;
+    }
+  }
+  Object.assign(headers, profile.headers);
+
+  return { url, headers, secretHeaders };
+}
+
+/**
+ * Create a function that replaces every secret of the profiles in a string
+ * with `[REDACTED]`. Secrets are matched as given, URL-encoded, and (for
+ * values like `Bearer <token>`) without their scheme.
+ */
+export function createSecretRedactor(profiles: HttpCredentialProfiles): (text: string) => string {
+  const secrets = new Set<string>();
+  for (const profile of Object.values(profiles)) {
+    for (const value of [
+      ...Object.values(profile.headers ?? {}),
+      ...Object.values(profile.params ?? {}),
+    ]) {
+      const token = value.split(/\s+/).pop() ?? "";
+      for (const secret of [value, token]) {
+        if (secret.length >= 4) {
+          secrets.add(secret);
+          secrets.add(encodeURIComponent(secret));
+          secrets.add(new URLSearchParams({ s: secret }).toString().substring(2));
+        }
+      }
+    }
+  }
+  // Longest first, so a value is replaced before a token inside it
+  const sorted = [...secrets].sort((a, b) => b.length - a.length);
+
+  return (text: string) => {
+    let redacted = text;
+    for (const secret of sorted) {
+      redacted = redacted.split(secret).join("[REDACTED]");
+    }
+    return redacted;
+  };
+}
+
+/**
+ * Describe the profiles for the http_request tool description.
+ */
+export function describeCredentialProfiles(profiles: HttpCredentialProfiles): string {
+  return Object.entries(profiles)
+    .map(([name, profile]) =>
+      `- ${name}: ${profile.baseURL}${profile.description ? ` (${profile.description})` : ""}`
+    )
+    .join("\n");
+}
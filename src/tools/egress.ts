@@ -0,0 +1,505 @@
+/**
+ * Network egress policy for the http_request and fetch_url tools.
+ *
+ * Requests made under a policy go through node's http client so that every
+ * address a hostname resolves to is checked at connect time. A hostname that
+ * resolves to a public address when checked and a private one when connecting
+ * (DNS rebinding) is still blocked.
+ */
+
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as zlib from "zlib";
+import type { Readable } from "stream";
+import {
+  EGRESS_DOMAIN_NOT_ALLOWED,
+  EGRESS_METHOD_NOT_ALLOWED,
+  EGRESS_PRIVATE_ADDRESS,
+  EGRESS_PROTOCOL_NOT_ALLOWED,
+  EGRESS_RESPONSE_TOO_LARGE,
+  EGRESS_TOO_MANY_REDIRECTS,
+} from "../constants/errors";
+import { DEFAULT_MAX_REDIRECTS, DEFAULT_MAX_RESPONSE_BYTES } from "../constants/limits";
+
+/**
+ * Which requests http_request and fetch_url may make.
+ *
+ * Domain entries match the host and its subdomains (`example.com` matches
+ * `api.example.com`). Prefix an entry with `*.` to match subdomains only.
+ *
+ * @example
+ * ```typescript
+ * const agent = createDeepAgent({
+ *   model,
+ *   egressPolicy: {
+ *     allowDomains: ['github.com', 'api.github.com', 'docs.python.org'],
+ *     allowedMethods: ['GET'],
+ *     maxResponseBytes: 2 * 1024 * 1024,
+ *   },
+ * });
+ * ```
+ */
+export interface EgressPolicy {
+  /** Only these domains can be requested (default: all domains) */
+  allowDomains?: string[];
+  /** Domains that are never requested, even if allowed */
+  denyDomains?: string[];
+  /**
+   * Allow requests to loopback, private, link-local (e.g. cloud metadata at
+   * 169.254.169.254) and other non-public addresses.
+   * @default false
+   */
+  allowPrivateNetwork?: boolean;
+  /** HTTP methods that may be used (default: all methods) */
+  allowedMethods?: string[];
+  /**
+   * Largest response body, in bytes after decompression, that is read.
+   * @default 10485760 (10 MB)
+   */
+  maxResponseBytes?: number;
+  /**
+   * Number of redirects followed. Each redirect target is checked against the policy.
+   * @default 5
+   */
+  maxRedirects?: number;
+}
+
+/**
+ * Why the egress policy blocked a request.
+ *
+ * - "protocol_not_allowed": The URL is not http or https
+ * - "domain_not_allowed": The host is denied, or not in the allow list
+ * - "private_address": The host is, or resolves to, a non-public address
+ * - "method_not_allowed": The HTTP method is not in the allowed methods
+ * - "response_too_large": The response body exceeds the size limit
+ * - "too_many_redirects": The request was redirected more times than allowed
+ */
+export type EgressViolation =
+  | "protocol_not_allowed"
+  | "domain_not_allowed"
+  | "private_address"
+  | "method_not_allowed"
+  | "response_too_large"
+  | "too_many_redirects";
+
+/**
+ * A request blocked by the egress policy.
+ */
+export interface EgressBlock {
+  reason: EgressViolation;
+  /** The blocked URL (a redirect target if the block happened after a redirect) */
+  url: string;
+  /** HTTP method of the blocked request */
+  method: string;
+  /** Error message for the model */
+  message: string;
+}
+
+/**
+ * Request sent by fetchWithEgressPolicy.
+ */
+export interface EgressRequest {
+  method: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  /**
+   * Extra headers to drop when a redirect leaves the original origin, like
+   * `Authorization` and `Cookie` are (e.g. an `X-API-Key` header)
+   */
+  sensitiveHeaders?: string[];
+}
+
+/**
+ * Outcome of fetchWithEgressPolicy: a response, or the reason it was blocked.
+ */
+export type EgressFetchResult =
+  | { response: Response; blocked?: undefined }
+  | { response?: undefined; blocked: EgressBlock };
+
+/**
+ * Addresses that are not reachable on the public internet.
+ */
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["64:ff9b:1::", 48], // local-use NAT64
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * IPv6 ranges whose last 32 bits are an IPv4 address that may be reached
+ * through them.
+ */
+const IPV4_EMBEDDING_ADDRESSES = new net.BlockList();
+IPV4_EMBEDDING_ADDRESSES.addSubnet("64:ff9b::", 96, "ipv6"); // NAT64
+IPV4_EMBEDDING_ADDRESSES.addSubnet("::", 96, "ipv6"); // IPv4-compatible (deprecated)
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+/** Headers dropped when a redirect leaves the original origin, as fetch does */
+const CROSS_ORIGIN_SENSITIVE_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+/**
+ * The IPv4 address in the last 32 bits of an IPv6 address.
+ */
+function embeddedIPv4(address: string): string {
+  const dotted = address.substring(address.lastIndexOf(":") + 1);
+  if (net.isIPv4(dotted)) {
+    return dotted;
+  }
+  const [head = "", tail = ""] = address.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const groups = address.includes("::")
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill("0"), ...tailGroups]
+    : headGroups;
+  const value = (parseInt(groups[6] ?? "0", 16) << 16) | parseInt(groups[7] ?? "0", 16);
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff).join(".");
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise non-public.
+ * IPv4-mapped, IPv4-compatible and NAT64 IPv6 addresses are checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  if (family === 6 && IPV4_EMBEDDING_ADDRESSES.check(address, "ipv6")) {
+    return PRIVATE_ADDRESSES.check(embeddedIPv4(address), "ipv4");
+  }
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Host of a URL without IPv6 brackets or a trailing dot, lowercased.
+ */
+function normalizeHost(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+}
+
+/**
+ * Whether a host matches a domain entry of the policy.
+ */
+function matchesDomain(host: string, entry: string): boolean {
+  const domain = entry.replace(/\.$/, "").toLowerCase();
+  if (domain.startsWith("*.")) {
+    return host.endsWith(domain.substring(1));
+  }
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function blockRequest(reason: EgressViolation, url: string, method: string, message: string): EgressBlock {
+  return { reason, url, method, message };
+}
+
+/**
+ * Check a request against the parts of the policy that need no network access:
+ * method, protocol, domain lists and IP literal hosts.
+ *
+ * @returns Why the request is blocked, or undefined if it may proceed
+ */
+export function checkEgressRequest(
+  policy: EgressPolicy,
+  url: URL,
+  method: string
+): EgressBlock | undefined {
+  const href = url.toString();
+  const { allowedMethods } = policy;
+  if (allowedMethods && !allowedMethods.some((m) => m.toUpperCase() === method.toUpperCase())) {
+    return blockRequest("method_not_allowed", href, method, EGRESS_METHOD_NOT_ALLOWED(method, allowedMethods));
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return blockRequest("protocol_not_allowed", href, method, EGRESS_PROTOCOL_NOT_ALLOWED(href));
+  }
+
+  const host = normalizeHost(url);
+  const denied = policy.denyDomains?.some((entry) => matchesDomain(host, entry));
+  const allowed = !policy.allowDomains || policy.allowDomains.some((entry) => matchesDomain(host, entry));
+  if (denied || !allowed) {
+    return blockRequest("domain_not_allowed", href, method, EGRESS_DOMAIN_NOT_ALLOWED(host));
+  }
+
+  // IP literals are connected to directly, without a lookup
+  if (!policy.allowPrivateNetwork && isPrivateAddress(host)) {
+    return blockRequest("private_address", href, method, EGRESS_PRIVATE_ADDRESS(host, host));
+  }
+  return undefined;
+}
+
+/**
+ * Carries an EgressBlock out of node's http client callbacks.
+ */
+class EgressBlockedError extends Error {
+  readonly block: EgressBlock;
+
+  constructor(block: EgressBlock) {
+    super(block.message);
+    this.block = block;
+  }
+}
+
+/**
+ * DNS lookup for the http client that fails when a hostname resolves to a
+ * private address. It runs at connect time, so the checked address is the
+ * one connected to.
+ */
+function createGuardedLookup(url: URL, method: string): net.LookupFunction {
+  return ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error);
+        return;
+      }
+      const privateAddress = addresses.find((a) => isPrivateAddress(a.address));
+      if (privateAddress) {
+        const host = normalizeHost(url);
+        callback(
+          new EgressBlockedError(
+            blockRequest(
+              "private_address",
+              url.toString(),
+              method,
+              EGRESS_PRIVATE_ADDRESS(host, privateAddress.address)
+            )
+          )
+        );
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0]!.address, addresses[0]!.family);
+      }
+    });
+  }) as net.LookupFunction;
+}
+
+/**
+ * Send one request, without following redirects.
+ */
+function send(
+  url: URL,
+  request: EgressRequest,
+  policy: EgressPolicy
+): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const { signal } = request;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.request(
+      url,
+      {
+        method: request.method,
+        headers: request.headers,
+        lookup: policy.allowPrivateNetwork ? undefined : createGuardedLookup(url, request.method),
+      },
+      (res) => {
+        signal?.removeEventListener("abort", onAbort);
+        // Aborting after the headers arrived fails the body stream instead
+        if (signal) {
+          const abortBody = () => res.destroy(signal.reason);
+          signal.addEventListener("abort", abortBody, { once: true });
+          res.once("close", () => signal.removeEventListener("abort", abortBody));
+        }
+        resolve(res);
+      }
+    );
+    const onAbort = () => req.destroy(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    req.on("error", (error) => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(error);
+    });
+    req.end(request.body);
+  });
+}
+
+/**
+ * Read a response body, decompressing it, up to a size limit.
+ *
+ * @returns The body, or undefined if it is larger than the limit
+ */
+async function readBody(res: http.IncomingMessage, maxBytes: number): Promise<Buffer | undefined> {
+  const declaredLength = Number(res.headers["content-length"]);
+  if (!res.headers["content-encoding"] && declaredLength > maxBytes) {
+    res.destroy();
+    return undefined;
+  }
+
+  let stream: Readable = res;
+  switch (res.headers["content-encoding"]?.toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      stream = res.pipe(zlib.createGunzip());
+      break;
+    case "deflate":
+      stream = res.pipe(zlib.createInflate());
+      break;
+    case "br":
+      stream = res.pipe(zlib.createBrotliDecompress());
+      break;
+  }
+  if (stream !== res) {
+    res.on("error", (error) => stream.destroy(error));
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      res.destroy();
+      return undefined;
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Build a fetch Response from a node response and its body.
+ */
+function toResponse(res: http.IncomingMessage, body: Buffer, url: URL): Response {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(res.headers)) {
+    // The body has already been decompressed
+    if (value === undefined || name === "content-encoding" || name === "content-length") {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+
+  const status = res.statusCode ?? 200;
+  const response = new Response(NULL_BODY_STATUSES.has(status) ? null : new Uint8Array(body), {
+    status,
+    statusText: res.statusMessage,
+    headers,
+  });
+  Object.defineProperty(response, "url", { value: url.toString() });
+  return response;
+}
+
+/**
+ * Make an HTTP request under an egress policy.
+ *
+ * The method, every URL (including redirect targets), every resolved address
+ * and the response size are checked against the policy. Redirects are
+ * followed up to the policy's limit; credentials are not sent to another origin.
+ *
+ * @throws On network errors, timeouts and aborts, like fetch
+ */
+export async function fetchWithEgressPolicy(
+  url: string,
+  request: EgressRequest,
+  policy: EgressPolicy
+): Promise<EgressFetchResult> {
+  const maxRedirects = policy.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const maxBytes = policy.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+  let current = new URL(url);
+  let hop: EgressRequest = { ...request, headers: { ...request.headers } };
+
+  for (let redirects = 0; ; redirects++) {
+    const blocked = checkEgressRequest(policy, current, hop.method);
+    if (blocked) {
+      return { blocked };
+    }
+
+    let res: http.IncomingMessage;
+    try {
+      res = await send(current, hop, policy);
+    } catch (error) {
+      if (error instanceof EgressBlockedError) {
+        return { blocked: error.block };
+      }
+      throw error;
+    }
+
+    const location = res.headers.location;
+    if (REDIRECT_STATUSES.has(res.statusCode ?? 0) && location) {
+      res.resume();
+      if (redirects >= maxRedirects) {
+        return {
+          blocked: blockRequest(
+            "too_many_redirects",
+            current.toString(),
+            hop.method,
+            EGRESS_TOO_MANY_REDIRECTS(url, maxRedirects)
+          ),
+        };
+      }
+
+      const next = new URL(location, current);
+      const headers = { ...hop.headers };
+      if (next.origin !== current.origin) {
+        const sensitive = [
+          ...CROSS_ORIGIN_SENSITIVE_HEADERS,
+          ...(request.sensitiveHeaders ?? []).map((name) => name.toLowerCase()),
+        ];
+        for (const name of Object.keys(headers)) {
+          if (sensitive.includes(name.toLowerCase())) {
+            delete headers[name];
+          }
+        }
+      }
+      // Like fetch: 303, and 301/302 after a POST, continue as a GET without a body
+      const status = res.statusCode!;
+      if (status === 303 || ((status === 301 || status === 302) && hop.method === "POST")) {
+        for (const name of Object.keys(headers)) {
+          if (name.toLowerCase().startsWith("content-")) {
+            delete headers[name];
+          }
+        }
+        hop = { ...hop, method: "GET", body: undefined, headers };
+      } else {
+        hop = { ...hop, headers };
+      }
+      current = next;
+      continue;
+    }
+
+    const body = await readBody(res, maxBytes);
+    if (!body) {
+      return {
+        blocked: blockRequest(
+          "response_too_large",
+          current.toString(),
+          hop.method,
+          EGRESS_RESPONSE_TOO_LARGE(current.toString(), maxBytes)
+        ),
+      };
+    }
+    return { response: toResponse(res, body, current) };
+  }
+}
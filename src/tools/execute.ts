@@ -69,6 +69,8 @@ export interface CreateExecuteToolOptions {
  *   onEvent: (event) => {
  *     if (event.type === 'execute-start') {
  *       console.log(`Running: ${event.command}`);
+ *     } else if (event.type === 'execute-output') {
+ *       process.stdout.write(event.chunk);
  *     } else if (event.type === 'execute-finish') {
  *       console.log(`Exit code: ${event.exitCode}`);
  *     }
@@ -86,7 +88,7 @@ export function createExecuteTool(options: CreateExecuteToolOptions) {
         .string()
         .describe("The shell command to execute (e.g., 'npm install', 'ls -la', 'cat file.txt')"),
     }),
-    execute: async ({ command }) => {
+    execute: async ({ command }, { abortSignal }) => {
       // Emit execute-start event
       if (onEvent) {
         onEvent({
@@ -96,8 +98,15 @@ export function createExecuteTool(options: CreateExecuteToolOptions) {
         });
       }
 
-      // Execute the command
-      const result = await backend.execute(command);
+      // Execute the command (aborting the run stops the process), streaming
+      // output as it arrives
+      const result = await backend.execute(command, {
+        abortSignal,
+        onOutput: onEvent
+          ? (chunk, stream) =>
+              onEvent({ type: "execute-output", command, stream, chunk, sandboxId: backend.id })
+          : undefined,
+      });
 
       // Emit execute-finish event
       if (onEvent) {
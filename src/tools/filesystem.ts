@@ -11,6 +11,13 @@ import type {
   EventCallback,
 } from "../types";
 import { StateBackend } from "../backends/state";
+import { fileDataToString, getMimeType, isImageMimeType } from "../backends/utils";
+import {
+  applyFileChanges,
+  parseUnifiedDiff,
+  type FileChange,
+  type PatchResult,
+} from "../utils/apply-patch";
 import {
   evictToolResult,
   DEFAULT_EVICTION_TOKEN_LIMIT,
@@ -20,15 +27,32 @@ import {
   createFileWriteStartEvent,
   createFileWrittenEvent,
   createFileEditedEvent,
+  createFileDeletedEvent,
+  createFileMovedEvent,
 } from "../utils/events";
+import {
+  DOCUMENT_EXTRACTION_FAILED,
+  OPERATION_NOT_SUPPORTED,
+  PATCH_NOT_APPLIED,
+} from "../constants/errors";
+import { detectDocumentFormat, extractDocument, formatDocumentPage } from "../utils/documents";
 
 // Tool descriptions
 const LS_TOOL_DESCRIPTION = "List files and directories in a directory. Paths are relative to the working directory.";
-const READ_FILE_TOOL_DESCRIPTION = "Read the contents of a file. Paths are relative to the working directory.";
+const READ_FILE_TOOL_DESCRIPTION =
+  "Read the contents of a file. Image files (PNG, JPEG, GIF, WebP) are returned as images. PDF, Word (DOCX) and Excel (XLSX) files are converted to text and returned one page at a time; pass page to read later pages. Pass page for a CSV or JSON file to read it as paginated tables or formatted JSON instead of raw lines. Paths are relative to the working directory.";
 const WRITE_FILE_TOOL_DESCRIPTION =
   "Write content to a new file. Returns an error if the file already exists. Paths are relative to the working directory.";
 const EDIT_FILE_TOOL_DESCRIPTION =
   "Edit a file by replacing a specific string with a new string. Paths are relative to the working directory.";
+const DELETE_FILE_TOOL_DESCRIPTION =
+  "Delete a file. Set recursive to true to delete a directory and everything in it. Paths are relative to the working directory.";
+const MOVE_FILE_TOOL_DESCRIPTION =
+  "Move or rename a file or directory. Fails if the destination exists unless overwrite is true. Paths are relative to the working directory.";
+const APPLY_PATCH_TOOL_DESCRIPTION =
+  "Apply a unified diff, or a list of exact string edits, across one or more files. Use ---/+++ headers with the same paths as the other file tools; /dev/null creates or deletes a file. Every hunk is checked before anything is written, so either all changes apply or none do.";
+const MULTI_EDIT_TOOL_DESCRIPTION =
+  "Make several exact string replacements in one file, applied in order. Either all edits apply or the file is left unchanged. Paths are relative to the working directory.";
 const GLOB_TOOL_DESCRIPTION =
   "Find files matching a glob pattern (e.g., '**/*.py' for all Python files). Paths are relative to the working directory.";
 const GREP_TOOL_DESCRIPTION =
@@ -94,6 +118,18 @@ export function createLsTool(
   });
 }
 
+/**
+ * Result of reading an image file with the read_file tool.
+ * Sent to the model as an image content part.
+ */
+export interface ReadFileImageResult {
+  type: "image";
+  path: string;
+  mimeType: string;
+  /** Base64-encoded image bytes */
+  data: string;
+}
+
 /**
  * Create the read_file tool.
  */
@@ -115,10 +151,55 @@ export function createReadFileTool(
         .number()
         .default(2000)
         .describe("Maximum number of lines to read"),
+      page: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Page to read for PDF, Word, Excel, CSV and JSON documents (starting at 1)"),
     }),
-    execute: async ({ file_path, offset, limit }, { toolCallId }) => {
+    execute: async (
+      { file_path, offset, limit, page },
+      { toolCallId }
+    ): Promise<string | ReadFileImageResult> => {
       const resolvedBackend = getBackend(backend, state);
-      const content = await resolvedBackend.read(file_path, offset ?? 0, limit ?? 2000);
+
+      // Images go to the model as image parts when the backend can serve bytes
+      const mimeType = getMimeType(file_path);
+      if (isImageMimeType(mimeType) && resolvedBackend.downloadFiles) {
+        const [download] = await resolvedBackend.downloadFiles([file_path]);
+        if (download?.content) {
+          if (onEvent) {
+            onEvent(createFileReadEvent(file_path, 0));
+          }
+          return {
+            type: "image",
+            path: file_path,
+            mimeType: download.mimeType ?? mimeType,
+            data: Buffer.from(download.content).toString("base64"),
+          };
+        }
+      }
+
+      // PDF, Word and Excel files are always extracted; CSV and JSON only when a page is asked for
+      const format = detectDocumentFormat(mimeType, file_path);
+      let content: string | undefined;
+      if (
+        format &&
+        (page !== undefined || format === "pdf" || format === "docx" || format === "xlsx") &&
+        resolvedBackend.downloadFiles
+      ) {
+        const [download] = await resolvedBackend.downloadFiles([file_path]);
+        if (download?.content) {
+          try {
+            content = formatDocumentPage(extractDocument(download.content, format), file_path, page ?? 1);
+          } catch (error) {
+            content = DOCUMENT_EXTRACTION_FAILED(file_path, (error as Error).message);
+          }
+        }
+      }
+
+      content ??= await resolvedBackend.read(file_path, offset ?? 0, limit ?? 2000);
       
       // Emit file-read event
       if (onEvent) {
@@ -140,6 +221,18 @@ export function createReadFileTool(
       
       return content;
     },
+    toModelOutput: ({ output }) => {
+      if (typeof output === "string") {
+        return { type: "text", value: output };
+      }
+      return {
+        type: "content",
+        value: [
+          { type: "text", text: `Image file ${output.path} (${output.mimeType})` },
+          { type: "image-data", data: output.data, mediaType: output.mimeType },
+        ],
+      };
+    },
   });
 }
 
@@ -224,6 +317,216 @@ export function createEditFileTool(
   });
 }
 
+/**
+ * Create the delete_file tool.
+ */
+export function createDeleteFileTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: DELETE_FILE_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      file_path: z.string().describe("Path to the file or directory to delete"),
+      recursive: z
+        .boolean()
+        .default(false)
+        .describe("Whether to delete a directory and all of its contents"),
+    }),
+    execute: async ({ file_path, recursive }) => {
+      const resolvedBackend = getBackend(backend, state);
+      if (!resolvedBackend.delete) {
+        return OPERATION_NOT_SUPPORTED("delete");
+      }
+
+      const result = await resolvedBackend.delete(file_path, recursive ?? false);
+      if (result.error) {
+        return result.error;
+      }
+
+      if (onEvent) {
+        onEvent(createFileDeletedEvent(file_path));
+      }
+
+      return result.count && result.count > 1
+        ? `Successfully deleted '${file_path}' (${result.count} files)`
+        : `Successfully deleted '${file_path}'`;
+    },
+  });
+}
+
+/**
+ * Create the move_file tool.
+ */
+export function createMoveFileTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: MOVE_FILE_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      source_path: z.string().describe("Path of the file or directory to move"),
+      destination_path: z.string().describe("New path for the file or directory"),
+      overwrite: z
+        .boolean()
+        .default(false)
+        .describe("Whether to replace an existing destination"),
+    }),
+    execute: async ({ source_path, destination_path, overwrite }) => {
+      const resolvedBackend = getBackend(backend, state);
+      if (!resolvedBackend.move) {
+        return OPERATION_NOT_SUPPORTED("move");
+      }
+
+      const result = await resolvedBackend.move(source_path, destination_path, overwrite ?? false);
+      if (result.error) {
+        return result.error;
+      }
+
+      if (onEvent) {
+        onEvent(createFileMovedEvent(source_path, destination_path));
+      }
+
+      return `Successfully moved '${source_path}' to '${destination_path}'`;
+    },
+  });
+}
+
+const fileEditSchema = z.object({
+  old_string: z.string().describe("String to be replaced (must match exactly)"),
+  new_string: z.string().describe("String to replace with"),
+  replace_all: z
+    .boolean()
+    .default(false)
+    .describe("Whether to replace all occurrences"),
+});
+
+/**
+ * Format a patch result as a per-hunk report for the model.
+ */
+function formatPatchResult(result: PatchResult): string {
+  const lines = result.hunks.map((hunk) => {
+    const label = `${hunk.path} #${hunk.index}`;
+    if (!hunk.success) {
+      return `  ${label}: failed - ${hunk.error}`;
+    }
+    if (hunk.line !== undefined) {
+      return `  ${label}: applied at line ${hunk.line}`;
+    }
+    return `  ${label}: replaced ${hunk.occurrences} occurrence(s)`;
+  });
+
+  if (!result.success) {
+    const header = result.error ? [PATCH_NOT_APPLIED, result.error] : [PATCH_NOT_APPLIED];
+    return [...header, ...lines].join("\n");
+  }
+
+  const summary = [
+    result.modified.length > 0 ? `modified ${result.modified.join(", ")}` : "",
+    result.created.length > 0 ? `created ${result.created.join(", ")}` : "",
+    result.deleted.length > 0 ? `deleted ${result.deleted.join(", ")}` : "",
+  ].filter(Boolean);
+  return [`Successfully applied patch: ${summary.join("; ")}`, ...lines].join("\n");
+}
+
+/**
+ * Emit file events for a successfully applied patch.
+ */
+async function emitPatchEvents(
+  result: PatchResult,
+  backend: BackendProtocol,
+  onEvent: EventCallback
+): Promise<void> {
+  for (const path of result.modified) {
+    const count = result.hunks.filter((hunk) => hunk.path === path).length;
+    onEvent(createFileEditedEvent(path, count));
+  }
+  for (const path of result.created) {
+    const content = fileDataToString(await backend.readRaw(path));
+    onEvent(createFileWrittenEvent(path, content));
+  }
+  for (const path of result.deleted) {
+    onEvent(createFileDeletedEvent(path));
+  }
+}
+
+/**
+ * Create the apply_patch tool.
+ */
+export function createApplyPatchTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: APPLY_PATCH_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      patch: z
+        .string()
+        .optional()
+        .describe("Unified diff with ---/+++ file headers and @@ hunks"),
+      edits: z
+        .array(fileEditSchema.extend({ file_path: z.string().describe("Path to the file to edit") }))
+        .optional()
+        .describe("Exact string edits, applied in order after the diff"),
+    }),
+    execute: async ({ patch, edits }) => {
+      const changes: FileChange[] = [];
+
+      if (patch) {
+        const diffs = parseUnifiedDiff(patch);
+        if (typeof diffs === "string") {
+          return diffs;
+        }
+        changes.push(...diffs.map((diff): FileChange => ({ type: "diff", diff })));
+      }
+      for (const { file_path, ...edit } of edits ?? []) {
+        changes.push({ type: "edits", path: file_path, edits: [edit] });
+      }
+
+      if (changes.length === 0) {
+        return "Error: Provide a unified diff in `patch` or a list of `edits`.";
+      }
+
+      const resolvedBackend = getBackend(backend, state);
+      const result = await applyFileChanges(resolvedBackend, changes);
+      if (result.success && onEvent) {
+        await emitPatchEvents(result, resolvedBackend, onEvent);
+      }
+      return formatPatchResult(result);
+    },
+  });
+}
+
+/**
+ * Create the multi_edit tool.
+ */
+export function createMultiEditTool(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory,
+  onEvent?: EventCallback
+) {
+  return tool({
+    description: MULTI_EDIT_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      file_path: z.string().describe("Path to the file to edit (e.g., 'src/main.ts' or './main.ts')"),
+      edits: z.array(fileEditSchema).min(1).describe("Edits to apply in order"),
+    }),
+    execute: async ({ file_path, edits }) => {
+      const resolvedBackend = getBackend(backend, state);
+      const result = await applyFileChanges(resolvedBackend, [
+        { type: "edits", path: file_path, edits },
+      ]);
+      if (result.success && onEvent) {
+        await emitPatchEvents(result, resolvedBackend, onEvent);
+      }
+      return formatPatchResult(result);
+    },
+  });
+}
+
 /**
  * Create the glob tool.
  */
@@ -397,6 +700,10 @@ export function createFilesystemTools(
     read_file: createReadFileTool(state, resolvedBackend, evictionLimit, eventCallback),
     write_file: createWriteFileTool(state, resolvedBackend, eventCallback),
     edit_file: createEditFileTool(state, resolvedBackend, eventCallback),
+    delete_file: createDeleteFileTool(state, resolvedBackend, eventCallback),
+    move_file: createMoveFileTool(state, resolvedBackend, eventCallback),
+    apply_patch: createApplyPatchTool(state, resolvedBackend, eventCallback),
+    multi_edit: createMultiEditTool(state, resolvedBackend, eventCallback),
     glob: createGlobTool(state, resolvedBackend, eventCallback),
     grep: createGrepTool(state, resolvedBackend, evictionLimit, eventCallback),
   };
@@ -414,5 +721,9 @@ export const ls = createLsTool;
 export const read_file = createReadFileTool;
 export const write_file = createWriteFileTool;
 export const edit_file = createEditFileTool;
+export const delete_file = createDeleteFileTool;
+export const move_file = createMoveFileTool;
+export const apply_patch = createApplyPatchTool;
+export const multi_edit = createMultiEditTool;
 export const glob = createGlobTool;
 export const grep = createGrepTool;
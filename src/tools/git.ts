@@ -0,0 +1,94 @@
+/**
+ * Git tools for inspecting the repository behind a GitBackend.
+ *
+ * These tools are only available when the backend is a GitBackend.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { GitBackend } from "../backends/git";
+
+const GIT_STATUS_TOOL_DESCRIPTION =
+  "Show the git status of the working directory: the current branch and which files are modified, added, deleted or untracked. Also reports the branch your changes are committed to.";
+const GIT_DIFF_TOOL_DESCRIPTION =
+  "Show uncommitted changes as a unified diff. Optionally limit it to a path, compare against a commit or branch, or show staged changes.";
+const GIT_LOG_TOOL_DESCRIPTION =
+  "Show recent commits (hash, date, author, subject). Defaults to the branch your changes are committed to.";
+
+/**
+ * Create the git_status tool.
+ */
+export function createGitStatusTool(backend: GitBackend) {
+  return tool({
+    description: GIT_STATUS_TOOL_DESCRIPTION,
+    inputSchema: z.object({}),
+    execute: async () => {
+      return await backend.status();
+    },
+  });
+}
+
+/**
+ * Create the git_diff tool.
+ */
+export function createGitDiffTool(backend: GitBackend) {
+  return tool({
+    description: GIT_DIFF_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      path: z.string().optional().describe("File or directory to limit the diff to"),
+      ref: z
+        .string()
+        .optional()
+        .describe("Commit or branch to compare the working tree with (e.g. 'HEAD~1')"),
+      staged: z
+        .boolean()
+        .default(false)
+        .describe("Show staged changes instead of unstaged ones"),
+    }),
+    execute: async ({ path, ref, staged }) => {
+      const diff = await backend.diff({ path, ref, staged });
+      return diff || "No changes";
+    },
+  });
+}
+
+/**
+ * Create the git_log tool.
+ */
+export function createGitLogTool(backend: GitBackend) {
+  return tool({
+    description: GIT_LOG_TOOL_DESCRIPTION,
+    inputSchema: z.object({
+      ref: z.string().optional().describe("Branch or commit to start from"),
+      path: z.string().optional().describe("Only show commits touching this file or directory"),
+      max_count: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .default(10)
+        .describe("Maximum number of commits to show"),
+    }),
+    execute: async ({ ref, path, max_count }) => {
+      const log = await backend.log({ ref, path, maxCount: max_count });
+      return log || "No commits found";
+    },
+  });
+}
+
+/**
+ * Create the git_status, git_diff and git_log tools for a GitBackend.
+ *
+ * @example
+ * ```typescript
+ * const backend = new GitBackend({ rootDir: './my-repo' });
+ * const tools = createGitTools(backend);
+ * ```
+ */
+export function createGitTools(backend: GitBackend) {
+  return {
+    git_status: createGitStatusTool(backend),
+    git_diff: createGitDiffTool(backend),
+    git_log: createGitLogTool(backend),
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * Persistent cache for web tool responses.
+ *
+ * Caches GET responses of fetch_url and http_request, and web_search results,
+ * in any KeyValueStore so they can be reused across turns, subagents and runs.
+ */
+
+import { createHash } from "crypto";
+import type { KeyValueStore } from "../backends/persistent";
+import type { EgressFetchResult } from "./egress";
+import type { WebSearchOptions, WebSearchProvider, WebSearchResult } from "./web-search-providers";
+import { DEFAULT_HTTP_CACHE_TTL_SECONDS } from "../constants/limits";
+
+/**
+ * Options for an HttpCache.
+ */
+export interface HttpCacheOptions {
+  /** Store for the cache entries (e.g. `new SqliteStore({ path })` to keep them across runs) */
+  store: KeyValueStore;
+  /** Namespace for the entries in the store (default: ["http-cache"]) */
+  namespace?: string[];
+  /**
+   * Seconds an entry stays fresh when the response's headers don't say
+   * (no `Cache-Control: max-age` or `Expires`), and for search results (default: 3600)
+   */
+  ttl?: number;
+}
+
+/**
+ * A cached response, as stored.
+ */
+interface ResponseEntry {
+  /** Final URL of the response, after redirects */
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  /** Body, base64-encoded so binary documents survive JSON stores */
+  body: string;
+  /** When the entry stops being fresh (ms since epoch) */
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Cached search results, as stored.
+ */
+interface SearchEntry {
+  query: string;
+  results: WebSearchResult[];
+  expiresAt: number;
+}
+
+/**
+ * Normalize a URL for use as a cache key: sorted query parameters, no fragment.
+ * Scheme and host case, default ports and path encoding are normalized by URL.
+ */
+export function normalizeCacheUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+/**
+ * Normalize a search query for use as a cache key: trimmed, lowercase, single spaces.
+ */
+export function normalizeCacheQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function hashKey(parts: unknown[]): string {
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+/**
+ * Parse a Cache-Control header into lowercase directives and their values.
+ */
+function parseCacheControl(header: string | null): Map<string, string | undefined> {
+  const directives = new Map<string, string | undefined>();
+  for (const part of (header ?? "").split(",")) {
+    const [name, value] = part.trim().split("=", 2);
+    if (name) {
+      directives.set(name.toLowerCase(), value?.replace(/^"|"$/g, ""));
+    }
+  }
+  return directives;
+}
+
+/**
+ * How long a response may be reused without revalidation, in seconds, or
+ * undefined if it must not be stored. Follows Cache-Control (`no-store`,
+ * `no-cache`, `max-age`), `Age` and `Expires`, and falls back to the TTL.
+ */
+function freshnessLifetime(headers: Headers, ttl: number): number | undefined {
+  const cacheControl = parseCacheControl(headers.get("cache-control"));
+  if (cacheControl.has("no-store") || headers.get("vary")?.trim() === "*") {
+    return undefined;
+  }
+  if (cacheControl.has("no-cache")) {
+    return 0;
+  }
+
+  const age = Number(headers.get("age")) || 0;
+  const maxAge = Number(cacheControl.get("max-age"));
+  if (cacheControl.has("max-age") && Number.isFinite(maxAge)) {
+    return Math.max(0, maxAge - age);
+  }
+
+  const expires = headers.get("expires");
+  if (expires !== null) {
+    const expiresAt = Date.parse(expires);
+    const date = Date.parse(headers.get("date") ?? "");
+    if (Number.isNaN(expiresAt)) {
+      return 0;
+    }
+    return Math.max(0, (expiresAt - (Number.isNaN(date) ? Date.now() : date)) / 1000 - age);
+  }
+
+  return ttl;
+}
+
+function toResponse(entry: ResponseEntry): Response {
+  const response = new Response(Buffer.from(entry.body, "base64"), {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+  Object.defineProperty(response, "url", { value: entry.url });
+  return response;
+}
+
+/**
+ * Cache for web tool responses and search results, stored in a KeyValueStore.
+ *
+ * - Responses are keyed by normalized URL and request headers; search results
+ *   by provider, normalized query and search options.
+ * - Only successful (200) GET responses are stored. `Cache-Control: no-store`
+ *   responses are never stored; `max-age`, `Expires` and `no-cache` set how
+ *   long an entry is fresh, and the TTL applies when they are missing.
+ * - A stale entry with an `ETag` or `Last-Modified` is revalidated with a
+ *   conditional request, and reused when the server answers 304.
+ *
+ * This is a private cache: share a store only between agents that may see
+ * each other's responses.
+ *
+ * @example
+ * ```typescript
+ * const agent = createDeepAgent({
+ *   model,
+ *   httpCache: new HttpCache({ store: new SqliteStore({ path: './cache.db' }), ttl: 24 * 3600 }),
+ * });
+ * ```
+ */
+export class HttpCache {
+  private store: KeyValueStore;
+  private namespace: string[];
+  private ttl: number;
+
+  constructor(options: HttpCacheOptions) {
+    this.store = options.store;
+    this.namespace = options.namespace ?? ["http-cache"];
+    this.ttl = options.ttl ?? DEFAULT_HTTP_CACHE_TTL_SECONDS;
+  }
+
+  private get responseNamespace(): string[] {
+    return [...this.namespace, "responses"];
+  }
+
+  private get searchNamespace(): string[] {
+    return [...this.namespace, "searches"];
+  }
+
+  /**
+   * Fetch a GET request through the cache.
+   *
+   * @param url - Request URL
+   * @param headers - Request headers; they are part of the cache key
+   * @param send - Sends the request with the given headers (which may add conditional headers)
+   * @returns The fetch result, with `cached` set when the response came from the cache
+   */
+  async fetch(
+    url: string,
+    headers: Record<string, string>,
+    send: (headers: Record<string, string>) => Promise<EgressFetchResult>
+  ): Promise<EgressFetchResult & { cached?: boolean }> {
+    const key = hashKey([
+      normalizeCacheUrl(url),
+      Object.entries(headers)
+        .map(([name, value]) => [name.toLowerCase(), value] as const)
+        .sort(([a], [b]) => a.localeCompare(b)),
+    ]);
+    const entry = (await this.store.get(this.responseNamespace, key)) as ResponseEntry | undefined;
+    if (entry && entry.expiresAt > Date.now()) {
+      return { response: toResponse(entry), cached: true };
+    }
+
+    const conditional = { ...headers };
+    if (entry?.etag) {
+      conditional["If-None-Match"] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      conditional["If-Modified-Since"] = entry.lastModified;
+    }
+
+    const result = await send(conditional);
+    if (result.blocked) {
+      return result;
+    }
+    const { response } = result;
+
+    if (entry && response.status === 304) {
+      // Not modified: headers on the 304 update the entry's freshness
+      const lifetime = freshnessLifetime(
+        response.headers.has("cache-control") || response.headers.has("expires")
+          ? response.headers
+          : new Headers(entry.headers),
+        this.ttl
+      );
+      if (lifetime === undefined) {
+        await this.store.delete(this.responseNamespace, key);
+      } else {
+        await this.store.put(this.responseNamespace, key, {
+          ...entry,
+          expiresAt: Date.now() + lifetime * 1000,
+        });
+      }
+      return { response: toResponse(entry), cached: true };
+    }
+
+    if (response.status === 200) {
+      const lifetime = freshnessLifetime(response.headers, this.ttl);
+      const etag = response.headers.get("etag") ?? undefined;
+      const lastModified = response.headers.get("last-modified") ?? undefined;
+      // An entry that is immediately stale is only worth keeping for revalidation
+      if (lifetime !== undefined && (lifetime > 0 || etag || lastModified)) {
+        const body = Buffer.from(await response.clone().arrayBuffer()).toString("base64");
+        const stored: ResponseEntry = {
+          url: response.url || url,
+          status: response.status,
+          statusText: response.statusText,
+          headers: [...response.headers.entries()],
+          body,
+          expiresAt: Date.now() + lifetime * 1000,
+          ...(etag && { etag }),
+          ...(lastModified && { lastModified }),
+        };
+        await this.store.put(this.responseNamespace, key, stored as unknown as Record<string, unknown>);
+      }
+    }
+
+    return { response };
+  }
+
+  /**
+   * Run a web search through the cache.
+   *
+   * @param provider - Provider the search runs on; its name is part of the cache key
+   * @param query - Search query
+   * @param options - Search options; all but the signal are part of the cache key
+   * @param search - Runs the search on a cache miss
+   * @returns The results, with `cached` set when they came from the cache
+   */
+  async search(
+    provider: WebSearchProvider,
+    query: string,
+    options: WebSearchOptions,
+    search: () => Promise<WebSearchResult[]>
+  ): Promise<{ results: WebSearchResult[]; cached: boolean }> {
+    const key = hashKey([
+      provider.name,
+      normalizeCacheQuery(query),
+      options.maxResults,
+      options.topic,
+      options.includeRawContent,
+    ]);
+    const entry = (await this.store.get(this.searchNamespace, key)) as SearchEntry | undefined;
+    if (entry && entry.expiresAt > Date.now()) {
+      return { results: entry.results, cached: true };
+    }
+
+    const results = await search();
+    const stored: SearchEntry = { query, results, expiresAt: Date.now() + this.ttl * 1000 };
+    await this.store.put(this.searchNamespace, key, stored as unknown as Record<string, unknown>);
+    return { results, cached: false };
+  }
+
+  /**
+   * Remove all cached responses and search results.
+   */
+  async clear(): Promise<void> {
+    for (const namespace of [this.responseNamespace, this.searchNamespace]) {
+      for (const { key } of await this.store.list(namespace)) {
+        await this.store.delete(namespace, key);
+      }
+    }
+  }
+}
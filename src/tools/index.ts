@@ -7,24 +7,45 @@ export {
   createFilesystemTools,
   createLsTool,
   createReadFileTool,
+  type ReadFileImageResult,
   createWriteFileTool,
   createEditFileTool,
+  createDeleteFileTool,
+  createMoveFileTool,
+  createApplyPatchTool,
+  createMultiEditTool,
   createGlobTool,
   createGrepTool,
   ls,
   read_file,
   write_file,
   edit_file,
+  delete_file,
+  move_file,
+  apply_patch,
+  multi_edit,
   glob,
   grep,
 } from "./filesystem";
-export { createSubagentTool, type CreateSubagentToolOptions } from "./subagent";
+export {
+  createSubagentTool,
+  createSubagentBatchTool,
+  type CreateSubagentToolOptions,
+  type CreateSubagentBatchToolOptions,
+} from "./subagent";
 export {
   createExecuteTool,
   createExecuteToolFromBackend,
   type CreateExecuteToolOptions,
   execute,
 } from "./execute";
+export { createProcessTools, type CreateProcessToolsOptions } from "./processes";
+export {
+  createGitTools,
+  createGitStatusTool,
+  createGitDiffTool,
+  createGitLogTool,
+} from "./git";
 export {
   createWebTools,
   htmlToMarkdown,
@@ -36,4 +57,44 @@ export {
   http_request,
   fetch_url,
 } from "./web";
+export {
+  TavilySearchProvider,
+  BraveSearchProvider,
+  SerpApiSearchProvider,
+  ExaSearchProvider,
+  SearxngSearchProvider,
+  MockSearchProvider,
+  createWebSearchProviderFromEnv,
+  type WebSearchProvider,
+  type WebSearchOptions,
+  type WebSearchResult,
+  type WebSearchTopic,
+  type MockSearchResults,
+  type TavilySearchProviderOptions,
+  type BraveSearchProviderOptions,
+  type SerpApiSearchProviderOptions,
+  type ExaSearchProviderOptions,
+  type SearxngSearchProviderOptions,
+} from "./web-search-providers";
+export {
+  fetchWithEgressPolicy,
+  type EgressPolicy,
+  type EgressViolation,
+  type EgressBlock,
+  type EgressRequest,
+  type EgressFetchResult,
+} from "./egress";
+export {
+  applyCredentialProfile,
+  createSecretRedactor,
+  type HttpCredentialProfile,
+  type HttpCredentialProfiles,
+  type CredentialedRequest,
+} from "./credentials";
+export {
+  HttpCache,
+  normalizeCacheUrl,
+  normalizeCacheQuery,
+  type HttpCacheOptions,
+} from "./http-cache";
 
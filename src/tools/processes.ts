@@ -0,0 +1,155 @@
+/**
+ * Background process tools for long-running commands in sandbox backends.
+ *
+ * These tools are only available when the sandbox implements BackgroundProcessProtocol.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type {
+  BackgroundProcessInfo,
+  BackgroundProcessProtocol,
+  EventCallback,
+  SandboxBackendProtocol,
+} from "../types";
+import { createProcessExitEvent, createProcessStartEvent } from "../utils/events";
+
+type ProcessSandbox = SandboxBackendProtocol & BackgroundProcessProtocol;
+
+const START_PROCESS_TOOL_DESCRIPTION =
+  "Start a shell command in the background and return its process id without waiting for it to finish. Use for dev servers, watchers and other long-running commands.";
+const READ_PROCESS_OUTPUT_TOOL_DESCRIPTION =
+  "Read the output a background process produced since the last read, and whether it is still running. Optionally wait for new output.";
+const SEND_PROCESS_INPUT_TOOL_DESCRIPTION =
+  "Write text to the stdin of a running background process, e.g. to answer a prompt.";
+const KILL_PROCESS_TOOL_DESCRIPTION =
+  "Stop a background process and any processes it started.";
+
+/**
+ * Options for creating the background process tools.
+ */
+export interface CreateProcessToolsOptions {
+  /** The sandbox backend to run processes in */
+  backend: ProcessSandbox;
+  /** Optional callback for emitting events */
+  onEvent?: EventCallback;
+}
+
+/**
+ * Describe a process's state for the model.
+ */
+function formatStatus(info: BackgroundProcessInfo): string {
+  if (info.running) {
+    return `[Process ${info.id} is running]`;
+  }
+  return info.exitCode === null
+    ? `[Process ${info.id} was stopped]`
+    : `[Process ${info.id} exited with code ${info.exitCode}]`;
+}
+
+/**
+ * Create the start_process, read_process_output, send_process_input and
+ * kill_process tools.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = new LocalSandbox({ cwd: './workspace' });
+ * const tools = createProcessTools({ backend: sandbox });
+ * ```
+ */
+export function createProcessTools(options: CreateProcessToolsOptions) {
+  const { backend, onEvent } = options;
+  // Emit process-exit once per process, whichever tool sees the exit first
+  const reportedExits = new Set<string>();
+
+  const reportExit = (info: BackgroundProcessInfo, killed: boolean) => {
+    if (info.running || reportedExits.has(info.id)) {
+      return;
+    }
+    reportedExits.add(info.id);
+    onEvent?.(createProcessExitEvent(info.id, info.command, backend.id, info.exitCode, killed));
+  };
+
+  const run = async (fn: () => Promise<string>) => {
+    try {
+      return await fn();
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  };
+
+  return {
+    start_process: tool({
+      description: START_PROCESS_TOOL_DESCRIPTION,
+      inputSchema: z.object({
+        command: z.string().describe("The shell command to start (e.g., 'npm run dev')"),
+      }),
+      execute: async ({ command }) =>
+        run(async () => {
+          const info = await backend.startProcess(command);
+          onEvent?.(createProcessStartEvent(info.id, command, backend.id));
+          return `Started process ${info.id}. Use read_process_output to see its output.`;
+        }),
+    }),
+
+    read_process_output: tool({
+      description: READ_PROCESS_OUTPUT_TOOL_DESCRIPTION,
+      inputSchema: z.object({
+        process_id: z.string().describe("The process id returned by start_process"),
+        wait_seconds: z
+          .number()
+          .min(0)
+          .max(60)
+          .default(0)
+          .describe("If there is no new output yet, wait up to this many seconds for some"),
+      }),
+      execute: async ({ process_id, wait_seconds }) =>
+        run(async () => {
+          const result = await backend.readProcessOutput(process_id, {
+            waitMs: wait_seconds * 1000,
+          });
+          reportExit(result, false);
+
+          let text = result.output || "(no new output)";
+          if (!text.endsWith("\n")) {
+            text += "\n";
+          }
+          if (result.truncated) {
+            text = `[Earlier output was dropped due to size limit]\n${text}`;
+          }
+          return text + formatStatus(result);
+        }),
+    }),
+
+    send_process_input: tool({
+      description: SEND_PROCESS_INPUT_TOOL_DESCRIPTION,
+      inputSchema: z.object({
+        process_id: z.string().describe("The process id returned by start_process"),
+        input: z.string().describe("Text to write to stdin"),
+        newline: z
+          .boolean()
+          .default(true)
+          .describe("Append a newline, like pressing Enter"),
+      }),
+      execute: async ({ process_id, input, newline }) =>
+        run(async () => {
+          const info = await backend.sendProcessInput(process_id, newline ? `${input}\n` : input);
+          return `Sent input to process ${info.id}.`;
+        }),
+    }),
+
+    kill_process: tool({
+      description: KILL_PROCESS_TOOL_DESCRIPTION,
+      inputSchema: z.object({
+        process_id: z.string().describe("The process id returned by start_process"),
+      }),
+      execute: async ({ process_id }) =>
+        run(async () => {
+          const info = await backend.killProcess(process_id);
+          // A process stopped by a signal has no exit code
+          reportExit(info, info.exitCode === null);
+          return formatStatus(info);
+        }),
+    }),
+  };
+}
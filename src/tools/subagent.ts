@@ -2,8 +2,9 @@
  * Subagent tool for task delegation using AI SDK v6 ToolLoopAgent.
  */
 
-import { tool, ToolLoopAgent, stepCountIs, Output, type ToolSet, type LanguageModel } from "ai";
+import { tool, ToolLoopAgent, stepCountIs, Output, type ToolSet, type LanguageModel, type LanguageModelUsage } from "ai";
 import { z } from "zod";
+import micromatch from "micromatch";
 import type {
   SubAgent,
   DeepAgentState,
@@ -14,14 +15,25 @@ import type {
   CreateDeepAgentParams,
   BuiltinToolCreator,
   SubagentToolConfig,
+  SubagentBatchOptions,
+  SubagentEventTags,
+  SubagentRunStatus,
+  SubagentFilesystemOptions,
+  FileData,
+  PriceTable,
+  TokenUsage,
+  BudgetLimits,
 } from "../types";
 import { applyInterruptConfig } from "../utils/approval";
 import {
   DEFAULT_SUBAGENT_MAX_STEPS,
+  DEFAULT_SUBAGENT_MAX_CONCURRENCY,
   DEFAULT_TIMEOUT_SECONDS,
 } from "../constants/limits";
+import { SUBAGENT_TIMEOUT } from "../constants/errors";
 import {
   getTaskToolDescription,
+  getTaskBatchToolDescription,
   DEFAULT_GENERAL_PURPOSE_DESCRIPTION,
   DEFAULT_SUBAGENT_PROMPT,
   TODO_SYSTEM_PROMPT,
@@ -32,6 +44,7 @@ import {
   createSubagentStartEvent,
   createSubagentStepEvent,
   createSubagentFinishEvent,
+  createBudgetExceededEvent,
 } from "../utils/events";
 import { createTodosTool } from "./todos";
 import { createFilesystemTools } from "./filesystem";
@@ -40,15 +53,34 @@ import {
   createHttpRequestTool,
   createFetchUrlTool,
 } from "./web";
+import { createWebSearchProviderFromEnv, type WebSearchProvider } from "./web-search-providers";
+import type { EgressPolicy } from "./egress";
+import type { HttpCredentialProfiles } from "./credentials";
+import type { HttpCache } from "./http-cache";
 import {
   createLsTool,
   createReadFileTool,
   createWriteFileTool,
   createEditFileTool,
+  createDeleteFileTool,
+  createMoveFileTool,
+  createApplyPatchTool,
+  createMultiEditTool,
   createGlobTool,
   createGrepTool,
 } from "./filesystem";
 import { createExecuteTool } from "./execute";
+import { StateBackend } from "../backends/state";
+import { OverlayBackend } from "../backends/overlay";
+import { fileDataToBytes } from "../backends/utils";
+import { addUsage, createEmptyUsage, priceUsage, toTokenUsage } from "../utils/usage";
+import {
+  applyToolCallLimits,
+  budgetStopCondition,
+  BudgetTracker,
+  hasBudgetLimits,
+  withBudgetWrapUp,
+} from "../utils/budget";
 
 // ============================================================================
 // Helper Functions for Builtin Tool Instantiation
@@ -66,6 +98,10 @@ function isBuiltinToolCreator(value: any): value is BuiltinToolCreator {
     value === createReadFileTool ||
     value === createWriteFileTool ||
     value === createEditFileTool ||
+    value === createDeleteFileTool ||
+    value === createMoveFileTool ||
+    value === createApplyPatchTool ||
+    value === createMultiEditTool ||
     value === createGlobTool ||
     value === createGrepTool ||
     value === createTodosTool ||
@@ -83,31 +119,66 @@ function instantiateBuiltinTool(
     backend?: BackendProtocol | BackendFactory;
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
+    webSearchProvider?: WebSearchProvider | false;
+    egressPolicy?: EgressPolicy;
+    httpCredentials?: HttpCredentialProfiles;
+    httpCache?: HttpCache;
   }
 ): ToolSet {
-  const { backend, onEvent, toolResultEvictionLimit } = options;
+  const {
+    backend,
+    onEvent,
+    toolResultEvictionLimit,
+    webSearchProvider,
+    egressPolicy,
+    httpCredentials,
+    httpCache,
+  } = options;
 
-  // Web tools - require API key and timeout defaults
-  const tavilyApiKey = process.env.TAVILY_API_KEY || "";
+  // Web tools - web_search needs a search provider; all use the default timeout
   const defaultTimeout = DEFAULT_TIMEOUT_SECONDS;
 
   if (creator === createWebSearchTool) {
-    if (!tavilyApiKey) {
-      console.warn("web_search tool requested but TAVILY_API_KEY not set");
+    const provider =
+      webSearchProvider === false ? undefined : webSearchProvider ?? createWebSearchProviderFromEnv();
+    if (!provider) {
+      console.warn("web_search tool requested but no web search provider is configured");
       return {};
     }
     return {
-      web_search: createWebSearchTool(state, { backend, onEvent, toolResultEvictionLimit, tavilyApiKey }),
+      web_search: createWebSearchTool(state, {
+        backend,
+        onEvent,
+        toolResultEvictionLimit,
+        provider,
+        defaultTimeout,
+        cache: httpCache,
+      }),
     };
   }
   if (creator === createHttpRequestTool) {
     return {
-      http_request: createHttpRequestTool(state, { backend, onEvent, toolResultEvictionLimit, defaultTimeout }),
+      http_request: createHttpRequestTool(state, {
+        backend,
+        onEvent,
+        toolResultEvictionLimit,
+        defaultTimeout,
+        egressPolicy,
+        credentials: httpCredentials,
+        cache: httpCache,
+      }),
     };
   }
   if (creator === createFetchUrlTool) {
     return {
-      fetch_url: createFetchUrlTool(state, { backend, onEvent, toolResultEvictionLimit, defaultTimeout }),
+      fetch_url: createFetchUrlTool(state, {
+        backend,
+        onEvent,
+        toolResultEvictionLimit,
+        defaultTimeout,
+        egressPolicy,
+        cache: httpCache,
+      }),
     };
   }
 
@@ -132,6 +203,26 @@ function instantiateBuiltinTool(
       edit_file: createEditFileTool(state, backend!, onEvent),
     };
   }
+  if (creator === createDeleteFileTool) {
+    return {
+      delete_file: createDeleteFileTool(state, backend!, onEvent),
+    };
+  }
+  if (creator === createMoveFileTool) {
+    return {
+      move_file: createMoveFileTool(state, backend!, onEvent),
+    };
+  }
+  if (creator === createApplyPatchTool) {
+    return {
+      apply_patch: createApplyPatchTool(state, backend!, onEvent),
+    };
+  }
+  if (creator === createMultiEditTool) {
+    return {
+      multi_edit: createMultiEditTool(state, backend!, onEvent),
+    };
+  }
   if (creator === createGlobTool) {
     return {
       glob: createGlobTool(state, backend!, onEvent),
@@ -167,6 +258,10 @@ function processSubagentTools(
     backend?: BackendProtocol | BackendFactory;
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
+    webSearchProvider?: WebSearchProvider | false;
+    egressPolicy?: EgressPolicy;
+    httpCredentials?: HttpCredentialProfiles;
+    httpCache?: HttpCache;
   }
 ): ToolSet {
   if (!toolConfig) {
@@ -218,6 +313,52 @@ export interface CreateSubagentToolOptions {
   /** Parent agent options to pass through to subagents */
   parentGenerationOptions?: CreateDeepAgentParams["generationOptions"];
   parentAdvancedOptions?: CreateDeepAgentParams["advancedOptions"];
+  /** Price table used to cost subagent token usage */
+  pricing?: PriceTable;
+  /** Budget limits for each subagent run (overridden by a subagent's own `budget`) */
+  budget?: BudgetLimits;
+  /** Search provider for subagents that are given the `web_search` tool */
+  webSearchProvider?: WebSearchProvider | false;
+  /** Egress policy for subagents that are given `http_request` or `fetch_url` */
+  egressPolicy?: EgressPolicy;
+  /** Credential profiles for subagents that are given `http_request` */
+  httpCredentials?: HttpCredentialProfiles;
+  /** Cache shared with subagents that are given web tools */
+  httpCache?: HttpCache;
+}
+
+/**
+ * Options for creating the batch subagent tool.
+ */
+export interface CreateSubagentBatchToolOptions
+  extends CreateSubagentToolOptions,
+    SubagentBatchOptions {}
+
+/**
+ * Registry entry for a subagent type.
+ */
+interface SubagentRegistryEntry {
+  systemPrompt: string;
+  toolConfig: ToolSet | SubagentToolConfig[] | undefined;
+  model: LanguageModel;
+  output?: { schema: z.ZodType<any>; description?: string };
+}
+
+/**
+ * Per-run settings for a single subagent execution.
+ */
+interface SubagentRunOptions {
+  abortSignal?: AbortSignal;
+  timeoutSeconds?: number;
+  tags: SubagentEventTags;
+}
+
+/**
+ * Outcome of a single subagent execution.
+ */
+interface SubagentRunResult {
+  status: SubagentRunStatus;
+  result: string;
 }
 
 /**
@@ -234,62 +375,413 @@ ${FILESYSTEM_SYSTEM_PROMPT}`;
 }
 
 /**
- * Create the task tool for spawning subagents using ToolLoopAgent.
+ * Build the registry of available subagent types and their descriptions.
  */
-export function createSubagentTool(
-  state: DeepAgentState,
-  options: CreateSubagentToolOptions
-) {
+function buildSubagentRegistry(options: CreateSubagentToolOptions): {
+  registry: Record<string, SubagentRegistryEntry>;
+  descriptions: string[];
+} {
   const {
     defaultModel,
     defaultTools = {},
     subagents = [],
     includeGeneralPurposeAgent = true,
-    backend,
-    taskDescription = null,
-    onEvent,
-    interruptOn,
-    parentGenerationOptions,
-    parentAdvancedOptions,
   } = options;
 
-  // Build subagent registry (store raw tool config, process during execution)
-  const subagentRegistry: Record<
-    string,
-    {
-      systemPrompt: string;
-      toolConfig: ToolSet | SubagentToolConfig[] | undefined;
-      model: LanguageModel;
-      output?: { schema: z.ZodType<any>; description?: string };
-    }
-  > = {};
-  const subagentDescriptions: string[] = [];
+  // Store raw tool config, process during execution
+  const registry: Record<string, SubagentRegistryEntry> = {};
+  const descriptions: string[] = [];
 
   // Add general-purpose agent if enabled
   if (includeGeneralPurposeAgent) {
-    subagentRegistry["general-purpose"] = {
+    registry["general-purpose"] = {
       systemPrompt: buildSubagentSystemPrompt(DEFAULT_SUBAGENT_PROMPT),
       toolConfig: defaultTools,
       model: defaultModel,
     };
-    subagentDescriptions.push(
-      `- general-purpose: ${DEFAULT_GENERAL_PURPOSE_DESCRIPTION}`
-    );
+    descriptions.push(`- general-purpose: ${DEFAULT_GENERAL_PURPOSE_DESCRIPTION}`);
   }
 
   // Add custom subagents (store raw tool config)
   for (const subagent of subagents) {
-    subagentRegistry[subagent.name] = {
+    registry[subagent.name] = {
       systemPrompt: buildSubagentSystemPrompt(subagent.systemPrompt),
       toolConfig: subagent.tools || defaultTools,
       model: subagent.model || defaultModel,
       output: subagent.output,
     };
-    subagentDescriptions.push(`- ${subagent.name}: ${subagent.description}`);
+    descriptions.push(`- ${subagent.name}: ${subagent.description}`);
   }
 
+  return { registry, descriptions };
+}
+
+/**
+ * Normalize a subagent's filesystem setting into options.
+ */
+function resolveFilesystemOptions(
+  filesystem: SubAgent["filesystem"]
+): SubagentFilesystemOptions {
+  if (!filesystem) {
+    return { mode: "shared" };
+  }
+  return typeof filesystem === "string" ? { mode: filesystem } : filesystem;
+}
+
+/**
+ * Resolve the parent's backend as the subagent tools would see it.
+ */
+function resolveParentBackend(
+  state: DeepAgentState,
+  backend: BackendProtocol | BackendFactory | undefined
+): BackendProtocol {
+  if (typeof backend === "function") {
+    return backend(state);
+  }
+  return backend ?? new StateBackend(state);
+}
+
+/**
+ * Write selected files the subagent created or changed to the parent's backend.
+ * Scoped subagents' files are placed under `/subagents/{name}/`.
+ *
+ * Overlay and scoped subagents report changes from their overlay; isolated
+ * subagents report every file in their own state. Deletions are never merged.
+ *
+ * @returns Parent paths of the merged files, or the first write error
+ */
+async function mergeSubagentFiles(
+  parentBackend: BackendProtocol,
+  overlay: OverlayBackend | undefined,
+  subagentState: DeepAgentState,
+  options: SubagentFilesystemOptions,
+  subagentName: string
+): Promise<{ merged: string[]; error?: string }> {
+  const { mode, mergeBack } = options;
+
+  let changed: Array<[string, FileData]>;
+  if (overlay) {
+    changed = [];
+    for (const change of await overlay.diff()) {
+      if (change.type !== "deleted") {
+        changed.push([change.path, await overlay.readRaw(change.path)]);
+      }
+    }
+  } else {
+    changed = Object.entries(subagentState.files);
+  }
+
+  const selected = changed.filter(([path, file]) =>
+    mergeBack === undefined
+      ? mode === "scoped"
+      : typeof mergeBack === "function"
+        ? mergeBack(path, file)
+        : micromatch.isMatch(path, mergeBack, { dot: true })
+  );
+  if (selected.length === 0) {
+    return { merged: [] };
+  }
+
+  // Overlays commit their own changes; other files are staged in an overlay
+  // over the parent so they are written the same way
+  let writer: OverlayBackend;
+  let merged: string[];
+  if (mode === "overlay" && overlay) {
+    writer = overlay;
+    merged = selected.map(([path]) => path);
+  } else {
+    writer = new OverlayBackend(parentBackend);
+    const uploads: Array<[string, Uint8Array]> = selected.map(([path, file]) => [
+      mode === "scoped" ? `/subagents/${subagentName}${path.startsWith("/") ? path : `/${path}`}` : path,
+      fileDataToBytes(file),
+    ]);
+    await writer.uploadFiles(uploads);
+    merged = uploads.map(([path]) => path);
+  }
+
+  const result = await writer.commit(merged);
+  return result.success ? { merged } : { merged: [], error: result.error };
+}
+
+/**
+ * Run one subagent to completion and format its result for the parent agent.
+ * Failures and timeouts are reported in the result rather than thrown.
+ */
+async function runSubagent(
+  state: DeepAgentState,
+  options: CreateSubagentToolOptions,
+  registry: Record<string, SubagentRegistryEntry>,
+  description: string,
+  subagentType: string,
+  run: SubagentRunOptions
+): Promise<SubagentRunResult> {
+  const {
+    subagents = [],
+    backend,
+    onEvent,
+    interruptOn,
+    parentGenerationOptions,
+    parentAdvancedOptions,
+    pricing,
+    budget: parentBudget,
+    webSearchProvider,
+    egressPolicy,
+    httpCredentials,
+    httpCache,
+  } = options;
+
+  // Validate subagent type
+  if (!(subagentType in registry)) {
+    const allowedTypes = Object.keys(registry)
+      .map((k) => `\`${k}\``)
+      .join(", ");
+    return {
+      status: "error",
+      result: `Error: invoked agent of type ${subagentType}, the only allowed types are ${allowedTypes}`,
+    };
+  }
+
+  const subagentConfig = registry[subagentType]!;
+
+  // Find the subagent spec to get its specific options
+  const subagentSpec = subagents.find((sa) => sa.name === subagentType);
+  const subagentInterruptOn = subagentSpec?.interruptOn ?? interruptOn;
+
+  // Merge options: subagent-specific options override parent options
+  const mergedGenerationOptions = {
+    ...parentGenerationOptions,
+    ...subagentSpec?.generationOptions,
+  };
+
+  const mergedAdvancedOptions = {
+    ...parentAdvancedOptions,
+    ...subagentSpec?.advancedOptions,
+  };
+
+  // Emit subagent start event
+  if (onEvent) {
+    onEvent(createSubagentStartEvent(subagentType, description, run.tags));
+  }
+
+  // Create a fresh state for the subagent (own todos; files shared or isolated)
+  const filesystemOptions = resolveFilesystemOptions(subagentSpec?.filesystem);
+  const subagentState: DeepAgentState = {
+    todos: [],
+    files: filesystemOptions.mode === "shared" ? state.files : {},
+  };
+  // Isolated runs on an empty in-memory backend; overlay and scoped see the
+  // parent's backend through a copy-on-write layer
+  const parentBackend = filesystemOptions.mode === "shared" ? undefined : resolveParentBackend(state, backend);
+  const overlay =
+    filesystemOptions.mode === "overlay" || filesystemOptions.mode === "scoped"
+      ? new OverlayBackend(parentBackend!)
+      : undefined;
+  const subagentBackend =
+    filesystemOptions.mode === "shared" ? backend : overlay ?? new StateBackend(subagentState);
+
+  // Process subagent tool configuration (handles both arrays and ToolSet objects)
+  const customTools = processSubagentTools(
+    subagentConfig.toolConfig,
+    subagentState,
+    { backend: subagentBackend, onEvent, webSearchProvider, egressPolicy, httpCredentials, httpCache }
+  );
+
+  // Build default tools (todos + filesystem) that all subagents get
+  const todosTool = createTodosTool(subagentState, onEvent);
+  const filesystemTools = createFilesystemTools(subagentState, subagentBackend, onEvent);
+
+  // Combine default tools with custom tools
+  // Custom tools come last so they can override defaults if needed
+  let allTools: ToolSet = {
+    write_todos: todosTool,
+    ...filesystemTools,
+    ...customTools,
+  };
+
+  // Apply interruptOn config - use subagent's own config if provided, otherwise parent's
+  allTools = applyInterruptConfig(allTools, subagentInterruptOn);
+
+  // Budget limits - use subagent's own budget if provided, otherwise parent's
+  let usage: TokenUsage = createEmptyUsage();
+  const budgetLimits = subagentSpec?.budget ?? parentBudget;
+  const budget = hasBudgetLimits(budgetLimits)
+    ? new BudgetTracker(budgetLimits, () => usage)
+    : undefined;
+  if (budget) {
+    allTools = applyToolCallLimits(allTools, budget);
+  }
+
+  // Stop the subagent when the parent run is aborted or its time limit passes
+  const timeoutSignal = run.timeoutSeconds
+    ? AbortSignal.timeout(run.timeoutSeconds * 1000)
+    : undefined;
+  const signals = [run.abortSignal, timeoutSignal].filter(
+    (signal): signal is AbortSignal => signal !== undefined
+  );
+  const abortSignal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+
+  try {
+    // Create and run a ToolLoopAgent for the subagent
+    const subagentSettings: any = {
+      model: subagentConfig.model,
+      instructions: subagentConfig.systemPrompt,
+      tools: allTools,
+      stopWhen: [
+        stepCountIs(DEFAULT_SUBAGENT_MAX_STEPS), // Enforce max steps limit for subagents
+        ...(budget ? [budgetStopCondition(budget)] : []),
+      ],
+      // Pass output configuration if subagent has one using AI SDK Output helper
+      ...(subagentConfig.output ? { output: Output.object(subagentConfig.output) } : {}),
+    };
+
+    // Add merged generation options
+    if (Object.keys(mergedGenerationOptions).length > 0) {
+      Object.assign(subagentSettings, mergedGenerationOptions);
+    }
+
+    // Add merged advanced options (excluding toolChoice and activeTools as per plan)
+    if (mergedAdvancedOptions) {
+      const { toolChoice, activeTools, ...safeAdvancedOptions } = mergedAdvancedOptions;
+      Object.assign(subagentSettings, safeAdvancedOptions);
+    }
+
+    // Track subagent step count for events
+    let subagentStepCount = 0;
+
+    // Add onStepFinish callback to settings to capture steps
+    subagentSettings.onStepFinish = async ({ toolCalls, toolResults, usage: stepUsage }: { toolCalls: any[]; toolResults: any[]; usage: LanguageModelUsage }) => {
+      // Accumulate per step so usage is known even if the subagent later fails
+      usage = addUsage(usage, priceUsage(toTokenUsage(stepUsage), subagentConfig.model, pricing));
+
+      // Emit subagent step event with tool calls
+      if (onEvent && toolCalls && toolCalls.length > 0) {
+        // Map tool calls with their results
+        const toolCallsWithResults = toolCalls.map((tc: any, index: number) => ({
+          toolName: tc.toolName,
+          args: tc.args,
+          result: toolResults[index],
+        }));
+
+        onEvent(createSubagentStepEvent(subagentStepCount++, toolCallsWithResults, run.tags));
+      }
+    };
+
+    // Once a budget limit is reached, the subagent gets one final step to report back
+    if (budget) {
+      subagentSettings.prepareStep = withBudgetWrapUp(budget, undefined, (exceeded) =>
+        onEvent?.(createBudgetExceededEvent(exceeded, subagentType))
+      );
+    }
+
+    const subagentAgent = new ToolLoopAgent(subagentSettings);
+
+    // Share the parent's abort signal so cancelling the run also stops the subagent
+    const result = await subagentAgent.generate({
+      prompt: description,
+      abortSignal,
+    });
+
+    // Merge file changes back to the parent. Shared subagents already wrote
+    // into the parent's own files object, which sibling subagents also hold,
+    // so it is never replaced
+    let mergedFiles: string[] | undefined;
+    if (filesystemOptions.mode !== "shared") {
+      const merge = await mergeSubagentFiles(
+        parentBackend!,
+        overlay,
+        subagentState,
+        filesystemOptions,
+        subagentType
+      );
+      if (merge.error) {
+        onEvent?.(createSubagentFinishEvent(subagentType, merge.error, { ...run.tags, status: "error", usage }));
+        return { status: "error", result: merge.error };
+      }
+      mergedFiles = merge.merged;
+    }
+
+    const resultText = result.text || "Task completed successfully.";
+
+    // Format output for parent agent
+    let formattedResult = resultText;
+
+    // If subagent has structured output, include it in the response
+    if (subagentConfig.output && 'output' in result && result.output) {
+      formattedResult = `${resultText}\n\n[Structured Output]\n${JSON.stringify(result.output, null, 2)}`;
+    }
+
+    // Emit subagent finish event
+    if (onEvent) {
+      onEvent(
+        createSubagentFinishEvent(subagentType, formattedResult, {
+          ...run.tags,
+          status: "success",
+          mergedFiles,
+          usage,
+        })
+      );
+    }
+
+    return { status: "success", result: formattedResult };
+  } catch (error: unknown) {
+    const err = error as Error;
+    const timedOut = !!timeoutSignal?.aborted && !run.abortSignal?.aborted;
+    const status: SubagentRunStatus = timedOut ? "timeout" : "error";
+    const errorMessage = timedOut
+      ? SUBAGENT_TIMEOUT(subagentType, run.timeoutSeconds!)
+      : `Error executing subagent: ${err.message}`;
+
+    // Emit subagent finish event with error
+    if (onEvent) {
+      onEvent(
+        createSubagentFinishEvent(subagentType, errorMessage, {
+          ...run.tags,
+          status,
+          usage,
+        })
+      );
+    }
+
+    return { status, result: errorMessage };
+  }
+}
+
+/**
+ * Run async work over items with at most `limit` in flight, preserving order.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Create the task tool for spawning subagents using ToolLoopAgent.
+ */
+export function createSubagentTool(
+  state: DeepAgentState,
+  options: CreateSubagentToolOptions
+) {
+  const { taskDescription = null } = options;
+  const { registry, descriptions } = buildSubagentRegistry(options);
+
   const finalTaskDescription =
-    taskDescription || getTaskToolDescription(subagentDescriptions);
+    taskDescription || getTaskToolDescription(descriptions);
 
   return tool({
     description: finalTaskDescription,
@@ -300,144 +792,77 @@ export function createSubagentTool(
       subagent_type: z
         .string()
         .describe(
-          `Name of the agent to use. Available: ${Object.keys(subagentRegistry).join(", ")}`
+          `Name of the agent to use. Available: ${Object.keys(registry).join(", ")}`
         ),
     }),
-    execute: async ({ description, subagent_type }) => {
-      // Validate subagent type
-      if (!(subagent_type in subagentRegistry)) {
-        const allowedTypes = Object.keys(subagentRegistry)
-          .map((k) => `\`${k}\``)
-          .join(", ");
-        return `Error: invoked agent of type ${subagent_type}, the only allowed types are ${allowedTypes}`;
-      }
-
-      const subagentConfig = subagentRegistry[subagent_type]!;
-
-      // Find the subagent spec to get its specific options
-      const subagentSpec = subagents.find((sa) => sa.name === subagent_type);
-      const subagentInterruptOn = subagentSpec?.interruptOn ?? interruptOn;
-
-      // Merge options: subagent-specific options override parent options
-      const mergedGenerationOptions = {
-        ...parentGenerationOptions,
-        ...subagentSpec?.generationOptions,
-      };
-
-      const mergedAdvancedOptions = {
-        ...parentAdvancedOptions,
-        ...subagentSpec?.advancedOptions,
-      };
+    execute: async ({ description, subagent_type }, { toolCallId, abortSignal }) => {
+      const { result } = await runSubagent(state, options, registry, description, subagent_type, {
+        abortSignal,
+        tags: { taskId: toolCallId },
+      });
+      return result;
+    },
+  });
+}
 
-      // Emit subagent start event
-      if (onEvent) {
-        onEvent(createSubagentStartEvent(subagent_type, description));
-      }
+/**
+ * Create the task_batch tool, which runs several subagent tasks from one call.
+ *
+ * Tasks may target different subagent types. At most `maxConcurrency` of them
+ * run at once, each task can have its own time limit, and the results are
+ * returned together in task order. Every subagent event carries the batch's
+ * tool call ID and the task's index so UIs can render parallel progress.
+ */
+export function createSubagentBatchTool(
+  state: DeepAgentState,
+  options: CreateSubagentBatchToolOptions
+) {
+  const {
+    maxConcurrency = DEFAULT_SUBAGENT_MAX_CONCURRENCY,
+    taskTimeoutSeconds,
+  } = options;
+  const { registry, descriptions } = buildSubagentRegistry(options);
 
-      // Create a fresh state for the subagent (shares files but have own todos)
-      const subagentState: DeepAgentState = {
-        todos: [],
-        files: state.files, // Share files with parent
-      };
+  return tool({
+    description: getTaskBatchToolDescription(descriptions, maxConcurrency),
+    inputSchema: z.object({
+      tasks: z
+        .array(
+          z.object({
+            description: z
+              .string()
+              .describe("The task to execute with the selected agent"),
+            subagent_type: z
+              .string()
+              .describe(
+                `Name of the agent to use. Available: ${Object.keys(registry).join(", ")}`
+              ),
+            timeout_seconds: z
+              .number()
+              .positive()
+              .optional()
+              .describe("Optional time limit for this task in seconds"),
+          })
+        )
+        .min(1)
+        .describe("Independent tasks to run in parallel"),
+    }),
+    execute: async ({ tasks }, { toolCallId, abortSignal }) => {
+      const results = await mapWithConcurrency(tasks, maxConcurrency, (task, index) =>
+        runSubagent(state, options, registry, task.description, task.subagent_type, {
+          abortSignal,
+          timeoutSeconds: task.timeout_seconds ?? taskTimeoutSeconds,
+          tags: { taskId: `${toolCallId}:${index}`, batchId: toolCallId, batchIndex: index },
+        })
+      );
 
-      // Process subagent tool configuration (handles both arrays and ToolSet objects)
-      const customTools = processSubagentTools(
-        subagentConfig.toolConfig,
-        subagentState,
-        { backend, onEvent }
+      const succeeded = results.filter((r) => r.status === "success").length;
+      const sections = results.map(
+        (r, index) =>
+          `## Task ${index + 1} (${tasks[index]!.subagent_type}, ${r.status})\n${r.result}`
       );
 
-      // Build default tools (todos + filesystem) that all subagents get
-      const todosTool = createTodosTool(subagentState, onEvent);
-      const filesystemTools = createFilesystemTools(subagentState, backend, onEvent);
-
-      // Combine default tools with custom tools
-      // Custom tools come last so they can override defaults if needed
-      let allTools: ToolSet = {
-        write_todos: todosTool,
-        ...filesystemTools,
-        ...customTools,
-      };
-
-      // Apply interruptOn config - use subagent's own config if provided, otherwise parent's
-      allTools = applyInterruptConfig(allTools, subagentInterruptOn);
-
-      try {
-        // Create and run a ToolLoopAgent for the subagent
-        const subagentSettings: any = {
-          model: subagentConfig.model,
-          instructions: subagentConfig.systemPrompt,
-          tools: allTools,
-          stopWhen: stepCountIs(DEFAULT_SUBAGENT_MAX_STEPS), // Enforce max steps limit for subagents
-          // Pass output configuration if subagent has one using AI SDK Output helper
-          ...(subagentConfig.output ? { output: Output.object(subagentConfig.output) } : {}),
-        };
-
-        // Add merged generation options
-        if (Object.keys(mergedGenerationOptions).length > 0) {
-          Object.assign(subagentSettings, mergedGenerationOptions);
-        }
-
-        // Add merged advanced options (excluding toolChoice and activeTools as per plan)
-        if (mergedAdvancedOptions) {
-          const { toolChoice, activeTools, ...safeAdvancedOptions } = mergedAdvancedOptions;
-          Object.assign(subagentSettings, safeAdvancedOptions);
-        }
-
-        // Track subagent step count for events
-        let subagentStepCount = 0;
-
-        // Add onStepFinish callback to settings to capture steps
-        subagentSettings.onStepFinish = async ({ toolCalls, toolResults }: { toolCalls: any[]; toolResults: any[] }) => {
-          // Emit subagent step event with tool calls
-          if (onEvent && toolCalls && toolCalls.length > 0) {
-            // Map tool calls with their results
-            const toolCallsWithResults = toolCalls.map((tc: any, index: number) => ({
-              toolName: tc.toolName,
-              args: tc.args,
-              result: toolResults[index],
-            }));
-
-            onEvent(createSubagentStepEvent(subagentStepCount++, toolCallsWithResults));
-          }
-        };
-
-        const subagentAgent = new ToolLoopAgent(subagentSettings);
-
-        const result = await subagentAgent.generate({
-          prompt: description,
-        });
-
-        // Merge any file changes back to parent state
-        state.files = { ...state.files, ...subagentState.files };
-
-        const resultText = result.text || "Task completed successfully.";
-
-        // Format output for parent agent
-        let formattedResult = resultText;
-
-        // If subagent has structured output, include it in the response
-        if (subagentConfig.output && 'output' in result && result.output) {
-          formattedResult = `${resultText}\n\n[Structured Output]\n${JSON.stringify(result.output, null, 2)}`;
-        }
-
-        // Emit subagent finish event
-        if (onEvent) {
-          onEvent(createSubagentFinishEvent(subagent_type, formattedResult));
-        }
-
-        return formattedResult;
-      } catch (error: unknown) {
-        const err = error as Error;
-        const errorMessage = `Error executing subagent: ${err.message}`;
-
-        // Emit subagent finish event with error
-        if (onEvent) {
-          onEvent(createSubagentFinishEvent(subagent_type, errorMessage));
-        }
-
-        return errorMessage;
-      }
+      return `Completed ${succeeded} of ${tasks.length} tasks.\n\n${sections.join("\n\n")}`;
     },
   });
 }
@@ -0,0 +1,520 @@
+/**
+ * Search providers for the web_search tool.
+ *
+ * The tool talks to a WebSearchProvider, so any search API (or a local mock
+ * in tests) can back it. Adapters are included for Tavily, Brave, SerpAPI,
+ * Exa and self-hosted SearXNG.
+ */
+
+import { tavily } from "@tavily/core";
+import { SEARCH_PROVIDER_REQUEST_FAILED } from "../constants/errors";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Search topic requested by the model.
+ */
+export type WebSearchTopic = "general" | "news" | "finance";
+
+/**
+ * Options passed to a provider for one search.
+ */
+export interface WebSearchOptions {
+  /** Maximum number of results to return */
+  maxResults: number;
+  /** Search topic category. Providers without a matching category use a general search. */
+  topic: WebSearchTopic;
+  /** Include the full page content of each result, if the provider supports it */
+  includeRawContent: boolean;
+  /** Fires when the tool call times out or the run is aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * A single search result.
+ */
+export interface WebSearchResult {
+  /** Page title */
+  title: string;
+  /** Page URL */
+  url: string;
+  /** Relevant excerpt from the page */
+  content: string;
+  /** Relevance score, if the provider reports one */
+  score?: number;
+  /** Publication date, if known */
+  publishedDate?: string;
+  /** Full page content, when requested and supported */
+  rawContent?: string;
+}
+
+/**
+ * A search API behind the web_search tool.
+ *
+ * @example
+ * ```typescript
+ * const agent = createDeepAgent({
+ *   model,
+ *   webSearchProvider: new BraveSearchProvider({ apiKey: process.env.BRAVE_SEARCH_API_KEY! }),
+ * });
+ * ```
+ */
+export interface WebSearchProvider {
+  /** Provider name, used in error messages */
+  readonly name: string;
+
+  /**
+   * Search the web.
+   *
+   * @throws If the search API fails
+   */
+  search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Fetch JSON from a search API, throwing on non-2xx responses.
+ * The response is not validated, so every field of `T` should be optional.
+ */
+async function fetchJson<T>(provider: string, url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(SEARCH_PROVIDER_REQUEST_FAILED(provider, response.status, body.slice(0, 200)));
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Remove the HTML highlighting some APIs put in snippets.
+ */
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, "");
+}
+
+// ============================================================================
+// Tavily
+// ============================================================================
+
+/**
+ * Options for TavilySearchProvider.
+ */
+export interface TavilySearchProviderOptions {
+  /** Tavily API key */
+  apiKey: string;
+}
+
+/**
+ * Search with Tavily (https://tavily.com).
+ */
+export class TavilySearchProvider implements WebSearchProvider {
+  readonly name = "tavily";
+  private readonly apiKey: string;
+
+  constructor(options: TavilySearchProviderOptions) {
+    this.apiKey = options.apiKey;
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const client = tavily({ apiKey: this.apiKey });
+    const response = await client.search(query, {
+      maxResults: options.maxResults,
+      topic: options.topic,
+      includeRawContent: options.includeRawContent ? "text" : false,
+    });
+
+    return (response.results || []).map((r) => ({
+      title: r.title,
+      url: r.url,
+      content: r.content,
+      score: r.score,
+      publishedDate: r.publishedDate || undefined,
+      rawContent: r.rawContent || undefined,
+    }));
+  }
+}
+
+// ============================================================================
+// Brave
+// ============================================================================
+
+/**
+ * Options for BraveSearchProvider.
+ */
+export interface BraveSearchProviderOptions {
+  /** Brave Search API subscription token */
+  apiKey: string;
+  /** API base URL (default: https://api.search.brave.com/res/v1) */
+  baseUrl?: string;
+}
+
+/**
+ * The fields BraveSearchProvider reads from a web or news result.
+ */
+interface BraveResult {
+  title?: string;
+  url?: string;
+  description?: string;
+  page_age?: string;
+  age?: string;
+  extra_snippets?: string[];
+}
+
+/**
+ * Brave response: web results are nested under `web`, news results are top-level.
+ */
+interface BraveResponse {
+  web?: { results?: BraveResult[] };
+  results?: BraveResult[];
+}
+
+/**
+ * Search with the Brave Search API (https://brave.com/search/api/).
+ * News searches use the news endpoint. Brave returns at most 20 results.
+ */
+export class BraveSearchProvider implements WebSearchProvider {
+  readonly name = "brave";
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(options: BraveSearchProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? "https://api.search.brave.com/res/v1").replace(/\/+$/, "");
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const isNews = options.topic === "news";
+    const url = new URL(`${this.baseUrl}/${isNews ? "news" : "web"}/search`);
+    url.searchParams.set("q", query);
+    url.searchParams.set("count", String(Math.min(options.maxResults, 20)));
+    if (!isNews && options.includeRawContent) {
+      url.searchParams.set("extra_snippets", "true");
+    }
+
+    const data = await fetchJson<BraveResponse>(this.name, url.toString(), {
+      headers: {
+        Accept: "application/json",
+        "X-Subscription-Token": this.apiKey,
+      },
+      signal: options.signal,
+    });
+
+    const results = (isNews ? data.results : data.web?.results) ?? [];
+    return results.slice(0, options.maxResults).map((r) => ({
+      title: r.title ?? "",
+      url: r.url ?? "",
+      content: stripTags(r.description ?? ""),
+      publishedDate: r.page_age ?? r.age,
+      rawContent: r.extra_snippets?.length
+        ? r.extra_snippets.map(stripTags).join("\n")
+        : undefined,
+    }));
+  }
+}
+
+// ============================================================================
+// SerpAPI
+// ============================================================================
+
+/**
+ * Options for SerpApiSearchProvider.
+ */
+export interface SerpApiSearchProviderOptions {
+  /** SerpAPI key */
+  apiKey: string;
+  /** Search engine to query (default: "google") */
+  engine?: string;
+  /** API base URL (default: https://serpapi.com) */
+  baseUrl?: string;
+}
+
+/**
+ * The fields SerpApiSearchProvider reads from an organic or news result.
+ */
+interface SerpApiResult {
+  title?: string;
+  link?: string;
+  snippet?: string;
+  date?: string;
+}
+
+/**
+ * SerpAPI response. Failed searches are reported in `error` with a 200 status.
+ */
+interface SerpApiResponse {
+  error?: string;
+  organic_results?: SerpApiResult[];
+  news_results?: SerpApiResult[];
+}
+
+/**
+ * Search with SerpAPI (https://serpapi.com).
+ * News searches use Google News results (`tbm=nws`).
+ */
+export class SerpApiSearchProvider implements WebSearchProvider {
+  readonly name = "serpapi";
+  private readonly apiKey: string;
+  private readonly engine: string;
+  private readonly baseUrl: string;
+
+  constructor(options: SerpApiSearchProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.engine = options.engine ?? "google";
+    this.baseUrl = (options.baseUrl ?? "https://serpapi.com").replace(/\/+$/, "");
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const isNews = options.topic === "news";
+    const url = new URL(`${this.baseUrl}/search.json`);
+    url.searchParams.set("engine", this.engine);
+    url.searchParams.set("q", query);
+    url.searchParams.set("num", String(options.maxResults));
+    url.searchParams.set("api_key", this.apiKey);
+    if (isNews) {
+      url.searchParams.set("tbm", "nws");
+    }
+
+    const data = await fetchJson<SerpApiResponse>(this.name, url.toString(), {
+      headers: { Accept: "application/json" },
+      signal: options.signal,
+    });
+    if (data.error) {
+      throw new Error(`${this.name}: ${data.error}`);
+    }
+
+    const results = (isNews ? data.news_results : data.organic_results) ?? [];
+    return results.slice(0, options.maxResults).map((r) => ({
+      title: r.title ?? "",
+      url: r.link ?? "",
+      content: r.snippet ?? "",
+      publishedDate: r.date,
+    }));
+  }
+}
+
+// ============================================================================
+// Exa
+// ============================================================================
+
+/**
+ * Options for ExaSearchProvider.
+ */
+export interface ExaSearchProviderOptions {
+  /** Exa API key */
+  apiKey: string;
+  /** API base URL (default: https://api.exa.ai) */
+  baseUrl?: string;
+}
+
+/**
+ * The fields ExaSearchProvider reads from a result.
+ */
+interface ExaResult {
+  title?: string | null;
+  url?: string;
+  highlights?: string[];
+  summary?: string;
+  text?: string;
+  score?: number | null;
+  publishedDate?: string | null;
+}
+
+/**
+ * Exa search response.
+ */
+interface ExaResponse {
+  results?: ExaResult[];
+}
+
+/**
+ * Search with Exa (https://exa.ai).
+ * The news and finance topics map to Exa's "news" and "financial report" categories.
+ */
+export class ExaSearchProvider implements WebSearchProvider {
+  readonly name = "exa";
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(options: ExaSearchProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl ?? "https://api.exa.ai").replace(/\/+$/, "");
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const category =
+      options.topic === "news" ? "news" : options.topic === "finance" ? "financial report" : undefined;
+
+    const data = await fetchJson<ExaResponse>(this.name, `${this.baseUrl}/search`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+      },
+      body: JSON.stringify({
+        query,
+        numResults: options.maxResults,
+        ...(category && { category }),
+        contents: {
+          highlights: true,
+          text: options.includeRawContent,
+        },
+      }),
+      signal: options.signal,
+    });
+
+    const results = data.results ?? [];
+    return results.slice(0, options.maxResults).map((r) => ({
+      title: r.title ?? "",
+      url: r.url ?? "",
+      content: r.highlights?.length ? r.highlights.join(" ... ") : (r.summary ?? r.text?.slice(0, 500) ?? ""),
+      score: r.score ?? undefined,
+      publishedDate: r.publishedDate ?? undefined,
+      rawContent: options.includeRawContent ? r.text : undefined,
+    }));
+  }
+}
+
+// ============================================================================
+// SearXNG
+// ============================================================================
+
+/**
+ * Options for SearxngSearchProvider.
+ */
+export interface SearxngSearchProviderOptions {
+  /** URL of the SearXNG instance (e.g. "http://localhost:8080") */
+  baseUrl: string;
+  /** Extra request headers, e.g. for an authenticating proxy in front of the instance */
+  headers?: Record<string, string>;
+}
+
+/**
+ * The fields SearxngSearchProvider reads from a result.
+ */
+interface SearxngResult {
+  title?: string;
+  url?: string;
+  content?: string;
+  score?: number | null;
+  publishedDate?: string | null;
+}
+
+/**
+ * SearXNG JSON response.
+ */
+interface SearxngResponse {
+  results?: SearxngResult[];
+}
+
+/**
+ * Search with a self-hosted SearXNG instance (https://docs.searxng.org).
+ * The instance must have the JSON output format enabled in its settings.
+ */
+export class SearxngSearchProvider implements WebSearchProvider {
+  readonly name = "searxng";
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+
+  constructor(options: SearxngSearchProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.headers = options.headers ?? {};
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    const url = new URL(`${this.baseUrl}/search`);
+    url.searchParams.set("q", query);
+    url.searchParams.set("format", "json");
+    url.searchParams.set("categories", options.topic === "news" ? "news" : "general");
+
+    const data = await fetchJson<SearxngResponse>(this.name, url.toString(), {
+      headers: { Accept: "application/json", ...this.headers },
+      signal: options.signal,
+    });
+
+    const results = data.results ?? [];
+    return results.slice(0, options.maxResults).map((r) => ({
+      title: r.title ?? "",
+      url: r.url ?? "",
+      content: r.content ?? "",
+      score: r.score ?? undefined,
+      publishedDate: r.publishedDate ?? undefined,
+    }));
+  }
+}
+
+// ============================================================================
+// Mock
+// ============================================================================
+
+/**
+ * Canned results for MockSearchProvider, or a function that computes them.
+ */
+export type MockSearchResults =
+  | WebSearchResult[]
+  | ((query: string, options: WebSearchOptions) => WebSearchResult[] | Promise<WebSearchResult[]>);
+
+/**
+ * Search provider that returns canned results without network access.
+ * Records every query, for tests and offline development.
+ *
+ * @example
+ * ```typescript
+ * const provider = new MockSearchProvider([
+ *   { title: 'Bun', url: 'https://bun.sh', content: 'Bun is a fast JavaScript runtime' },
+ * ]);
+ * const agent = createDeepAgent({ model, webSearchProvider: provider });
+ * ```
+ */
+export class MockSearchProvider implements WebSearchProvider {
+  readonly name = "mock";
+  /** Queries searched so far, in order */
+  readonly queries: string[] = [];
+  private readonly results: MockSearchResults;
+
+  constructor(results: MockSearchResults = []) {
+    this.results = results;
+  }
+
+  async search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]> {
+    this.queries.push(query);
+    const results =
+      typeof this.results === "function" ? await this.results(query, options) : this.results;
+    return results.slice(0, options.maxResults);
+  }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Pick a provider from environment variables, checked in this order:
+ * TAVILY_API_KEY, BRAVE_SEARCH_API_KEY, SERPAPI_API_KEY, EXA_API_KEY, SEARXNG_URL.
+ *
+ * @returns The provider, or undefined if none of the variables is set
+ */
+export function createWebSearchProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): WebSearchProvider | undefined {
+  if (env.TAVILY_API_KEY) {
+    return new TavilySearchProvider({ apiKey: env.TAVILY_API_KEY });
+  }
+  if (env.BRAVE_SEARCH_API_KEY) {
+    return new BraveSearchProvider({ apiKey: env.BRAVE_SEARCH_API_KEY });
+  }
+  if (env.SERPAPI_API_KEY) {
+    return new SerpApiSearchProvider({ apiKey: env.SERPAPI_API_KEY });
+  }
+  if (env.EXA_API_KEY) {
+    return new ExaSearchProvider({ apiKey: env.EXA_API_KEY });
+  }
+  if (env.SEARXNG_URL) {
+    return new SearxngSearchProvider({ baseUrl: env.SEARXNG_URL });
+  }
+  return undefined;
+}
@@ -5,7 +5,6 @@
 
 import { tool } from "ai";
 import { z } from "zod";
-import { tavily } from "@tavily/core";
 import TurndownService from "turndown";
 import { Readability } from "@mozilla/readability";
 import { JSDOM } from "jsdom";
@@ -16,9 +15,13 @@ import type {
   EventCallback,
 } from "../types";
 import { evictToolResult } from "../utils/eviction";
+import { detectDocumentFormat, extractDocument, formatDocumentPage } from "../utils/documents";
 import {
   WEB_SEARCH_ERROR,
   REQUEST_TIMEOUT,
+  REQUEST_ABORTED,
+  WEB_SEARCH_PROVIDER_NOT_CONFIGURED,
+  DOCUMENT_EXTRACTION_FAILED,
 } from "../constants/errors";
 import { DEFAULT_TIMEOUT_SECONDS } from "../constants/limits";
 import {
@@ -28,7 +31,28 @@ import {
   createHttpRequestFinishEvent,
   createFetchUrlStartEvent,
   createFetchUrlFinishEvent,
+  createEgressBlockedEvent,
 } from "../utils/events";
+import {
+  createWebSearchProviderFromEnv,
+  TavilySearchProvider,
+  type WebSearchProvider,
+  type WebSearchResult,
+} from "./web-search-providers";
+import {
+  checkEgressRequest,
+  fetchWithEgressPolicy,
+  type EgressFetchResult,
+  type EgressPolicy,
+  type EgressRequest,
+} from "./egress";
+import {
+  applyCredentialProfile,
+  createSecretRedactor,
+  describeCredentialProfiles,
+  type HttpCredentialProfiles,
+} from "./credentials";
+import type { HttpCache } from "./http-cache";
 
 // ============================================================================
 // Helper Functions
@@ -48,6 +72,82 @@ function getBackend(
   return backend;
 }
 
+/**
+ * Build a fetch signal that fires on timeout or when the run is aborted.
+ */
+function createRequestSignal(timeoutSeconds: number, abortSignal?: AbortSignal): AbortSignal {
+  const timeoutSignal = AbortSignal.timeout(timeoutSeconds * 1000);
+  return abortSignal ? AbortSignal.any([timeoutSignal, abortSignal]) : timeoutSignal;
+}
+
+/**
+ * Reject as soon as the signal aborts, for clients that don't accept a signal.
+ */
+function raceAbort<T>(promise: Promise<T>, abortSignal?: AbortSignal): Promise<T> {
+  if (!abortSignal) return promise;
+  abortSignal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortSignal.reason);
+    abortSignal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      abortSignal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+/**
+ * Send a request for a web tool, under the egress policy if there is one.
+ * When the policy blocks the request, emits an egress-blocked event and
+ * returns the block, with secrets redacted from both.
+ */
+async function sendRequest(
+  toolName: "http_request" | "fetch_url",
+  url: string,
+  request: EgressRequest,
+  egressPolicy: EgressPolicy | undefined,
+  onEvent: EventCallback | undefined,
+  redact: (text: string) => string = (text) => text
+): Promise<EgressFetchResult> {
+  if (!egressPolicy) {
+    return { response: await fetch(url, request) };
+  }
+  const result = await fetchWithEgressPolicy(url, request, egressPolicy);
+  if (!result.blocked) {
+    return result;
+  }
+  const blocked = { ...result.blocked, url: redact(result.blocked.url), message: redact(result.blocked.message) };
+  if (onEvent) {
+    onEvent(createEgressBlockedEvent(toolName, blocked));
+  }
+  return { blocked };
+}
+
+/**
+ * Send a request for a web tool through the HTTP cache, if there is one.
+ * Only GET requests are cached. Requests the egress policy blocks bypass the
+ * cache, so the policy still applies to URLs that were cached before.
+ */
+async function sendCachedRequest(
+  toolName: "http_request" | "fetch_url",
+  url: string,
+  request: EgressRequest,
+  egressPolicy: EgressPolicy | undefined,
+  onEvent: EventCallback | undefined,
+  cache: HttpCache | undefined,
+  redact?: (text: string) => string
+): Promise<EgressFetchResult & { cached?: boolean }> {
+  if (
+    !cache ||
+    request.method !== "GET" ||
+    (egressPolicy && checkEgressRequest(egressPolicy, new URL(url), request.method))
+  ) {
+    return sendRequest(toolName, url, request, egressPolicy, onEvent, redact);
+  }
+  return cache.fetch(url, request.headers ?? {}, (headers) =>
+    sendRequest(toolName, url, { ...request, headers }, egressPolicy, onEvent, redact)
+  );
+}
+
 // ============================================================================
 // HTML to Markdown Utilities
 // ============================================================================
@@ -98,7 +198,7 @@ function htmlToMarkdown(html: string, url: string): string {
 /**
  * Tool description for web_search.
  */
-const WEB_SEARCH_TOOL_DESCRIPTION = `Search the web using Tavily API for current information, news, and documentation.
+const WEB_SEARCH_TOOL_DESCRIPTION = `Search the web for current information, news, and documentation.
 
 Returns an array of search results with titles, URLs, relevant excerpts, and relevance scores.
 
@@ -108,8 +208,33 @@ IMPORTANT AGENT INSTRUCTIONS:
 - Cite sources by including URLs in your response
 - If search fails or returns no results, explain this clearly to the user`;
 
+/**
+ * Format search results for the model.
+ */
+function formatSearchResults(query: string, results: WebSearchResult[]): string {
+  const formattedResults = results
+    .map(
+      (r, i) =>
+        `## Result ${i + 1}: ${r.title}\n` +
+        `URL: ${r.url}\n` +
+        `Score: ${r.score?.toFixed(2) || "N/A"}\n` +
+        (r.publishedDate ? `Published: ${r.publishedDate}\n` : "") +
+        `Content: ${r.content}\n` +
+        (r.rawContent ? `Raw Content:\n${r.rawContent}\n` : "")
+    )
+    .join("\n---\n\n");
+
+  return `Found ${results.length} results for query: "${query}"\n\n${formattedResults}`;
+}
+
 /**
  * Create the web_search tool.
+ *
+ * Searches with `provider`, or with Tavily when only `tavilyApiKey` is given.
+ * Without either, the provider is picked from environment variables
+ * (see createWebSearchProviderFromEnv).
+ *
+ * @throws If no provider is given and none can be picked from the environment
  */
 export function createWebSearchTool(
   state: DeepAgentState,
@@ -117,10 +242,29 @@ export function createWebSearchTool(
     backend?: BackendProtocol | BackendFactory;
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
-    tavilyApiKey: string;
+    provider?: WebSearchProvider;
+    /** Tavily API key, shorthand for `provider: new TavilySearchProvider({ apiKey })` */
+    tavilyApiKey?: string;
+    /** Default timeout for a search in seconds (default: 30) */
+    defaultTimeout?: number;
+    /** Cache for search results */
+    cache?: HttpCache;
   }
 ) {
-  const { backend, onEvent, toolResultEvictionLimit, tavilyApiKey } = options;
+  const {
+    backend,
+    onEvent,
+    toolResultEvictionLimit,
+    tavilyApiKey,
+    defaultTimeout = DEFAULT_TIMEOUT_SECONDS,
+    cache,
+  } = options;
+  const provider =
+    options.provider ??
+    (tavilyApiKey ? new TavilySearchProvider({ apiKey: tavilyApiKey }) : createWebSearchProviderFromEnv());
+  if (!provider) {
+    throw new Error(WEB_SEARCH_PROVIDER_NOT_CONFIGURED);
+  }
 
   return tool({
     description: WEB_SEARCH_TOOL_DESCRIPTION,
@@ -141,40 +285,31 @@ export function createWebSearchTool(
         .default(false)
         .describe("Include full page content (warning: uses more tokens)"),
     }),
-    execute: async ({ query, max_results, topic, include_raw_content }, { toolCallId }) => {
+    execute: async ({ query, max_results, topic, include_raw_content }, { toolCallId, abortSignal }) => {
       // Emit start event
       if (onEvent) {
         onEvent(createWebSearchStartEvent(query));
       }
 
       try {
-        // Initialize Tavily client
-        const tvly = tavily({ apiKey: tavilyApiKey });
-
-        // Perform search
-        const response = await tvly.search(query, {
+        // Providers that ignore the signal are still cut off by raceAbort
+        const signal = createRequestSignal(defaultTimeout, abortSignal);
+        const searchOptions = {
           maxResults: max_results,
           topic,
-          includeRawContent: include_raw_content ? "text" : false,
-        });
-
-        // Format results
-        const results = response.results || [];
-        const formattedResults = results
-          .map(
-            (r: any, i: number) =>
-              `## Result ${i + 1}: ${r.title}\n` +
-              `URL: ${r.url}\n` +
-              `Score: ${r.score?.toFixed(2) || "N/A"}\n` +
-              `Content: ${r.content}\n`
-          )
-          .join("\n---\n\n");
-
-        const output = `Found ${results.length} results for query: "${query}"\n\n${formattedResults}`;
+          includeRawContent: include_raw_content,
+          signal,
+        };
+        const search = () => raceAbort(provider.search(query, searchOptions), signal);
+        const { results, cached } = cache
+          ? await cache.search(provider, query, searchOptions, search)
+          : { results: await search(), cached: false };
+
+        const output = formatSearchResults(query, results);
 
         // Emit finish event
         if (onEvent) {
-          onEvent(createWebSearchFinishEvent(query, results.length));
+          onEvent(createWebSearchFinishEvent(query, results.length, cached));
         }
 
         // Evict if needed
@@ -195,7 +330,14 @@ export function createWebSearchTool(
         return output;
       } catch (error: unknown) {
         const err = error as Error;
-        const errorMessage = WEB_SEARCH_ERROR(err.message);
+        let errorMessage: string;
+        if (abortSignal?.aborted) {
+          errorMessage = REQUEST_ABORTED;
+        } else if (err.name === "TimeoutError" || err.name === "AbortError") {
+          errorMessage = WEB_SEARCH_ERROR(REQUEST_TIMEOUT(defaultTimeout));
+        } else {
+          errorMessage = WEB_SEARCH_ERROR(err.message);
+        }
 
         // Emit finish event with 0 results (error case)
         if (onEvent) {
@@ -217,8 +359,19 @@ Supports GET, POST, PUT, DELETE, PATCH methods with custom headers, query parame
 
 Returns structured response with status code, headers, and parsed content (JSON or text).`;
 
+/**
+ * Policy for credentialed requests without an egress policy: unrestricted,
+ * but sent through the egress client so secret headers are dropped on
+ * cross-origin redirects.
+ */
+const CREDENTIALED_REQUEST_POLICY: EgressPolicy = { allowPrivateNetwork: true };
+
 /**
  * Create the http_request tool.
+ *
+ * With `credentials`, the model can pass a profile name instead of secrets.
+ * The profile's headers and query parameters are added when the request is
+ * made, and their values are redacted from the tool result and events.
  */
 export function createHttpRequestTool(
   state: DeepAgentState,
@@ -227,55 +380,121 @@ export function createHttpRequestTool(
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
     defaultTimeout: number;
+    /** Policy restricting which requests the tool may make (default: unrestricted) */
+    egressPolicy?: EgressPolicy;
+    /** Named credential profiles the model can reference */
+    credentials?: HttpCredentialProfiles;
+    /** Cache for GET responses (not used for requests with credentials) */
+    cache?: HttpCache;
   }
 ) {
-  const { backend, onEvent, toolResultEvictionLimit, defaultTimeout } = options;
+  const {
+    backend,
+    onEvent,
+    toolResultEvictionLimit,
+    defaultTimeout,
+    egressPolicy,
+    credentials = {},
+    cache,
+  } = options;
+  const profileNames = Object.keys(credentials);
+  const redact = profileNames.length > 0 ? createSecretRedactor(credentials) : (text: string) => text;
+
+  const baseSchema = z.object({
+    url: z.string().url().describe("Target URL (must be valid HTTP/HTTPS URL)"),
+    method: z
+      .enum(["GET", "POST", "PUT", "DELETE", "PATCH"])
+      .default("GET")
+      .describe("HTTP method"),
+    headers: z
+      .record(z.string())
+      .optional()
+      .describe("HTTP headers as key-value pairs"),
+    body: z
+      .union([z.string(), z.record(z.any())])
+      .optional()
+      .describe("Request body (string or JSON object)"),
+    params: z
+      .record(z.string())
+      .optional()
+      .describe("URL query parameters as key-value pairs"),
+    timeout: z
+      .number()
+      .default(defaultTimeout)
+      .describe("Request timeout in seconds"),
+  });
+  const credentialSchema = baseSchema.extend({
+    url: z
+      .string()
+      .describe("Target URL, or with credentials a path relative to the profile's base URL"),
+    credentials: z
+      .enum(profileNames as [string, ...string[]])
+      .optional()
+      .describe("Name of a credential profile to authenticate the request with"),
+  });
+
+  const description =
+    profileNames.length > 0
+      ? `${HTTP_REQUEST_TOOL_DESCRIPTION}\n\n` +
+        `Credential profiles (pass the name as \`credentials\`; the secrets are added for you, never put them in headers):\n` +
+        describeCredentialProfiles(credentials)
+      : HTTP_REQUEST_TOOL_DESCRIPTION;
 
   return tool({
-    description: HTTP_REQUEST_TOOL_DESCRIPTION,
-    inputSchema: z.object({
-      url: z.string().url().describe("Target URL (must be valid HTTP/HTTPS URL)"),
-      method: z
-        .enum(["GET", "POST", "PUT", "DELETE", "PATCH"])
-        .default("GET")
-        .describe("HTTP method"),
-      headers: z
-        .record(z.string())
-        .optional()
-        .describe("HTTP headers as key-value pairs"),
-      body: z
-        .union([z.string(), z.record(z.any())])
-        .optional()
-        .describe("Request body (string or JSON object)"),
-      params: z
-        .record(z.string())
-        .optional()
-        .describe("URL query parameters as key-value pairs"),
-      timeout: z
-        .number()
-        .default(defaultTimeout)
-        .describe("Request timeout in seconds"),
-    }),
-    execute: async ({ url, method, headers, body, params, timeout }, { toolCallId }) => {
+    description,
+    inputSchema: (profileNames.length > 0 ? credentialSchema : baseSchema) as typeof credentialSchema,
+    execute: async (
+      { url, method, headers, body, params, timeout, credentials: profile },
+      { toolCallId, abortSignal }
+    ) => {
+      let requestUrl: URL | undefined;
+      let requestHeaders: Record<string, string> = { ...headers };
+      let sensitiveHeaders: string[] | undefined;
+
+      try {
+        if (profile) {
+          const applied = applyCredentialProfile(credentials, profile, { url, headers, params });
+          if (typeof applied === "string") {
+            if (onEvent) {
+              onEvent(createHttpRequestStartEvent(redact(url), method, profile));
+              onEvent(createHttpRequestFinishEvent(redact(url), 0));
+            }
+            return applied;
+          }
+          requestUrl = applied.url;
+          requestHeaders = applied.headers;
+          sensitiveHeaders = applied.secretHeaders;
+        } else {
+          // Build URL with query params
+          requestUrl = new URL(url);
+          if (params) {
+            Object.entries(params).forEach(([key, value]) => {
+              requestUrl!.searchParams.append(key, value);
+            });
+          }
+        }
+      } catch (error: unknown) {
+        if (onEvent) {
+          onEvent(createHttpRequestStartEvent(redact(url), method, profile));
+          onEvent(createHttpRequestFinishEvent(redact(url), 0));
+        }
+        return redact(`HTTP request error: ${(error as Error).message}`);
+      }
+
+      const displayUrl = redact(requestUrl.toString());
+
       // Emit start event
       if (onEvent) {
-        onEvent(createHttpRequestStartEvent(url, method));
+        onEvent(createHttpRequestStartEvent(displayUrl, method, profile));
       }
 
       try {
-        // Build URL with query params
-        const urlObj = new URL(url);
-        if (params) {
-          Object.entries(params).forEach(([key, value]) => {
-            urlObj.searchParams.append(key, value);
-          });
-        }
-
         // Build request options
-        const requestOptions: RequestInit = {
+        const requestOptions: EgressRequest = {
           method,
-          headers: headers || {},
-          signal: AbortSignal.timeout(timeout * 1000),
+          headers: requestHeaders,
+          signal: createRequestSignal(timeout, abortSignal),
+          sensitiveHeaders,
         };
 
         // Add body if provided
@@ -284,13 +503,26 @@ export function createHttpRequestTool(
             requestOptions.body = body;
           } else {
             requestOptions.body = JSON.stringify(body);
-            (requestOptions.headers as Record<string, string>)["Content-Type"] =
-              "application/json";
+            requestOptions.headers!["Content-Type"] = "application/json";
           }
         }
 
         // Execute request
-        const response = await fetch(urlObj.toString(), requestOptions);
+        const { response, blocked, cached } = await sendCachedRequest(
+          "http_request",
+          requestUrl.toString(),
+          requestOptions,
+          egressPolicy ?? (profile ? CREDENTIALED_REQUEST_POLICY : undefined),
+          onEvent,
+          profile ? undefined : cache,
+          redact
+        );
+        if (blocked) {
+          if (onEvent) {
+            onEvent(createHttpRequestFinishEvent(blocked.url, 0));
+          }
+          return blocked.message;
+        }
 
         // Parse response
         const contentType = response.headers.get("content-type") || "";
@@ -307,15 +539,16 @@ export function createHttpRequestTool(
         }
 
         // Format response
-        const formattedOutput =
-          `HTTP ${method} ${url}\n` +
-          `Status: ${response.status}\n` +
-          `Success: ${response.ok}\n` +
-          `Content:\n${typeof content === "string" ? content : JSON.stringify(content, null, 2)}`;
+        const formattedOutput = redact(
+          `HTTP ${method} ${profile ? displayUrl : url}\n` +
+            `Status: ${response.status}\n` +
+            `Success: ${response.ok}\n` +
+            `Content:\n${typeof content === "string" ? content : JSON.stringify(content, null, 2)}`
+        );
 
         // Emit finish event
         if (onEvent) {
-          onEvent(createHttpRequestFinishEvent(response.url, response.status));
+          onEvent(createHttpRequestFinishEvent(redact(response.url), response.status, cached));
         }
 
         // Evict if needed
@@ -338,15 +571,17 @@ export function createHttpRequestTool(
         const err = error as Error;
         let errorMessage: string;
 
-        if (err.name === "TimeoutError" || err.name === "AbortError") {
+        if (abortSignal?.aborted) {
+          errorMessage = REQUEST_ABORTED;
+        } else if (err.name === "TimeoutError" || err.name === "AbortError") {
           errorMessage = REQUEST_TIMEOUT(timeout);
         } else {
-          errorMessage = `HTTP request error: ${err.message}`;
+          errorMessage = redact(`HTTP request error: ${err.message}`);
         }
 
         // Emit finish event with error status
         if (onEvent) {
-          onEvent(createHttpRequestFinishEvent(url, 0));
+          onEvent(createHttpRequestFinishEvent(displayUrl, 0));
         }
 
         return errorMessage;
@@ -364,6 +599,8 @@ Uses Mozilla Readability to extract main article content and Turndown to convert
 
 Returns the page content as formatted Markdown, suitable for analysis and summarization.
 
+PDF, Word (DOCX), Excel (XLSX), CSV and JSON documents are converted to text and returned one page at a time; pass \`page\` to read later pages.
+
 IMPORTANT AGENT INSTRUCTIONS:
 - Use this tool to read documentation, articles, and web pages
 - The content is already cleaned and formatted as Markdown
@@ -379,9 +616,13 @@ export function createFetchUrlTool(
     onEvent?: EventCallback;
     toolResultEvictionLimit?: number;
     defaultTimeout: number;
+    /** Policy restricting which requests the tool may make (default: unrestricted) */
+    egressPolicy?: EgressPolicy;
+    /** Cache for fetched pages */
+    cache?: HttpCache;
   }
 ) {
-  const { backend, onEvent, toolResultEvictionLimit, defaultTimeout } = options;
+  const { backend, onEvent, toolResultEvictionLimit, defaultTimeout, egressPolicy, cache } = options;
 
   return tool({
     description: FETCH_URL_TOOL_DESCRIPTION,
@@ -397,8 +638,14 @@ export function createFetchUrlTool(
         .describe(
           "Extract main article content using Readability (disable for non-article pages)"
         ),
+      page: z
+        .number()
+        .int()
+        .min(1)
+        .default(1)
+        .describe("Page to read for PDF, Word, Excel, CSV and JSON documents (starting at 1)"),
     }),
-    execute: async ({ url, timeout, extract_article }, { toolCallId }) => {
+    execute: async ({ url, timeout, extract_article, page }, { toolCallId, abortSignal }) => {
       // Emit start event
       if (onEvent) {
         onEvent(createFetchUrlStartEvent(url));
@@ -406,12 +653,26 @@ export function createFetchUrlTool(
 
       try {
         // Fetch HTML
-        const response = await fetch(url, {
-          signal: AbortSignal.timeout(timeout * 1000),
-          headers: {
-            "User-Agent": "Mozilla/5.0 (compatible; DeepAgents/1.0)",
+        const { response, blocked, cached } = await sendCachedRequest(
+          "fetch_url",
+          url,
+          {
+            method: "GET",
+            signal: createRequestSignal(timeout, abortSignal),
+            headers: {
+              "User-Agent": "Mozilla/5.0 (compatible; DeepAgents/1.0)",
+            },
           },
-        });
+          egressPolicy,
+          onEvent,
+          cache
+        );
+        if (blocked) {
+          if (onEvent) {
+            onEvent(createFetchUrlFinishEvent(blocked.url, false));
+          }
+          return blocked.message;
+        }
 
         if (!response.ok) {
           const errorMsg = `HTTP error: ${response.status} ${response.statusText}`;
@@ -423,39 +684,55 @@ export function createFetchUrlTool(
           return errorMsg;
         }
 
-        const html = await response.text();
+        let markdown: string;
+        const format = detectDocumentFormat(response.headers.get("content-type") ?? undefined, url);
 
-        // Parse DOM
-        const dom = new JSDOM(html, { url });
+        if (format) {
+          // Documents are extracted and returned a page at a time
+          const bytes = new Uint8Array(await response.arrayBuffer());
+          try {
+            markdown = formatDocumentPage(extractDocument(bytes, format), url, page ?? 1);
+          } catch (extractionError) {
+            if (onEvent) {
+              onEvent(createFetchUrlFinishEvent(response.url, false, cached));
+            }
+            return DOCUMENT_EXTRACTION_FAILED(url, (extractionError as Error).message);
+          }
+        } else {
+          const html = await response.text();
 
-        let contentToConvert = html;
+          // Parse DOM
+          const dom = new JSDOM(html, { url });
 
-        // Extract article content if requested
-        if (extract_article) {
-          try {
-            const reader = new Readability(dom.window.document);
-            const article = reader.parse();
+          let contentToConvert = html;
 
-            if (article && article.content) {
-              contentToConvert = article.content;
+          // Extract article content if requested
+          if (extract_article) {
+            try {
+              const reader = new Readability(dom.window.document);
+              const article = reader.parse();
+
+              if (article && article.content) {
+                contentToConvert = article.content;
+              }
+            } catch (readabilityError) {
+              // If Readability fails, fall back to full HTML
+              console.warn("Readability extraction failed, using full HTML");
             }
-          } catch (readabilityError) {
-            // If Readability fails, fall back to full HTML
-            console.warn("Readability extraction failed, using full HTML");
           }
-        }
 
-        // Convert to Markdown
-        const turndownService = new TurndownService({
-          headingStyle: "atx",
-          codeBlockStyle: "fenced",
-        });
+          // Convert to Markdown
+          const turndownService = new TurndownService({
+            headingStyle: "atx",
+            codeBlockStyle: "fenced",
+          });
 
-        const markdown = turndownService.turndown(contentToConvert);
+          markdown = turndownService.turndown(contentToConvert);
+        }
 
         // Emit finish event
         if (onEvent) {
-          onEvent(createFetchUrlFinishEvent(response.url, true));
+          onEvent(createFetchUrlFinishEvent(response.url, true, cached));
         }
 
         // Evict large content
@@ -479,7 +756,9 @@ export function createFetchUrlTool(
         const err = error as Error;
         let errorMessage: string;
 
-        if (err.name === "TimeoutError" || err.name === "AbortError") {
+        if (abortSignal?.aborted) {
+          errorMessage = REQUEST_ABORTED;
+        } else if (err.name === "TimeoutError" || err.name === "AbortError") {
           errorMessage = REQUEST_TIMEOUT(timeout);
         } else {
           errorMessage = `Error fetching URL: ${err.message}`;
@@ -510,15 +789,27 @@ export interface CreateWebToolsOptions {
   onEvent?: EventCallback;
   /** Token limit before evicting large tool results (default: disabled) */
   toolResultEvictionLimit?: number;
-  /** Tavily API key (defaults to process.env.TAVILY_API_KEY) */
+  /**
+   * Provider for web_search. Defaults to one picked from environment variables
+   * (see createWebSearchProviderFromEnv). Pass `false` to leave out web_search.
+   */
+  webSearchProvider?: WebSearchProvider | false;
+  /** Tavily API key, shorthand for `webSearchProvider: new TavilySearchProvider({ apiKey })` */
   tavilyApiKey?: string;
   /** Default timeout for HTTP requests in seconds (default: 30) */
   defaultTimeout?: number;
+  /** Policy restricting which requests http_request and fetch_url may make (default: unrestricted) */
+  egressPolicy?: EgressPolicy;
+  /** Named credential profiles http_request can authenticate with */
+  httpCredentials?: HttpCredentialProfiles;
+  /** Cache for fetched pages, GET requests and search results (default: no caching) */
+  httpCache?: HttpCache;
 }
 
 /**
  * Create all web tools (web_search, http_request, fetch_url).
- * Tools are only created if TAVILY_API_KEY is available.
+ * http_request and fetch_url are always created; web_search only when a
+ * search provider is given or configured in the environment.
  */
 export function createWebTools(
   state: DeepAgentState,
@@ -528,23 +819,48 @@ export function createWebTools(
     backend,
     onEvent,
     toolResultEvictionLimit,
-    tavilyApiKey = process.env.TAVILY_API_KEY,
+    webSearchProvider,
+    tavilyApiKey,
     defaultTimeout = DEFAULT_TIMEOUT_SECONDS,
+    egressPolicy,
+    httpCredentials,
+    httpCache,
   } = options || {};
 
-  // Return empty object if no Tavily API key
-  if (!tavilyApiKey) {
-    console.warn(
-      "Tavily API key not found. Web tools (web_search, fetch_url, http_request) will not be available. " +
-      "Set TAVILY_API_KEY environment variable to enable web tools."
-    );
-    return {};
-  }
+  const provider =
+    webSearchProvider === false
+      ? undefined
+      : webSearchProvider ??
+        (tavilyApiKey ? new TavilySearchProvider({ apiKey: tavilyApiKey }) : createWebSearchProviderFromEnv());
 
   return {
-    web_search: createWebSearchTool(state, { backend, onEvent, toolResultEvictionLimit, tavilyApiKey }),
-    http_request: createHttpRequestTool(state, { backend, onEvent, toolResultEvictionLimit, defaultTimeout }),
-    fetch_url: createFetchUrlTool(state, { backend, onEvent, toolResultEvictionLimit, defaultTimeout }),
+    ...(provider && {
+      web_search: createWebSearchTool(state, {
+        backend,
+        onEvent,
+        toolResultEvictionLimit,
+        provider,
+        defaultTimeout,
+        cache: httpCache,
+      }),
+    }),
+    http_request: createHttpRequestTool(state, {
+      backend,
+      onEvent,
+      toolResultEvictionLimit,
+      defaultTimeout,
+      egressPolicy,
+      credentials: httpCredentials,
+      cache: httpCache,
+    }),
+    fetch_url: createFetchUrlTool(state, {
+      backend,
+      onEvent,
+      toolResultEvictionLimit,
+      defaultTimeout,
+      egressPolicy,
+      cache: httpCache,
+    }),
   };
 }
 
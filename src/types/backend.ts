@@ -8,8 +8,15 @@ import type { TodoItem } from "./core";
  * File data structure used by backends.
  */
 export interface FileData {
-  /** Lines of text content */
+  /** Lines of text content (empty for binary files) */
   content: string[];
+  /**
+   * Base64-encoded bytes of a binary file.
+   * Kept as a string so FileData stays JSON-safe in state, stores and checkpoints.
+   */
+  data?: string;
+  /** MIME type of a binary file (e.g. `image/png`) */
+  mimeType?: string;
   /** ISO format timestamp of creation */
   created_at: string;
   /** ISO format timestamp of last modification */
@@ -52,6 +59,8 @@ export interface WriteResult {
   error?: string;
   /** File path of written file, undefined on failure */
   path?: string;
+  /** Standardized error code, for failures that have one */
+  code?: FileOperationError;
 }
 
 /**
@@ -66,6 +75,34 @@ export interface EditResult {
   path?: string;
   /** Number of replacements made, undefined on failure */
   occurrences?: number;
+  /** Standardized error code, for failures that have one */
+  code?: FileOperationError;
+}
+
+/**
+ * Result from backend delete, move, copy and mkdir operations.
+ */
+export interface FileOperationResult {
+  /** Whether the operation succeeded */
+  success: boolean;
+  /** Error message on failure, undefined on success */
+  error?: string;
+  /** Resulting path (the destination for move/copy), undefined on failure */
+  path?: string;
+  /** Number of files affected, when the backend tracks it */
+  count?: number;
+  /** Standardized error code, for failures that have one */
+  code?: FileOperationError;
+}
+
+/**
+ * A change made to a file outside the agent, after the backend last read or wrote it.
+ */
+export interface ExternalFileChange {
+  /** File path as the agent used it */
+  path: string;
+  /** Whether the file was modified or deleted */
+  change: "modified" | "deleted";
 }
 
 /**
@@ -76,6 +113,10 @@ export interface EditResult {
  * - "permission_denied": Access denied
  * - "is_directory": Attempted to download a directory as a file
  * - "invalid_path": Path syntax is malformed
+ * - "file_changed_externally": The file was changed outside the agent since it was last read
+ * - "path_not_allowed": The path policy hides the path
+ * - "path_read_only": The path policy allows reading the path but not changing it
+ * - "file_too_large": The file exceeds the path policy's size cap
  *
  * @example
  * ```typescript
@@ -87,7 +128,11 @@ export type FileOperationError =
   | "file_not_found"
   | "permission_denied"
   | "is_directory"
-  | "invalid_path";
+  | "invalid_path"
+  | "file_changed_externally"
+  | "path_not_allowed"
+  | "path_read_only"
+  | "file_too_large";
 
 /**
  * Result of a single file download operation.
@@ -110,6 +155,8 @@ export interface FileDownloadResponse {
   path: string;
   /** File contents as bytes on success, null on failure */
   content: Uint8Array | null;
+  /** MIME type guessed from the file name, on success */
+  mimeType?: string;
   /** Standardized error code on failure, null on success */
   error: FileOperationError | null;
 }
@@ -199,6 +246,63 @@ export interface BackendProtocol {
     newString: string,
     replaceAll?: boolean
   ): EditResult | Promise<EditResult>;
+
+  /**
+   * Upload files as raw bytes, creating or overwriting them.
+   * Binary content is stored as-is; valid UTF-8 text is stored as text.
+   *
+   * Optional for custom backends; all built-in backends implement it.
+   */
+  uploadFiles?(files: Array<[string, Uint8Array]>): Promise<FileUploadResponse[]>;
+
+  /**
+   * Download files as raw bytes.
+   *
+   * Optional for custom backends; all built-in backends implement it.
+   */
+  downloadFiles?(paths: string[]): Promise<FileDownloadResponse[]>;
+
+  /**
+   * Delete a file, or a directory when `recursive` is true.
+   *
+   * Optional for custom backends; all built-in backends implement it.
+   */
+  delete?(
+    path: string,
+    recursive?: boolean
+  ): FileOperationResult | Promise<FileOperationResult>;
+
+  /**
+   * Move or rename a file or directory. Fails if the destination exists
+   * unless `overwrite` is true.
+   *
+   * Optional for custom backends; all built-in backends implement it.
+   */
+  move?(
+    from: string,
+    to: string,
+    overwrite?: boolean
+  ): FileOperationResult | Promise<FileOperationResult>;
+
+  /**
+   * Copy a file or directory. Fails if the destination exists
+   * unless `overwrite` is true.
+   *
+   * Optional for custom backends; all built-in backends implement it.
+   */
+  copy?(
+    from: string,
+    to: string,
+    overwrite?: boolean
+  ): FileOperationResult | Promise<FileOperationResult>;
+
+  /**
+   * Create a directory and any missing parents.
+   * Succeeds if the directory already exists.
+   *
+   * Optional for custom backends; all built-in backends implement it.
+   */
+  mkdir?(path: string): FileOperationResult | Promise<FileOperationResult>;
 }
 
 /**
@@ -218,6 +322,23 @@ export interface ExecuteResponse {
   truncated: boolean;
 }
 
+/**
+ * Options for command execution in a sandbox.
+ */
+export interface ExecuteOptions {
+  /**
+   * Signal to cancel the command. Sandboxes should stop the running process
+   * and resolve with whatever output was captured so far.
+   */
+  abortSignal?: AbortSignal;
+
+  /**
+   * Called with each chunk of output as the command produces it.
+   * Sandboxes that cannot stream output ignore it.
+   */
+  onOutput?: (chunk: string, stream: "stdout" | "stderr") => void;
+}
+
 /**
  * Protocol for sandbox backends with command execution capability.
  */
@@ -225,7 +346,7 @@ export interface SandboxBackendProtocol extends BackendProtocol {
   /**
    * Execute a shell command in the sandbox.
    */
-  execute(command: string): Promise<ExecuteResponse>;
+  execute(command: string, options?: ExecuteOptions): Promise<ExecuteResponse>;
 
   /**
    * Unique identifier for this sandbox instance.
@@ -283,6 +404,95 @@ export interface SandboxBackendProtocol extends BackendProtocol {
   downloadFiles(paths: string[]): Promise<FileDownloadResponse[]>;
 }
 
+/**
+ * Files captured from a sandbox directory by `BaseSandbox.snapshot()`.
+ */
+export interface SandboxSnapshot {
+  /** Directory the snapshot was taken from */
+  path: string;
+  /** Tar archive of the files, with names relative to `path` */
+  archive: Uint8Array;
+  /** Number of files in the archive */
+  fileCount: number;
+  /** ISO 8601 timestamp when the snapshot was taken */
+  createdAt: string;
+}
+
+/**
+ * State of a command running in the background of a sandbox.
+ */
+export interface BackgroundProcessInfo {
+  /** Handle for the other process methods */
+  id: string;
+  /** The command that was started */
+  command: string;
+  /** Whether the process is still running */
+  running: boolean;
+  /** Exit code once the process has exited (null while running or when killed by a signal) */
+  exitCode: number | null;
+}
+
+/**
+ * Output read from a background process.
+ */
+export interface BackgroundProcessOutput extends BackgroundProcessInfo {
+  /** Combined stdout and stderr produced since the previous read */
+  output: string;
+  /** Whether output was dropped because the process produced more than the buffer holds */
+  truncated: boolean;
+}
+
+/**
+ * Optional protocol for sandboxes that can run long-lived commands in the
+ * background, such as dev servers and test watchers.
+ *
+ * Methods throw if the process id is unknown.
+ */
+export interface BackgroundProcessProtocol {
+  /**
+   * Start a command in the background and return immediately.
+   */
+  startProcess(command: string): Promise<BackgroundProcessInfo>;
+
+  /**
+   * Take the output produced since the previous read.
+   *
+   * @param options.waitMs - If there is no new output yet, wait up to this long
+   *   for some (or for the process to exit)
+   */
+  readProcessOutput(id: string, options?: { waitMs?: number }): Promise<BackgroundProcessOutput>;
+
+  /**
+   * Write to the process's stdin.
+   */
+  sendProcessInput(id: string, input: string): Promise<BackgroundProcessInfo>;
+
+  /**
+   * Stop the process and any processes it started.
+   */
+  killProcess(id: string): Promise<BackgroundProcessInfo>;
+
+  /**
+   * List processes started in this sandbox, running or exited.
+   */
+  listProcesses(): Promise<BackgroundProcessInfo[]>;
+}
+
+/**
+ * Type guard to check if a sandbox supports background processes.
+ */
+export function supportsBackgroundProcesses(
+  backend: BackendProtocol
+): backend is SandboxBackendProtocol & BackgroundProcessProtocol {
+  return (
+    isSandboxBackend(backend) &&
+    typeof (backend as Partial<BackgroundProcessProtocol>).startProcess === "function" &&
+    typeof (backend as Partial<BackgroundProcessProtocol>).readProcessOutput === "function" &&
+    typeof (backend as Partial<BackgroundProcessProtocol>).sendProcessInput === "function" &&
+    typeof (backend as Partial<BackgroundProcessProtocol>).killProcess === "function"
+  );
+}
+
 /**
  * Type guard to check if a backend is a SandboxBackendProtocol.
  */
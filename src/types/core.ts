@@ -12,7 +12,11 @@ import type {
 import type { z } from "zod";
 import type { BaseCheckpointSaver } from "../checkpointer/types";
 import type { BackendProtocol, BackendFactory } from "./backend";
-import type { SubAgent, InterruptOnConfig } from "./subagent";
+import type { SubAgent, InterruptOnConfig, SubagentBatchOptions } from "./subagent";
+import type { WebSearchProvider } from "../tools/web-search-providers";
+import type { EgressPolicy } from "../tools/egress";
+import type { HttpCredentialProfiles } from "../tools/credentials";
+import type { HttpCache } from "../tools/http-cache";
 
 // Re-export LanguageModel for convenience
 export type { LanguageModel };
@@ -172,6 +176,79 @@ export interface SummarizationConfig {
   keepMessages: number;
 }
 
+/**
+ * Token usage of one or more model calls.
+ */
+export interface TokenUsage {
+  /** Input (prompt) tokens, including cached tokens */
+  inputTokens: number;
+  /** Output (completion) tokens, including reasoning tokens */
+  outputTokens: number;
+  /** Total tokens as reported by the provider */
+  totalTokens: number;
+  /** Input tokens read from the provider's prompt cache */
+  cachedInputTokens: number;
+  /** Input tokens written to the provider's prompt cache */
+  cacheWriteTokens: number;
+  /** Output tokens spent on reasoning */
+  reasoningTokens: number;
+  /** Cost in US dollars, when a price table covers the model(s) used */
+  cost?: number;
+}
+
+/**
+ * Token usage broken down by where the model calls came from.
+ */
+export interface UsageSummary {
+  /** Sum of all sources */
+  total: TokenUsage;
+  /** Main agent steps */
+  agent: TokenUsage;
+  /** Subagents started by the task and task_batch tools */
+  subagents: TokenUsage;
+  /** Conversation summarization calls */
+  summarization: TokenUsage;
+}
+
+/**
+ * Prices for one model, in US dollars per million tokens.
+ */
+export interface ModelPricing {
+  /** Price of uncached input tokens */
+  inputPerMillion: number;
+  /** Price of output tokens (reasoning tokens are billed as output) */
+  outputPerMillion: number;
+  /** Price of input tokens read from cache (default: inputPerMillion) */
+  cachedInputPerMillion?: number;
+  /** Price of input tokens written to cache (default: inputPerMillion) */
+  cacheWritePerMillion?: number;
+}
+
+/**
+ * Price table keyed by model ID (e.g. `claude-sonnet-4-20250514`, `gpt-4o`).
+ */
+export type PriceTable = Record<string, ModelPricing>;
+
+/**
+ * Budget limits for a run. When one is reached the agent gets one final
+ * step without tools to wrap up, and a `budget-exceeded` event is emitted.
+ */
+export interface BudgetLimits {
+  /** Maximum total tokens, including subagents and summarization */
+  maxTotalTokens?: number;
+  /** Maximum cost in US dollars; every model it applies to needs a `pricing` entry */
+  maxCost?: number;
+  /** Maximum wall-clock duration in seconds, checked between steps */
+  maxDurationSeconds?: number;
+  /** Maximum number of calls per tool name; further calls are refused */
+  maxToolCalls?: Record<string, number>;
+}
+
+/**
+ * Which budget limit was reached.
+ */
+export type BudgetLimitType = "tokens" | "cost" | "duration" | "tool-calls";
+
 /**
  * Summarization configuration options.
  */
@@ -200,6 +277,8 @@ export interface CreateDeepAgentParams {
   systemPrompt?: string;
   /** Optional list of subagent specifications for task delegation. */
   subagents?: SubAgent[];
+  /** Optional concurrency and timeout settings for the `task_batch` tool. */
+  subagentBatch?: SubagentBatchOptions;
   /** Optional backend for filesystem operations. */
   backend?: BackendProtocol | BackendFactory;
   /** Optional maximum number of steps for the agent loop (default: 100). */
@@ -208,14 +287,58 @@ export interface CreateDeepAgentParams {
   includeGeneralPurposeAgent?: boolean;
   /** Optional token limit before evicting large tool results to filesystem. */
   toolResultEvictionLimit?: number;
+  /**
+   * Optional search provider for the `web_search` tool (e.g. `new BraveSearchProvider({ apiKey })`).
+   * Defaults to one picked from TAVILY_API_KEY, BRAVE_SEARCH_API_KEY, SERPAPI_API_KEY,
+   * EXA_API_KEY or SEARXNG_URL. Pass `false` to leave out `web_search`.
+   * `http_request` and `fetch_url` are available either way.
+   */
+  webSearchProvider?: WebSearchProvider | false;
+  /**
+   * Optional network egress policy for `http_request` and `fetch_url`: allowed and
+   * denied domains, private network access, HTTP methods, response size and redirects.
+   * Applies to subagents too. Without it, requests are unrestricted.
+   */
+  egressPolicy?: EgressPolicy;
+  /**
+   * Optional named credential profiles for `http_request`. The model passes a
+   * profile name; the profile's secret headers and query parameters are added
+   * when the request is made and redacted from tool results and events.
+   */
+  httpCredentials?: HttpCredentialProfiles;
+  /**
+   * Optional cache for `fetch_url`, `web_search` and GET `http_request` results,
+   * e.g. `new HttpCache({ store: new SqliteStore({ path: './cache.db' }) })`.
+   * Shared with subagents. Without it, nothing is cached.
+   */
+  httpCache?: HttpCache;
   /** Optional flag to enable prompt caching (Anthropic only). */
   enablePromptCaching?: boolean;
   /** Optional summarization configuration. */
   summarization?: SummarizationConfig;
+  /**
+   * Optional price table used to add dollar cost to reported token usage.
+   * Models missing from the table contribute tokens but no cost.
+   */
+  pricing?: PriceTable;
+  /**
+   * Optional budget limits for each run. Subagents get the same limits
+   * for each of their runs unless they set their own `budget`.
+   */
+  budget?: BudgetLimits;
   /** Configuration for human-in-the-loop tool approval. */
   interruptOn?: InterruptOnConfig;
   /** Optional checkpointer for persisting agent state. */
   checkpointer?: BaseCheckpointSaver;
+  /**
+   * Save a checkpoint after every completed step, not only when the run finishes.
+   * A run that crashes, times out or hits a provider error can then be resumed
+   * from its last completed step by calling `streamWithEvents` with the same `threadId`.
+   * Only applies when a `checkpointer` and `threadId` are used.
+   *
+   * @default true
+   */
+  checkpointEveryStep?: boolean;
   /** @deprecated Use `agentId` instead. */
   skillsDir?: string;
   /** Optional agent identifier for loading agent-specific memory and skills. */
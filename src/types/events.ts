@@ -1,7 +1,8 @@
-import type { TodoItem } from "./core";
+import type { BudgetLimitType, TodoItem, TokenUsage, UsageSummary } from "./core";
 import type { DeepAgentState } from "./backend";
 import type { ModelMessage } from "ai";
-import type { ResumeOptions } from "../checkpointer/types";
+import type { InterruptData, ResumeOptions } from "../checkpointer/types";
+import type { EgressViolation } from "../tools/egress";
 
 // ============================================================================
 // Event Types for Streaming
@@ -34,6 +35,8 @@ export interface StepFinishEvent {
     args: unknown;
     result: unknown;
   }>;
+  /** Tokens used by this step's model call */
+  usage?: TokenUsage;
 }
 
 /**
@@ -92,6 +95,49 @@ export interface FileEditedEvent {
   occurrences: number;
 }
 
+/**
+ * Event emitted when a file or directory is deleted.
+ */
+export interface FileDeletedEvent {
+  type: "file-deleted";
+  path: string;
+}
+
+/**
+ * Event emitted when a file or directory is moved or renamed.
+ */
+export interface FileMovedEvent {
+  type: "file-moved";
+  from: string;
+  to: string;
+}
+
+/**
+ * Event emitted when a GitBackend commits the agent's changes.
+ */
+export interface GitCommitEvent {
+  type: "git-commit";
+  /** Full commit hash */
+  sha: string;
+  /** Branch the commit was added to */
+  branch: string;
+  /** Commit message */
+  message: string;
+  /** Repository-relative paths changed by the commit */
+  files: string[];
+}
+
+/**
+ * Event emitted when a file the agent read or wrote is changed outside the agent.
+ */
+export interface FileChangedExternallyEvent {
+  type: "file-changed-externally";
+  /** File path as the agent used it */
+  path: string;
+  /** Whether the file was modified or deleted */
+  change: "modified" | "deleted";
+}
+
 /**
  * Event emitted when a file is read.
  */
@@ -158,6 +204,52 @@ export interface ExecuteFinishEvent {
   sandboxId: string;
 }
 
+/**
+ * Event emitted for each chunk of output a running command produces.
+ */
+export interface ExecuteOutputEvent {
+  type: "execute-output";
+  /** The command producing the output */
+  command: string;
+  /** Which stream the chunk came from */
+  stream: "stdout" | "stderr";
+  /** The output chunk */
+  chunk: string;
+  /** The sandbox ID where the command is running */
+  sandboxId: string;
+}
+
+/**
+ * Event emitted when a background process is started.
+ */
+export interface ProcessStartEvent {
+  type: "process-start";
+  /** Handle of the background process */
+  processId: string;
+  /** The command that was started */
+  command: string;
+  /** The sandbox ID where the process is running */
+  sandboxId: string;
+}
+
+/**
+ * Event emitted when the agent sees that a background process has exited,
+ * either on its own or because it was killed.
+ */
+export interface ProcessExitEvent {
+  type: "process-exit";
+  /** Handle of the background process */
+  processId: string;
+  /** The command that was started */
+  command: string;
+  /** Exit code (null when killed by a signal) */
+  exitCode: number | null;
+  /** Whether the process was stopped with kill_process */
+  killed: boolean;
+  /** The sandbox ID where the process ran */
+  sandboxId: string;
+}
+
 /**
  * Event emitted when a web search starts.
  */
@@ -176,6 +268,8 @@ export interface WebSearchFinishEvent {
   query: string;
   /** Number of results returned */
   resultCount: number;
+  /** True when the results came from the HTTP cache */
+  cached?: boolean;
 }
 
 /**
@@ -187,6 +281,8 @@ export interface HttpRequestStartEvent {
   url: string;
   /** HTTP method (GET, POST, etc.) */
   method: string;
+  /** Name of the credential profile used, if any */
+  credentials?: string;
 }
 
 /**
@@ -198,6 +294,8 @@ export interface HttpRequestFinishEvent {
   url: string;
   /** HTTP status code */
   statusCode: number;
+  /** True when the response came from the HTTP cache */
+  cached?: boolean;
 }
 
 /**
@@ -218,12 +316,47 @@ export interface FetchUrlFinishEvent {
   url: string;
   /** Whether extraction was successful */
   success: boolean;
+  /** True when the page came from the HTTP cache */
+  cached?: boolean;
+}
+
+/**
+ * Event emitted when the egress policy blocks a request from http_request or fetch_url.
+ */
+export interface EgressBlockedEvent {
+  type: "egress-blocked";
+  /** The tool that made the request */
+  toolName: "http_request" | "fetch_url";
+  /** The blocked URL (a redirect target if the block happened after a redirect) */
+  url: string;
+  /** HTTP method of the blocked request */
+  method: string;
+  /** Why the request was blocked */
+  reason: EgressViolation;
+}
+
+/**
+ * Outcome of a single subagent run.
+ */
+export type SubagentRunStatus = "success" | "error" | "timeout";
+
+/**
+ * Identifiers attached to subagent events so UIs can group concurrent
+ * subagents into a progress tree.
+ */
+export interface SubagentEventTags {
+  /** Unique ID of this subagent run (the tool call ID for single tasks) */
+  taskId?: string;
+  /** Tool call ID of the `task_batch` call that started this run */
+  batchId?: string;
+  /** Position of this task within its batch */
+  batchIndex?: number;
 }
 
 /**
  * Event emitted when a subagent starts.
  */
-export interface SubagentStartEvent {
+export interface SubagentStartEvent extends SubagentEventTags {
   type: "subagent-start";
   name: string;
   task: string;
@@ -232,16 +365,22 @@ export interface SubagentStartEvent {
 /**
  * Event emitted when a subagent finishes.
  */
-export interface SubagentFinishEvent {
+export interface SubagentFinishEvent extends SubagentEventTags {
   type: "subagent-finish";
   name: string;
   result: string;
+  /** How the subagent run ended */
+  status?: SubagentRunStatus;
+  /** Parent paths of files merged back from an isolated subagent filesystem */
+  mergedFiles?: string[];
+  /** Tokens used by the subagent's model calls */
+  usage?: TokenUsage;
 }
 
 /**
  * Event emitted when a subagent completes a step with tool calls.
  */
-export interface SubagentStepEvent {
+export interface SubagentStepEvent extends SubagentEventTags {
   type: "subagent-step";
   stepIndex: number;
   toolCalls: Array<{
@@ -275,10 +414,14 @@ export interface DoneEvent {
   type: "done";
   state: DeepAgentState;
   text?: string;
-  /** Updated conversation history including the assistant's response */
+  /** Updated conversation history including the assistant's response, tool calls and tool results */
   messages?: ModelMessage[];
   /** Structured output if schema was provided (validated by Zod) */
   output?: unknown;  // Will be typed based on schema at call site
+  /** Tokens used by this run: agent steps, subagents and summarization */
+  usage?: UsageSummary;
+  /** Tokens used by the whole thread so far, including this run (with threadId and checkpointer) */
+  threadUsage?: UsageSummary;
 }
 
 /**
@@ -315,6 +458,55 @@ export interface ApprovalResponseEvent {
   approved: boolean;
 }
 
+/**
+ * Event emitted when a run is suspended waiting for tool approval.
+ * The interrupt checkpoint has been saved; resume with
+ * `streamWithEvents({ threadId, resume: { decisions } })`.
+ */
+export interface InterruptEvent {
+  type: "interrupt";
+  /** Thread ID holding the interrupt checkpoint */
+  threadId: string;
+  /** Tool calls awaiting a decision, in order */
+  toolCalls: Array<InterruptData["toolCall"]>;
+  /** Step number where the run was suspended */
+  step: number;
+}
+
+/**
+ * Event emitted when a run is cancelled through its `abortSignal`.
+ * `messages` and `state` reflect the last completed step, so they can be
+ * passed to the next run; with a thread, the same snapshot is checkpointed.
+ */
+export interface AbortedEvent {
+  type: "aborted";
+  /** Reason passed to `AbortController.abort()`, if any */
+  reason?: string;
+  /** Conversation history up to the last completed step */
+  messages: ModelMessage[];
+  /** State as of the last completed step */
+  state: DeepAgentState;
+  /** Cumulative step number of the last completed step */
+  step: number;
+}
+
+/**
+ * Event emitted when a budget limit is reached and the agent is asked to wrap up.
+ */
+export interface BudgetExceededEvent {
+  type: "budget-exceeded";
+  /** Which limit was reached */
+  limit: BudgetLimitType;
+  /** Amount used when the limit fired (tokens, dollars, seconds or calls) */
+  used: number;
+  /** Configured maximum */
+  max: number;
+  /** Tool whose call limit was reached (tool-calls limit only) */
+  toolName?: string;
+  /** Subagent whose budget was reached; absent for the main agent */
+  subagentName?: string;
+}
+
 /**
  * Event emitted when a checkpoint is saved.
  */
@@ -324,6 +516,8 @@ export interface CheckpointSavedEvent {
   threadId: string;
   /** Step number */
   step: number;
+  /** ID of the saved checkpoint in the thread's history */
+  checkpointId?: string;
 }
 
 /**
@@ -337,6 +531,8 @@ export interface CheckpointLoadedEvent {
   step: number;
   /** Number of messages restored */
   messagesCount: number;
+  /** ID of the loaded checkpoint in the thread's history */
+  checkpointId?: string;
 }
 
 /**
@@ -352,18 +548,26 @@ export type DeepAgentEvent =
   | FileWriteStartEvent
   | FileWrittenEvent
   | FileEditedEvent
+  | FileDeletedEvent
+  | FileMovedEvent
+  | GitCommitEvent
+  | FileChangedExternallyEvent
   | FileReadEvent
   | LsEvent
   | GlobEvent
   | GrepEvent
   | ExecuteStartEvent
   | ExecuteFinishEvent
+  | ExecuteOutputEvent
+  | ProcessStartEvent
+  | ProcessExitEvent
   | WebSearchStartEvent
   | WebSearchFinishEvent
   | HttpRequestStartEvent
   | HttpRequestFinishEvent
   | FetchUrlStartEvent
   | FetchUrlFinishEvent
+  | EgressBlockedEvent
   | SubagentStartEvent
   | SubagentFinishEvent
   | SubagentStepEvent
@@ -371,6 +575,9 @@ export type DeepAgentEvent =
   | UserMessageEvent
   | ApprovalRequestedEvent
   | ApprovalResponseEvent
+  | InterruptEvent
+  | AbortedEvent
+  | BudgetExceededEvent
   | CheckpointSavedEvent
   | CheckpointLoadedEvent
   | DoneEvent
@@ -411,6 +618,12 @@ export interface StreamWithEventsOptions {
    * - Resume from interrupts
    */
   threadId?: string;
+  /**
+   * Checkpoint to start from instead of the thread's latest one.
+   * Requires threadId. New checkpoints are appended to the thread's history,
+   * so earlier branches stay available via `listHistory`.
+   */
+  checkpointId?: string;
   /**
    * Resume options for continuing from an interrupt.
    * Use when resuming from a tool approval request.
@@ -419,7 +632,9 @@ export interface StreamWithEventsOptions {
   /**
    * Callback to handle tool approval requests.
    * Return true to approve, false to deny.
-   * If not provided, tools requiring approval will be auto-denied.
+   * If not provided and a threadId and checkpointer are available, the run is
+   * suspended with an `interrupt` event and can be resumed later via `resume`.
+   * Otherwise, tools requiring approval will be auto-denied.
    */
   onApprovalRequest?: (request: {
     approvalId: string;
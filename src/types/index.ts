@@ -13,6 +13,12 @@ export type {
   GenerationOptions,
   AdvancedAgentOptions,
   SummarizationConfig,
+  TokenUsage,
+  UsageSummary,
+  ModelPricing,
+  PriceTable,
+  BudgetLimits,
+  BudgetLimitType,
   CreateDeepAgentParams,
 } from "./core";
 
@@ -27,13 +33,20 @@ export type {
   BackendProtocol,
   BackendFactory,
   ExecuteResponse,
+  ExecuteOptions,
   SandboxBackendProtocol,
+  BackgroundProcessProtocol,
+  BackgroundProcessInfo,
+  BackgroundProcessOutput,
+  SandboxSnapshot,
   FileOperationError,
   FileUploadResponse,
+  FileOperationResult,
   FileDownloadResponse,
+  ExternalFileChange,
 } from "./backend";
 
-export { isSandboxBackend } from "./backend";
+export { isSandboxBackend, supportsBackgroundProcesses } from "./backend";
 
 // Event types
 export type {
@@ -46,25 +59,38 @@ export type {
   FileWriteStartEvent,
   FileWrittenEvent,
   FileEditedEvent,
+  FileDeletedEvent,
+  FileMovedEvent,
+  GitCommitEvent,
+  FileChangedExternallyEvent,
   FileReadEvent,
   LsEvent,
   GlobEvent,
   GrepEvent,
   ExecuteStartEvent,
   ExecuteFinishEvent,
+  ExecuteOutputEvent,
+  ProcessStartEvent,
+  ProcessExitEvent,
   WebSearchStartEvent,
   WebSearchFinishEvent,
   HttpRequestStartEvent,
   HttpRequestFinishEvent,
   FetchUrlStartEvent,
   FetchUrlFinishEvent,
+  EgressBlockedEvent,
   SubagentStartEvent,
   SubagentFinishEvent,
   SubagentStepEvent,
+  SubagentEventTags,
+  SubagentRunStatus,
   TextSegmentEvent,
   UserMessageEvent,
   ApprovalRequestedEvent,
   ApprovalResponseEvent,
+  InterruptEvent,
+  AbortedEvent,
+  BudgetExceededEvent,
   CheckpointSavedEvent,
   CheckpointLoadedEvent,
   DoneEvent,
@@ -82,6 +108,9 @@ export type {
   BuiltinToolCreator,
   SubagentToolConfig,
   SubAgent,
+  SubagentBatchOptions,
+  SubagentFilesystemMode,
+  SubagentFilesystemOptions,
 } from "./subagent";
 
 // Structured output types
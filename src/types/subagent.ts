@@ -4,7 +4,8 @@
 
 import type { ToolSet, LanguageModel } from "ai";
 import type { z } from "zod";
-import type { GenerationOptions, AdvancedAgentOptions } from "./core";
+import type { GenerationOptions, AdvancedAgentOptions, BudgetLimits } from "./core";
+import type { FileData } from "./backend";
 
 /**
  * Configuration for dynamic tool approval.
@@ -32,6 +33,10 @@ export type BuiltinToolCreator =
   | typeof import("../tools/filesystem.js").createReadFileTool
   | typeof import("../tools/filesystem.js").createWriteFileTool
   | typeof import("../tools/filesystem.js").createEditFileTool
+  | typeof import("../tools/filesystem.js").createDeleteFileTool
+  | typeof import("../tools/filesystem.js").createMoveFileTool
+  | typeof import("../tools/filesystem.js").createApplyPatchTool
+  | typeof import("../tools/filesystem.js").createMultiEditTool
   | typeof import("../tools/filesystem.js").createGlobTool
   | typeof import("../tools/filesystem.js").createGrepTool
   | typeof import("../tools/todos.js").createTodosTool
@@ -42,6 +47,51 @@ export type BuiltinToolCreator =
  */
 export type SubagentToolConfig = ToolSet | BuiltinToolCreator;
 
+/**
+ * Options for the `task_batch` tool, which runs several subagent tasks from one call.
+ */
+export interface SubagentBatchOptions {
+  /**
+   * Maximum number of subagents running at the same time within one batch.
+   * @default 5
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Default time limit for each task in seconds. A task can override it with
+   * its own `timeout_seconds`. Unset means tasks only stop at their step limit.
+   */
+  taskTimeoutSeconds?: number;
+}
+
+/**
+ * How a subagent's filesystem relates to its parent's.
+ *
+ * - `shared`: reads and writes the parent's files directly (default)
+ * - `isolated`: starts from an empty in-memory filesystem
+ * - `overlay`: reads the parent's backend through an `OverlayBackend`; writes stay in the overlay
+ * - `scoped`: like `overlay`, and changed files are written to the parent's backend under `/subagents/{name}/`
+ */
+export type SubagentFilesystemMode = "shared" | "isolated" | "overlay" | "scoped";
+
+/**
+ * Filesystem isolation settings for a subagent.
+ */
+export interface SubagentFilesystemOptions {
+  /** Isolation mode */
+  mode: SubagentFilesystemMode;
+
+  /**
+   * Files created or changed by the subagent to write to the parent's
+   * backend when it finishes successfully. Either glob patterns matched against the
+   * subagent's paths, or a predicate.
+   *
+   * Defaults to nothing for `isolated` and `overlay`, and to every changed
+   * file for `scoped`. Ignored in `shared` mode, where writes land directly.
+   */
+  mergeBack?: string[] | ((path: string, file: FileData) => boolean);
+}
+
 /**
  * SubAgent specification for task delegation.
  */
@@ -71,6 +121,20 @@ export interface SubAgent {
    */
   model?: LanguageModel;
 
+  /**
+   * Optional filesystem isolation for this subagent.
+   * `isolated` runs the subagent on an empty in-memory `StateBackend`;
+   * `overlay` and `scoped` wrap the parent's backend in an `OverlayBackend`.
+   * @default "shared"
+   */
+  filesystem?: SubagentFilesystemMode | SubagentFilesystemOptions;
+
+  /**
+   * Optional budget limits for each run of this subagent.
+   * Defaults to the parent agent's `budget`.
+   */
+  budget?: BudgetLimits;
+
   /**
    * Optional interrupt configuration for this subagent.
    */
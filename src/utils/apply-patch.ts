@@ -0,0 +1,677 @@
+/**
+ * Multi-file patching for the apply_patch and multi_edit tools, and unified
+ * diff generation for showing proposed changes.
+ *
+ * Every hunk and edit is validated against the current file contents before
+ * anything is written. If all of them apply, the new contents are written
+ * through the backend; if a write fails part-way, files already written are
+ * restored so the change lands all-or-nothing.
+ */
+
+import type { BackendProtocol } from "../types";
+import { fileDataToString, isBinaryFileData, performStringReplacement } from "../backends/utils";
+import {
+  BINARY_FILE_CANNOT_EDIT,
+  FILE_ALREADY_EXISTS,
+  FILE_CHANGED_EXTERNALLY,
+  FILE_NOT_FOUND,
+  HUNK_CONTEXT_NOT_FOUND,
+  INVALID_PATCH,
+  OPERATION_NOT_SUPPORTED,
+} from "../constants/errors";
+
+/**
+ * A single string replacement, as used by edit_file.
+ */
+export interface FileEdit {
+  /** Exact text to replace */
+  old_string: string;
+  /** Replacement text */
+  new_string: string;
+  /** Replace every occurrence instead of requiring a unique match */
+  replace_all?: boolean;
+}
+
+/**
+ * One hunk of a unified diff.
+ */
+export interface DiffHunk {
+  /** 1-indexed start line in the original file (0 when the file is new) */
+  oldStart: number;
+  /** Hunk lines including their ' ', '-' or '+' prefix */
+  lines: string[];
+  /** Whether the new side ends without a trailing newline */
+  noNewlineAtEnd: boolean;
+  /** Whether the original side ends without a trailing newline */
+  oldNoNewlineAtEnd?: boolean;
+}
+
+/**
+ * All hunks of a unified diff that touch one file.
+ */
+export interface FileDiff {
+  /** Original path, or null when the file is created */
+  oldPath: string | null;
+  /** New path, or null when the file is deleted */
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+/**
+ * A change to one file: diff hunks or string edits.
+ */
+export type FileChange =
+  | { type: "diff"; diff: FileDiff }
+  | { type: "edits"; path: string; edits: FileEdit[] };
+
+/**
+ * Outcome of one hunk or edit.
+ */
+export interface PatchHunkResult {
+  /** File the hunk applies to */
+  path: string;
+  /** 1-indexed position of the hunk or edit within its file */
+  index: number;
+  success: boolean;
+  /** 1-indexed line where a diff hunk was applied */
+  line?: number;
+  /** Number of replacements made by an edit */
+  occurrences?: number;
+  /** Why the hunk could not be applied */
+  error?: string;
+}
+
+/**
+ * Outcome of applying a set of file changes.
+ */
+export interface PatchResult {
+  /** True when every hunk applied and every file was written */
+  success: boolean;
+  /** Error that stopped the whole patch (parse or write failure) */
+  error?: string;
+  /** Per-hunk outcomes, in patch order */
+  hunks: PatchHunkResult[];
+  /** Files modified, created and deleted; empty unless `success` is true */
+  modified: string[];
+  created: string[];
+  deleted: string[];
+}
+
+const DEV_NULL = "/dev/null";
+
+/**
+ * Parse a path from a `---` or `+++` header line.
+ */
+function parseHeaderPath(line: string): string | null {
+  // Drop the marker and anything after a tab (timestamps)
+  const raw = line.substring(4).split("\t")[0]!.trim();
+  return raw === DEV_NULL ? null : raw;
+}
+
+/**
+ * Strip git's `a/` and `b/` prefixes when both sides use them.
+ */
+function stripGitPrefixes(diff: FileDiff): FileDiff {
+  const oldOk = diff.oldPath === null || diff.oldPath.startsWith("a/");
+  const newOk = diff.newPath === null || diff.newPath.startsWith("b/");
+  if (!oldOk || !newOk || (diff.oldPath === null && diff.newPath === null)) {
+    return diff;
+  }
+  return {
+    ...diff,
+    oldPath: diff.oldPath?.substring(2) ?? null,
+    newPath: diff.newPath?.substring(2) ?? null,
+  };
+}
+
+/**
+ * Check whether the line at `index` continues a hunk body.
+ */
+function isHunkBodyLine(lines: string[], index: number): boolean {
+  const line = lines[index];
+  if (line === undefined) {
+    return false;
+  }
+  if (line.startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")) {
+    return false;
+  }
+  return line.startsWith(" ") || line.startsWith("-") || line.startsWith("+");
+}
+
+/**
+ * Parse a unified diff into per-file hunks.
+ *
+ * Hunk bodies run until the next hunk or file header, so slightly wrong
+ * line counts in `@@` headers (common in model-written diffs) are tolerated.
+ *
+ * @returns Parsed file diffs, or an error string
+ */
+export function parseUnifiedDiff(patch: string): FileDiff[] | string {
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  const diffs: FileDiff[] = [];
+  let current: FileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const next = lines[i + 1];
+
+    if (line.startsWith("--- ") && next?.startsWith("+++ ")) {
+      current = {
+        oldPath: parseHeaderPath(line),
+        newPath: parseHeaderPath(next),
+        hunks: [],
+      };
+      diffs.push(current);
+      hunk = undefined;
+      i++;
+      continue;
+    }
+
+    const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+    if (header) {
+      if (!current) {
+        return INVALID_PATCH(`hunk at line ${i + 1} has no ---/+++ file header`);
+      }
+      hunk = { oldStart: parseInt(header[1]!, 10), lines: [], noNewlineAtEnd: false };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      // Preamble such as "diff --git" or "index" lines
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file" applies to the line before it
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous !== undefined && !previous.startsWith("+")) {
+        hunk.oldNoNewlineAtEnd = true;
+      }
+      if (previous !== undefined && !previous.startsWith("-")) {
+        hunk.noNewlineAtEnd = true;
+      }
+    } else if (line.startsWith(" ") || line.startsWith("-") || line.startsWith("+")) {
+      hunk.lines.push(line);
+    } else if (line === "" && isHunkBodyLine(lines, i + 1)) {
+      // Blank context lines often lose their leading space
+      hunk.lines.push(" ");
+    } else if (line !== "") {
+      hunk = undefined;
+    }
+  }
+
+  if (diffs.length === 0) {
+    return INVALID_PATCH("no ---/+++ file headers found");
+  }
+
+  for (const diff of diffs) {
+    if (diff.hunks.length === 0 && diff.newPath !== null) {
+      return INVALID_PATCH(`no hunks for ${diff.newPath}`);
+    }
+  }
+
+  return diffs.map(stripGitPrefixes);
+}
+
+/**
+ * Find where a block of lines occurs, preferring the match closest to `expected`.
+ * Falls back to ignoring trailing whitespace if there is no exact match.
+ */
+function findBlock(
+  lines: string[],
+  block: string[],
+  expected: number,
+  minIndex: number
+): number {
+  const matchesAt = (start: number, loose: boolean) =>
+    block.every((text, j) =>
+      loose ? lines[start + j]?.trimEnd() === text.trimEnd() : lines[start + j] === text
+    );
+
+  for (const loose of [false, true]) {
+    const maxIndex = lines.length - block.length;
+    for (let distance = 0; distance <= Math.max(lines.length, expected); distance++) {
+      for (const start of [expected - distance, expected + distance]) {
+        if (start >= minIndex && start <= maxIndex && matchesAt(start, loose)) {
+          return start;
+        }
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply diff hunks to file content without writing anything.
+ *
+ * A hunk that reaches the end of the file and carries a
+ * `\ No newline at end of file` marker decides whether the result ends
+ * with a newline; otherwise the file keeps its trailing newline (or lack of one).
+ *
+ * @returns New content (undefined if any hunk failed) and per-hunk results
+ */
+export function applyHunks(
+  path: string,
+  content: string,
+  hunks: DiffHunk[]
+): { content?: string; results: PatchHunkResult[] } {
+  const { lines, endsWithNewline } = splitDiffLines(content);
+  let finalNewline = endsWithNewline;
+  const results: PatchHunkResult[] = [];
+  let offset = 0;
+  let minIndex = 0;
+  let failed = false;
+
+  hunks.forEach((hunk, i) => {
+    const oldBlock = hunk.lines.filter((l) => !l.startsWith("+")).map((l) => l.substring(1));
+    const newBlock = hunk.lines.filter((l) => !l.startsWith("-")).map((l) => l.substring(1));
+    const expected = Math.max(0, hunk.oldStart - 1) + offset;
+
+    const start =
+      oldBlock.length === 0
+        ? Math.min(Math.max(expected, minIndex), lines.length)
+        : findBlock(lines, oldBlock, expected, minIndex);
+
+    if (start === -1) {
+      failed = true;
+      results.push({
+        path,
+        index: i + 1,
+        success: false,
+        error: HUNK_CONTEXT_NOT_FOUND(hunk.oldStart),
+      });
+      return;
+    }
+
+    const reachesEnd = start + oldBlock.length === lines.length;
+    if (reachesEnd && (hunk.noNewlineAtEnd || hunk.oldNoNewlineAtEnd)) {
+      finalNewline = !hunk.noNewlineAtEnd;
+    }
+    lines.splice(start, oldBlock.length, ...newBlock);
+    offset += newBlock.length - oldBlock.length;
+    minIndex = start + newBlock.length;
+    results.push({ path, index: i + 1, success: true, line: start + 1 });
+  });
+
+  if (failed) {
+    return { results };
+  }
+  return { content: lines.length === 0 ? "" : lines.join("\n") + (finalNewline ? "\n" : ""), results };
+}
+
+/**
+ * Apply string edits to file content in order without writing anything.
+ *
+ * @returns New content (undefined if any edit failed) and per-edit results
+ */
+export function applyEdits(
+  path: string,
+  content: string,
+  edits: FileEdit[]
+): { content?: string; results: PatchHunkResult[] } {
+  const results: PatchHunkResult[] = [];
+  let working = content;
+  let failed = false;
+
+  edits.forEach((edit, i) => {
+    const result = performStringReplacement(
+      working,
+      edit.old_string,
+      edit.new_string,
+      edit.replace_all ?? false
+    );
+    if (typeof result === "string") {
+      failed = true;
+      results.push({ path, index: i + 1, success: false, error: result });
+      return;
+    }
+    working = result[0];
+    results.push({ path, index: i + 1, success: true, occurrences: result[1] });
+  });
+
+  return { content: failed ? undefined : working, results };
+}
+
+/**
+ * Read a text file's content, or undefined if it does not exist.
+ */
+async function readText(
+  backend: BackendProtocol,
+  path: string
+): Promise<string | undefined | { error: string }> {
+  try {
+    const fileData = await backend.readRaw(path);
+    if (isBinaryFileData(fileData)) {
+      return { error: BINARY_FILE_CANNOT_EDIT(path) };
+    }
+    return fileDataToString(fileData);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace a file's whole content through the backend.
+ *
+ * @returns An error string on failure
+ */
+async function writeText(
+  backend: BackendProtocol,
+  path: string,
+  original: string | undefined,
+  content: string
+): Promise<string | undefined> {
+  if (original === undefined) {
+    const result = await backend.write(path, content);
+    return result.error;
+  }
+  if (backend.uploadFiles) {
+    const [result] = await backend.uploadFiles([[path, new TextEncoder().encode(content)]]);
+    if (result?.error === "file_changed_externally") {
+      return FILE_CHANGED_EXTERNALLY(path);
+    }
+    return result?.error ? `Error: Failed to write '${path}': ${result.error}` : undefined;
+  }
+  if (original === "") {
+    return OPERATION_NOT_SUPPORTED("overwriting empty files");
+  }
+  const result = await backend.edit(path, original, content);
+  return result.error;
+}
+
+/**
+ * Validate and apply a set of file changes atomically.
+ *
+ * Nothing is written unless every hunk and edit applies. If a write fails
+ * part-way, files already written are restored to their original content.
+ */
+export async function applyFileChanges(
+  backend: BackendProtocol,
+  changes: FileChange[]
+): Promise<PatchResult> {
+  const hunks: PatchHunkResult[] = [];
+  const originals = new Map<string, string | undefined>();
+  const planned = new Map<string, string | null>();
+  const fail = (error?: string): PatchResult => ({
+    success: false,
+    error,
+    hunks,
+    modified: [],
+    created: [],
+    deleted: [],
+  });
+
+  // Phase 1: compute every new file content in memory
+  for (const change of changes) {
+    const path = change.type === "edits" ? change.path : change.diff.oldPath ?? change.diff.newPath!;
+    const target = change.type === "edits" ? change.path : change.diff.newPath;
+
+    let content: string | undefined;
+    if (planned.has(path)) {
+      content = planned.get(path) ?? undefined;
+    } else {
+      const read = await readText(backend, path);
+      if (typeof read === "object") {
+        return fail(read.error);
+      }
+      content = read;
+      originals.set(path, read);
+    }
+
+    const isNewFile = change.type === "diff" && change.diff.oldPath === null;
+    if (isNewFile && content !== undefined) {
+      return fail(FILE_ALREADY_EXISTS(path));
+    }
+    if (!isNewFile && content === undefined) {
+      return fail(FILE_NOT_FOUND(path));
+    }
+
+    if (target === null) {
+      if (!backend.delete) {
+        return fail(OPERATION_NOT_SUPPORTED("delete"));
+      }
+      planned.set(path, null);
+      continue;
+    }
+
+    const applied =
+      change.type === "edits"
+        ? applyEdits(path, content!, change.edits)
+        : applyHunks(path, content ?? "", change.diff.hunks);
+    hunks.push(...applied.results);
+    if (applied.content === undefined) {
+      continue;
+    }
+
+    const newContent = applied.content;
+
+    if (target !== path) {
+      if (!originals.has(target)) {
+        const existing = await readText(backend, target);
+        if (existing !== undefined) {
+          return fail(FILE_ALREADY_EXISTS(target));
+        }
+        originals.set(target, undefined);
+      }
+      if (!backend.delete) {
+        return fail(OPERATION_NOT_SUPPORTED("renaming files"));
+      }
+      planned.set(path, null);
+    }
+    planned.set(target, newContent);
+  }
+
+  if (hunks.some((h) => !h.success)) {
+    return fail();
+  }
+
+  // Phase 2: write, restoring already-written files if anything fails
+  const written: string[] = [];
+  const modified: string[] = [];
+  const created: string[] = [];
+  const deleted: string[] = [];
+
+  for (const [path, content] of planned) {
+    const original = originals.get(path);
+    const error =
+      content === null
+        ? (await backend.delete!(path)).error
+        : await writeText(backend, path, original, content);
+
+    if (error) {
+      for (const done of written.reverse()) {
+        await restoreFile(backend, done, originals.get(done), planned.get(done) ?? null);
+      }
+      return fail(error);
+    }
+
+    written.push(path);
+    if (content === null) {
+      deleted.push(path);
+    } else if (original === undefined) {
+      created.push(path);
+    } else {
+      modified.push(path);
+    }
+  }
+
+  return { success: true, hunks, modified, created, deleted };
+}
+
+/**
+ * Best-effort rollback of one written file.
+ */
+async function restoreFile(
+  backend: BackendProtocol,
+  path: string,
+  original: string | undefined,
+  written: string | null
+): Promise<void> {
+  try {
+    if (original === undefined) {
+      await backend.delete?.(path);
+    } else if (written === null) {
+      await backend.write(path, original);
+    } else {
+      await writeText(backend, path, written, original);
+    }
+  } catch {
+    // Nothing more can be done; the original error is reported instead
+  }
+}
+
+/**
+ * Split content into lines, noting whether it ends with a newline.
+ */
+function splitDiffLines(content: string): { lines: string[]; endsWithNewline: boolean } {
+  if (content === "") {
+    return { lines: [], endsWithNewline: true };
+  }
+  const lines = content.split("\n");
+  const endsWithNewline = lines[lines.length - 1] === "";
+  if (endsWithNewline) {
+    lines.pop();
+  }
+  return { lines, endsWithNewline };
+}
+
+/**
+ * Shortest line edit script between two line arrays (Myers' algorithm).
+ */
+function diffLines(a: string[], b: string[]): Array<" " | "-" | "+"> {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  // Furthest x reached on each diagonal k, stored at index k + max + 1
+  const v = new Int32Array(2 * max + 3);
+  const at = (k: number) => k + max + 1;
+  // Each entry holds v[-d-1..d+1] as it was before round d
+  const trace: Int32Array[] = [];
+
+  const choosesDown = (w: Int32Array, k: number, d: number, at: (k: number) => number) =>
+    k === -d || (k !== d && w[at(k - 1)]! < w[at(k + 1)]!);
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(at(-d - 1), at(d + 2)));
+    for (let k = -d; k <= d; k += 2) {
+      let x = choosesDown(v, k, d, at) ? v[at(k + 1)]! : v[at(k - 1)]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[at(k)] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  const ops: Array<" " | "-" | "+"> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const w = trace[d]!;
+    const atRound = (k: number) => k + d + 1;
+    const k = x - y;
+    const prevK = choosesDown(w, k, d, atRound) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : w[atRound(prevK)]!;
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push(" ");
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? "+" : "-");
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Create a unified diff between two versions of a file.
+ * The output can be applied with `parseUnifiedDiff` and `applyFileChanges`.
+ *
+ * @param oldPath - Original path, or null for a created file
+ * @param newPath - New path, or null for a deleted file
+ * @param context - Unchanged lines to show around each change
+ * @returns The diff text, or an empty string if the contents are identical
+ */
+export function createUnifiedDiff(
+  oldPath: string | null,
+  newPath: string | null,
+  oldContent: string,
+  newContent: string,
+  context: number = 3
+): string {
+  const before = splitDiffLines(oldContent);
+  const after = splitDiffLines(newContent);
+
+  // A final line without a newline must not compare equal to one with it
+  const keys = (side: { lines: string[]; endsWithNewline: boolean }) =>
+    side.lines.map((line, i) =>
+      i === side.lines.length - 1 && !side.endsWithNewline ? line + "\0" : line
+    );
+  const ops = diffLines(keys(before), keys(after));
+  if (ops.every((op) => op === " ")) {
+    return "";
+  }
+
+  // Old and new line index before each op
+  const positions: Array<[number, number]> = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of ops) {
+    positions.push([oldIndex, newIndex]);
+    if (op !== "+") oldIndex++;
+    if (op !== "-") newIndex++;
+  }
+
+  const output = [`--- ${oldPath ?? DEV_NULL}`, `+++ ${newPath ?? DEV_NULL}`];
+  const changes = ops.flatMap((op, i) => (op === " " ? [] : [i]));
+
+  let groupStart = 0;
+  while (groupStart < changes.length) {
+    let groupEnd = groupStart;
+    while (
+      groupEnd + 1 < changes.length &&
+      changes[groupEnd + 1]! - changes[groupEnd]! <= 2 * context + 1
+    ) {
+      groupEnd++;
+    }
+
+    const start = Math.max(0, changes[groupStart]! - context);
+    const end = Math.min(ops.length, changes[groupEnd]! + context + 1);
+    const [oldStart, newStart] = positions[start]!;
+    const slice = ops.slice(start, end);
+    const oldCount = slice.filter((op) => op !== "+").length;
+    const newCount = slice.filter((op) => op !== "-").length;
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} ` +
+        `+${newCount === 0 ? newStart : newStart + 1},${newCount} @@`
+    );
+
+    for (let i = start; i < end; i++) {
+      const op = ops[i]!;
+      const [o, n] = positions[i]!;
+      const text = op === "+" ? after.lines[n]! : before.lines[o]!;
+      output.push(op + text);
+      const lastOld = op !== "+" && o === before.lines.length - 1 && !before.endsWithNewline;
+      const lastNew = op !== "-" && n === after.lines.length - 1 && !after.endsWithNewline;
+      if (lastOld || lastNew) {
+        output.push("\\ No newline at end of file");
+      }
+    }
+
+    groupStart = groupEnd + 1;
+  }
+
+  return output.join("\n") + "\n";
+}
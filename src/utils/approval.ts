@@ -3,7 +3,16 @@
  */
 
 import { tool, type ToolSet } from "ai";
-import type { InterruptOnConfig, DynamicApprovalConfig } from "../types";
+import type {
+  InterruptOnConfig,
+  DynamicApprovalConfig,
+  ModelMessage,
+} from "../types";
+import type {
+  InterruptData,
+  ResumeDecision,
+  ResumeOptions,
+} from "../checkpointer/types";
 
 /**
  * Callback type for requesting approval from the user.
@@ -50,6 +59,13 @@ function configToNeedsApproval(
   return true;
 }
 
+/**
+ * Message returned to the model when a tool call is denied.
+ */
+export function createDeniedToolMessage(toolName: string): string {
+  return `Tool execution denied by user. The ${toolName} tool was not executed.`;
+}
+
 let approvalCounter = 0;
 function generateApprovalId(): string {
   return `approval-${Date.now()}-${++approvalCounter}`;
@@ -144,6 +160,7 @@ export function wrapToolsWithApproval(
       result[name] = tool({
         description: existingTool.description,
         inputSchema: existingTool.inputSchema,
+        toModelOutput: existingTool.toModelOutput,
         execute: async (args, options) => {
           // Check if this specific call needs approval
           const needsApproval = await checkNeedsApproval(config, args);
@@ -168,7 +185,7 @@ export function wrapToolsWithApproval(
 
             if (!approved) {
               // User denied - return an error message instead of executing
-              return `Tool execution denied by user. The ${name} tool was not executed.`;
+              return createDeniedToolMessage(name);
             }
           }
 
@@ -201,7 +218,7 @@ export function createInterruptData(
   toolName: string,
   args: unknown,
   step: number
-): import("../checkpointer/types").InterruptData {
+): InterruptData {
   return {
     toolCall: {
       toolCallId,
@@ -211,3 +228,184 @@ export function createInterruptData(
     step,
   };
 }
+
+/**
+ * Remove tool results for the given tool call IDs from a transcript.
+ *
+ * Used when a run is suspended on approval requests: the placeholder results
+ * produced while the run was stopping are dropped, so the interrupt checkpoint
+ * ends with the unanswered tool calls.
+ */
+export function stripToolResults(
+  messages: ModelMessage[],
+  toolCallIds: string[]
+): ModelMessage[] {
+  const ids = new Set(toolCallIds);
+  const result: ModelMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role !== "tool") {
+      result.push(message);
+      continue;
+    }
+
+    const content = message.content.filter(
+      (part) => !(part.type === "tool-result" && ids.has(part.toolCallId))
+    );
+    if (content.length > 0) {
+      result.push({ ...message, content });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Outcome of a tool call resolved from an interrupt.
+ */
+export interface ResolvedToolCall {
+  toolCallId: string;
+  toolName: string;
+  /** Whether the tool call was approved and executed */
+  approved: boolean;
+  /** Tool output, or the rejection/error message */
+  result: unknown;
+  isError: boolean;
+}
+
+/**
+ * Replace the input of a tool call part in the transcript.
+ * Keeps the history consistent with the arguments the tool actually ran with.
+ */
+function replaceToolCallInput(
+  messages: ModelMessage[],
+  toolCallId: string,
+  input: unknown
+): ModelMessage[] {
+  return messages.map((message) => {
+    if (message.role !== "assistant" || typeof message.content === "string") {
+      return message;
+    }
+    const hasCall = message.content.some(
+      (part) => part.type === "tool-call" && part.toolCallId === toolCallId
+    );
+    if (!hasCall) return message;
+
+    return {
+      ...message,
+      content: message.content.map((part) =>
+        part.type === "tool-call" && part.toolCallId === toolCallId
+          ? { ...part, input }
+          : part
+      ),
+    };
+  });
+}
+
+/**
+ * Resolve an interrupt using the caller's decisions.
+ *
+ * Approved tool calls are executed (with `modifiedArgs` if provided) and denied
+ * ones get a rejection result. The tool results are appended to the transcript
+ * so the model can continue from where the run was suspended. Pending tool
+ * calls without a matching decision are treated as denied.
+ *
+ * @param messages - Transcript from the interrupt checkpoint
+ * @param interrupt - Interrupt data from the checkpoint
+ * @param resume - Decisions supplied by the caller
+ * @param tools - Toolset to execute approved calls with (without approval wrapping)
+ * @param abortSignal - Optional signal passed through to tool execution
+ */
+export async function resolveInterrupt(
+  messages: ModelMessage[],
+  interrupt: InterruptData,
+  resume: ResumeOptions,
+  tools: ToolSet,
+  abortSignal?: AbortSignal
+): Promise<{ messages: ModelMessage[]; resolved: ResolvedToolCall[] }> {
+  const pending = interrupt.toolCalls ?? [interrupt.toolCall];
+  const resolved: ResolvedToolCall[] = [];
+  let updatedMessages = messages;
+
+  for (let i = 0; i < pending.length; i++) {
+    const toolCall = pending[i]!;
+    const decision: ResumeDecision | undefined =
+      resume.decisions.find((d) => d.toolCallId === toolCall.toolCallId) ??
+      resume.decisions.filter((d) => d.toolCallId === undefined)[i];
+
+    if (decision?.type !== "approve") {
+      resolved.push({
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+        approved: false,
+        result: createDeniedToolMessage(toolCall.toolName),
+        isError: false,
+      });
+      continue;
+    }
+
+    const args = decision.modifiedArgs ?? toolCall.args;
+    if (decision.modifiedArgs !== undefined) {
+      updatedMessages = replaceToolCallInput(updatedMessages, toolCall.toolCallId, args);
+    }
+
+    const execute = tools[toolCall.toolName]?.execute;
+    if (!execute) {
+      resolved.push({
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+        approved: true,
+        result: `Tool ${toolCall.toolName} is not available. The tool was not executed.`,
+        isError: true,
+      });
+      continue;
+    }
+
+    try {
+      const result = await execute(args, {
+        toolCallId: toolCall.toolCallId,
+        messages: updatedMessages,
+        abortSignal,
+      });
+      resolved.push({
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+        approved: true,
+        result,
+        isError: false,
+      });
+    } catch (error) {
+      resolved.push({
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+        approved: true,
+        result: error instanceof Error ? error.message : String(error),
+        isError: true,
+      });
+    }
+  }
+
+  const resultParts = resolved.map((r) => ({
+    type: "tool-result" as const,
+    toolCallId: r.toolCallId,
+    toolName: r.toolName,
+    output: r.isError
+      ? { type: "error-text" as const, value: String(r.result) }
+      : typeof r.result === "string"
+        ? { type: "text" as const, value: r.result }
+        : { type: "json" as const, value: (r.result ?? null) as any },
+  }));
+
+  // Merge into a trailing tool message (results of tools that ran without approval)
+  const last = updatedMessages[updatedMessages.length - 1];
+  if (last?.role === "tool") {
+    updatedMessages = [
+      ...updatedMessages.slice(0, -1),
+      { ...last, content: [...last.content, ...resultParts] },
+    ];
+  } else {
+    updatedMessages = [...updatedMessages, { role: "tool", content: resultParts }];
+  }
+
+  return { messages: updatedMessages, resolved };
+}
@@ -0,0 +1,213 @@
+/**
+ * Budget limits for agent and subagent runs.
+ *
+ * A BudgetTracker watches token usage, cost, elapsed time and per-tool call
+ * counts. Once a limit is reached, the run gets one more step without tools
+ * so the model can wrap up, and then stops.
+ */
+
+import { tool, type LanguageModel, type ModelMessage, type StopCondition, type ToolSet } from "ai";
+import type {
+  BudgetExceededEvent,
+  BudgetLimits,
+  PrepareStepArgs,
+  PrepareStepFunction,
+  PrepareStepResult,
+  PriceTable,
+  TokenUsage,
+} from "../types";
+import { BUDGET_COST_UNPRICED, TOOL_CALL_LIMIT_REACHED } from "../constants/errors";
+import { getBudgetWrapUpPrompt } from "../prompts";
+import { getModelId } from "./usage";
+
+/**
+ * Details of the budget limit that was reached.
+ */
+export type BudgetExceeded = Omit<BudgetExceededEvent, "type" | "subagentName">;
+
+/**
+ * Tracks one run's consumption against its budget limits.
+ */
+export class BudgetTracker {
+  private readonly startedAt = Date.now();
+  private toolCallCounts: Record<string, number> = {};
+  private refusedToolCall?: BudgetExceeded;
+  /** Limit that triggered the wrap-up step, once it has started */
+  wrapUp?: BudgetExceeded;
+  /** Step number of the wrap-up step */
+  wrapUpStep?: number;
+
+  /**
+   * @param limits - Budget limits for the run
+   * @param getUsage - Returns the run's token usage so far (with cost, if priced)
+   */
+  constructor(
+    readonly limits: BudgetLimits,
+    private readonly getUsage: () => TokenUsage
+  ) {}
+
+  /**
+   * Count a call to `toolName`.
+   * @returns false if the tool's call limit is already used up
+   */
+  recordToolCall(toolName: string): boolean {
+    const max = this.limits.maxToolCalls?.[toolName];
+    const used = this.toolCallCounts[toolName] ?? 0;
+    if (max !== undefined && used >= max) {
+      this.refusedToolCall ??= { limit: "tool-calls", used, max, toolName };
+      return false;
+    }
+    this.toolCallCounts[toolName] = used + 1;
+    return true;
+  }
+
+  /**
+   * Return the first limit that has been reached, if any.
+   */
+  check(): BudgetExceeded | undefined {
+    const { maxTotalTokens, maxCost, maxDurationSeconds } = this.limits;
+    const usage = this.getUsage();
+
+    if (maxTotalTokens !== undefined && usage.totalTokens >= maxTotalTokens) {
+      return { limit: "tokens", used: usage.totalTokens, max: maxTotalTokens };
+    }
+    if (maxCost !== undefined && usage.cost !== undefined && usage.cost >= maxCost) {
+      return { limit: "cost", used: usage.cost, max: maxCost };
+    }
+    const elapsedSeconds = (Date.now() - this.startedAt) / 1000;
+    if (maxDurationSeconds !== undefined && elapsedSeconds >= maxDurationSeconds) {
+      return { limit: "duration", used: elapsedSeconds, max: maxDurationSeconds };
+    }
+    return this.refusedToolCall;
+  }
+}
+
+/**
+ * Check whether a budget has any limits set.
+ */
+export function hasBudgetLimits(limits: BudgetLimits | undefined): limits is BudgetLimits {
+  return (
+    !!limits &&
+    (limits.maxTotalTokens !== undefined ||
+      limits.maxCost !== undefined ||
+      limits.maxDurationSeconds !== undefined ||
+      Object.keys(limits.maxToolCalls ?? {}).length > 0)
+  );
+}
+
+/**
+ * Check that a cost limit can be enforced for a model.
+ *
+ * Usage is only priced for models in the price table, so without an entry
+ * `maxCost` would never be reached.
+ *
+ * @throws If `limits.maxCost` is set and `pricing` has no entry for the model
+ */
+export function assertCostLimitPriced(
+  limits: BudgetLimits | undefined,
+  model: LanguageModel,
+  pricing: PriceTable | undefined
+): void {
+  const modelId = getModelId(model);
+  if (limits?.maxCost !== undefined && !pricing?.[modelId]) {
+    throw new Error(BUDGET_COST_UNPRICED(modelId));
+  }
+}
+
+/**
+ * Wrap tools that have a call limit so calls beyond it are refused.
+ */
+export function applyToolCallLimits(tools: ToolSet, tracker: BudgetTracker): ToolSet {
+  const maxToolCalls = tracker.limits.maxToolCalls;
+  if (!maxToolCalls) {
+    return tools;
+  }
+
+  const result: ToolSet = {};
+  for (const [name, existingTool] of Object.entries(tools)) {
+    const max = maxToolCalls[name];
+    const originalExecute = existingTool.execute;
+    if (max === undefined || !originalExecute) {
+      result[name] = existingTool;
+      continue;
+    }
+
+    result[name] = tool({
+      description: existingTool.description,
+      inputSchema: existingTool.inputSchema,
+      toModelOutput: existingTool.toModelOutput,
+      execute: async (args, options) => {
+        if (!tracker.recordToolCall(name)) {
+          return TOOL_CALL_LIMIT_REACHED(name, max);
+        }
+        return originalExecute(args, options);
+      },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Describe a reached limit for the wrap-up instruction.
+ */
+function describeBudgetLimit(exceeded: BudgetExceeded): string {
+  switch (exceeded.limit) {
+    case "tokens":
+      return `token budget (${exceeded.used} of ${exceeded.max} tokens used)`;
+    case "cost":
+      return `cost budget ($${exceeded.used.toFixed(4)} of $${exceeded.max} spent)`;
+    case "duration":
+      return `time budget (${Math.round(exceeded.used)} of ${exceeded.max} seconds elapsed)`;
+    case "tool-calls":
+      return `call limit for the ${exceeded.toolName} tool (${exceeded.max} calls)`;
+  }
+}
+
+/**
+ * Wrap a prepareStep callback so that, once a limit is reached, the next
+ * step runs without tools and with an instruction to wrap up.
+ *
+ * @param tracker - Budget tracker for the run
+ * @param prepareStep - Existing prepareStep callback, if any
+ * @param onExceeded - Called once when the wrap-up step starts
+ */
+export function withBudgetWrapUp(
+  tracker: BudgetTracker,
+  prepareStep: PrepareStepFunction | undefined,
+  onExceeded: (exceeded: BudgetExceeded) => void
+): PrepareStepFunction {
+  return async (params: PrepareStepArgs) => {
+    const result: PrepareStepResult = (prepareStep ? await prepareStep(params) : undefined) ?? {};
+    if (tracker.wrapUp) {
+      return result;
+    }
+
+    const exceeded = tracker.check();
+    if (!exceeded) {
+      return result;
+    }
+
+    tracker.wrapUp = exceeded;
+    tracker.wrapUpStep = params.stepNumber;
+    onExceeded(exceeded);
+
+    const wrapUpMessage: ModelMessage = {
+      role: "user",
+      content: getBudgetWrapUpPrompt(describeBudgetLimit(exceeded)),
+    };
+    return {
+      ...result,
+      activeTools: [],
+      toolChoice: "none",
+      messages: [...((result.messages as ModelMessage[] | undefined) ?? params.messages), wrapUpMessage],
+    };
+  };
+}
+
+/**
+ * Stop condition that ends the run once its wrap-up step has finished.
+ */
+export function budgetStopCondition(tracker: BudgetTracker): StopCondition<any> {
+  return ({ steps }) => tracker.wrapUpStep !== undefined && steps.length > tracker.wrapUpStep;
+}
@@ -0,0 +1,584 @@
+/**
+ * Text extraction for documents: PDF, Word (DOCX), Excel (XLSX), CSV and JSON.
+ *
+ * Documents are split into pages so that fetch_url and read_file can return
+ * a large document one page at a time.
+ */
+
+import { extname } from "path";
+import { extractPdfPages } from "./pdf";
+import { readZipEntries } from "./zip";
+import { DOCUMENT_PAGE_CHARS } from "../constants/limits";
+import { DOCUMENT_PAGE_OUT_OF_RANGE } from "../constants/errors";
+
+/**
+ * Document formats with a text extractor.
+ */
+export type DocumentFormat = "pdf" | "docx" | "xlsx" | "csv" | "json";
+
+/**
+ * A document's text, split into pages.
+ */
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  /** Text of each page (at least one, possibly empty) */
+  pages: string[];
+}
+
+/**
+ * Options for extracting a document.
+ */
+export interface ExtractDocumentOptions {
+  /** Maximum characters per page (default: 20000) */
+  pageChars?: number;
+  /** Field delimiter for CSV (default: detected from the first line) */
+  delimiter?: string;
+}
+
+const FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: "PDF",
+  docx: "Word document",
+  xlsx: "Excel workbook",
+  csv: "CSV",
+  json: "JSON",
+};
+
+const CONTENT_TYPE_FORMATS: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "text/csv": "csv",
+  "text/tab-separated-values": "csv",
+  "application/json": "json",
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".xlsx": "xlsx",
+  ".csv": "csv",
+  ".tsv": "csv",
+  ".json": "json",
+};
+
+/**
+ * Work out a document's format from its content type, or from the
+ * extension of its file name or URL path when the type is generic.
+ *
+ * @returns The format, or undefined if there is no extractor for it
+ */
+export function detectDocumentFormat(contentType: string | undefined, name?: string): DocumentFormat | undefined {
+  const mimeType = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  const byType = CONTENT_TYPE_FORMATS[mimeType] ?? (/^application\/[\w.-]+\+json$/.test(mimeType) ? "json" : undefined);
+  if (byType) {
+    return byType;
+  }
+  if (name && (mimeType === "" || mimeType === "application/octet-stream" || mimeType === "binary/octet-stream")) {
+    let path = name;
+    try {
+      path = new URL(name).pathname;
+    } catch {
+      // A file path rather than a URL
+    }
+    return EXTENSION_FORMATS[extname(path).toLowerCase()];
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Split text into pages of at most `pageChars` characters, at line
+ * boundaries where possible.
+ */
+function paginateText(text: string, pageChars: number): string[] {
+  const pages: string[] = [];
+  let page = "";
+  for (const line of text.split("\n")) {
+    if (page && page.length + line.length + 1 > pageChars) {
+      pages.push(page);
+      page = "";
+    }
+    let rest = line;
+    while (rest.length > pageChars) {
+      if (page) {
+        pages.push(page);
+        page = "";
+      }
+      pages.push(rest.substring(0, pageChars));
+      rest = rest.substring(pageChars);
+    }
+    page = page ? `${page}\n${rest}` : rest;
+  }
+  if (page || pages.length === 0) {
+    pages.push(page);
+  }
+  return pages;
+}
+
+// ============================================================================
+// Word documents
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith("#x")) return String.fromCodePoint(parseInt(code.substring(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.substring(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXmlText(match[1]!) : undefined;
+}
+
+/** Marker for an explicit page break in extracted Word text */
+const PAGE_BREAK = "\f";
+
+/**
+ * Convert a Word document's body to markdown: headings, list items,
+ * tables and paragraphs, with explicit page breaks kept.
+ */
+function docxToMarkdown(xml: string): string {
+  const blocks: string[] = [];
+  let paragraph = "";
+  let prefix = "";
+  let inText = false;
+  let table: string[][] | undefined;
+  let row: string[] | undefined;
+  let cell: string[] | undefined;
+
+  const endParagraph = () => {
+    const text = paragraph.trim();
+    if (cell) {
+      if (text) cell.push(text);
+    } else if (text) {
+      blocks.push(prefix + text);
+    }
+    paragraph = "";
+    prefix = "";
+  };
+
+  const tagPattern = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(xml))) {
+    const [, closing, tag, attributes = "", selfClosing, text] = match;
+    if (text !== undefined) {
+      if (inText) paragraph += decodeXmlText(text);
+      continue;
+    }
+
+    if (tag === "w:t") {
+      inText = !closing && !selfClosing;
+    } else if (tag === "w:p" && (closing || selfClosing)) {
+      endParagraph();
+    } else if (tag === "w:pStyle" && !closing) {
+      const style = xmlAttribute(attributes, "w:val") ?? "";
+      const heading = /^heading\s*(\d)$/i.exec(style);
+      if (heading) {
+        prefix = `${"#".repeat(Math.min(Number(heading[1]), 6))} `;
+      } else if (/^title$/i.test(style)) {
+        prefix = "# ";
+      }
+    } else if (tag === "w:numPr" && !closing && !prefix) {
+      prefix = "- ";
+    } else if (tag === "w:tab" && !closing) {
+      paragraph += "\t";
+    } else if ((tag === "w:br" || tag === "w:cr") && !closing) {
+      if (xmlAttribute(attributes, "w:type") === "page" && !table) {
+        endParagraph();
+        blocks.push(PAGE_BREAK);
+      } else {
+        paragraph += "\n";
+      }
+    } else if (tag === "w:pageBreakBefore" && !closing && !table && xmlAttribute(attributes, "w:val") !== "0") {
+      blocks.push(PAGE_BREAK);
+    } else if (tag === "w:tbl") {
+      if (!closing) {
+        endParagraph();
+        table = [];
+      } else if (table) {
+        blocks.push(markdownTable(table));
+        table = undefined;
+      }
+    } else if (tag === "w:tr" && table) {
+      if (!closing) {
+        row = [];
+      } else if (row) {
+        table.push(row);
+        row = undefined;
+      }
+    } else if (tag === "w:tc" && row) {
+      if (!closing) {
+        cell = [];
+      } else if (cell) {
+        row.push(cell.join(" "));
+        cell = undefined;
+      }
+    }
+  }
+  endParagraph();
+
+  return blocks.join("\n\n");
+}
+
+function extractDocx(bytes: Uint8Array, pageChars: number): string[] {
+  const entries = readZipEntries(bytes, (name) => name === "word/document.xml");
+  const document = entries.get("word/document.xml");
+  if (!document) {
+    throw new Error("not a Word document (word/document.xml is missing)");
+  }
+  const markdown = docxToMarkdown(new TextDecoder().decode(document));
+  return markdown
+    .split(PAGE_BREAK)
+    .map((page) => page.trim())
+    .filter((page, i, pages) => page || pages.length === 1)
+    .flatMap((page) => paginateText(page, pageChars));
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into rows.
+ */
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+/**
+ * Pick the delimiter that appears most in the first line.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.substring(0, text.search(/\r?\n|$/));
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of [",", ";", "\t", "|"]) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ").trim();
+}
+
+function markdownRow(cells: string[]): string {
+  return `| ${cells.map(markdownCell).join(" | ")} |`;
+}
+
+function markdownTable(rows: string[][]): string {
+  const [header, ...body] = rows;
+  if (!header) return "";
+  const width = Math.max(...rows.map((r) => r.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill("")];
+  return [markdownRow(pad(header)), markdownRow(Array(width).fill("---")), ...body.map((r) => markdownRow(pad(r)))].join(
+    "\n"
+  );
+}
+
+/**
+ * Split rows into markdown tables of at most `pageChars` characters,
+ * repeating the header (first) row on every page.
+ */
+function tablePages(table: string[][], pageChars: number): string[] {
+  const [header, ...rows] = table;
+  if (!header) {
+    return [""];
+  }
+  const width = Math.max(header.length, ...rows.map((r) => r.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill("")];
+  const tableHeader = `${markdownRow(pad(header))}\n${markdownRow(Array(width).fill("---"))}`;
+
+  const pages: string[] = [];
+  let start = 0;
+  let lines: string[] = [];
+  let size = tableHeader.length;
+  const flush = (end: number) => {
+    pages.push(`Rows ${start + 1}-${end} of ${rows.length}\n\n${tableHeader}\n${lines.join("\n")}`);
+    start = end;
+    lines = [];
+    size = tableHeader.length;
+  };
+  rows.forEach((cells, i) => {
+    const line = markdownRow(pad(cells));
+    if (lines.length > 0 && size + line.length + 1 > pageChars) {
+      flush(i);
+    }
+    lines.push(line);
+    size += line.length + 1;
+  });
+  if (lines.length > 0) {
+    flush(rows.length);
+  }
+  return pages.length > 0 ? pages : [`${rows.length} rows\n\n${tableHeader}`];
+}
+
+function extractCsv(text: string, delimiter: string, pageChars: number): string[] {
+  return tablePages(parseCsv(text.replace(/^\uFEFF/, ""), delimiter), pageChars);
+}
+
+// ============================================================================
+// Excel workbooks
+// ============================================================================
+
+/** Workbook parts read when extracting a spreadsheet */
+const XLSX_PARTS = /^xl\/(workbook\.xml|_rels\/workbook\.xml\.rels|sharedStrings\.xml|styles\.xml|worksheets\/[^/]+\.xml)$/;
+
+/** Built-in number formats that show a date or time */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Days from Excel's day zero (1899-12-30, allowing for its 1900 leap year bug) to 1970-01-01 */
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+/**
+ * Text of the `<t>` elements in a string item or inline string, without phonetic runs.
+ */
+function xmlTextContent(xml: string): string {
+  let text = "";
+  for (const match of xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXmlText(match[1]!);
+  }
+  return text;
+}
+
+/**
+ * Indexes of the cell styles whose number format shows a date or time.
+ */
+function dateStyleIndexes(stylesXml: string): Set<number> {
+  const dateFormats = new Set(BUILTIN_DATE_FORMATS);
+  for (const match of stylesXml.matchAll(/<numFmt\b([^>]*)/g)) {
+    // Ignore quoted text, [colors] and escaped characters before looking for date parts
+    const code = (xmlAttribute(match[1]!, "formatCode") ?? "").replace(/"[^"]*"|\[[^\]]*\]|\\./g, "");
+    if (/[dmyhs]/i.test(code)) {
+      dateFormats.add(Number(xmlAttribute(match[1]!, "numFmtId")));
+    }
+  }
+
+  const indexes = new Set<number>();
+  const cellFormats = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] ?? "";
+  [...cellFormats.matchAll(/<xf\b([^>]*)/g)].forEach((match, i) => {
+    if (dateFormats.has(Number(xmlAttribute(match[1]!, "numFmtId")))) {
+      indexes.add(i);
+    }
+  });
+  return indexes;
+}
+
+/**
+ * Format a date serial number as `YYYY-MM-DD`, with the time if it has one.
+ */
+function formatExcelDate(serial: number): string {
+  const iso = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET_DAYS) * 86_400_000)).toISOString();
+  return Number.isInteger(serial) ? iso.substring(0, 10) : iso.substring(0, 19).replace("T", " ");
+}
+
+/**
+ * Zero-based column of a cell reference such as `B7`.
+ */
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, "").toUpperCase()) {
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+/**
+ * Read a worksheet's cell values as rows of text. Empty rows are dropped.
+ */
+function parseWorksheet(xml: string, sharedStrings: string[], dateStyles: Set<number>): string[][] {
+  const rows: string[][] = [];
+  for (const row of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+    for (const cell of (row[1] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cell[1]!;
+      const body = cell[2] ?? "";
+      const type = xmlAttribute(attributes, "t") ?? "n";
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = "";
+      if (type === "inlineStr") {
+        value = xmlTextContent(body);
+      } else if (raw === undefined) {
+        value = "";
+      } else if (type === "s") {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (type === "n" && dateStyles.has(Number(xmlAttribute(attributes, "s") ?? 0))) {
+        value = formatExcelDate(Number(raw));
+      } else {
+        value = decodeXmlText(raw);
+      }
+
+      const ref = xmlAttribute(attributes, "r");
+      const index = ref ? columnIndex(ref) : cells.length;
+      while (cells.length < index) {
+        cells.push("");
+      }
+      cells[index] = value;
+    }
+    if (cells.some((value) => value !== "")) {
+      rows.push(cells);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Extract each sheet as markdown tables, headed by the sheet name. A sheet
+ * starts a new page; long sheets are split like CSV files.
+ */
+function extractXlsx(bytes: Uint8Array, pageChars: number): string[] {
+  const entries = readZipEntries(bytes, (name) => XLSX_PARTS.test(name));
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? new TextDecoder().decode(entry) : "";
+  };
+  const workbook = read("xl/workbook.xml");
+  if (!workbook) {
+    throw new Error("not an Excel workbook (xl/workbook.xml is missing)");
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of read("xl/_rels/workbook.xml.rels").matchAll(/<Relationship\b([^>]*)/g)) {
+    const id = xmlAttribute(match[1]!, "Id");
+    const target = xmlAttribute(match[1]!, "Target");
+    if (id && target) {
+      targets.set(id, target.startsWith("/") ? target.substring(1) : `xl/${target}`);
+    }
+  }
+  const sharedStrings = [...read("xl/sharedStrings.xml").matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+    xmlTextContent(match[1]!)
+  );
+  const dateStyles = dateStyleIndexes(read("xl/styles.xml"));
+
+  const pages = [...workbook.matchAll(/<sheet\b([^>]*)/g)].flatMap((match) => {
+    const name = xmlAttribute(match[1]!, "name") ?? "";
+    const target = targets.get(xmlAttribute(match[1]!, "r:id") ?? "");
+    const rows = target ? parseWorksheet(read(target), sharedStrings, dateStyles) : [];
+    const heading = `## ${name}`;
+    return tablePages(rows, pageChars - heading.length - 2).map((page) => `${heading}\n\n${page}`);
+  });
+  return pages.length > 0 ? pages : [""];
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+/**
+ * Pretty-print JSON and split it into pages. Invalid JSON is paginated as is.
+ */
+function extractJson(text: string, pageChars: number): string[] {
+  let pretty: string;
+  try {
+    pretty = JSON.stringify(JSON.parse(text.replace(/^\uFEFF/, "")), null, 2);
+  } catch {
+    pretty = text;
+  }
+  return paginateText(pretty, pageChars);
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Extract a document's text as pages of markdown or plain text.
+ *
+ * - PDF: one page per PDF page (long pages are split further)
+ * - Word: markdown with headings, lists and tables, split at page breaks
+ * - Excel: markdown tables, one sheet per page (long sheets are split further)
+ * - CSV: markdown tables with the header row on every page
+ * - JSON: pretty-printed, split at line boundaries
+ *
+ * @throws If the document is malformed or uses an unsupported feature (e.g. an encrypted PDF)
+ */
+export function extractDocument(
+  bytes: Uint8Array,
+  format: DocumentFormat,
+  options: ExtractDocumentOptions = {}
+): ExtractedDocument {
+  const pageChars = options.pageChars ?? DOCUMENT_PAGE_CHARS;
+  switch (format) {
+    case "pdf": {
+      const pages = extractPdfPages(bytes).flatMap((page) => paginateText(page, pageChars));
+      return { format, pages: pages.length > 0 ? pages : [""] };
+    }
+    case "docx":
+      return { format, pages: extractDocx(bytes, pageChars) };
+    case "xlsx":
+      return { format, pages: extractXlsx(bytes, pageChars) };
+    case "csv": {
+      const text = new TextDecoder().decode(bytes);
+      return { format, pages: extractCsv(text, options.delimiter ?? detectDelimiter(text), pageChars) };
+    }
+    case "json":
+      return { format, pages: extractJson(new TextDecoder().decode(bytes), pageChars) };
+  }
+}
+
+/**
+ * Format one page of an extracted document for the model, with the page
+ * number and a pointer to the next page.
+ *
+ * @param source - File path or URL the document came from
+ * @param page - Page number, starting at 1
+ */
+export function formatDocumentPage(document: ExtractedDocument, source: string, page: number): string {
+  const pageCount = document.pages.length;
+  const content = document.pages[page - 1];
+  if (content === undefined) {
+    return DOCUMENT_PAGE_OUT_OF_RANGE(source, page, pageCount);
+  }
+  const header = `${FORMAT_LABELS[document.format]} ${source}, page ${page} of ${pageCount}`;
+  const footer = page < pageCount ? `\n\n[Page ${page} of ${pageCount}. Read page ${page + 1} for more.]` : "";
+  return `${header}\n\n${content.trim() || "(no text on this page)"}${footer}`;
+}
@@ -23,32 +23,45 @@ import type {
   FileWriteStartEvent,
   FileWrittenEvent,
   FileEditedEvent,
+  FileDeletedEvent,
+  FileMovedEvent,
+  GitCommitEvent,
+  FileChangedExternallyEvent,
   FileReadEvent,
   LsEvent,
   GlobEvent,
   GrepEvent,
   ExecuteStartEvent,
   ExecuteFinishEvent,
+  ExecuteOutputEvent,
+  ProcessStartEvent,
+  ProcessExitEvent,
   WebSearchStartEvent,
   WebSearchFinishEvent,
   HttpRequestStartEvent,
   HttpRequestFinishEvent,
   FetchUrlStartEvent,
   FetchUrlFinishEvent,
+  EgressBlockedEvent,
   SubagentStartEvent,
   SubagentFinishEvent,
   SubagentStepEvent,
+  SubagentEventTags,
   TextSegmentEvent,
   UserMessageEvent,
   DoneEvent,
   ErrorEvent,
   ApprovalRequestedEvent,
   ApprovalResponseEvent,
+  InterruptEvent,
+  AbortedEvent,
+  BudgetExceededEvent,
   CheckpointSavedEvent,
   CheckpointLoadedEvent,
   DeepAgentEvent,
   DeepAgentState,
 } from "../types";
+import type { EgressBlock } from "../tools/egress";
 
 // ============================================================================
 // Basic Event Factories
@@ -167,6 +180,48 @@ export function createFileEditedEvent(
   return { type: "file-edited", path, occurrences };
 }
 
+/**
+ * Create a file-deleted event.
+ */
+export function createFileDeletedEvent(path: string): FileDeletedEvent {
+  return { type: "file-deleted", path };
+}
+
+/**
+ * Create a file-moved event.
+ */
+export function createFileMovedEvent(from: string, to: string): FileMovedEvent {
+  return { type: "file-moved", from, to };
+}
+
+/**
+ * Create a git-commit event.
+ */
+export function createGitCommitEvent(commit: {
+  sha: string;
+  branch: string;
+  message: string;
+  files: string[];
+}): GitCommitEvent {
+  return {
+    type: "git-commit",
+    sha: commit.sha,
+    branch: commit.branch,
+    message: commit.message,
+    files: commit.files,
+  };
+}
+
+/**
+ * Create a file-changed-externally event.
+ */
+export function createFileChangedExternallyEvent(change: {
+  path: string;
+  change: "modified" | "deleted";
+}): FileChangedExternallyEvent {
+  return { type: "file-changed-externally", path: change.path, change: change.change };
+}
+
 /**
  * Create a file-read event.
  */
@@ -225,6 +280,42 @@ export function createExecuteFinishEvent(
   return { type: "execute-finish", command, sandboxId, exitCode, truncated };
 }
 
+/**
+ * Create an execute-output event.
+ */
+export function createExecuteOutputEvent(
+  command: string,
+  sandboxId: string,
+  stream: "stdout" | "stderr",
+  chunk: string
+): ExecuteOutputEvent {
+  return { type: "execute-output", command, stream, chunk, sandboxId };
+}
+
+/**
+ * Create a process-start event.
+ */
+export function createProcessStartEvent(
+  processId: string,
+  command: string,
+  sandboxId: string
+): ProcessStartEvent {
+  return { type: "process-start", processId, command, sandboxId };
+}
+
+/**
+ * Create a process-exit event.
+ */
+export function createProcessExitEvent(
+  processId: string,
+  command: string,
+  sandboxId: string,
+  exitCode: number | null,
+  killed: boolean
+): ProcessExitEvent {
+  return { type: "process-exit", processId, command, exitCode, killed, sandboxId };
+}
+
 // ============================================================================
 // Web Event Factories
 // ============================================================================
@@ -241,9 +332,10 @@ export function createWebSearchStartEvent(query: string): WebSearchStartEvent {
  */
 export function createWebSearchFinishEvent(
   query: string,
-  resultCount: number
+  resultCount: number,
+  cached?: boolean
 ): WebSearchFinishEvent {
-  return { type: "web-search-finish", query, resultCount };
+  return { type: "web-search-finish", query, resultCount, ...(cached ? { cached } : {}) };
 }
 
 /**
@@ -251,9 +343,10 @@ export function createWebSearchFinishEvent(
  */
 export function createHttpRequestStartEvent(
   url: string,
-  method: string
+  method: string,
+  credentials?: string
 ): HttpRequestStartEvent {
-  return { type: "http-request-start", url, method };
+  return { type: "http-request-start", url, method, ...(credentials ? { credentials } : {}) };
 }
 
 /**
@@ -261,9 +354,10 @@ export function createHttpRequestStartEvent(
  */
 export function createHttpRequestFinishEvent(
   url: string,
-  statusCode: number
+  statusCode: number,
+  cached?: boolean
 ): HttpRequestFinishEvent {
-  return { type: "http-request-finish", url, statusCode };
+  return { type: "http-request-finish", url, statusCode, ...(cached ? { cached } : {}) };
 }
 
 /**
@@ -278,9 +372,26 @@ export function createFetchUrlStartEvent(url: string): FetchUrlStartEvent {
  */
 export function createFetchUrlFinishEvent(
   url: string,
-  success: boolean
+  success: boolean,
+  cached?: boolean
 ): FetchUrlFinishEvent {
-  return { type: "fetch-url-finish", url, success };
+  return { type: "fetch-url-finish", url, success, ...(cached ? { cached } : {}) };
+}
+
+/**
+ * Create an egress-blocked event.
+ */
+export function createEgressBlockedEvent(
+  toolName: EgressBlockedEvent["toolName"],
+  block: EgressBlock
+): EgressBlockedEvent {
+  return {
+    type: "egress-blocked",
+    toolName,
+    url: block.url,
+    method: block.method,
+    reason: block.reason,
+  };
 }
 
 // ============================================================================
@@ -292,9 +403,10 @@ export function createFetchUrlFinishEvent(
  */
 export function createSubagentStartEvent(
   name: string,
-  task: string
+  task: string,
+  tags: SubagentEventTags = {}
 ): SubagentStartEvent {
-  return { type: "subagent-start", name, task };
+  return { type: "subagent-start", name, task, ...tags };
 }
 
 /**
@@ -302,9 +414,10 @@ export function createSubagentStartEvent(
  */
 export function createSubagentFinishEvent(
   name: string,
-  result: string
+  result: string,
+  details: Omit<SubagentFinishEvent, "type" | "name" | "result"> = {}
 ): SubagentFinishEvent {
-  return { type: "subagent-finish", name, result };
+  return { type: "subagent-finish", name, result, ...details };
 }
 
 /**
@@ -312,9 +425,10 @@ export function createSubagentFinishEvent(
  */
 export function createSubagentStepEvent(
   stepIndex: number,
-  toolCalls: SubagentStepEvent["toolCalls"]
+  toolCalls: SubagentStepEvent["toolCalls"],
+  tags: SubagentEventTags = {}
 ): SubagentStepEvent {
-  return { type: "subagent-step", stepIndex, toolCalls };
+  return { type: "subagent-step", stepIndex, toolCalls, ...tags };
 }
 
 // ============================================================================
@@ -343,6 +457,43 @@ export function createApprovalResponseEvent(
   return { type: "approval-response", approvalId, approved };
 }
 
+/**
+ * Create an interrupt event.
+ */
+export function createInterruptEvent(
+  threadId: string,
+  toolCalls: InterruptEvent["toolCalls"],
+  step: number
+): InterruptEvent {
+  return { type: "interrupt", threadId, toolCalls, step };
+}
+
+/**
+ * Create an aborted event.
+ */
+export function createAbortedEvent(
+  messages: AbortedEvent["messages"],
+  state: AbortedEvent["state"],
+  step: number,
+  reason?: string
+): AbortedEvent {
+  return { type: "aborted", messages, state, step, ...(reason !== undefined ? { reason } : {}) };
+}
+
+/**
+ * Create a budget-exceeded event.
+ */
+export function createBudgetExceededEvent(
+  exceeded: Omit<BudgetExceededEvent, "type" | "subagentName">,
+  subagentName?: string
+): BudgetExceededEvent {
+  return {
+    type: "budget-exceeded",
+    ...exceeded,
+    ...(subagentName !== undefined ? { subagentName } : {}),
+  };
+}
+
 // ============================================================================
 // Checkpoint Event Factories
 // ============================================================================
@@ -352,9 +503,10 @@ export function createApprovalResponseEvent(
  */
 export function createCheckpointSavedEvent(
   threadId: string,
-  step: number
+  step: number,
+  checkpointId?: string
 ): CheckpointSavedEvent {
-  return { type: "checkpoint-saved", threadId, step };
+  return { type: "checkpoint-saved", threadId, step, ...(checkpointId ? { checkpointId } : {}) };
 }
 
 /**
@@ -363,9 +515,16 @@ export function createCheckpointSavedEvent(
 export function createCheckpointLoadedEvent(
   threadId: string,
   step: number,
-  messagesCount: number
+  messagesCount: number,
+  checkpointId?: string
 ): CheckpointLoadedEvent {
-  return { type: "checkpoint-loaded", threadId, step, messagesCount };
+  return {
+    type: "checkpoint-loaded",
+    threadId,
+    step,
+    messagesCount,
+    ...(checkpointId ? { checkpointId } : {}),
+  };
 }
 
 // ============================================================================
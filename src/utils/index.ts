@@ -29,6 +29,52 @@ export {
   applyInterruptConfig,
   wrapToolsWithApproval,
   hasApprovalTools,
+  resolveInterrupt,
+  stripToolResults,
   type ApprovalCallback,
+  type ResolvedToolCall,
 } from "./approval";
 
+export {
+  createEmptyUsage,
+  toTokenUsage,
+  addUsage,
+  calculateCost,
+  priceUsage,
+  createUsageSummary,
+  addToUsageSummary,
+  mergeUsageSummaries,
+} from "./usage";
+
+export {
+  parseUnifiedDiff,
+  createUnifiedDiff,
+  applyHunks,
+  applyEdits,
+  applyFileChanges,
+  type FileEdit,
+  type DiffHunk,
+  type FileDiff,
+  type FileChange,
+  type PatchHunkResult,
+  type PatchResult,
+} from "./apply-patch";
+
+export {
+  BudgetTracker,
+  hasBudgetLimits,
+  applyToolCallLimits,
+  withBudgetWrapUp,
+  budgetStopCondition,
+  assertCostLimitPriced,
+  type BudgetExceeded,
+} from "./budget";
+
+export {
+  detectDocumentFormat,
+  extractDocument,
+  formatDocumentPage,
+  type DocumentFormat,
+  type ExtractedDocument,
+  type ExtractDocumentOptions,
+} from "./documents";
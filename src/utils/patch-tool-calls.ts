@@ -55,9 +55,12 @@ function getToolCallIds(message: ModelMessage): string[] {
 
 /**
  * Check if a message is a tool result for a specific tool call ID.
+ *
+ * Assistant messages are checked too: provider-executed tools (e.g. provider
+ * web search) carry their tool-result parts inside the assistant message itself.
  */
 function isToolResultFor(message: ModelMessage, toolCallId: string): boolean {
-  if (message.role !== "tool") return false;
+  if (message.role !== "tool" && message.role !== "assistant") return false;
 
   // Tool messages should have a toolCallId
   if ("toolCallId" in message && message.toolCallId === toolCallId) {
@@ -171,9 +174,9 @@ export function patchToolCalls(messages: ModelMessage[]): ModelMessage[] {
       const toolCallIds = getToolCallIds(message);
 
       for (const toolCallId of toolCallIds) {
-        // Look for a corresponding tool result in subsequent messages
+        // Look for a corresponding tool result in this or subsequent messages
         let hasResult = false;
-        for (let j = i + 1; j < messages.length; j++) {
+        for (let j = i; j < messages.length; j++) {
           const subsequentMsg = messages[j];
           if (subsequentMsg && isToolResultFor(subsequentMsg, toolCallId)) {
             hasResult = true;
@@ -213,7 +216,7 @@ export function hasDanglingToolCalls(messages: ModelMessage[]): boolean {
 
       for (const toolCallId of toolCallIds) {
         let hasResult = false;
-        for (let j = i + 1; j < messages.length; j++) {
+        for (let j = i; j < messages.length; j++) {
           const subsequentMsg = messages[j];
           if (subsequentMsg && isToolResultFor(subsequentMsg, toolCallId)) {
             hasResult = true;
@@ -0,0 +1,768 @@
+/**
+ * Minimal PDF text extraction.
+ *
+ * Walks the page tree and reads the text shown by each page's content
+ * streams (and the form XObjects they draw), decoding fonts through their
+ * ToUnicode maps. Handles compressed object streams and incremental updates.
+ * Encrypted PDFs are not supported, and scanned pages have no text to extract.
+ */
+
+import { constants as zlibConstants, inflateSync } from "zlib";
+
+// ============================================================================
+// Objects
+// ============================================================================
+
+interface PdfName {
+  type: "name";
+  value: string;
+}
+
+interface PdfString {
+  type: "string";
+  bytes: Buffer;
+}
+
+interface PdfRef {
+  type: "ref";
+  num: number;
+}
+
+interface PdfOperator {
+  type: "op";
+  value: string;
+}
+
+interface PdfStream {
+  type: "stream";
+  dict: PdfDict;
+  raw: Buffer;
+}
+
+type PdfDict = Map<string, PdfObject>;
+
+type PdfObject =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfOperator
+  | PdfStream
+  | PdfDict
+  | PdfObject[];
+
+const isDict = (value: PdfObject | undefined): value is PdfDict => value instanceof Map;
+const isStream = (value: PdfObject | undefined): value is PdfStream =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && !isDict(value) && value.type === "stream";
+const isName = (value: PdfObject | undefined, name?: string): value is PdfName =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !isDict(value) &&
+  value.type === "name" &&
+  (name === undefined || value.value === name);
+const isString = (value: PdfObject | undefined): value is PdfString =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && !isDict(value) && value.type === "string";
+const isOperator = (value: PdfObject | undefined): value is PdfOperator =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && !isDict(value) && value.type === "op";
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+/**
+ * Parser for PDF objects, in files and in content streams.
+ */
+class PdfParser {
+  constructor(
+    private data: Buffer,
+    public pos: number = 0,
+    /** Recognize `n g R` references (not used in content streams) */
+    private allowRefs: boolean = true
+  ) {}
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.data.length;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos]!;
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // Comment to end of line
+        while (this.pos < this.data.length && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (
+      this.pos < this.data.length &&
+      !WHITESPACE.has(this.data[this.pos]!) &&
+      !DELIMITERS.has(this.data[this.pos]!)
+    ) {
+      this.pos++;
+    }
+    return this.data.toString("latin1", start, this.pos);
+  }
+
+  parse(): PdfObject {
+    this.skipWhitespace();
+    const byte = this.data[this.pos];
+    if (byte === undefined) {
+      throw new Error("unexpected end of data");
+    }
+
+    if (byte === 0x2f) {
+      this.pos++;
+      const raw = this.readRegular();
+      return { type: "name", value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+    if (byte === 0x28) {
+      return this.parseLiteralString();
+    }
+    if (byte === 0x3c && this.data[this.pos + 1] === 0x3c) {
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      while (true) {
+        this.skipWhitespace();
+        if (this.pos >= this.data.length) break;
+        if (this.data[this.pos] === 0x3e && this.data[this.pos + 1] === 0x3e) {
+          this.pos += 2;
+          break;
+        }
+        const key = this.parse();
+        if (!isName(key)) {
+          continue;
+        }
+        dict.set(key.value, this.parse());
+      }
+      return dict;
+    }
+    if (byte === 0x3c) {
+      const end = this.data.indexOf(0x3e, this.pos);
+      const hex = this.data.toString("latin1", this.pos + 1, end < 0 ? this.data.length : end).replace(/[^0-9a-fA-F]/g, "");
+      this.pos = end < 0 ? this.data.length : end + 1;
+      return { type: "string", bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex") };
+    }
+    if (byte === 0x5b) {
+      this.pos++;
+      const array: PdfObject[] = [];
+      while (true) {
+        this.skipWhitespace();
+        if (this.pos >= this.data.length) break;
+        if (this.data[this.pos] === 0x5d) {
+          this.pos++;
+          break;
+        }
+        array.push(this.parse());
+      }
+      return array;
+    }
+    if (byte === 0x5d || byte === 0x3e || byte === 0x29 || byte === 0x7b || byte === 0x7d) {
+      // Stray delimiter: skip it
+      this.pos++;
+      return { type: "op", value: String.fromCharCode(byte) };
+    }
+
+    const token = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const value = Number(token);
+      if (this.allowRefs && /^\d+$/.test(token)) {
+        const match = /^\s+(\d+)\s+R(?=[\s/<>[\]()%]|$)/.exec(this.data.toString("latin1", this.pos, this.pos + 32));
+        if (match) {
+          this.pos += match[0].length;
+          return { type: "ref", num: value };
+        }
+      }
+      return value;
+    }
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null") return null;
+    return { type: "op", value: token };
+  }
+
+  private parseLiteralString(): PdfString {
+    this.pos++;
+    const bytes: number[] = [];
+    let depth = 1;
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++]!;
+      if (byte === 0x5c) {
+        const next = this.data[this.pos++];
+        if (next === undefined) break;
+        const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+        if (escapes[next] !== undefined) {
+          bytes.push(escapes[next]!);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = String.fromCharCode(next);
+          while (octal.length < 3 && this.data[this.pos]! >= 0x30 && this.data[this.pos]! <= 0x37) {
+            octal += String.fromCharCode(this.data[this.pos++]!);
+          }
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next === 0x0d) {
+          // Line continuation
+          if (this.data[this.pos] === 0x0a) this.pos++;
+        } else if (next !== 0x0a) {
+          bytes.push(next);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (--depth === 0) break;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+    return { type: "string", bytes: Buffer.from(bytes) };
+  }
+
+  /**
+   * Skip inline image data after an `ID` operator, up to its `EI`.
+   */
+  skipInlineImage(): void {
+    const end = this.data.toString("latin1", this.pos).search(/\sEI(?=[\s]|$)/);
+    this.pos = end < 0 ? this.data.length : this.pos + end + 3;
+  }
+}
+
+// ============================================================================
+// Stream filters
+// ============================================================================
+
+function decodeAscii85(data: Buffer): Buffer {
+  const text = data.toString("latin1").replace(/\s/g, "").replace(/^<~/, "").replace(/~>.*$/, "");
+  const out: number[] = [];
+  let group: number[] = [];
+  for (const char of text) {
+    if (char === "z" && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+  if (group.length > 0) {
+    const count = group.length - 1;
+    while (group.length < 5) group.push(84);
+    const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+    out.push(...[(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].slice(0, count));
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * Decode a stream's data, or undefined if it uses a filter we can't decode
+ * (e.g. image codecs).
+ */
+function decodeStream(stream: PdfStream): Buffer | undefined {
+  const filter = stream.dict.get("Filter");
+  const filters = Array.isArray(filter) ? filter : filter ? [filter] : [];
+  let data = stream.raw;
+  for (const name of filters) {
+    if (isName(name, "FlateDecode") || isName(name, "Fl")) {
+      data = inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+    } else if (isName(name, "ASCIIHexDecode") || isName(name, "AHx")) {
+      const hex = data.toString("latin1").replace(/>.*$/s, "").replace(/[^0-9a-fA-F]/g, "");
+      data = Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex");
+    } else if (isName(name, "ASCII85Decode") || isName(name, "A85")) {
+      data = decodeAscii85(data);
+    } else {
+      return undefined;
+    }
+  }
+  return data;
+}
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * The objects of a PDF file.
+ */
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private trailers: PdfDict[] = [];
+
+  constructor(private data: Buffer) {
+    if (data.toString("latin1", 0, 1024).indexOf("%PDF-") < 0) {
+      throw new Error("not a PDF file");
+    }
+    this.readObjects();
+    this.readObjectStreams();
+  }
+
+  private readObjects(): void {
+    const text = this.data.toString("latin1");
+    const objectPattern = /(\d+)\s+\d+\s+obj\b|trailer\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = objectPattern.exec(text))) {
+      const parser = new PdfParser(this.data, match.index + match[0].length);
+      try {
+        let value = parser.parse();
+        if (!match[1]) {
+          if (isDict(value)) this.trailers.push(value);
+          objectPattern.lastIndex = parser.pos;
+          continue;
+        }
+        parser.skipWhitespace();
+        if (isDict(value) && text.startsWith("stream", parser.pos)) {
+          const { stream, end } = this.readStream(text, value, parser.pos + "stream".length);
+          value = stream;
+          objectPattern.lastIndex = end;
+          if (isName(stream.dict.get("Type"), "XRef")) {
+            this.trailers.push(stream.dict);
+          }
+        } else {
+          objectPattern.lastIndex = parser.pos;
+        }
+        // Later definitions (incremental updates) replace earlier ones
+        this.objects.set(Number(match[1]), value);
+      } catch {
+        // Skip objects we can't parse
+      }
+    }
+  }
+
+  /**
+   * Read a stream's data, returning the stream and where its data ends.
+   */
+  private readStream(text: string, dict: PdfDict, afterKeyword: number): { stream: PdfStream; end: number } {
+    let start = afterKeyword;
+    if (text[start] === "\r") start++;
+    if (text[start] === "\n") start++;
+
+    const length = dict.get("Length");
+    if (typeof length === "number" && /^\s*endstream/.test(text.substring(start + length, start + length + 32))) {
+      return { stream: { type: "stream", dict, raw: this.data.subarray(start, start + length) }, end: start + length };
+    }
+    // Indirect or wrong length: the data ends before the next endstream
+    let end = text.indexOf("endstream", start);
+    if (end < 0) end = text.length;
+    const next = end;
+    if (text[end - 1] === "\n") end--;
+    if (text[end - 1] === "\r") end--;
+    return { stream: { type: "stream", dict, raw: this.data.subarray(start, end) }, end: next };
+  }
+
+  private readObjectStreams(): void {
+    for (const value of [...this.objects.values()]) {
+      if (!isStream(value) || !isName(value.dict.get("Type"), "ObjStm")) {
+        continue;
+      }
+      try {
+        const data = decodeStream(value);
+        const count = this.resolve(value.dict.get("N"));
+        const first = this.resolve(value.dict.get("First"));
+        if (!data || typeof count !== "number" || typeof first !== "number") {
+          continue;
+        }
+        const header = new PdfParser(data, 0, false);
+        for (let i = 0; i < count; i++) {
+          const num = header.parse();
+          const offset = header.parse();
+          if (typeof num !== "number" || typeof offset !== "number") break;
+          // Objects defined directly in the file take precedence
+          if (!this.objects.has(num)) {
+            this.objects.set(num, new PdfParser(data, first + offset).parse());
+          }
+        }
+      } catch {
+        // Skip object streams we can't read
+      }
+    }
+  }
+
+  resolve(value: PdfObject | undefined, depth = 0): PdfObject | undefined {
+    if (typeof value === "object" && value !== null && !Array.isArray(value) && !isDict(value) && value.type === "ref") {
+      return depth > 32 ? undefined : this.resolve(this.objects.get(value.num), depth + 1);
+    }
+    return value;
+  }
+
+  get(dict: PdfDict | undefined, key: string): PdfObject | undefined {
+    return this.resolve(dict?.get(key));
+  }
+
+  get encrypted(): boolean {
+    return this.trailers.some((trailer) => trailer.has("Encrypt"));
+  }
+
+  /**
+   * The page dictionaries in order, with inherited resources.
+   */
+  pages(): { page: PdfDict; resources: PdfDict | undefined }[] {
+    let catalog: PdfObject | undefined;
+    for (const trailer of [...this.trailers].reverse()) {
+      catalog = this.get(trailer, "Root");
+      if (isDict(catalog)) break;
+    }
+    if (!isDict(catalog)) {
+      catalog = [...this.objects.values()].find((value) => isDict(value) && isName(value.get("Type"), "Catalog"));
+    }
+    if (!isDict(catalog)) {
+      throw new Error("no document catalog (the file may be truncated)");
+    }
+
+    const pages: { page: PdfDict; resources: PdfDict | undefined }[] = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfObject | undefined, inherited: PdfDict | undefined) => {
+      if (!isDict(node) || visited.has(node)) return;
+      visited.add(node);
+      const resources = this.get(node, "Resources");
+      const own = isDict(resources) ? resources : inherited;
+      const kids = this.get(node, "Kids");
+      if (Array.isArray(kids)) {
+        for (const kid of kids) {
+          walk(this.resolve(kid), own);
+        }
+      } else if (!isName(node.get("Type"), "Pages")) {
+        pages.push({ page: node, resources: own });
+      }
+    };
+    walk(this.get(catalog, "Pages"), undefined);
+    return pages;
+  }
+}
+
+// ============================================================================
+// Fonts
+// ============================================================================
+
+/**
+ * Decodes the bytes of a shown string to text for one font.
+ */
+interface FontDecoder {
+  decode(bytes: Buffer): string;
+}
+
+function utf16be(bytes: Buffer): string {
+  let text = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(bytes.readUInt16BE(i));
+  }
+  return text;
+}
+
+/**
+ * Build a decoder from a ToUnicode CMap.
+ */
+function parseToUnicode(cmap: Buffer): FontDecoder {
+  const map = new Map<string, string>();
+  const codeLengths = new Set<number>();
+  const parser = new PdfParser(cmap, 0, false);
+  const operands: PdfObject[] = [];
+
+  const key = (bytes: Buffer) => bytes.toString("hex");
+  const hexOf = (value: PdfObject | undefined) => (isString(value) ? value.bytes : undefined);
+
+  while (!parser.done) {
+    const token = parser.parse();
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+    if (token.value === "endcodespacerange") {
+      for (const operand of operands) {
+        const bytes = hexOf(operand);
+        if (bytes) codeLengths.add(bytes.length);
+      }
+    } else if (token.value === "endbfchar") {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const source = hexOf(operands[i]);
+        const target = hexOf(operands[i + 1]);
+        if (source && target) {
+          map.set(key(source), utf16be(target));
+          codeLengths.add(source.length);
+        }
+      }
+    } else if (token.value === "endbfrange") {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const low = hexOf(operands[i]);
+        const high = hexOf(operands[i + 1]);
+        const target = operands[i + 2];
+        if (!low || !high || low.length > 4) continue;
+        codeLengths.add(low.length);
+        const start = low.readUIntBE(0, low.length);
+        const end = Math.min(high.readUIntBE(0, high.length), start + 0xffff);
+        for (let code = start; code <= end; code++) {
+          const source = Buffer.alloc(low.length);
+          source.writeUIntBE(code, 0, low.length);
+          if (Array.isArray(target)) {
+            const item = hexOf(target[code - start]);
+            if (item) map.set(key(source), utf16be(item));
+          } else {
+            const base = hexOf(target);
+            if (!base || base.length < 2) continue;
+            // Increment the last UTF-16 unit of the destination
+            const value = Buffer.from(base);
+            value.writeUInt16BE((value.readUInt16BE(value.length - 2) + code - start) & 0xffff, value.length - 2);
+            map.set(key(source), utf16be(value));
+          }
+        }
+      }
+    }
+    if (token.value.startsWith("end") || token.value.startsWith("begin")) {
+      operands.length = 0;
+    }
+  }
+
+  const lengths = [...codeLengths].sort((a, b) => a - b);
+  if (lengths.length === 0) lengths.push(1);
+  return {
+    decode(bytes: Buffer): string {
+      let text = "";
+      let i = 0;
+      while (i < bytes.length) {
+        let matched = false;
+        for (const length of lengths) {
+          const mapped = map.get(key(bytes.subarray(i, i + length)));
+          if (mapped !== undefined) {
+            text += mapped;
+            i += length;
+            matched = true;
+            break;
+          }
+        }
+        if (!matched) {
+          i += lengths[lengths.length - 1]!;
+        }
+      }
+      return text;
+    },
+  };
+}
+
+/** Simple fonts without a ToUnicode map: close enough to WinAnsi for text */
+const LATIN1_DECODER: FontDecoder = {
+  decode: (bytes) => bytes.toString("latin1"),
+};
+
+/** Composite fonts without a ToUnicode map: the codes are glyph ids we can't map */
+const EMPTY_DECODER: FontDecoder = {
+  decode: () => "",
+};
+
+function createFontDecoder(doc: PdfDocument, font: PdfObject | undefined): FontDecoder {
+  if (!isDict(font)) {
+    return LATIN1_DECODER;
+  }
+  const toUnicode = doc.get(font, "ToUnicode");
+  if (isStream(toUnicode)) {
+    const cmap = decodeStream(toUnicode);
+    if (cmap) {
+      return parseToUnicode(cmap);
+    }
+  }
+  return isName(font.get("Subtype"), "Type0") ? EMPTY_DECODER : LATIN1_DECODER;
+}
+
+// ============================================================================
+// Text extraction
+// ============================================================================
+
+/** TJ offset (thousandths of an em) wide enough to count as a space */
+const TJ_SPACE_THRESHOLD = 200;
+/** Nesting limit for form XObjects */
+const MAX_FORM_DEPTH = 8;
+
+/**
+ * Collects shown text into lines.
+ */
+class TextCollector {
+  lines: string[] = [];
+  private line = "";
+
+  write(text: string): void {
+    this.line += text;
+  }
+
+  space(): void {
+    if (this.line && !/\s$/.test(this.line)) {
+      this.line += " ";
+    }
+  }
+
+  newline(): void {
+    this.lines.push(this.line.trimEnd());
+    this.line = "";
+  }
+
+  finish(): string {
+    if (this.line) this.newline();
+    return this.lines
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+}
+
+function extractContentText(
+  doc: PdfDocument,
+  content: Buffer,
+  resources: PdfDict | undefined,
+  collector: TextCollector,
+  depth: number
+): void {
+  const fonts = doc.get(resources, "Font");
+  const xobjects = doc.get(resources, "XObject");
+  const decoders = new Map<string, FontDecoder>();
+  const decoderFor = (name: string) => {
+    let decoder = decoders.get(name);
+    if (!decoder) {
+      decoder = createFontDecoder(doc, doc.get(isDict(fonts) ? fonts : undefined, name));
+      decoders.set(name, decoder);
+    }
+    return decoder;
+  };
+
+  let decoder = LATIN1_DECODER;
+  let lastY: number | undefined;
+  const parser = new PdfParser(content, 0, false);
+  const operands: PdfObject[] = [];
+  const show = (value: PdfObject | undefined) => {
+    if (isString(value)) {
+      collector.write(decoder.decode(value.bytes));
+    }
+  };
+
+  while (!parser.done) {
+    let token: PdfObject;
+    try {
+      token = parser.parse();
+    } catch {
+      break;
+    }
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case "BT":
+        lastY = undefined;
+        break;
+      case "Tf":
+        if (isName(operands[0])) decoder = decoderFor(operands[0].value);
+        break;
+      case "Tj":
+        show(operands[0]);
+        break;
+      case "'":
+        collector.newline();
+        show(operands[0]);
+        break;
+      case '"':
+        collector.newline();
+        show(operands[2]);
+        break;
+      case "TJ":
+        if (Array.isArray(operands[0])) {
+          for (const item of operands[0]) {
+            if (typeof item === "number") {
+              if (item < -TJ_SPACE_THRESHOLD) collector.space();
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      case "Td":
+      case "TD": {
+        const [tx, ty] = operands;
+        if (typeof ty === "number" && ty !== 0) {
+          collector.newline();
+        } else if (typeof tx === "number" && tx !== 0) {
+          collector.space();
+        }
+        break;
+      }
+      case "T*":
+        collector.newline();
+        break;
+      case "Tm": {
+        const y = operands[5];
+        if (typeof y === "number") {
+          if (lastY !== undefined && Math.abs(y - lastY) > 0.5) {
+            collector.newline();
+          } else if (lastY !== undefined) {
+            collector.space();
+          }
+          lastY = y;
+        }
+        break;
+      }
+      case "ET":
+        collector.space();
+        break;
+      case "ID":
+        parser.skipInlineImage();
+        break;
+      case "Do": {
+        const form = isName(operands[0]) ? doc.get(isDict(xobjects) ? xobjects : undefined, operands[0].value) : undefined;
+        if (depth < MAX_FORM_DEPTH && isStream(form) && isName(form.dict.get("Subtype"), "Form")) {
+          const data = decodeStream(form);
+          if (data) {
+            const formResources = doc.get(form.dict, "Resources");
+            extractContentText(doc, data, isDict(formResources) ? formResources : resources, collector, depth + 1);
+          }
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+}
+
+/**
+ * Extract the text of each page of a PDF.
+ *
+ * @param bytes - The PDF file
+ * @returns One string per page (empty for pages without text)
+ * @throws If the file is not a PDF or is encrypted
+ */
+export function extractPdfPages(bytes: Uint8Array): string[] {
+  const doc = new PdfDocument(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+  if (doc.encrypted) {
+    throw new Error("encrypted PDFs are not supported");
+  }
+
+  return doc.pages().map(({ page, resources }) => {
+    const contents = doc.get(page, "Contents");
+    const streams = (Array.isArray(contents) ? contents.map((c) => doc.resolve(c)) : [contents]).filter(isStream);
+    const collector = new TextCollector();
+    for (const stream of streams) {
+      try {
+        const data = decodeStream(stream);
+        if (data) {
+          extractContentText(doc, data, resources, collector, 0);
+          collector.newline();
+        }
+      } catch {
+        // Skip content streams we can't decode
+      }
+    }
+    return collector.finish();
+  });
+}
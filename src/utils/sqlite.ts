@@ -0,0 +1,56 @@
+/**
+ * Minimal SQLite driver loader shared by SqliteStore and SqliteSaver.
+ *
+ * Uses `bun:sqlite` when running on Bun and falls back to `better-sqlite3`
+ * on Node.js. Both drivers are loaded lazily so that importing the package
+ * does not require either of them.
+ */
+
+/**
+ * Prepared statement API shared by `bun:sqlite` and `better-sqlite3`.
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Database API shared by `bun:sqlite` and `better-sqlite3`.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  transaction<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R;
+  close(): void;
+}
+
+/**
+ * Open a SQLite database with WAL journaling enabled.
+ *
+ * @param path - Database file path, or ":memory:" for an in-memory database
+ * @throws Error if neither `bun:sqlite` nor `better-sqlite3` is available
+ */
+export function openSqliteDatabase(path: string): SqliteDatabase {
+  let db: SqliteDatabase;
+
+  if (typeof Bun !== "undefined") {
+    const { Database } = require("bun:sqlite");
+    db = new Database(path, { create: true });
+  } else {
+    let BetterSqlite3: new (path: string) => SqliteDatabase;
+    try {
+      BetterSqlite3 = require("better-sqlite3");
+    } catch {
+      throw new Error(
+        "SQLite storage requires Bun or the better-sqlite3 package. Install it with: npm install better-sqlite3"
+      );
+    }
+    db = new BetterSqlite3(path);
+  }
+
+  db.exec("PRAGMA journal_mode = WAL;");
+  db.exec("PRAGMA synchronous = NORMAL;");
+  db.exec("PRAGMA busy_timeout = 5000;");
+  return db;
+}
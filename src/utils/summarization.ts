@@ -6,8 +6,9 @@
  */
 
 import { generateText, type LanguageModel } from "ai";
-import type { ModelMessage } from "../types";
+import type { ModelMessage, TokenUsage } from "../types";
 import { estimateTokens } from "./eviction";
+import { toTokenUsage } from "./usage";
 import {
   DEFAULT_SUMMARIZATION_THRESHOLD as CENTRALIZED_THRESHOLD,
   DEFAULT_KEEP_MESSAGES as CENTRALIZED_KEEP,
@@ -52,10 +53,65 @@ export interface SummarizationResult {
   tokensBefore?: number;
   /** Token count after processing */
   tokensAfter?: number;
+  /** Tokens used by the summarization model call, when one was made */
+  usage?: TokenUsage;
+}
+
+/**
+ * Maximum characters of a tool call input or tool result kept in the
+ * summarization transcript. Keeps the summary prompt bounded when the
+ * history contains large file reads or command outputs.
+ */
+const MAX_TOOL_TEXT_IN_SUMMARY = 2000;
+
+/**
+ * Stringify a value for token estimation and summary formatting.
+ */
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Extract text from a tool-result output (`{ type, value }` in AI SDK v6).
+ */
+function getToolOutputText(part: object): string {
+  const output = "output" in part ? part.output : "result" in part ? part.result : undefined;
+  if (typeof output === "object" && output !== null) {
+    if ("value" in output) return stringifyValue(output.value);
+    if ("reason" in output) return stringifyValue(output.reason);
+  }
+  return stringifyValue(output);
+}
+
+/**
+ * Get the raw text carried by a message content part, including tool call
+ * inputs and tool result outputs.
+ */
+function getPartText(part: unknown): string {
+  if (typeof part !== "object" || part === null) return "";
+  if ("text" in part) return String(part.text);
+  if ("type" in part) {
+    if (part.type === "tool-call") {
+      return stringifyValue("input" in part ? part.input : "args" in part ? part.args : undefined);
+    }
+    if (part.type === "tool-result") {
+      return getToolOutputText(part);
+    }
+  }
+  return "";
 }
 
 /**
  * Estimate total tokens in a messages array.
+ *
+ * Counts text parts as well as tool call inputs and tool result outputs,
+ * since those make up most of the history in tool-heavy conversations.
  */
 export function estimateMessagesTokens(messages: ModelMessage[]): number {
   let total = 0;
@@ -65,8 +121,9 @@ export function estimateMessagesTokens(messages: ModelMessage[]): number {
       total += estimateTokens(message.content);
     } else if (Array.isArray(message.content)) {
       for (const part of message.content) {
-        if (typeof part === "object" && part !== null && "text" in part) {
-          total += estimateTokens(String(part.text));
+        const text = getPartText(part);
+        if (text) {
+          total += estimateTokens(text);
         }
       }
     }
@@ -75,6 +132,14 @@ export function estimateMessagesTokens(messages: ModelMessage[]): number {
   return total;
 }
 
+/**
+ * Truncate tool text for the summarization transcript.
+ */
+function truncateForSummary(text: string): string {
+  if (text.length <= MAX_TOOL_TEXT_IN_SUMMARY) return text;
+  return `${text.substring(0, MAX_TOOL_TEXT_IN_SUMMARY)}... [truncated]`;
+}
+
 /**
  * Extract text content from a message.
  */
@@ -90,11 +155,12 @@ function getMessageText(message: ModelMessage): string {
           return String(part.text);
         }
         if (typeof part === "object" && part !== null && "type" in part) {
+          const toolName = (part as { toolName?: string }).toolName || "unknown";
           if (part.type === "tool-call") {
-            return `[Tool call: ${(part as { toolName?: string }).toolName || "unknown"}]`;
+            return `[Tool call: ${toolName}] ${truncateForSummary(getPartText(part))}`;
           }
           if (part.type === "tool-result") {
-            return `[Tool result]`;
+            return `[Tool result: ${toolName}] ${truncateForSummary(getPartText(part))}`;
           }
         }
         return "";
@@ -112,7 +178,14 @@ function getMessageText(message: ModelMessage): string {
 function formatMessagesForSummary(messages: ModelMessage[]): string {
   return messages
     .map((msg) => {
-      const role = msg.role === "user" ? "User" : msg.role === "assistant" ? "Assistant" : "System";
+      const role =
+        msg.role === "user"
+          ? "User"
+          : msg.role === "assistant"
+            ? "Assistant"
+            : msg.role === "tool"
+              ? "Tool"
+              : "System";
       const text = getMessageText(msg);
       return `${role}: ${text}`;
     })
@@ -127,7 +200,7 @@ async function generateSummary(
   model: LanguageModel,
   generationOptions?: any,
   advancedOptions?: any
-): Promise<string> {
+): Promise<{ text: string; usage: TokenUsage }> {
   const conversationText = formatMessagesForSummary(messages);
 
   const generateTextOptions: any = {
@@ -152,7 +225,7 @@ Keep the summary focused and avoid redundancy. The summary should allow someone
   }
 
   const result = await generateText(generateTextOptions);
-  return result.text;
+  return { text: result.text, usage: toTokenUsage(result.totalUsage) };
 }
 
 /**
@@ -211,12 +284,27 @@ export async function summarizeIfNeeded(
     };
   }
 
-  // Split messages: older ones to summarize, recent ones to keep
-  const messagesToSummarize = messages.slice(0, -keepMessages);
-  const messagesToKeep = messages.slice(-keepMessages);
+  // Split messages: older ones to summarize, recent ones to keep.
+  // Never start the kept window with tool results - move the split back so the
+  // assistant message holding the matching tool calls is kept alongside them.
+  let splitIndex = messages.length - keepMessages;
+  while (splitIndex > 0 && messages[splitIndex]?.role === "tool") {
+    splitIndex--;
+  }
+
+  if (splitIndex === 0) {
+    return {
+      summarized: false,
+      messages,
+      tokensBefore,
+    };
+  }
+
+  const messagesToSummarize = messages.slice(0, splitIndex);
+  const messagesToKeep = messages.slice(splitIndex);
 
   // Generate summary
-  const summary = await generateSummary(
+  const { text: summary, usage } = await generateSummary(
     messagesToSummarize,
     model,
     options.generationOptions,
@@ -238,6 +326,7 @@ export async function summarizeIfNeeded(
     messages: newMessages,
     tokensBefore,
     tokensAfter,
+    usage,
   };
 }
 
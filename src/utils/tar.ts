@@ -0,0 +1,278 @@
+/**
+ * Minimal tar archive support for moving files in and out of containers.
+ *
+ * Writes ustar archives (with PAX headers for long names) and reads the
+ * ustar, PAX and GNU long-name variants produced by `tar` and `docker cp`.
+ */
+
+const BLOCK_SIZE = 512;
+
+/**
+ * An entry read from a tar archive.
+ */
+export interface TarEntry {
+  /** Entry name, without a leading `./` */
+  name: string;
+  type: "file" | "directory" | "symlink" | "other";
+  /** File contents (empty for non-files) */
+  content: Uint8Array;
+  /** Permission bits, e.g. 0o755 */
+  mode: number;
+  /** Target of a symlink */
+  linkTarget?: string;
+}
+
+/**
+ * Optional details of a file written to a tar archive.
+ */
+export interface TarFileOptions {
+  /** Permission bits (default: 0o644) */
+  mode?: number;
+  /** Write a symlink to this target instead of a regular file */
+  linkTarget?: string;
+}
+
+/**
+ * Write an ASCII value into a header field.
+ */
+function writeField(header: Buffer, offset: number, length: number, value: string): void {
+  header.write(value.substring(0, length), offset, length, "ascii");
+}
+
+/**
+ * Write a zero-padded octal number into a header field.
+ */
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  writeField(header, offset, length, value.toString(8).padStart(length - 1, "0") + "\0");
+}
+
+/**
+ * Build a 512-byte tar header.
+ */
+function buildHeader(
+  name: string,
+  size: number,
+  typeflag: string,
+  prefix: string = "",
+  mode: number = typeflag === "5" ? 0o755 : 0o644,
+  linkTarget: string = ""
+): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(name, 0, 100, "utf-8");
+  writeOctal(header, 100, 8, mode & 0o7777);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(Date.now() / 1000));
+  writeField(header, 148, 8, "        ");
+  writeField(header, 156, 1, typeflag);
+  header.write(linkTarget, 157, 100, "utf-8");
+  writeField(header, 257, 6, "ustar\0");
+  writeField(header, 263, 2, "00");
+  header.write(prefix, 345, 155, "utf-8");
+
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  writeField(header, 148, 8, checksum.toString(8).padStart(6, "0") + "\0 ");
+  return header;
+}
+
+/**
+ * Pad data with zeros to a whole number of blocks.
+ */
+function padToBlock(data: Uint8Array): Buffer {
+  const padded = Buffer.alloc(Math.ceil(data.length / BLOCK_SIZE) * BLOCK_SIZE);
+  padded.set(data);
+  return padded;
+}
+
+/**
+ * Encode a PAX extended header record; its length field counts itself.
+ */
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + 1;
+  while (length !== bodyLength + String(length).length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+}
+
+/**
+ * Split a name into ustar prefix and name fields, or null if it does not fit.
+ */
+function splitUstarName(name: string): [string, string] | null {
+  if (Buffer.byteLength(name) <= 100) {
+    return ["", name];
+  }
+  for (let i = name.indexOf("/"); i !== -1; i = name.indexOf("/", i + 1)) {
+    const prefix = name.substring(0, i);
+    const rest = name.substring(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) {
+      return [prefix, rest];
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a tar archive of regular files and symlinks.
+ *
+ * @param files - Entry names (relative, `/`-separated), contents and optional
+ *   mode or symlink target (a symlink's content is ignored)
+ * @returns The archive, including the two terminating zero blocks
+ */
+export function createTarArchive(files: Array<[string, Uint8Array, TarFileOptions?]>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, data, options = {}] of files) {
+    const { mode, linkTarget } = options;
+    const content = linkTarget === undefined ? data : new Uint8Array(0);
+    const typeflag = linkTarget === undefined ? "0" : "2";
+    const split = splitUstarName(name);
+    const longLink = linkTarget !== undefined && Buffer.byteLength(linkTarget) > 100;
+
+    // PAX extended header for a path or link target too long for the ustar fields
+    let pax = split ? "" : paxRecord("path", name);
+    if (longLink) {
+      pax += paxRecord("linkpath", linkTarget);
+    }
+    if (pax) {
+      const record = Buffer.from(pax, "utf-8");
+      blocks.push(buildHeader("PaxHeader", record.length, "x"), padToBlock(record));
+    }
+
+    const [prefix, shortName] = split ?? ["", name.substring(name.length - 100)];
+    const shortLink = linkTarget === undefined || longLink ? "" : linkTarget;
+    blocks.push(buildHeader(shortName, content.length, typeflag, prefix, mode, shortLink));
+    blocks.push(padToBlock(content));
+  }
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Read a NUL-terminated string field.
+ */
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+/**
+ * Read a numeric field, in octal or base-256 encoding.
+ */
+function readNumber(block: Buffer, offset: number, length: number): number {
+  const field = block.subarray(offset, offset + length);
+  if (field[0]! & 0x80) {
+    let value = field[0]! & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + field[i]!;
+    }
+    return value;
+  }
+  const text = field.toString("ascii").replace(/[\0 ]+/g, "");
+  return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * Parse the records of a PAX extended header.
+ */
+function readPaxRecords(data: Buffer): Map<string, string> {
+  // Record lengths count bytes, so parse the buffer rather than decoded text
+  const records = new Map<string, string>();
+  let index = 0;
+  while (index < data.length) {
+    const space = data.indexOf(0x20, index);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(index, space).toString("ascii"), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, index + length - 1).toString("utf-8");
+    const equals = record.indexOf("=");
+    if (equals > 0) {
+      records.set(record.substring(0, equals), record.substring(equals + 1));
+    }
+    index += length;
+  }
+  return records;
+}
+
+/**
+ * Read the entries of a tar archive.
+ *
+ * @throws If the archive is truncated
+ */
+export function readTarArchive(archive: Uint8Array): TarEntry[] {
+  const data = Buffer.from(archive.buffer, archive.byteOffset, archive.byteLength);
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  let longLink: string | undefined;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = readNumber(header, 124, 12);
+    const typeflag = String.fromCharCode(header[156]!);
+    const contentStart = offset + BLOCK_SIZE;
+    const contentEnd = contentStart + size;
+    if (contentEnd > data.length) {
+      throw new Error("Truncated tar archive");
+    }
+    const content = data.subarray(contentStart, contentEnd);
+    offset = contentStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeflag === "x") {
+      const records = readPaxRecords(content);
+      longName = records.get("path") ?? longName;
+      longLink = records.get("linkpath") ?? longLink;
+      continue;
+    }
+    if (typeflag === "L") {
+      longName = readString(content, 0, content.length);
+      continue;
+    }
+    if (typeflag === "K") {
+      longLink = readString(content, 0, content.length);
+      continue;
+    }
+    if (typeflag === "g") {
+      continue;
+    }
+
+    let name = longName;
+    const linkTarget = longLink ?? readString(header, 157, 100);
+    longName = undefined;
+    longLink = undefined;
+    if (name === undefined) {
+      const prefix = readString(header, 345, 155);
+      name = readString(header, 0, 100);
+      if (prefix && readString(header, 257, 6) === "ustar") {
+        name = `${prefix}/${name}`;
+      }
+    }
+
+    entries.push({
+      name: name.replace(/^\.\//, "").replace(/\/$/, ""),
+      type:
+        typeflag === "0" || typeflag === "\0" || typeflag === "7"
+          ? "file"
+          : typeflag === "5"
+            ? "directory"
+            : typeflag === "2"
+              ? "symlink"
+              : "other",
+      content: new Uint8Array(content),
+      mode: readNumber(header, 100, 8) & 0o7777,
+      ...(typeflag === "2" ? { linkTarget } : {}),
+    });
+  }
+
+  return entries;
+}
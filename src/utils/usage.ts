@@ -0,0 +1,137 @@
+/**
+ * Token usage and cost accounting.
+ *
+ * Converts AI SDK usage reports into TokenUsage totals, prices them with an
+ * optional price table and rolls them up by source (agent, subagents,
+ * summarization).
+ */
+
+import type { LanguageModel, LanguageModelUsage } from "ai";
+import type { ModelPricing, PriceTable, TokenUsage, UsageSummary } from "../types";
+
+/**
+ * Create a usage record with all counts at zero.
+ */
+export function createEmptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cachedInputTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+  };
+}
+
+/**
+ * Convert an AI SDK usage report into a TokenUsage record.
+ * Counts the provider did not report are treated as zero.
+ */
+export function toTokenUsage(usage: LanguageModelUsage | undefined): TokenUsage {
+  if (!usage) {
+    return createEmptyUsage();
+  }
+
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+    cachedInputTokens: usage.inputTokenDetails?.cacheReadTokens ?? usage.cachedInputTokens ?? 0,
+    cacheWriteTokens: usage.inputTokenDetails?.cacheWriteTokens ?? 0,
+    reasoningTokens: usage.outputTokenDetails?.reasoningTokens ?? usage.reasoningTokens ?? 0,
+  };
+}
+
+/**
+ * Add two usage records. Cost is kept if either side has one.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const sum: TokenUsage = {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+  };
+  if (a.cost !== undefined || b.cost !== undefined) {
+    sum.cost = (a.cost ?? 0) + (b.cost ?? 0);
+  }
+  return sum;
+}
+
+/**
+ * Get the model ID used to look up prices.
+ */
+export function getModelId(model: LanguageModel): string {
+  return typeof model === "string" ? model : model.modelId;
+}
+
+/**
+ * Calculate the dollar cost of token usage with the given prices.
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const uncachedInput = Math.max(
+    0,
+    usage.inputTokens - usage.cachedInputTokens - usage.cacheWriteTokens
+  );
+  const cost =
+    uncachedInput * pricing.inputPerMillion +
+    usage.cachedInputTokens * (pricing.cachedInputPerMillion ?? pricing.inputPerMillion) +
+    usage.cacheWriteTokens * (pricing.cacheWritePerMillion ?? pricing.inputPerMillion) +
+    usage.outputTokens * pricing.outputPerMillion;
+  return cost / 1_000_000;
+}
+
+/**
+ * Attach the cost of usage produced by `model`, if the price table covers it.
+ */
+export function priceUsage(
+  usage: TokenUsage,
+  model: LanguageModel,
+  priceTable?: PriceTable
+): TokenUsage {
+  const pricing = priceTable?.[getModelId(model)];
+  return pricing ? { ...usage, cost: calculateCost(usage, pricing) } : usage;
+}
+
+/**
+ * Create a usage summary with all sources at zero.
+ */
+export function createUsageSummary(): UsageSummary {
+  return {
+    total: createEmptyUsage(),
+    agent: createEmptyUsage(),
+    subagents: createEmptyUsage(),
+    summarization: createEmptyUsage(),
+  };
+}
+
+/**
+ * Add usage from one source to a summary, returning a new summary.
+ */
+export function addToUsageSummary(
+  summary: UsageSummary,
+  source: Exclude<keyof UsageSummary, "total">,
+  usage: TokenUsage
+): UsageSummary {
+  return {
+    ...summary,
+    total: addUsage(summary.total, usage),
+    [source]: addUsage(summary[source], usage),
+  };
+}
+
+/**
+ * Add two usage summaries, e.g. a thread's previous total and the current run.
+ */
+export function mergeUsageSummaries(a: UsageSummary, b: UsageSummary): UsageSummary {
+  return {
+    total: addUsage(a.total, b.total),
+    agent: addUsage(a.agent, b.agent),
+    subagents: addUsage(a.subagents, b.subagents),
+    summarization: addUsage(a.summarization, b.summarization),
+  };
+}
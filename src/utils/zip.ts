@@ -0,0 +1,91 @@
+/**
+ * Minimal zip archive reading, for Office documents.
+ *
+ * Reads the central directory and stored or deflated entries. Zip64,
+ * encryption and multi-disk archives are not supported.
+ */
+
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** End of central directory record size, plus the longest possible comment */
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+/**
+ * Check whether bytes start like a zip archive.
+ */
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && Buffer.from(bytes.subarray(0, 4)).readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+/**
+ * Read the files of a zip archive.
+ *
+ * @param bytes - The archive
+ * @param include - Only decompress entries whose names pass this check
+ * @returns File contents by entry name (directories are skipped)
+ * @throws If the archive is malformed or uses an unsupported feature
+ */
+export function readZipEntries(
+  bytes: Uint8Array,
+  include: (name: string) => boolean = () => true
+): Map<string, Uint8Array> {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - MAX_END_RECORD_SEARCH); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error("not a zip archive");
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("zip64 archives are not supported");
+  }
+
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("corrupt zip central directory");
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || !include(name)) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new Error(`encrypted zip entry: ${name}`);
+    }
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`corrupt zip entry: ${name}`);
+    }
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, new Uint8Array(data));
+    } else if (method === 8) {
+      entries.set(name, new Uint8Array(inflateRawSync(data)));
+    } else {
+      throw new Error(`unsupported zip compression method ${method}: ${name}`);
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,209 @@
+/**
+ * Tests for binary file support across backends.
+ */
+
+import { test, describe, expect, beforeEach, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StateBackend } from "@/backends/state";
+import { FilesystemBackend } from "@/backends/filesystem";
+import { PersistentBackend, InMemoryStore } from "@/backends/persistent";
+import { CompositeBackend } from "@/backends/composite";
+import { createFileDataFromBytes, getMimeType, isBinaryContent } from "@/backends/utils";
+import { createReadFileTool } from "@/tools/filesystem";
+import type { BackendProtocol, DeepAgentState } from "@/types";
+
+// Minimal PNG header followed by a NUL byte, so it is never valid text
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+const TEXT_BYTES = new TextEncoder().encode("hello\nworld");
+
+function expectRoundTrip(backend: BackendProtocol) {
+  test("uploads and downloads binary bytes unchanged", async () => {
+    const uploads = await backend.uploadFiles!([["/img/logo.png", PNG_BYTES]]);
+    expect(uploads).toEqual([{ path: "/img/logo.png", error: null }]);
+
+    const [download] = await backend.downloadFiles!(["/img/logo.png"]);
+    expect(download?.error).toBeNull();
+    expect(download?.mimeType).toBe("image/png");
+    expect(Array.from(download!.content!)).toEqual(Array.from(PNG_BYTES));
+  });
+
+  test("stores uploaded text as a readable, editable file", async () => {
+    await backend.uploadFiles!([["/notes.txt", TEXT_BYTES]]);
+
+    expect(await backend.read("/notes.txt")).toContain("hello");
+    const result = await backend.edit("/notes.txt", "world", "there");
+    expect(result.success).toBe(true);
+  });
+
+  test("refuses to display or edit binary files", async () => {
+    await backend.uploadFiles!([["/data.bin", PNG_BYTES]]);
+
+    const content = await backend.read("/data.bin");
+    expect(content).toContain("Binary file");
+    expect(content).toContain("application/octet-stream");
+
+    const result = await backend.edit("/data.bin", "a", "b");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("binary");
+  });
+
+  test("reports missing files per path", async () => {
+    await backend.uploadFiles!([["/present.png", PNG_BYTES]]);
+    const downloads = await backend.downloadFiles!(["/present.png", "/missing.png"]);
+
+    expect(downloads[0]?.error).toBeNull();
+    expect(downloads[1]).toMatchObject({ path: "/missing.png", content: null, error: "file_not_found" });
+  });
+}
+
+describe("backends/utils binary helpers", () => {
+  test("detects binary content", () => {
+    expect(isBinaryContent(PNG_BYTES)).toBe(true);
+    expect(isBinaryContent(TEXT_BYTES)).toBe(false);
+    expect(isBinaryContent(new Uint8Array([0xc3, 0x28]))).toBe(true);
+  });
+
+  test("guesses MIME types from extensions", () => {
+    expect(getMimeType("/a/photo.JPG")).toBe("image/jpeg");
+    expect(getMimeType("/a/doc.pdf")).toBe("application/pdf");
+    expect(getMimeType("/a/unknown.xyz")).toBe("application/octet-stream");
+  });
+
+  test("binary FileData survives a JSON round-trip", () => {
+    const fileData = createFileDataFromBytes("/logo.png", PNG_BYTES);
+    const restored = JSON.parse(JSON.stringify(fileData));
+
+    expect(restored.content).toEqual([]);
+    expect(restored.mimeType).toBe("image/png");
+    expect(Array.from(Buffer.from(restored.data, "base64"))).toEqual(Array.from(PNG_BYTES));
+  });
+});
+
+describe("StateBackend binary files", () => {
+  expectRoundTrip(new StateBackend({ todos: [], files: {} }));
+
+  test("reports binary size in ls", async () => {
+    const backend = new StateBackend({ todos: [], files: {} });
+    await backend.uploadFiles([["/logo.png", PNG_BYTES]]);
+    expect(backend.lsInfo("/")[0]?.size).toBe(PNG_BYTES.length);
+  });
+});
+
+describe("PersistentBackend binary files", () => {
+  expectRoundTrip(new PersistentBackend({ store: new InMemoryStore() }));
+});
+
+describe("FilesystemBackend binary files", () => {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "binary-test-"));
+  expectRoundTrip(new FilesystemBackend({ rootDir, virtualMode: true }));
+
+  test("rejects paths outside the root", async () => {
+    const backend = new FilesystemBackend({ rootDir, virtualMode: true });
+    const [upload] = await backend.uploadFiles([["/../escape.bin", PNG_BYTES]]);
+    expect(upload?.error).toBe("invalid_path");
+  });
+
+  test("reads binary files from disk as base64 FileData", async () => {
+    fs.writeFileSync(path.join(rootDir, "disk.png"), PNG_BYTES);
+    const backend = new FilesystemBackend({ rootDir, virtualMode: true });
+
+    const fileData = await backend.readRaw("/disk.png");
+    expect(fileData.mimeType).toBe("image/png");
+    expect(fileData.data).toBe(Buffer.from(PNG_BYTES).toString("base64"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+});
+
+describe("CompositeBackend binary files", () => {
+  let routed: StateBackend;
+  let backend: CompositeBackend;
+
+  beforeEach(() => {
+    routed = new StateBackend({ todos: [], files: {} });
+    backend = new CompositeBackend(new StateBackend({ todos: [], files: {} }), {
+      "/assets/": routed,
+    });
+  });
+
+  test("routes uploads and downloads with the stripped key", async () => {
+    await backend.uploadFiles([["/assets/logo.png", PNG_BYTES]]);
+
+    const [direct] = await routed.downloadFiles(["/logo.png"]);
+    expect(direct?.error).toBeNull();
+
+    const [download] = await backend.downloadFiles(["/assets/logo.png"]);
+    expect(download?.path).toBe("/assets/logo.png");
+    expect(download?.mimeType).toBe("image/png");
+  });
+
+  test("fails when the routed backend has no byte support", async () => {
+    const textOnly: BackendProtocol = {
+      lsInfo: () => [],
+      read: () => "",
+      readRaw: () => ({ content: [], created_at: "", modified_at: "" }),
+      grepRaw: () => [],
+      globInfo: () => [],
+      write: () => ({ success: true }),
+      edit: () => ({ success: true }),
+    };
+    const composite = new CompositeBackend(textOnly, {});
+
+    const [upload] = await composite.uploadFiles([["/a.png", PNG_BYTES]]);
+    expect(upload?.error).toBe("permission_denied");
+  });
+});
+
+describe("read_file image output", () => {
+  let state: DeepAgentState;
+  let backend: StateBackend;
+
+  beforeEach(async () => {
+    state = { todos: [], files: {} };
+    backend = new StateBackend(state);
+    await backend.uploadFiles([["/logo.png", PNG_BYTES]]);
+  });
+
+  test("returns images as image content for the model", async () => {
+    const readFile = createReadFileTool(state, backend);
+    const output = await readFile.execute!(
+      { file_path: "/logo.png", offset: 0, limit: 2000 },
+      { toolCallId: "read-1", messages: [] }
+    );
+
+    expect(output).toMatchObject({ type: "image", path: "/logo.png", mimeType: "image/png" });
+
+    const modelOutput = await readFile.toModelOutput!({
+      toolCallId: "read-1",
+      input: { file_path: "/logo.png", offset: 0, limit: 2000 },
+      output: output as Exclude<typeof output, AsyncIterable<unknown>>,
+    });
+    expect(modelOutput).toEqual({
+      type: "content",
+      value: [
+        { type: "text", text: "Image file /logo.png (image/png)" },
+        {
+          type: "image-data",
+          data: Buffer.from(PNG_BYTES).toString("base64"),
+          mediaType: "image/png",
+        },
+      ],
+    });
+  });
+
+  test("keeps text files as text output", async () => {
+    await backend.uploadFiles([["/notes.txt", TEXT_BYTES]]);
+    const readFile = createReadFileTool(state, backend);
+    const output = await readFile.execute!(
+      { file_path: "/notes.txt", offset: 0, limit: 2000 },
+      { toolCallId: "read-2", messages: [] }
+    );
+
+    expect(typeof output).toBe("string");
+    expect(output as string).toContain("hello");
+  });
+});
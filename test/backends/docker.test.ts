@@ -0,0 +1,113 @@
+/**
+ * Tests for DockerSandbox. These need a running Docker daemon and are
+ * skipped otherwise.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { createDockerSandbox, type DockerSandbox } from "@/backends/docker";
+
+const dockerAvailable = spawnSync("docker", ["info"], { timeout: 10000 }).status === 0;
+
+const tempDirs: string[] = [];
+const sandboxes: DockerSandbox[] = [];
+
+afterAll(async () => {
+  for (const sandbox of sandboxes) {
+    await sandbox.dispose();
+  }
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createWorkspace() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "docker-sandbox-test-"));
+  tempDirs.push(dir);
+  fs.writeFileSync(path.join(dir, "app.ts"), "const a = 1;\n");
+  return dir;
+}
+
+describe.skipIf(!dockerAvailable)("DockerSandbox", () => {
+  test("copies the workspace in without changing the host", async () => {
+    const workspace = createWorkspace();
+    const sandbox = await createDockerSandbox({ workspace, memory: "256m", cpus: 1 });
+    sandboxes.push(sandbox);
+
+    expect(await sandbox.read("app.ts")).toContain("const a = 1;");
+    expect((await sandbox.edit("/workspace/app.ts", "const a = 1;", "const a = 2;")).success).toBe(true);
+    expect(fs.readFileSync(path.join(workspace, "app.ts"), "utf-8")).toBe("const a = 1;\n");
+
+    const result = await sandbox.execute("pwd && cat app.ts");
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toBe("/workspace\nconst a = 2;\n");
+  }, 120000);
+
+  test("mounts the workspace when asked", async () => {
+    const workspace = createWorkspace();
+    const sandbox = await createDockerSandbox({ workspace, workspaceMode: "mount" });
+    sandboxes.push(sandbox);
+
+    await sandbox.execute("echo mounted > out.txt");
+    expect(fs.readFileSync(path.join(workspace, "out.txt"), "utf-8")).toBe("mounted\n");
+  }, 120000);
+
+  test("uploads and downloads files as tar streams", async () => {
+    const sandbox = await createDockerSandbox();
+    sandboxes.push(sandbox);
+    const binary = new Uint8Array(4096).map((_, i) => i % 256);
+
+    const uploads = await sandbox.uploadFiles([
+      ["src/data.bin", binary],
+      ["/tmp/notes/readme.md", new TextEncoder().encode("# notes\n")],
+    ]);
+    expect(uploads).toEqual([
+      { path: "src/data.bin", error: null },
+      { path: "/tmp/notes/readme.md", error: null },
+    ]);
+
+    const downloads = await sandbox.downloadFiles(["src/data.bin", "/tmp/notes/readme.md", "/missing", "/tmp"]);
+    expect(downloads[0]!.content).toEqual(binary);
+    expect(new TextDecoder().decode(downloads[1]!.content!)).toBe("# notes\n");
+    expect(downloads[1]!.mimeType).toBe("text/markdown");
+    expect(downloads[2]!.error).toBe("file_not_found");
+    expect(downloads[3]!.error).toBe("is_directory");
+  }, 120000);
+
+  test("has no network by default and kills timed-out commands", async () => {
+    const sandbox = await createDockerSandbox({ timeout: 1000 });
+    sandboxes.push(sandbox);
+
+    // Only the loopback interface exists
+    const interfaces = await sandbox.execute("ls /sys/class/net");
+    expect(interfaces.output.trim()).toBe("lo");
+
+    const slow = await sandbox.execute("sleep 30");
+    expect(slow.exitCode).toBeNull();
+    expect(slow.output).toContain("[Command timed out after 1000ms]");
+    await Bun.sleep(500);
+    expect((await sandbox.execute("cat /proc/[0-9]*/comm | grep -cx sleep || true")).output.trim()).toBe("0");
+  }, 120000);
+
+  test("runs background processes and kills them inside the container", async () => {
+    const sandbox = await createDockerSandbox();
+    sandboxes.push(sandbox);
+
+    const proc = await sandbox.startProcess("echo ready; sleep 30");
+    expect((await sandbox.readProcessOutput(proc.id, { waitMs: 10000 })).output).toBe("ready\n");
+    expect((await sandbox.killProcess(proc.id)).running).toBe(false);
+    expect((await sandbox.execute("cat /proc/[0-9]*/comm | grep -cx sleep || true")).output.trim()).toBe("0");
+  }, 120000);
+
+    test("removes the container on dispose", async () => {
+    const sandbox = await createDockerSandbox();
+    await sandbox.dispose();
+    await sandbox.dispose();
+
+    const inspect = spawnSync("docker", ["inspect", sandbox.id]);
+    expect(inspect.status).not.toBe(0);
+  }, 120000);
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for external edit detection and watching in FilesystemBackend.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { tool } from "ai";
+import { z } from "zod";
+import { FilesystemBackend } from "@/backends/filesystem";
+import { createDeepAgent } from "@/agent";
+import type { DeepAgentEvent, FileChangedExternallyEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+const tempDirs: string[] = [];
+const backends: FilesystemBackend[] = [];
+
+afterAll(() => {
+  for (const backend of backends) {
+    backend.close();
+  }
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createWorkspace(options: { watch?: boolean; detectExternalChanges?: boolean } = {}) {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "external-changes-test-"));
+  tempDirs.push(rootDir);
+  fs.writeFileSync(path.join(rootDir, "app.ts"), "const a = 1;\n");
+  const backend = new FilesystemBackend({ rootDir, virtualMode: true, ...options });
+  backends.push(backend);
+  const file = (rel: string) => path.join(rootDir, rel);
+  return { backend, file };
+}
+
+async function waitForChanges(backend: FilesystemBackend) {
+  for (let i = 0; i < 40; i++) {
+    const changes = backend.takeExternalChanges();
+    if (changes.length > 0) {
+      return changes;
+    }
+    await Bun.sleep(25);
+  }
+  return [];
+}
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("external edit detection", () => {
+  test("refuses to edit a file changed on disk since it was read", async () => {
+    const { backend, file } = createWorkspace();
+    await backend.read("/app.ts");
+    fs.writeFileSync(file("app.ts"), "const a = 1;\nconst user = true;\n");
+
+    const result = await backend.edit("/app.ts", "const a = 1;", "const a = 2;");
+    expect(result.success).toBe(false);
+    expect(result.code).toBe("file_changed_externally");
+    expect(result.error).toContain("was changed outside the agent");
+    expect(fs.readFileSync(file("app.ts"), "utf-8")).toBe("const a = 1;\nconst user = true;\n");
+
+    // Reading again picks up the new version
+    await backend.read("/app.ts");
+    expect((await backend.edit("/app.ts", "const a = 1;", "const a = 2;")).success).toBe(true);
+  });
+
+  test("allows the agent's own consecutive changes and unread files", async () => {
+    const { backend, file } = createWorkspace();
+    fs.writeFileSync(file("other.ts"), "x\n");
+    expect((await backend.edit("/other.ts", "x", "y")).success).toBe(true);
+
+    await backend.read("/app.ts");
+    expect((await backend.edit("/app.ts", "const a = 1;", "const a = 2;")).success).toBe(true);
+    expect((await backend.edit("/app.ts", "const a = 2;", "const a = 3;")).success).toBe(true);
+    expect((await backend.write("/new.ts", "n\n")).success).toBe(true);
+    expect((await backend.edit("/new.ts", "n", "m")).success).toBe(true);
+  });
+
+  test("refuses to overwrite or delete a changed file", async () => {
+    const { backend, file } = createWorkspace();
+    await backend.readRaw("/app.ts");
+    fs.writeFileSync(file("app.ts"), "user change\n");
+
+    const [upload] = await backend.uploadFiles([["/app.ts", new TextEncoder().encode("agent\n")]]);
+    expect(upload!.error).toBe("file_changed_externally");
+
+    const deleted = await backend.delete("/app.ts");
+    expect(deleted.code).toBe("file_changed_externally");
+    expect(fs.readFileSync(file("app.ts"), "utf-8")).toBe("user change\n");
+  });
+
+  test("forgets versions of moved files", async () => {
+    const { backend, file } = createWorkspace();
+    await backend.read("/app.ts");
+    expect((await backend.move("/app.ts", "/main.ts")).success).toBe(true);
+    fs.writeFileSync(file("main.ts"), "const a = 1;\n// moved\n");
+    expect((await backend.edit("/main.ts", "// moved", "// renamed")).success).toBe(true);
+  });
+
+  test("can be turned off", async () => {
+    const { backend, file } = createWorkspace({ detectExternalChanges: false });
+    await backend.read("/app.ts");
+    fs.writeFileSync(file("app.ts"), "const a = 1;\nconst b = 2;\n");
+    expect((await backend.edit("/app.ts", "const b = 2;", "const b = 3;")).success).toBe(true);
+  });
+});
+
+describe("external change watching", () => {
+  test("reports modified and deleted files the agent has seen", async () => {
+    const { backend, file } = createWorkspace({ watch: true });
+    fs.writeFileSync(file("untracked.ts"), "u\n");
+    await backend.read("/app.ts");
+
+    fs.writeFileSync(file("untracked.ts"), "changed\n");
+    fs.writeFileSync(file("app.ts"), "const a = 5;\n");
+    expect(await waitForChanges(backend)).toEqual([{ path: "/app.ts", change: "modified" }]);
+
+    fs.rmSync(file("app.ts"));
+    expect(await waitForChanges(backend)).toEqual([{ path: "/app.ts", change: "deleted" }]);
+  });
+
+  test("ignores the backend's own writes", async () => {
+    const { backend } = createWorkspace({ watch: true });
+    await backend.read("/app.ts");
+    await backend.edit("/app.ts", "const a = 1;", "const a = 2;");
+    await backend.write("/new.ts", "n\n");
+
+    await Bun.sleep(200);
+    expect(backend.takeExternalChanges()).toEqual([]);
+  });
+
+  test("emits file-changed-externally events after the step", async () => {
+    const { backend, file } = createWorkspace({ watch: true });
+    const userEdit = tool({
+      description: "Simulate the user editing app.ts in their editor",
+      inputSchema: z.object({}),
+      execute: async () => {
+        fs.writeFileSync(file("app.ts"), "const a = 42;\n");
+        await Bun.sleep(200);
+        return "edited";
+      },
+    });
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "read_file", input: { file_path: "/app.ts" } }] },
+      { toolCalls: [{ toolName: "user_edit", input: {} }] },
+      { text: "Done." },
+    ]);
+    const agent = createDeepAgent({ model, backend, tools: { user_edit: userEdit } });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Read app.ts" }] })
+    );
+
+    const changes = events.filter(
+      (e): e is FileChangedExternallyEvent => e.type === "file-changed-externally"
+    );
+    expect(changes).toEqual([{ type: "file-changed-externally", path: "/app.ts", change: "modified" }]);
+    const stepFinish = events.findIndex((e) => e.type === "step-finish" && e.stepNumber === 2);
+    expect(events.indexOf(changes[0]!)).toBeGreaterThan(stepFinish);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Tests for delete, move, copy and mkdir across backends,
+ * and the delete_file/move_file tools.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { StateBackend } from "@/backends/state";
+import { FilesystemBackend } from "@/backends/filesystem";
+import { PersistentBackend, InMemoryStore } from "@/backends/persistent";
+import { CompositeBackend } from "@/backends/composite";
+import { OverlayBackend } from "@/backends/overlay";
+import { LocalSandbox } from "@/backends/local-sandbox";
+import { createDeepAgent } from "@/agent";
+import type { BackendProtocol, DeepAgentEvent, DeepAgentState } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+const tempDirs: string[] = [];
+
+function makeTempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "file-ops-test-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+/**
+ * Shared behaviour every backend must provide.
+ * `root` prefixes paths so sandbox tests can stay inside a temp directory.
+ */
+function describeFileOperations(
+  name: string,
+  createBackend: () => { backend: BackendProtocol; root: string }
+) {
+  describe(name, () => {
+    async function setup() {
+      const { backend, root } = createBackend();
+      await backend.write(`${root}/src/a.ts`, "export const a = 1;");
+      await backend.write(`${root}/src/lib/b.ts`, "export const b = 2;");
+      return { backend, p: (rel: string) => `${root}${rel}` };
+    }
+
+    async function exists(backend: BackendProtocol, filePath: string) {
+      const content = await backend.read(filePath);
+      return !content.includes("not found") && !content.includes("ENOENT");
+    }
+
+    test("deletes a file", async () => {
+      const { backend, p } = await setup();
+      const result = await backend.delete!(p("/src/a.ts"));
+
+      expect(result.success).toBe(true);
+      expect(await exists(backend, p("/src/a.ts"))).toBe(false);
+    });
+
+    test("refuses to delete a directory without recursive", async () => {
+      const { backend, p } = await setup();
+      const result = await backend.delete!(p("/src"));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("recursive");
+      expect(await exists(backend, p("/src/lib/b.ts"))).toBe(true);
+    });
+
+    test("deletes a directory recursively", async () => {
+      const { backend, p } = await setup();
+      const result = await backend.delete!(p("/src"), true);
+
+      expect(result.success).toBe(true);
+      expect(await exists(backend, p("/src/a.ts"))).toBe(false);
+      expect(await exists(backend, p("/src/lib/b.ts"))).toBe(false);
+    });
+
+    test("reports missing paths", async () => {
+      const { backend, p } = await setup();
+      const result = await backend.delete!(p("/nope.ts"));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("not found");
+    });
+
+    test("moves a file", async () => {
+      const { backend, p } = await setup();
+      const result = await backend.move!(p("/src/a.ts"), p("/src/renamed.ts"));
+
+      expect(result.success).toBe(true);
+      expect(await exists(backend, p("/src/a.ts"))).toBe(false);
+      expect(await backend.read(p("/src/renamed.ts"))).toContain("export const a");
+    });
+
+    test("moves a directory", async () => {
+      const { backend, p } = await setup();
+      const result = await backend.move!(p("/src/lib"), p("/lib"));
+
+      expect(result.success).toBe(true);
+      expect(await backend.read(p("/lib/b.ts"))).toContain("export const b");
+      expect(await exists(backend, p("/src/lib/b.ts"))).toBe(false);
+    });
+
+    test("refuses to overwrite unless asked", async () => {
+      const { backend, p } = await setup();
+      const refused = await backend.move!(p("/src/a.ts"), p("/src/lib/b.ts"));
+      expect(refused.success).toBe(false);
+      expect(refused.error).toContain("already exists");
+
+      const forced = await backend.move!(p("/src/a.ts"), p("/src/lib/b.ts"), true);
+      expect(forced.success).toBe(true);
+      expect(await backend.read(p("/src/lib/b.ts"))).toContain("export const a");
+    });
+
+    test("refuses to move a directory into itself", async () => {
+      const { backend, p } = await setup();
+      const result = await backend.move!(p("/src"), p("/src/lib/inner"));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("into itself");
+    });
+
+    test("copies files and directories", async () => {
+      const { backend, p } = await setup();
+      expect((await backend.copy!(p("/src/a.ts"), p("/copy.ts"))).success).toBe(true);
+      expect((await backend.copy!(p("/src"), p("/backup"))).success).toBe(true);
+
+      expect(await backend.read(p("/copy.ts"))).toContain("export const a");
+      expect(await backend.read(p("/backup/lib/b.ts"))).toContain("export const b");
+      expect(await exists(backend, p("/src/a.ts"))).toBe(true);
+    });
+
+    test("mkdir succeeds for new and existing directories but not files", async () => {
+      const { backend, p } = await setup();
+      expect((await backend.mkdir!(p("/new/nested"))).success).toBe(true);
+      expect((await backend.mkdir!(p("/src"))).success).toBe(true);
+
+      const onFile = await backend.mkdir!(p("/src/a.ts"));
+      expect(onFile.success).toBe(false);
+      expect(onFile.error).toContain("not a directory");
+    });
+  });
+}
+
+describeFileOperations("StateBackend", () => ({
+  backend: new StateBackend({ todos: [], files: {} }),
+  root: "",
+}));
+
+describeFileOperations("PersistentBackend", () => ({
+  backend: new PersistentBackend({ store: new InMemoryStore() }),
+  root: "",
+}));
+
+describeFileOperations("FilesystemBackend", () => ({
+  backend: new FilesystemBackend({ rootDir: makeTempDir(), virtualMode: true }),
+  root: "",
+}));
+
+describeFileOperations("OverlayBackend", () => ({
+  backend: new OverlayBackend(new FilesystemBackend({ rootDir: makeTempDir(), virtualMode: true })),
+  root: "",
+}));
+
+describeFileOperations("LocalSandbox", () => {
+  const root = makeTempDir();
+  return { backend: new LocalSandbox({ cwd: root }), root };
+});
+
+describe("CompositeBackend file operations", () => {
+  function createComposite() {
+    const defaultBackend = new StateBackend({ todos: [], files: {} });
+    const archive = new StateBackend({ todos: [], files: {} });
+    const backend = new CompositeBackend(defaultBackend, { "/archive/": archive });
+    return { backend, archive };
+  }
+
+  test("routes operations within one backend", async () => {
+    const { backend, archive } = createComposite();
+    await backend.write("/archive/old.txt", "old");
+
+    const result = await backend.move("/archive/old.txt", "/archive/older.txt");
+    expect(result).toMatchObject({ success: true, path: "/archive/older.txt" });
+    expect(archive.read("/older.txt")).toContain("old");
+  });
+
+  test("moves files between backends", async () => {
+    const { backend, archive } = createComposite();
+    await backend.write("/notes.txt", "keep me");
+
+    const result = await backend.move("/notes.txt", "/archive/notes.txt");
+    expect(result.success).toBe(true);
+    expect(archive.read("/notes.txt")).toContain("keep me");
+    expect(await backend.read("/notes.txt")).toContain("not found");
+  });
+
+  test("refuses to overwrite across backends", async () => {
+    const { backend } = createComposite();
+    await backend.write("/notes.txt", "new");
+    await backend.write("/archive/notes.txt", "existing");
+
+    const result = await backend.copy("/notes.txt", "/archive/notes.txt");
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already exists");
+  });
+});
+
+describe("delete_file and move_file tools", () => {
+  async function run(
+    toolCalls: Array<{ toolName: string; input: Record<string, unknown> }>,
+    approve?: boolean
+  ) {
+    const state: DeepAgentState = {
+      todos: [],
+      files: {
+        "/draft.md": { content: ["draft"], created_at: "", modified_at: "" },
+      },
+    };
+    const agent = createDeepAgent({
+      model: createScriptedModel([{ toolCalls }, { text: "Done." }]),
+      interruptOn: approve === undefined ? undefined : { delete_file: true, move_file: true },
+    });
+
+    const events: DeepAgentEvent[] = [];
+    const approvalRequests: string[] = [];
+    for await (const event of agent.streamWithEvents({
+      messages: [{ role: "user", content: "Tidy up" }],
+      state,
+      onApprovalRequest: async ({ toolName }) => {
+        approvalRequests.push(toolName);
+        return approve ?? true;
+      },
+    })) {
+      events.push(event);
+    }
+    return { state, events, approvalRequests };
+  }
+
+  test("delete_file removes the file and emits file-deleted", async () => {
+    const { state, events } = await run([
+      { toolName: "delete_file", input: { file_path: "/draft.md" } },
+    ]);
+
+    expect(state.files["/draft.md"]).toBeUndefined();
+    expect(events).toContainEqual({ type: "file-deleted", path: "/draft.md" });
+  });
+
+  test("move_file renames the file and emits file-moved", async () => {
+    const { state, events } = await run([
+      {
+        toolName: "move_file",
+        input: { source_path: "/draft.md", destination_path: "/final.md" },
+      },
+    ]);
+
+    expect(state.files["/final.md"]?.content).toEqual(["draft"]);
+    expect(events).toContainEqual({ type: "file-moved", from: "/draft.md", to: "/final.md" });
+  });
+
+  test("respects interruptOn when approval is denied", async () => {
+    const { state, events, approvalRequests } = await run(
+      [{ toolName: "delete_file", input: { file_path: "/draft.md" } }],
+      false
+    );
+
+    expect(approvalRequests).toEqual(["delete_file"]);
+    expect(state.files["/draft.md"]).toBeDefined();
+    expect(events.map((e) => e.type)).not.toContain("file-deleted");
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for GitBackend and the git tools.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { GitBackend } from "@/backends/git";
+import { createDeepAgent } from "@/agent";
+import type { DeepAgentEvent, GitCommitEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createRepo() {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-backend-test-"));
+  tempDirs.push(rootDir);
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: rootDir, encoding: "utf-8" }).trimEnd();
+
+  git("init", "--quiet", "--initial-branch=main");
+  git("config", "user.name", "Test User");
+  git("config", "user.email", "test@example.com");
+  git("config", "commit.gpgsign", "false");
+  fs.writeFileSync(path.join(rootDir, "app.ts"), "const a = 1;\n");
+  fs.writeFileSync(path.join(rootDir, "README.md"), "# Project\n");
+  git("add", ".");
+  git("commit", "--quiet", "-m", "Initial commit");
+
+  const backend = new GitBackend({ rootDir, virtualMode: true });
+  return { rootDir, backend, git };
+}
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("GitBackend", () => {
+  test("commits changed files to the agent branch without touching HEAD or the index", async () => {
+    const { rootDir, backend, git } = createRepo();
+    const head = git("rev-parse", "HEAD");
+    fs.writeFileSync(path.join(rootDir, "notes.txt"), "user's own work\n");
+
+    expect((await backend.edit("/app.ts", "const a = 1;", "const a = 2;")).success).toBe(true);
+    expect((await backend.write("/src/util.ts", "export {};\n")).success).toBe(true);
+    expect(backend.hasPendingChanges).toBe(true);
+
+    const commit = await backend.commit({
+      todos: [
+        { id: "1", content: "Set up project", status: "completed" },
+        { id: "2", content: "Add util module", status: "in_progress" },
+      ],
+    });
+
+    expect(commit).not.toBeNull();
+    expect(commit!.branch).toBe("deep-agent/changes");
+    expect(commit!.message).toBe("Add util module\n\n- edit /app.ts\n- write /src/util.ts");
+    expect(commit!.files).toEqual(["app.ts", "src/util.ts"]);
+    expect(backend.hasPendingChanges).toBe(false);
+
+    expect(git("rev-parse", "deep-agent/changes")).toBe(commit!.sha);
+    expect(git("rev-parse", "deep-agent/changes~1")).toBe(head);
+    expect(git("log", "-1", "--format=%an", "deep-agent/changes")).toBe("Deep Agent");
+    expect(git("show", "deep-agent/changes:app.ts")).toBe("const a = 2;");
+
+    // The user's branch, index and untracked files are left alone
+    expect(git("rev-parse", "HEAD")).toBe(head);
+    expect(git("diff", "--cached", "--name-only")).toBe("");
+    expect(git("status", "--porcelain")).toContain("?? notes.txt");
+    expect(git("ls-tree", "-r", "--name-only", "deep-agent/changes")).not.toContain("notes.txt");
+  });
+
+  test("stacks commits and records deletes and moves", async () => {
+    const { backend, git } = createRepo();
+
+    await backend.write("/a.txt", "a\n");
+    const first = await backend.commit();
+    expect(first!.message.split("\n")[0]).toBe("write /a.txt");
+
+    await backend.delete("/README.md");
+    await backend.move("/a.txt", "/b.txt");
+    const second = await backend.commit();
+
+    expect(second!.message.split("\n")[0]).toBe("delete /README.md (+1 more)");
+    expect(second!.files.sort()).toEqual(["README.md", "a.txt", "b.txt"]);
+    expect(git("rev-parse", "deep-agent/changes~1")).toBe(first!.sha);
+    expect(git("ls-tree", "--name-only", "deep-agent/changes").split("\n")).toEqual([
+      "app.ts",
+      "b.txt",
+    ]);
+  });
+
+  test("commits files whose names start with ..", async () => {
+    const { rootDir, git } = createRepo();
+    const backend = new GitBackend({ rootDir });
+
+    await backend.write(path.join(rootDir, "..env"), "A=1\n");
+    const commit = await backend.commit();
+
+    expect(commit!.files).toEqual(["..env"]);
+    expect(git("show", "deep-agent/changes:..env")).toBe("A=1");
+  });
+
+  test("returns null when there is nothing to commit", async () => {
+    const { backend } = createRepo();
+    expect(await backend.commit()).toBeNull();
+
+    // Writing identical content produces no new tree
+    await backend.edit("/app.ts", "const a = 1;", "const a = 1;");
+    expect(await backend.commit()).toBeNull();
+    expect(backend.hasPendingChanges).toBe(false);
+  });
+
+  test("reports status, diff and log", async () => {
+    const { backend } = createRepo();
+    await backend.edit("/app.ts", "const a = 1;", "const a = 3;");
+
+    expect(await backend.diff()).toContain("+const a = 3;");
+    expect(await backend.diff({ path: "/README.md" })).toBe("");
+
+    const before = await backend.status();
+    expect(before).toContain(" M app.ts");
+    expect(before).toContain("No agent commits on branch 'deep-agent/changes' yet.");
+
+    await backend.commit({ message: "Bump a" });
+    expect(await backend.status()).toContain("Agent changes are committed to branch 'deep-agent/changes'");
+    expect(await backend.log()).toMatch(/^[0-9a-f]+ \d{4}-\d{2}-\d{2} Deep Agent: Bump a\n.*Initial commit$/);
+    expect(await backend.log({ ref: "main" })).not.toContain("Bump a");
+    expect(await backend.log({ ref: "--output=/tmp/x" })).toBe("Error: Invalid git ref '--output=/tmp/x'");
+  });
+
+  test("keeps pending changes when the commit fails", async () => {
+    const { rootDir, backend, git } = createRepo();
+    await backend.write("/a.txt", "a\n");
+    await backend.commit();
+
+    // A stale ref lock makes update-ref fail
+    const lockFile = path.join(rootDir, ".git", "refs", "heads", "deep-agent", "changes.lock");
+    fs.writeFileSync(lockFile, "");
+    await backend.write("/b.txt", "b\n");
+    await expect(backend.commit()).rejects.toThrow("update-ref");
+    expect(backend.hasPendingChanges).toBe(true);
+
+    fs.rmSync(lockFile);
+    const commit = await backend.commit();
+    expect(commit!.files).toEqual(["b.txt"]);
+    expect(git("show", "deep-agent/changes:b.txt")).toBe("b");
+  });
+
+  test("commits from a linked worktree", async () => {
+    const { rootDir, git } = createRepo();
+    const worktree = path.join(rootDir, "..", `${path.basename(rootDir)}-worktree`);
+    tempDirs.push(worktree);
+    git("worktree", "add", "--quiet", "-b", "feature", worktree);
+    const backend = new GitBackend({ rootDir: worktree, virtualMode: true, branch: "deep-agent/worktree" });
+
+    await backend.write("/w.txt", "w\n");
+    const commit = await backend.commit();
+
+    expect(commit!.files).toEqual(["w.txt"]);
+    expect(git("show", "deep-agent/worktree:w.txt")).toBe("w");
+    expect(git("show", "deep-agent/worktree~1:app.ts")).toBe("const a = 1;");
+  });
+
+  test("fails outside a git repository", async () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-backend-norepo-"));
+    tempDirs.push(rootDir);
+    const backend = new GitBackend({ rootDir, virtualMode: true });
+
+    await backend.write("/a.txt", "a");
+    await expect(backend.commit()).rejects.toThrow("is not inside a git repository");
+    expect(await backend.status()).toContain("is not inside a git repository");
+  });
+});
+
+describe("GitBackend with an agent", () => {
+  test("adds git tools and commits after each step", async () => {
+    const { backend, git } = createRepo();
+    const model = createScriptedModel([
+      {
+        toolCalls: [
+          {
+            toolName: "write_todos",
+            input: { todos: [{ id: "1", content: "Write greeting", status: "in_progress" }] },
+          },
+          { toolName: "write_file", input: { file_path: "/hello.txt", content: "hi\n" } },
+        ],
+      },
+      { toolCalls: [{ toolName: "git_log", input: {} }] },
+      { text: "Done." },
+    ]);
+    const agent = createDeepAgent({ model, backend });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Say hi" }] })
+    );
+
+    const commits = events.filter((e): e is GitCommitEvent => e.type === "git-commit");
+    expect(commits).toHaveLength(1);
+    expect(commits[0]!.message.split("\n")[0]).toBe("Write greeting");
+    expect(commits[0]!.files).toEqual(["hello.txt"]);
+    expect(git("show", "deep-agent/changes:hello.txt")).toBe("hi");
+
+    const toolNames = model.doStreamCalls[0]!.tools?.map((t) => t.name) ?? [];
+    expect(toolNames).toEqual(expect.arrayContaining(["git_status", "git_diff", "git_log"]));
+  });
+});
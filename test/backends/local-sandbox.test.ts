@@ -16,7 +16,8 @@ describe("LocalSandbox", () => {
     sandbox = new LocalSandbox({ cwd: testDir });
   });
 
-  afterAll(() => {
+  afterAll(async () => {
+    await sandbox.dispose();
     fs.rmSync(testDir, { recursive: true, force: true });
   });
 
@@ -49,6 +50,45 @@ describe("LocalSandbox", () => {
       const result = await sandbox.execute("pwd");
       expect(result.output.trim()).toBe(testDir);
     });
+
+    test("stops the process when aborted", async () => {
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 100);
+
+      const result = await sandbox.execute("echo started; sleep 5", {
+        abortSignal: controller.signal,
+      });
+
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(result.exitCode).toBeNull();
+      expect(result.output).toContain("started");
+      expect(result.output).toContain("[Command aborted]");
+    });
+
+    test("stops commands the aborted command started", async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+
+      await sandbox.execute("(sleep 0.5; touch late-after-abort) & sleep 5", {
+        abortSignal: controller.signal,
+      });
+      await Bun.sleep(800);
+
+      expect(fs.existsSync(path.join(testDir, "late-after-abort"))).toBe(false);
+    });
+
+    test("does not start the command when already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await sandbox.execute("touch should-not-exist", {
+        abortSignal: controller.signal,
+      });
+
+      expect(result.exitCode).toBeNull();
+      expect(fs.existsSync(path.join(testDir, "should-not-exist"))).toBe(false);
+    });
   });
 
   describe("id", () => {
@@ -185,6 +225,79 @@ describe("LocalSandbox", () => {
     });
   });
 
+  describe("streamed output", () => {
+    test("passes output chunks to onOutput as they arrive", async () => {
+      const chunks: Array<{ chunk: string; stream: string; at: number }> = [];
+      const start = Date.now();
+      const result = await sandbox.execute("echo one; sleep 0.3; echo two >&2", {
+        onOutput: (chunk, stream) => chunks.push({ chunk, stream, at: Date.now() - start }),
+      });
+
+      expect(chunks.map((c) => [c.chunk, c.stream])).toEqual([
+        ["one\n", "stdout"],
+        ["two\n", "stderr"],
+      ]);
+      // The first chunk arrives before the command finishes
+      expect(chunks[0]!.at).toBeLessThan(chunks[1]!.at - 200);
+      expect(result.output).toBe("one\ntwo\n");
+    });
+  });
+
+  describe("background processes", () => {
+    test("reads output incrementally and reports exit", async () => {
+      const proc = await sandbox.startProcess("echo ready; sleep 0.3; echo done; exit 3");
+      expect(proc).toMatchObject({ id: "proc-1", running: true, exitCode: null });
+
+      const first = await sandbox.readProcessOutput(proc.id, { waitMs: 2000 });
+      expect(first.output).toBe("ready\n");
+      expect(first.running).toBe(true);
+
+      let rest = "";
+      let state = first;
+      while (state.running) {
+        state = await sandbox.readProcessOutput(proc.id, { waitMs: 2000 });
+        rest += state.output;
+      }
+      expect(rest).toBe("done\n");
+      expect(state.exitCode).toBe(3);
+      expect((await sandbox.readProcessOutput(proc.id)).output).toBe("");
+    });
+
+    test("sends input to stdin", async () => {
+      const proc = await sandbox.startProcess('read name; echo "hello $name"');
+      await sandbox.sendProcessInput(proc.id, "world\n");
+
+      let output = "";
+      while (!output.includes("hello")) {
+        output += (await sandbox.readProcessOutput(proc.id, { waitMs: 2000 })).output;
+      }
+      expect(output).toBe("hello world\n");
+    });
+
+    test("kills a process and the processes it started", async () => {
+      const marker = path.join(testDir, "child-alive");
+      const proc = await sandbox.startProcess(
+        `(sleep 0.5 && touch ${marker}) & echo started; sleep 30`
+      );
+      await sandbox.readProcessOutput(proc.id, { waitMs: 2000 });
+
+      const killed = await sandbox.killProcess(proc.id);
+      expect(killed).toMatchObject({ running: false, exitCode: null });
+      await Bun.sleep(800);
+      expect(fs.existsSync(marker)).toBe(false);
+      expect((await sandbox.listProcesses()).find((p) => p.id === proc.id)?.running).toBe(false);
+    });
+
+    test("rejects unknown or exited processes", async () => {
+      await expect(sandbox.readProcessOutput("proc-999")).rejects.toThrow(
+        "No background process with id 'proc-999'"
+      );
+      const proc = await sandbox.startProcess("true");
+      while ((await sandbox.readProcessOutput(proc.id, { waitMs: 2000 })).running) {}
+      await expect(sandbox.sendProcessInput(proc.id, "x")).rejects.toThrow("has already exited");
+    });
+  });
+
   describe("options", () => {
     test("respects custom environment variables", async () => {
       const customSandbox = new LocalSandbox({
@@ -207,6 +320,17 @@ describe("LocalSandbox", () => {
       // The process should be terminated, resulting in null or non-zero exit code
       expect(result.exitCode).not.toBe(0);
     });
+
+    test("stops commands a timed-out command started", async () => {
+      const shortTimeoutSandbox = new LocalSandbox({ cwd: testDir, timeout: 100 });
+
+      const started = Date.now();
+      await shortTimeoutSandbox.execute("(sleep 0.5; touch late-after-timeout) & wait");
+      expect(Date.now() - started).toBeLessThan(2000);
+      await Bun.sleep(800);
+
+      expect(fs.existsSync(path.join(testDir, "late-after-timeout"))).toBe(false);
+    });
   });
 });
 
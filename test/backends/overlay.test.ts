@@ -0,0 +1,198 @@
+/**
+ * Tests for OverlayBackend.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { OverlayBackend } from "@/backends/overlay";
+import { FilesystemBackend } from "@/backends/filesystem";
+import { StateBackend } from "@/backends/state";
+import { applyFileChanges, parseUnifiedDiff, type FileDiff } from "@/utils/apply-patch";
+import type { BackendProtocol } from "@/types";
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createRepo() {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "overlay-test-"));
+  tempDirs.push(rootDir);
+  fs.mkdirSync(path.join(rootDir, "src"));
+  fs.writeFileSync(path.join(rootDir, "src/app.ts"), "const a = 1;\nconst b = 2;\n");
+  fs.writeFileSync(path.join(rootDir, "README.md"), "# Project\n");
+  const overlay = new OverlayBackend(new FilesystemBackend({ rootDir, virtualMode: true }));
+  const onDisk = (rel: string) => {
+    const file = path.join(rootDir, rel);
+    return fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : undefined;
+  };
+  return { rootDir, overlay, onDisk };
+}
+
+describe("OverlayBackend", () => {
+  test("keeps writes, edits and deletes off disk", async () => {
+    const { overlay, onDisk } = createRepo();
+
+    expect((await overlay.edit("/src/app.ts", "const a = 1;", "const a = 10;")).success).toBe(true);
+    expect((await overlay.write("/src/new.ts", "export {};")).success).toBe(true);
+    expect((await overlay.delete("/README.md")).success).toBe(true);
+
+    expect(await overlay.read("/src/app.ts")).toContain("const a = 10;");
+    expect(await overlay.read("/src/new.ts")).toContain("export {};");
+    expect(await overlay.read("/README.md")).toContain("not found");
+
+    expect(onDisk("src/app.ts")).toBe("const a = 1;\nconst b = 2;\n");
+    expect(onDisk("src/new.ts")).toBeUndefined();
+    expect(onDisk("README.md")).toBe("# Project\n");
+  });
+
+  test("merges listings, grep and glob with the base", async () => {
+    const { overlay } = createRepo();
+    await overlay.write("/src/lib/util.ts", "const a = 3;");
+    await overlay.delete("/README.md");
+
+    const root = (await overlay.lsInfo("/")).map((i) => i.path);
+    expect(root).toEqual(["/src/"]);
+
+    const src = (await overlay.lsInfo("/src")).map((i) => i.path);
+    expect(src).toEqual(["/src/app.ts", "/src/lib/"]);
+
+    const matches = await overlay.grepRaw("const a");
+    expect(typeof matches !== "string" && matches.map((m) => m.path).sort()).toEqual([
+      "/src/app.ts",
+      "/src/lib/util.ts",
+    ]);
+
+    const globbed = (await overlay.globInfo("**/*.ts")).map((i) => i.path).sort();
+    expect(globbed).toEqual(["/src/app.ts", "/src/lib/util.ts"]);
+  });
+
+  test("hides directories whose files were all deleted", async () => {
+    const { overlay } = createRepo();
+    await overlay.delete("/src", true);
+
+    expect((await overlay.lsInfo("/")).map((i) => i.path)).toEqual(["/README.md"]);
+  });
+
+  test("diff reports added, modified and deleted files as unified diffs", async () => {
+    const { overlay } = createRepo();
+    await overlay.edit("/src/app.ts", "const b = 2;", "const b = 20;");
+    await overlay.move("/README.md", "/docs/README.md");
+
+    const changes = await overlay.diff();
+    expect(changes.map((c) => [c.path, c.type])).toEqual([
+      ["/docs/README.md", "added"],
+      ["/README.md", "deleted"],
+      ["/src/app.ts", "modified"],
+    ]);
+    expect(changes[2]!.diff).toBe(
+      [
+        "--- /src/app.ts",
+        "+++ /src/app.ts",
+        "@@ -1,2 +1,2 @@",
+        " const a = 1;",
+        "-const b = 2;",
+        "+const b = 20;",
+        "",
+      ].join("\n")
+    );
+    expect(changes[1]!.diff).toContain("+++ /dev/null");
+  });
+
+  test("diff output applies to the base with and without final newlines", async () => {
+    const { rootDir, overlay, onDisk } = createRepo();
+    fs.writeFileSync(path.join(rootDir, "raw.txt"), "x");
+    const expected: Record<string, string> = {
+      "src/app.ts": "const a = 1;\nconst b = 2;",
+      "README.md": "# Project\n\nNotes",
+      "raw.txt": "y\n",
+      "new.txt": "a\nb",
+    };
+    for (const [rel, content] of Object.entries(expected)) {
+      await overlay.uploadFiles([[`/${rel}`, new TextEncoder().encode(content)]]);
+    }
+
+    const patch = (await overlay.diff()).map((c) => c.diff).join("");
+    const diffs = parseUnifiedDiff(patch) as FileDiff[];
+    const result = await applyFileChanges(
+      new FilesystemBackend({ rootDir, virtualMode: true }),
+      diffs.map((diff) => ({ type: "diff" as const, diff }))
+    );
+
+    expect(result.success).toBe(true);
+    for (const [rel, content] of Object.entries(expected)) {
+      expect(onDisk(rel)).toBe(content);
+    }
+  });
+
+  test("ignores files changed back to their original content", async () => {
+    const { overlay } = createRepo();
+    await overlay.edit("/src/app.ts", "const a = 1;", "const a = 10;");
+    await overlay.edit("/src/app.ts", "const a = 10;", "const a = 1;");
+    await overlay.write("/tmp.txt", "scratch");
+    await overlay.delete("/tmp.txt");
+
+    expect(await overlay.diff()).toEqual([]);
+  });
+
+  test("commit writes pending changes to the base", async () => {
+    const { overlay, onDisk } = createRepo();
+    await overlay.edit("/src/app.ts", "const b = 2;", "const b = 20;");
+    await overlay.write("/src/lib/util.ts", "export {};");
+    await overlay.delete("/README.md");
+
+    const result = await overlay.commit();
+    expect(result).toEqual({ success: true, count: 3 });
+    expect(onDisk("src/app.ts")).toBe("const a = 1;\nconst b = 20;\n");
+    expect(onDisk("src/lib/util.ts")).toBe("export {};");
+    expect(onDisk("README.md")).toBeUndefined();
+    expect(await overlay.diff()).toEqual([]);
+  });
+
+  test("commit and discard can target specific paths", async () => {
+    const { overlay, onDisk } = createRepo();
+    await overlay.write("/keep.txt", "keep");
+    await overlay.write("/drop.txt", "drop");
+    await overlay.write("/later.txt", "later");
+
+    await overlay.commit(["/keep.txt"]);
+    overlay.discard(["/drop.txt"]);
+
+    expect(onDisk("keep.txt")).toBe("keep");
+    expect(onDisk("drop.txt")).toBeUndefined();
+    expect((await overlay.diff()).map((c) => c.path)).toEqual(["/later.txt"]);
+  });
+
+  test("discard restores the base view", async () => {
+    const { overlay } = createRepo();
+    await overlay.delete("/src", true);
+    overlay.discard();
+
+    expect(await overlay.read("/src/app.ts")).toContain("const a = 1;");
+  });
+
+  test("commit leaves failed changes pending", async () => {
+    const state = { todos: [], files: {} };
+    const stateBackend = new StateBackend(state);
+    const readOnly: BackendProtocol = {
+      lsInfo: (p) => stateBackend.lsInfo(p),
+      read: (p, o, l) => stateBackend.read(p, o, l),
+      readRaw: (p) => stateBackend.readRaw(p),
+      grepRaw: (p, d, g) => stateBackend.grepRaw(p, d ?? undefined, g),
+      globInfo: (p, d) => stateBackend.globInfo(p, d),
+      write: () => ({ success: false, error: "Error: read-only" }),
+      edit: () => ({ success: false, error: "Error: read-only" }),
+    };
+    const overlay = new OverlayBackend(readOnly);
+    await overlay.write("/a.txt", "a");
+
+    const result = await overlay.commit();
+    expect(result).toEqual({ success: false, error: "Error: read-only", count: 0 });
+    expect((await overlay.diff()).map((c) => c.path)).toEqual(["/a.txt"]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for ignore files and the path policy in FilesystemBackend.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FilesystemBackend } from "@/backends/filesystem";
+import type { PathPolicy } from "@/backends/path-filter";
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createProject(pathPolicy?: PathPolicy) {
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "path-policy-test-"));
+  tempDirs.push(rootDir);
+  const files: Record<string, string> = {
+    ".gitignore": "node_modules/\ndist\n*.log\n!keep.log\n",
+    ".env": "SECRET=1\n",
+    "..env": "NOT_SECRET=1\n",
+    "packages/app/.env.local": "SECRET=2\n",
+    ".git/config": "[core]\n",
+    "src/app.ts": "export const token = 1;\n",
+    "src/debug.log": "token\n",
+    "src/keep.log": "token\n",
+    "src/generated/.ignore": "*.gen.ts\n",
+    "src/generated/api.gen.ts": "export const token = 2;\n",
+    "src/generated/types.ts": "export type Token = 1;\n",
+    "node_modules/lib/index.js": "module.exports = { token: 3 };\n",
+    "dist/app.js": "const token = 1;\n",
+    "secrets/key.pem": "token\n",
+    "package.json": "{}\n",
+  };
+  for (const [rel, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(rootDir, rel)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, rel), content);
+  }
+  const backend = new FilesystemBackend({ rootDir, virtualMode: true, pathPolicy });
+  return { rootDir, backend };
+}
+
+describe("ignore files", () => {
+  test("leaves ignored files and .git out of ls, glob and grep", async () => {
+    const { backend } = createProject();
+
+    const root = (await backend.lsInfo("/")).map((i) => i.path);
+    expect(root).toEqual(expect.arrayContaining(["/.env", "/.gitignore", "/src/", "/secrets/"]));
+    expect(root).not.toContain("/node_modules/");
+    expect(root).not.toContain("/dist/");
+    expect(root).not.toContain("/.git/");
+
+    const globbed = (await backend.globInfo("**/*")).map((i) => i.path);
+    expect(globbed).toContain("/src/keep.log");
+    expect(globbed).toContain("/src/generated/types.ts");
+    expect(globbed).not.toContain("/src/debug.log");
+    expect(globbed).not.toContain("/src/generated/api.gen.ts");
+    expect(globbed.some((p) => p.startsWith("/node_modules/") || p.startsWith("/.git/"))).toBe(false);
+
+    const grepped = await backend.grepRaw("token");
+    expect(Array.isArray(grepped) && grepped.map((m) => m.path).sort()).toEqual([
+      "/secrets/key.pem",
+      "/src/app.ts",
+      "/src/keep.log",
+    ]);
+  });
+
+  test("still allows explicit reads of ignored files", async () => {
+    const { backend } = createProject();
+    expect(await backend.read("/dist/app.js")).toContain("const token = 1;");
+  });
+
+  test("can be turned off", async () => {
+    const { backend } = createProject({ respectIgnoreFiles: false });
+    const globbed = (await backend.globInfo("**/*.js")).map((i) => i.path);
+    expect(globbed.sort()).toEqual(["/dist/app.js", "/node_modules/lib/index.js"]);
+  });
+});
+
+describe("path policy", () => {
+  test("hides denied paths from every operation", async () => {
+    const { backend } = createProject({ deny: [".env*", "secrets"] });
+
+    expect((await backend.lsInfo("/")).map((i) => i.path)).not.toContain("/secrets/");
+    expect(await backend.lsInfo("/secrets")).toEqual([]);
+    expect(await backend.read("/.env")).toBe(
+      "Error: Access to '/.env' is not allowed by the path policy"
+    );
+    await expect(backend.readRaw("/secrets/key.pem")).rejects.toThrow("not allowed by the path policy");
+    expect(await backend.grepRaw("token", "/secrets")).toBe(
+      "Error: Access to '/secrets' is not allowed by the path policy"
+    );
+    const grepped = await backend.grepRaw("token");
+    expect(Array.isArray(grepped) && grepped.map((m) => m.path)).not.toContain("/secrets/key.pem");
+
+    const write = await backend.write("/secrets/new.pem", "x");
+    expect(write).toMatchObject({ success: false, code: "path_not_allowed" });
+    const [download] = await backend.downloadFiles(["/.env"]);
+    expect(download!.error).toBe("path_not_allowed");
+  });
+
+  test("matches globs without a slash at any depth", async () => {
+    const policy = { deny: [".env*"], readOnly: ["app"] };
+    const { rootDir, backend } = createProject(policy);
+
+    expect(await backend.read("/packages/app/.env.local")).toContain("not allowed by the path policy");
+    expect(await backend.lsInfo("/packages/app")).toEqual([]);
+    expect((await backend.write("/packages/app/index.ts", "x")).code).toBe("path_read_only");
+
+    // Names starting with ".." are inside the root, not above it
+    const absolute = new FilesystemBackend({ rootDir, pathPolicy: policy });
+    expect(await absolute.read(path.join(rootDir, "..env"))).toContain("NOT_SECRET");
+  });
+
+  test("allows reading but not changing read-only paths", async () => {
+    const { rootDir, backend } = createProject({ readOnly: ["package.json", "src/generated"] });
+
+    expect(await backend.read("/package.json")).toContain("{}");
+    const edit = await backend.edit("/package.json", "{}", '{"a":1}');
+    expect(edit).toMatchObject({ success: false, code: "path_read_only" });
+    expect(edit.error).toBe("Error: '/package.json' is read-only. It can be read but not changed.");
+
+    expect((await backend.write("/src/generated/new.ts", "x")).code).toBe("path_read_only");
+    expect((await backend.delete("/src", true)).error).toBe(
+      "Error: '/src/generated' is read-only. It can be read but not changed."
+    );
+    expect((await backend.move("/package.json", "/pkg.json")).code).toBe("path_read_only");
+    expect((await backend.copy("/package.json", "/pkg.json")).success).toBe(true);
+    expect(fs.existsSync(path.join(rootDir, "src/generated/types.ts"))).toBe(true);
+  });
+
+  test("limits access to allowed paths", async () => {
+    const { backend } = createProject({ allow: ["src/**"] });
+
+    expect((await backend.lsInfo("/")).map((i) => i.path)).toEqual(["/src/"]);
+    expect(await backend.read("/src/app.ts")).toContain("token");
+    expect(await backend.read("/package.json")).toContain("not allowed");
+    expect((await backend.write("/src/new.ts", "x")).success).toBe(true);
+    expect((await backend.write("/other.ts", "x")).code).toBe("path_not_allowed");
+  });
+
+  test("caps file sizes on reads and writes", async () => {
+    const { backend } = createProject({ maxFileSizeBytes: 16 });
+
+    expect(await backend.read("/src/app.ts")).toBe(
+      "Error: '/src/app.ts' is 24 bytes, which exceeds the 16 byte limit"
+    );
+    expect(await backend.read("/package.json")).toContain("{}");
+    expect((await backend.write("/big.txt", "x".repeat(17))).code).toBe("file_too_large");
+    const [upload] = await backend.uploadFiles([["/big.bin", new Uint8Array(17)]]);
+    expect(upload!.error).toBe("file_too_large");
+  });
+});
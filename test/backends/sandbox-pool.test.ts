@@ -0,0 +1,258 @@
+/**
+ * Tests for sandbox snapshots and SandboxPool.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LocalSandbox } from "@/backends/local-sandbox";
+import { SandboxPool } from "@/backends/sandbox-pool";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempDir() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sandbox-pool-test-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/**
+ * LocalSandbox that records when it is disposed.
+ */
+class TrackedSandbox extends LocalSandbox {
+  readonly dir: string;
+  disposed = false;
+
+  constructor(dir: string) {
+    super({ cwd: dir });
+    this.dir = dir;
+  }
+
+  override async dispose(): Promise<void> {
+    this.disposed = true;
+    await super.dispose();
+  }
+}
+
+function createPool(options: { size?: number; maxSize?: number; checkpointer?: MemorySaver } = {}) {
+  const created: TrackedSandbox[] = [];
+  const pool = new SandboxPool({
+    create: () => {
+      const sandbox = new TrackedSandbox(tempDir());
+      created.push(sandbox);
+      return sandbox;
+    },
+    prepare: async (sandbox) => {
+      await sandbox.execute("echo prepared > ready.txt");
+    },
+    ...options,
+  });
+  return { pool, created };
+}
+
+describe("sandbox snapshots", () => {
+  test("captures files and restores them into another sandbox", async () => {
+    const source = new LocalSandbox({ cwd: tempDir() });
+    await source.execute(
+      "mkdir -p node_modules/lib src && echo 'module.exports = 1;' > node_modules/lib/index.js && echo app > src/app.ts && echo x > .env"
+    );
+    const bytes = new Uint8Array([0, 1, 2, 255]);
+    await source.uploadFiles([["data.bin", bytes]]);
+
+    const snapshot = await source.snapshot();
+    expect(snapshot.path).toBe(".");
+    expect(snapshot.fileCount).toBe(4);
+
+    const targetDir = tempDir();
+    fs.writeFileSync(path.join(targetDir, "stale.txt"), "old");
+    const target = new LocalSandbox({ cwd: targetDir });
+    await target.restore(snapshot);
+
+    expect(fs.readFileSync(path.join(targetDir, "node_modules/lib/index.js"), "utf-8")).toBe(
+      "module.exports = 1;\n"
+    );
+    expect(fs.readFileSync(path.join(targetDir, "src/app.ts"), "utf-8")).toBe("app\n");
+    expect(fs.readFileSync(path.join(targetDir, ".env"), "utf-8")).toBe("x\n");
+    expect(new Uint8Array(fs.readFileSync(path.join(targetDir, "data.bin")))).toEqual(bytes);
+    expect(fs.existsSync(path.join(targetDir, "stale.txt"))).toBe(false);
+  });
+
+  test("keeps executables and symlinks so restored tools still run", async () => {
+    const source = new LocalSandbox({ cwd: tempDir() });
+    await source.execute(
+      "mkdir -p node_modules/tool/bin node_modules/.bin && " +
+        "printf '#!/bin/sh\\necho tool ran\\n' > node_modules/tool/bin/tool && " +
+        "chmod 755 node_modules/tool/bin/tool && " +
+        "ln -s ../tool/bin/tool node_modules/.bin/tool && ln -s tool node_modules/linked-dir"
+    );
+    const snapshot = await source.snapshot();
+    expect(snapshot.fileCount).toBe(3);
+
+    const targetDir = tempDir();
+    // A file where the snapshot has a symlink is replaced, not written through
+    fs.mkdirSync(path.join(targetDir, "node_modules/.bin"), { recursive: true });
+    fs.writeFileSync(path.join(targetDir, "node_modules/.bin/tool"), "old");
+    const target = new LocalSandbox({ cwd: targetDir });
+    await target.restore(snapshot);
+
+    expect(fs.readlinkSync(path.join(targetDir, "node_modules/.bin/tool"))).toBe("../tool/bin/tool");
+    expect(fs.readlinkSync(path.join(targetDir, "node_modules/linked-dir"))).toBe("tool");
+    expect(fs.statSync(path.join(targetDir, "node_modules/tool/bin/tool")).mode & 0o777).toBe(0o755);
+    const result = await target.execute("./node_modules/.bin/tool");
+    expect(result).toMatchObject({ output: "tool ran\n", exitCode: 0 });
+  });
+
+  test("restores trees whose file names exceed one command line", async () => {
+    const sourceDir = tempDir();
+    const deepDir = Array.from({ length: 12 }, (_, i) => `${i}-${"d".repeat(200)}`).join("/");
+    fs.mkdirSync(path.join(sourceDir, deepDir), { recursive: true });
+    const names = Array.from({ length: 60 }, (_, i) => `${deepDir}/${i}-${"f".repeat(200)}.js`);
+    for (const name of names) {
+      fs.writeFileSync(path.join(sourceDir, name), name.length.toString());
+    }
+    expect(names.join("").length).toBeGreaterThan(128 * 1024);
+
+    const snapshot = await new LocalSandbox({ cwd: sourceDir }).snapshot();
+    expect(snapshot.fileCount).toBe(60);
+
+    const targetDir = tempDir();
+    await new LocalSandbox({ cwd: targetDir }).restore(snapshot);
+    for (const name of names) {
+      expect(fs.readFileSync(path.join(targetDir, name), "utf-8")).toBe(name.length.toString());
+    }
+  });
+
+  test("uploads files larger than one command line", async () => {
+    const dir = tempDir();
+    const sandbox = new LocalSandbox({ cwd: dir });
+    const content = new Uint8Array(300 * 1024).map((_, i) => i % 251);
+
+    const [upload] = await sandbox.uploadFiles([["big.bin", content]]);
+    expect(upload!.error).toBeNull();
+    expect(new Uint8Array(fs.readFileSync(path.join(dir, "big.bin")))).toEqual(content);
+  });
+
+  test("fails instead of dropping files when the listing is truncated", async () => {
+    const dir = tempDir();
+    for (let i = 0; i < 400; i++) {
+      fs.writeFileSync(path.join(dir, `${i}-${"f".repeat(200)}.txt`), "");
+    }
+    const sandbox = new LocalSandbox({ cwd: dir, maxOutputSize: 1000 });
+
+    await expect(sandbox.snapshot()).rejects.toThrow(
+      "Error: Could not snapshot '.': the file listing exceeds the sandbox's output limit"
+    );
+  });
+
+  test("snapshots a subdirectory", async () => {
+    const dir = tempDir();
+    const sandbox = new LocalSandbox({ cwd: dir });
+    await sandbox.execute("mkdir -p src other && echo a > src/a.ts && echo b > other/b.ts");
+
+    const snapshot = await sandbox.snapshot("src");
+    expect(snapshot.fileCount).toBe(1);
+
+    await sandbox.execute("echo changed > src/a.ts && echo new > src/new.ts");
+    await sandbox.restore(snapshot);
+    expect(fs.readdirSync(path.join(dir, "src"))).toEqual(["a.ts"]);
+    expect(fs.readFileSync(path.join(dir, "src/a.ts"), "utf-8")).toBe("a\n");
+    expect(fs.existsSync(path.join(dir, "other/b.ts"))).toBe(true);
+  });
+});
+
+describe("SandboxPool", () => {
+  test("pre-warms sandboxes and leases one per thread", async () => {
+    const { pool, created } = createPool({ size: 2 });
+    await pool.warm();
+    expect(pool.idleCount).toBe(2);
+    expect(created.every((s) => fs.existsSync(path.join(s.dir, "ready.txt")))).toBe(true);
+
+    const [a, again, b] = await Promise.all([
+      pool.acquire("thread-a"),
+      pool.acquire("thread-a"),
+      pool.acquire("thread-b"),
+    ]);
+    expect(again).toBe(a);
+    expect(b).not.toBe(a);
+    expect(created.slice(0, 2)).toEqual(expect.arrayContaining([a, b]));
+    expect(pool.leasedThreads.sort()).toEqual(["thread-a", "thread-b"]);
+
+    // The pool tops itself back up in the background
+    await pool.warm();
+    expect(pool.idleCount).toBe(2);
+    expect(created).toHaveLength(4);
+
+    await pool.dispose();
+    expect(created.every((s) => s.disposed)).toBe(true);
+    await expect(pool.acquire("thread-c")).rejects.toThrow("Sandbox pool has been disposed");
+  });
+
+  test("restores a snapshot into new sandboxes", async () => {
+    const prepared = new LocalSandbox({ cwd: tempDir() });
+    await prepared.execute("mkdir -p deps && echo installed > deps/marker");
+    const snapshot = await prepared.snapshot();
+
+    const dirs: string[] = [];
+    const pool = new SandboxPool({
+      create: () => {
+        const dir = tempDir();
+        dirs.push(dir);
+        return new LocalSandbox({ cwd: dir });
+      },
+      size: 0,
+      snapshot,
+    });
+
+    await pool.acquire("thread-1");
+    expect(fs.readFileSync(path.join(dirs[0]!, "deps/marker"), "utf-8")).toBe("installed\n");
+    await pool.dispose();
+  });
+
+  test("enforces maxSize", async () => {
+    const { pool } = createPool({ size: 1, maxSize: 2 });
+    await pool.warm();
+    await pool.acquire("t1");
+    await pool.acquire("t2");
+    await expect(pool.acquire("t3")).rejects.toThrow("Sandbox pool is at its limit of 2 sandboxes");
+    expect(pool.leasedThreads.sort()).toEqual(["t1", "t2"]);
+
+    await pool.release("t1");
+    expect(await pool.acquire("t3")).toBeDefined();
+    await pool.dispose();
+  });
+
+  test("releases sandboxes of threads deleted from the checkpointer", async () => {
+    const checkpointer = new MemorySaver();
+    const { pool, created } = createPool({ size: 0, checkpointer });
+    const now = new Date().toISOString();
+    for (const threadId of ["kept", "deleted"]) {
+      await checkpointer.save({
+        threadId,
+        step: 1,
+        messages: [],
+        state: { todos: [], files: {} },
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const kept = (await pool.acquire("kept")) as TrackedSandbox;
+    const deleted = (await pool.acquire("deleted")) as TrackedSandbox;
+    await checkpointer.delete("deleted");
+
+    expect(await pool.prune()).toEqual(["deleted"]);
+    expect(deleted.disposed).toBe(true);
+    expect(kept.disposed).toBe(false);
+    expect(pool.leasedThreads).toEqual(["kept"]);
+    expect(created).toHaveLength(2);
+    await pool.dispose();
+  });
+});
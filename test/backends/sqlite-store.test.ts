@@ -0,0 +1,75 @@
+/**
+ * Tests for src/backends/sqlite-store.ts
+ */
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { SqliteStore } from "@/backends/sqlite-store";
+import { PersistentBackend } from "@/backends/persistent";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+
+const TEST_DIR = "./.test-sqlite-store";
+const DB_PATH = join(TEST_DIR, "store.db");
+
+describe("SqliteStore", () => {
+  let store: SqliteStore;
+
+  beforeEach(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    store = new SqliteStore({ path: DB_PATH });
+  });
+
+  afterEach(() => {
+    store.close();
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true });
+    }
+  });
+
+  test("put, get and delete values", async () => {
+    await store.put(["ns"], "key", { value: 1 });
+    expect(await store.get(["ns"], "key")).toEqual({ value: 1 });
+
+    await store.put(["ns"], "key", { value: 2 });
+    expect(await store.get(["ns"], "key")).toEqual({ value: 2 });
+
+    await store.delete(["ns"], "key");
+    expect(await store.get(["ns"], "key")).toBeUndefined();
+  });
+
+  test("list returns only items directly in the namespace", async () => {
+    await store.put(["project", "filesystem"], "/a.txt", { n: 1 });
+    await store.put(["project", "filesystem"], "/b:c.txt", { n: 2 });
+    await store.put(["project", "filesystem", "nested"], "/d.txt", { n: 3 });
+    await store.put(["project"], "filesystem", { n: 4 });
+
+    const items = await store.list(["project", "filesystem"]);
+    expect(items.map((i) => i.key)).toEqual(["/a.txt", "/b:c.txt"]);
+  });
+
+  test("putMany writes all entries", async () => {
+    await store.putMany([
+      { namespace: ["ns"], key: "a", value: { n: 1 } },
+      { namespace: ["ns"], key: "b", value: { n: 2 } },
+    ]);
+
+    expect((await store.list(["ns"])).length).toBe(2);
+  });
+
+  test("data survives reopening the database", async () => {
+    await store.put(["ns"], "key", { value: "persisted" });
+    store.close();
+
+    store = new SqliteStore({ path: DB_PATH });
+    expect(await store.get(["ns"], "key")).toEqual({ value: "persisted" });
+  });
+
+  test("works as PersistentBackend storage", async () => {
+    const backend = new PersistentBackend({ store, namespace: "project" });
+    await backend.write("/notes.md", "hello\nworld");
+
+    const reopened = new PersistentBackend({ store, namespace: "project" });
+    const content = await reopened.read("/notes.md");
+    expect(content).toContain("hello");
+    expect((await reopened.lsInfo("/")).map((f) => f.path)).toContain("/notes.md");
+  });
+});
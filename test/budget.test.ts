@@ -0,0 +1,236 @@
+/**
+ * Tests for budget limits: tokens, cost, duration and per-tool call counts.
+ */
+import { test, expect, describe } from "bun:test";
+import { MockLanguageModelV3 } from "ai/test";
+import { createDeepAgent } from "@/agent";
+import { BudgetTracker, hasBudgetLimits } from "@/utils/budget";
+import { createEmptyUsage } from "@/utils/usage";
+import type { BudgetExceededEvent, DeepAgentEvent, DoneEvent, TokenUsage } from "@/types";
+import { createScriptedModel } from "./helpers/mock-model";
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+const writeTodos = {
+  toolName: "write_todos",
+  input: { todos: [{ id: "1", content: "Plan", status: "pending" }] },
+};
+
+describe("BudgetTracker", () => {
+  test("reports the first limit reached", () => {
+    let usage: TokenUsage = createEmptyUsage();
+    const tracker = new BudgetTracker({ maxTotalTokens: 100, maxCost: 1 }, () => usage);
+    expect(tracker.check()).toBeUndefined();
+
+    usage = { ...usage, totalTokens: 50, cost: 1.5 };
+    expect(tracker.check()).toEqual({ limit: "cost", used: 1.5, max: 1 });
+
+    usage = { ...usage, totalTokens: 120 };
+    expect(tracker.check()).toEqual({ limit: "tokens", used: 120, max: 100 });
+  });
+
+  test("refuses tool calls beyond the limit", () => {
+    const tracker = new BudgetTracker({ maxToolCalls: { web_search: 2 } }, createEmptyUsage);
+    expect(tracker.recordToolCall("web_search")).toBe(true);
+    expect(tracker.recordToolCall("web_search")).toBe(true);
+    expect(tracker.check()).toBeUndefined();
+
+    expect(tracker.recordToolCall("web_search")).toBe(false);
+    expect(tracker.recordToolCall("read_file")).toBe(true);
+    expect(tracker.check()).toEqual({
+      limit: "tool-calls",
+      used: 2,
+      max: 2,
+      toolName: "web_search",
+    });
+  });
+
+  test("ignores empty budgets", () => {
+    expect(hasBudgetLimits(undefined)).toBe(false);
+    expect(hasBudgetLimits({ maxToolCalls: {} })).toBe(false);
+    expect(hasBudgetLimits({ maxDurationSeconds: 60 })).toBe(true);
+  });
+});
+
+describe("budget limits", () => {
+  test("gives the agent a final step without tools after the token budget is hit", async () => {
+    const model = createScriptedModel([
+      { toolCalls: [writeTodos], usage: { inputTokens: 100, outputTokens: 10 } },
+      // Tool calls in the wrap-up step are not offered, and the run stops after it
+      { text: "Summary so far.", toolCalls: [writeTodos] },
+      { text: "Never reached." },
+    ]);
+    const agent = createDeepAgent({ model, budget: { maxTotalTokens: 100 } });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Plan" }] })
+    );
+
+    const exceeded = events.find((e): e is BudgetExceededEvent => e.type === "budget-exceeded");
+    expect(exceeded).toEqual({ type: "budget-exceeded", limit: "tokens", used: 110, max: 100 });
+
+    expect(model.doStreamCalls).toHaveLength(2);
+    const wrapUpCall = model.doStreamCalls[1]!;
+    expect(wrapUpCall.toolChoice).toEqual({ type: "none" });
+    const lastMessage = wrapUpCall.prompt[wrapUpCall.prompt.length - 1]!;
+    expect(lastMessage.role).toBe("user");
+    expect(JSON.stringify(lastMessage.content)).toContain("token budget");
+
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+    expect(done?.text).toBe("Summary so far.");
+    // The wrap-up instruction is not part of the transcript
+    expect(JSON.stringify(done?.messages)).not.toContain("token budget");
+  });
+
+  test("stops on the cost budget using the price table", async () => {
+    const model = createScriptedModel([
+      { toolCalls: [writeTodos], usage: { inputTokens: 1000, outputTokens: 0 } },
+      { text: "Wrapped up." },
+    ]);
+    const agent = createDeepAgent({
+      model,
+      pricing: { "mock-model-id": { inputPerMillion: 1000, outputPerMillion: 1000 } },
+      budget: { maxCost: 1 },
+    });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Plan" }] })
+    );
+
+    const exceeded = events.find((e): e is BudgetExceededEvent => e.type === "budget-exceeded");
+    expect(exceeded?.limit).toBe("cost");
+    expect(exceeded?.used).toBeCloseTo(1, 6);
+  });
+
+  test("rejects a cost budget for models without prices", () => {
+    const model = createScriptedModel([]);
+    expect(() => createDeepAgent({ model, budget: { maxCost: 1 } })).toThrow(
+      "pricing has no entry for model 'mock-model-id'"
+    );
+    expect(() =>
+      createDeepAgent({
+        model,
+        pricing: { "mock-model-id": { inputPerMillion: 1, outputPerMillion: 1 } },
+        budget: { maxCost: 1 },
+        subagents: [
+          {
+            name: "helper",
+            description: "Helps",
+            systemPrompt: "Help",
+            model: new MockLanguageModelV3({ modelId: "unpriced-model" }),
+          },
+        ],
+      })
+    ).toThrow("pricing has no entry for model 'unpriced-model'");
+  });
+
+  test("refuses calls beyond a tool's limit and wraps up", async () => {
+    const model = createScriptedModel([
+      { toolCalls: [writeTodos, writeTodos] },
+      { text: "Done planning." },
+    ]);
+    const agent = createDeepAgent({ model, budget: { maxToolCalls: { write_todos: 1 } } });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Plan" }] })
+    );
+
+    const results = events.filter((e) => e.type === "tool-result");
+    expect(results).toHaveLength(2);
+    expect(JSON.stringify(results)).toContain("call limit for tool 'write_todos' reached");
+
+    const exceeded = events.find((e): e is BudgetExceededEvent => e.type === "budget-exceeded");
+    expect(exceeded).toMatchObject({ limit: "tool-calls", toolName: "write_todos", max: 1 });
+    expect(events.find((e): e is DoneEvent => e.type === "done")?.text).toBe("Done planning.");
+  });
+
+  test("applies the duration budget between steps", async () => {
+    const model = createScriptedModel([{ text: "Out of time." }]);
+    const agent = createDeepAgent({ model, budget: { maxDurationSeconds: 0 } });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Plan" }] })
+    );
+
+    expect(events.find((e) => e.type === "budget-exceeded")).toMatchObject({ limit: "duration" });
+    expect(model.doStreamCalls[0]!.toolChoice).toEqual({ type: "none" });
+  });
+
+  test("counts subagent usage toward the budget in generate()", async () => {
+    const model = createScriptedModel([
+      {
+        toolCalls: [
+          { toolName: "task", input: { description: "Research", subagent_type: "researcher" } },
+        ],
+        usage: { inputTokens: 10, outputTokens: 1 },
+      },
+      // Subagent: a single step that takes the run over the budget
+      { text: "Findings.", usage: { inputTokens: 150, outputTokens: 1 } },
+      { text: "Summary so far.", toolCalls: [writeTodos] },
+      { text: "Never reached." },
+    ]);
+    const agent = createDeepAgent({
+      model,
+      includeGeneralPurposeAgent: false,
+      subagents: [{ name: "researcher", description: "Researches things", systemPrompt: "Research." }],
+      budget: { maxTotalTokens: 100 },
+    });
+
+    const result = await agent.generate({ prompt: "Research" });
+
+    expect(model.doGenerateCalls).toHaveLength(3);
+    expect(model.doGenerateCalls[2]!.toolChoice).toEqual({ type: "none" });
+    expect(result.text).toBe("Summary so far.");
+  });
+
+  test("applies budgets to subagent runs", async () => {
+    const model = createScriptedModel([
+      {
+        toolCalls: [
+          { toolName: "task", input: { description: "Research", subagent_type: "researcher" } },
+        ],
+        usage: { inputTokens: 10, outputTokens: 1 },
+      },
+      // Subagent: first step exceeds its budget, second step wraps up
+      { toolCalls: [writeTodos], usage: { inputTokens: 60, outputTokens: 1 } },
+      { text: "Partial findings." },
+      { text: "All done." },
+    ]);
+    const agent = createDeepAgent({
+      model,
+      includeGeneralPurposeAgent: false,
+      subagents: [
+        {
+          name: "researcher",
+          description: "Researches things",
+          systemPrompt: "Research.",
+          budget: { maxTotalTokens: 50 },
+        },
+      ],
+    });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Research" }] })
+    );
+
+    const exceeded = events.find((e): e is BudgetExceededEvent => e.type === "budget-exceeded");
+    expect(exceeded).toEqual({
+      type: "budget-exceeded",
+      limit: "tokens",
+      used: 61,
+      max: 50,
+      subagentName: "researcher",
+    });
+    const finish = events.find((e) => e.type === "subagent-finish");
+    expect(finish).toMatchObject({ result: "Partial findings.", status: "success" });
+    expect(events.find((e): e is DoneEvent => e.type === "done")?.text).toBe("All done.");
+  });
+});
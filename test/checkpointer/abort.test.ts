@@ -0,0 +1,144 @@
+/**
+ * Tests for cancelling runs with an AbortSignal.
+ */
+import { test, expect, describe } from "bun:test";
+import { tool } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { z } from "zod";
+import { createDeepAgent } from "@/agent";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+import type { AbortedEvent, DeepAgentEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+/**
+ * Agent that writes a file in step 1 and calls a tool that aborts the run in step 2.
+ */
+function createAbortingAgent(controller: AbortController) {
+  const checkpointer = new MemorySaver();
+  const model = createScriptedModel([
+    {
+      toolCalls: [
+        {
+          toolName: "write_file",
+          toolCallId: "call-write",
+          input: { file_path: "/notes.txt", content: "first" },
+        },
+      ],
+    },
+    {
+      toolCalls: [{ toolName: "cancel", toolCallId: "call-cancel", input: {} }],
+    },
+    { text: "Never reached." },
+  ]);
+  const agent = createDeepAgent({
+    model,
+    checkpointer,
+    tools: {
+      cancel: tool({
+        description: "Cancel the run",
+        inputSchema: z.object({}),
+        execute: async () => {
+          controller.abort("user cancelled");
+          return "cancelled";
+        },
+      }),
+    },
+  });
+  return { agent, checkpointer };
+}
+
+describe("abortSignal", () => {
+  test("emits an aborted event instead of done or error", async () => {
+    const controller = new AbortController();
+    const { agent } = createAbortingAgent(controller);
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Write a note" }],
+        abortSignal: controller.signal,
+      })
+    );
+
+    const types = events.map((e) => e.type);
+    expect(types).not.toContain("done");
+    expect(types).not.toContain("error");
+
+    const aborted = events.find((e): e is AbortedEvent => e.type === "aborted");
+    expect(aborted?.reason).toBe("user cancelled");
+    expect(aborted?.step).toBe(1);
+    expect(aborted?.state.files["/notes.txt"]?.content).toEqual(["first"]);
+    // Only the completed step is kept - no dangling tool call from the aborted step
+    expect(aborted?.messages.map((m) => m.role)).toEqual(["user", "assistant", "tool"]);
+  });
+
+  test("checkpoints the last completed step", async () => {
+    const controller = new AbortController();
+    const { agent, checkpointer } = createAbortingAgent(controller);
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Write a note" }],
+        threadId: "thread-1",
+        abortSignal: controller.signal,
+      })
+    );
+
+    const types = events.map((e) => e.type);
+    expect(types.indexOf("checkpoint-saved")).toBeLessThan(types.indexOf("aborted"));
+
+    const checkpoint = await checkpointer.load("thread-1");
+    expect(checkpoint?.step).toBe(1);
+    expect(checkpoint?.messages.map((m) => m.role)).toEqual(["user", "assistant", "tool"]);
+    expect(checkpoint?.state.files["/notes.txt"]?.content).toEqual(["first"]);
+  });
+
+  test("keeps the input transcript when aborted before any step completes", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const checkpointer = new MemorySaver();
+    const agent = createDeepAgent({
+      model: createScriptedModel([{ text: "Hello" }]),
+      checkpointer,
+    });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Hi" }],
+        threadId: "thread-1",
+        abortSignal: controller.signal,
+      })
+    );
+
+    expect(events.map((e) => e.type)).toEqual(["step-start", "checkpoint-saved", "aborted"]);
+    const checkpoint = await checkpointer.load("thread-1");
+    expect(checkpoint?.step).toBe(0);
+    expect(checkpoint?.messages).toEqual([{ role: "user", content: "Hi" }]);
+  });
+
+  test("generate() passes the signal to the model", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const scripted = createScriptedModel([{ text: "Hello" }]);
+    const model = new MockLanguageModelV3({
+      doGenerate: async (callOptions) => {
+        callOptions.abortSignal?.throwIfAborted();
+        return scripted.doGenerate(callOptions);
+      },
+    });
+    const agent = createDeepAgent({ model });
+
+    await expect(
+      agent.generate({ prompt: "Hi", abortSignal: controller.signal })
+    ).rejects.toThrow();
+  });
+});
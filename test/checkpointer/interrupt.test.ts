@@ -0,0 +1,168 @@
+/**
+ * Tests for suspending runs on tool approval and resuming from checkpoints.
+ */
+import { test, expect, describe } from "bun:test";
+import { createDeepAgent } from "@/agent";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+import type { DeepAgentEvent, DoneEvent, InterruptEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+function createInterruptingAgent() {
+  const checkpointer = new MemorySaver();
+  const model = createScriptedModel([
+    {
+      toolCalls: [
+        {
+          toolName: "write_file",
+          toolCallId: "call-write",
+          input: { file_path: "/notes.txt", content: "original" },
+        },
+      ],
+    },
+    { text: "Finished." },
+  ]);
+  const agent = createDeepAgent({
+    model,
+    checkpointer,
+    interruptOn: { write_file: true },
+  });
+  return { agent, model, checkpointer };
+}
+
+describe("approval interrupts", () => {
+  test("suspends the run and saves an interrupt checkpoint", async () => {
+    const { agent, checkpointer } = createInterruptingAgent();
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Write a note" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const types = events.map((e) => e.type);
+    expect(types).toContain("approval-requested");
+    expect(types).not.toContain("done");
+    expect(types).not.toContain("file-written");
+
+    const interrupt = events.find((e): e is InterruptEvent => e.type === "interrupt");
+    expect(interrupt?.toolCalls).toEqual([
+      {
+        toolCallId: "call-write",
+        toolName: "write_file",
+        args: { file_path: "/notes.txt", content: "original" },
+      },
+    ]);
+
+    const checkpoint = await checkpointer.load("thread-1");
+    expect(checkpoint?.interrupt?.toolCall.toolCallId).toBe("call-write");
+    // Transcript ends with the unanswered tool call
+    expect(checkpoint?.messages.map((m) => m.role)).toEqual(["user", "assistant"]);
+    expect(checkpoint?.state.files["/notes.txt"]).toBeUndefined();
+  });
+
+  test("reports the pending interrupt again when called without a decision", async () => {
+    const { agent } = createInterruptingAgent();
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Write a note" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const events = await collectEvents(agent.streamWithEvents({ threadId: "thread-1" }));
+    expect(events.map((e) => e.type)).toEqual(["checkpoint-loaded", "interrupt"]);
+  });
+
+  test("approve executes the pending tool call with modified args", async () => {
+    const { agent, checkpointer } = createInterruptingAgent();
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Write a note" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        threadId: "thread-1",
+        resume: {
+          decisions: [
+            {
+              type: "approve",
+              modifiedArgs: { file_path: "/notes.txt", content: "edited" },
+            },
+          ],
+        },
+      })
+    );
+
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+    expect(done?.text).toBe("Finished.");
+    expect(done?.state.files["/notes.txt"]?.content).toEqual(["edited"]);
+    expect(events.map((e) => e.type)).toContain("file-written");
+
+    const checkpoint = await checkpointer.load("thread-1");
+    expect(checkpoint?.interrupt).toBeUndefined();
+    expect(checkpoint?.messages.map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+
+    // History reflects the arguments the tool actually ran with
+    const assistant = checkpoint!.messages[1]!;
+    const call = (assistant.content as Array<{ type: string; input?: unknown }>).find(
+      (p) => p.type === "tool-call"
+    );
+    expect(call?.input).toEqual({ file_path: "/notes.txt", content: "edited" });
+  });
+
+  test("deny feeds a rejection tool result back to the model", async () => {
+    const { agent, model } = createInterruptingAgent();
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Write a note" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        threadId: "thread-1",
+        resume: { decisions: [{ type: "deny" }] },
+      })
+    );
+
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+    expect(done?.state.files["/notes.txt"]).toBeUndefined();
+
+    const lastPrompt = model.doStreamCalls[model.doStreamCalls.length - 1]!.prompt;
+    const toolMessage = lastPrompt.find((m) => m.role === "tool");
+    expect(JSON.stringify(toolMessage?.content)).toContain("Tool execution denied by user");
+  });
+
+  test("auto-denies without a thread to hold the interrupt", async () => {
+    const { agent } = createInterruptingAgent();
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Write a note" }] })
+    );
+
+    const types = events.map((e) => e.type);
+    expect(types).not.toContain("interrupt");
+    expect(types).not.toContain("file-written");
+    expect(types).toContain("done");
+  });
+});
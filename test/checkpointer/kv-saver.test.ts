@@ -136,3 +136,41 @@ test("KeyValueStoreSaver > handles complex state", async () => {
   expect(loaded?.messages).toHaveLength(2);
 });
 
+
+test("KeyValueStoreSaver > keeps every saved checkpoint in history, newest first", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+  await saver.save(createTestCheckpoint("thread-1", 3));
+
+  const history = await saver.listHistory("thread-1");
+  expect(history.map((c) => c.step)).toEqual([3, 2, 1]);
+  expect(history.every((c) => typeof c.checkpointId === "string")).toBe(true);
+
+  const first = await saver.load("thread-1", history[2]!.checkpointId);
+  expect(first?.step).toBe(1);
+  expect((await saver.load("thread-1"))?.step).toBe(3);
+  expect(await saver.load("thread-1", "missing")).toBeUndefined();
+});
+
+test("KeyValueStoreSaver > fork copies a checkpoint into a new thread", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+  const [, first] = await saver.listHistory("thread-1");
+
+  const forked = await saver.fork("thread-1", first!.checkpointId!, "thread-2");
+  expect(forked?.threadId).toBe("thread-2");
+  expect(forked?.step).toBe(1);
+  expect(forked?.parentCheckpointId).toBe(first!.checkpointId);
+
+  expect((await saver.load("thread-2"))?.step).toBe(1);
+  expect((await saver.load("thread-1"))?.step).toBe(2);
+  expect(await saver.listHistory("thread-2")).toHaveLength(1);
+  expect(await saver.fork("thread-1", "missing", "thread-3")).toBeUndefined();
+});
+
+test("KeyValueStoreSaver > delete removes history", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.delete("thread-1");
+
+  expect(await saver.listHistory("thread-1")).toEqual([]);
+});
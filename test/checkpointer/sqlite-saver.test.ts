@@ -0,0 +1,119 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { SqliteSaver } from "@/checkpointer/sqlite-saver.ts";
+import { mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import type { Checkpoint } from "@/checkpointer/types.ts";
+
+const TEST_DIR = "./.test-sqlite-checkpoints";
+const DB_PATH = join(TEST_DIR, "checkpoints.db");
+
+const createTestCheckpoint = (threadId: string, step = 1): Checkpoint => ({
+  threadId,
+  step,
+  messages: [{ role: "user", content: "test message" }],
+  state: { todos: [], files: {} },
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+});
+
+let saver: SqliteSaver;
+
+beforeEach(() => {
+  mkdirSync(TEST_DIR, { recursive: true });
+  saver = new SqliteSaver({ path: DB_PATH });
+});
+
+afterEach(() => {
+  saver.close();
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+});
+
+test("SqliteSaver > save and load checkpoint", async () => {
+  await saver.save(createTestCheckpoint("thread-1"));
+
+  const loaded = await saver.load("thread-1");
+  expect(loaded?.threadId).toBe("thread-1");
+  expect(loaded?.step).toBe(1);
+  expect(loaded?.messages).toHaveLength(1);
+});
+
+test("SqliteSaver > load returns undefined for non-existent thread", async () => {
+  expect(await saver.load("non-existent")).toBeUndefined();
+});
+
+test("SqliteSaver > save overwrites existing checkpoint", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+
+  expect((await saver.load("thread-1"))?.step).toBe(2);
+  expect(await saver.list()).toEqual(["thread-1"]);
+});
+
+test("SqliteSaver > list, exists and delete", async () => {
+  await saver.save(createTestCheckpoint("thread-1"));
+  await saver.save(createTestCheckpoint("thread/2"));
+
+  expect(await saver.list()).toEqual(["thread-1", "thread/2"]);
+  expect(await saver.exists("thread/2")).toBe(true);
+
+  await saver.delete("thread/2");
+  expect(await saver.exists("thread/2")).toBe(false);
+  expect(await saver.list()).toEqual(["thread-1"]);
+});
+
+test("SqliteSaver > namespace isolates checkpoints", async () => {
+  const other = new SqliteSaver({ path: DB_PATH, namespace: "other" });
+  await saver.save(createTestCheckpoint("thread-1"));
+
+  expect(await other.exists("thread-1")).toBe(false);
+  expect(await other.list()).toEqual([]);
+  other.close();
+});
+
+test("SqliteSaver > checkpoints survive reopening the database", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 3));
+  saver.close();
+
+  saver = new SqliteSaver({ path: DB_PATH });
+  expect((await saver.load("thread-1"))?.step).toBe(3);
+});
+
+test("SqliteSaver > keeps every saved checkpoint in history, newest first", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+  await saver.save(createTestCheckpoint("thread-1", 3));
+
+  const history = await saver.listHistory("thread-1");
+  expect(history.map((c) => c.step)).toEqual([3, 2, 1]);
+  expect(history.every((c) => typeof c.checkpointId === "string")).toBe(true);
+
+  const first = await saver.load("thread-1", history[2]!.checkpointId);
+  expect(first?.step).toBe(1);
+  expect((await saver.load("thread-1"))?.step).toBe(3);
+  expect(await saver.load("thread-1", "missing")).toBeUndefined();
+});
+
+test("SqliteSaver > fork copies a checkpoint into a new thread", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.save(createTestCheckpoint("thread-1", 2));
+  const [, first] = await saver.listHistory("thread-1");
+
+  const forked = await saver.fork("thread-1", first!.checkpointId!, "thread-2");
+  expect(forked?.threadId).toBe("thread-2");
+  expect(forked?.step).toBe(1);
+  expect(forked?.parentCheckpointId).toBe(first!.checkpointId);
+
+  expect((await saver.load("thread-2"))?.step).toBe(1);
+  expect((await saver.load("thread-1"))?.step).toBe(2);
+  expect(await saver.listHistory("thread-2")).toHaveLength(1);
+  expect(await saver.fork("thread-1", "missing", "thread-3")).toBeUndefined();
+});
+
+test("SqliteSaver > delete removes history", async () => {
+  await saver.save(createTestCheckpoint("thread-1", 1));
+  await saver.delete("thread-1");
+
+  expect(await saver.listHistory("thread-1")).toEqual([]);
+});
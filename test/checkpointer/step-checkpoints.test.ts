@@ -0,0 +1,122 @@
+/**
+ * Tests for per-step checkpointing and resuming a failed run.
+ */
+import { test, expect, describe } from "bun:test";
+import { createDeepAgent } from "@/agent";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+import type { CheckpointSavedEvent, DeepAgentEvent, DoneEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+const writeThenFail = () =>
+  createScriptedModel([
+    {
+      toolCalls: [
+        { toolName: "write_file", input: { file_path: "/draft.md", content: "step one" } },
+      ],
+    },
+    { error: new Error("provider unavailable") },
+    { text: "Recovered." },
+  ]);
+
+describe("per-step checkpoints", () => {
+  test("saves completed steps before a provider error", async () => {
+    const checkpointer = new MemorySaver();
+    const agent = createDeepAgent({ model: writeThenFail(), checkpointer });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Draft a doc" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const types = events.map((e) => e.type);
+    expect(types).toContain("error");
+    expect(types).not.toContain("done");
+
+    const saved = events.filter(
+      (e): e is CheckpointSavedEvent => e.type === "checkpoint-saved"
+    );
+    expect(saved.map((e) => e.step)).toEqual([1]);
+
+    const checkpoint = await checkpointer.load("thread-1");
+    expect(checkpoint?.state.files["/draft.md"]?.content).toEqual(["step one"]);
+    expect(checkpoint?.messages.map((m) => m.role)).toEqual(["user", "assistant", "tool"]);
+  });
+
+  test("resumes an interrupted run from the last completed step", async () => {
+    const checkpointer = new MemorySaver();
+    const model = writeThenFail();
+    const agent = createDeepAgent({ model, checkpointer });
+
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Draft a doc" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const events = await collectEvents(agent.streamWithEvents({ threadId: "thread-1" }));
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+
+    expect(done?.text).toBe("Recovered.");
+    expect(done?.state.files["/draft.md"]).toBeDefined();
+    const lastPrompt = model.doStreamCalls[model.doStreamCalls.length - 1]!.prompt;
+    expect(lastPrompt.map((m) => m.role)).toEqual(["system", "user", "assistant", "tool"]);
+  });
+
+  test("step checkpoints are snapshots of state", async () => {
+    const checkpointer = new MemorySaver();
+    const agent = createDeepAgent({
+      model: createScriptedModel([
+        { toolCalls: [{ toolName: "write_file", input: { file_path: "/a.md", content: "a" } }] },
+        { toolCalls: [{ toolName: "write_file", input: { file_path: "/b.md", content: "b" } }] },
+        { text: "Done." },
+      ]),
+      checkpointer,
+    });
+
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Write two files" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const history = await checkpointer.listHistory("thread-1");
+    const firstStep = history.find((c) => c.step === 1)!;
+    expect(Object.keys(firstStep.state.files)).toEqual(["/a.md"]);
+  });
+
+  test("checkpointEveryStep: false only saves the final checkpoint", async () => {
+    const checkpointer = new MemorySaver();
+    const agent = createDeepAgent({
+      model: createScriptedModel([
+        { toolCalls: [{ toolName: "ls", input: { path: "/" } }] },
+        { text: "Done." },
+      ]),
+      checkpointer,
+      checkpointEveryStep: false,
+    });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "List files" }],
+        threadId: "thread-1",
+      })
+    );
+
+    expect(events.filter((e) => e.type === "checkpoint-saved")).toHaveLength(1);
+    expect(await checkpointer.listHistory("thread-1")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for resuming a thread from an earlier checkpoint.
+ */
+import { test, expect, describe } from "bun:test";
+import { createDeepAgent } from "@/agent";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+import type { CheckpointSavedEvent, DeepAgentEvent, DoneEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("checkpoint time travel", () => {
+  test("every saved checkpoint has an id and links to its parent", async () => {
+    const checkpointer = new MemorySaver();
+    const agent = createDeepAgent({
+      model: createScriptedModel([
+        { toolCalls: [{ toolName: "ls", input: { path: "/" } }] },
+        { text: "Nothing there." },
+      ]),
+      checkpointer,
+    });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "List files" }],
+        threadId: "thread-1",
+      })
+    );
+
+    const saved = events.filter(
+      (e): e is CheckpointSavedEvent => e.type === "checkpoint-saved"
+    );
+    expect(saved.length).toBeGreaterThan(1);
+    expect(saved.every((e) => e.checkpointId)).toBe(true);
+
+    const history = await checkpointer.listHistory("thread-1");
+    expect(history).toHaveLength(saved.length);
+    expect(history[0]!.parentCheckpointId).toBe(history[1]!.checkpointId);
+  });
+
+  test("resumes from an earlier checkpoint without losing the original branch", async () => {
+    const checkpointer = new MemorySaver();
+    const model = createScriptedModel([
+      { text: "First answer." },
+      { text: "Second answer." },
+      { text: "Retried answer." },
+    ]);
+    const agent = createDeepAgent({ model, checkpointer });
+
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "Question one" }],
+        threadId: "thread-1",
+      })
+    );
+    const afterFirstTurn = (await checkpointer.load("thread-1"))!;
+
+    await collectEvents(
+      agent.streamWithEvents({ prompt: "Question two", threadId: "thread-1" })
+    );
+    const historyBefore = await checkpointer.listHistory("thread-1");
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        prompt: "Question two, rephrased",
+        threadId: "thread-1",
+        checkpointId: afterFirstTurn.checkpointId,
+      })
+    );
+
+    const loaded = events.find((e) => e.type === "checkpoint-loaded");
+    expect(loaded).toMatchObject({ checkpointId: afterFirstTurn.checkpointId });
+
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+    const userTexts = done!.messages!
+      .filter((m) => m.role === "user")
+      .map((m) => m.content);
+    expect(userTexts).toEqual(["Question one", "Question two, rephrased"]);
+
+    // Original branch is still in history
+    const historyAfter = await checkpointer.listHistory("thread-1");
+    expect(historyAfter.length).toBeGreaterThan(historyBefore.length);
+    expect(historyAfter.map((c) => c.checkpointId)).toEqual(
+      expect.arrayContaining(historyBefore.map((c) => c.checkpointId))
+    );
+    // The new branch starts from the requested checkpoint
+    const beforeIds = new Set(historyBefore.map((c) => c.checkpointId));
+    const newBranch = historyAfter.filter((c) => !beforeIds.has(c.checkpointId));
+    expect(newBranch[newBranch.length - 1]!.parentCheckpointId).toBe(
+      afterFirstTurn.checkpointId
+    );
+  });
+
+  test("errors when the checkpoint does not exist", async () => {
+    const checkpointer = new MemorySaver();
+    const agent = createDeepAgent({ model: createScriptedModel([]), checkpointer });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({
+        prompt: "Hello",
+        threadId: "thread-1",
+        checkpointId: "missing",
+      })
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]!.type).toBe("error");
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests that checkpoints and the done event carry the full tool transcript.
+ */
+import { test, expect, describe } from "bun:test";
+import { createDeepAgent } from "@/agent";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+import type { DeepAgentEvent, DoneEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("tool transcript persistence", () => {
+  test("done event messages include tool calls and tool results", async () => {
+    const agent = createDeepAgent({
+      model: createScriptedModel([
+        {
+          toolCalls: [
+            {
+              toolName: "write_file",
+              input: { file_path: "/notes.txt", content: "hello" },
+            },
+          ],
+        },
+        { text: "Wrote the file." },
+      ]),
+    });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Write a note" }] })
+    );
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+
+    expect(done).toBeDefined();
+    const roles = done!.messages!.map((m) => m.role);
+    expect(roles).toEqual(["user", "assistant", "tool", "assistant"]);
+
+    const toolMessage = done!.messages![2]!;
+    expect(Array.isArray(toolMessage.content)).toBe(true);
+    const resultPart = (toolMessage.content as Array<{ type: string; toolName?: string }>)[0];
+    expect(resultPart?.type).toBe("tool-result");
+    expect(resultPart?.toolName).toBe("write_file");
+  });
+
+  test("checkpoint stores the full transcript for the thread", async () => {
+    const checkpointer = new MemorySaver();
+    const agent = createDeepAgent({
+      model: createScriptedModel([
+        { toolCalls: [{ toolName: "ls", input: { path: "/" } }] },
+        { text: "Nothing there." },
+      ]),
+      checkpointer,
+    });
+
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "List files" }],
+        threadId: "thread-transcript",
+      })
+    );
+
+    const checkpoint = await checkpointer.load("thread-transcript");
+    expect(checkpoint).toBeDefined();
+    expect(checkpoint!.messages.map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+  });
+
+  test("resumed thread sends prior tool history back to the model", async () => {
+    const checkpointer = new MemorySaver();
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "ls", input: { path: "/" } }] },
+      { text: "Nothing there." },
+      { text: "Still nothing." },
+    ]);
+    const agent = createDeepAgent({ model, checkpointer });
+
+    await collectEvents(
+      agent.streamWithEvents({
+        messages: [{ role: "user", content: "List files" }],
+        threadId: "thread-resume",
+      })
+    );
+    await collectEvents(
+      agent.streamWithEvents({ prompt: "Check again", threadId: "thread-resume" })
+    );
+
+    const lastCall = model.doStreamCalls[model.doStreamCalls.length - 1]!;
+    const roles = lastCall.prompt.map((m) => m.role);
+    expect(roles).toEqual(["system", "user", "assistant", "tool", "assistant", "user"]);
+  });
+});
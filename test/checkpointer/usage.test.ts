@@ -0,0 +1,108 @@
+/**
+ * Tests for token usage roll-up across runs, subagents and checkpoints.
+ */
+import { test, expect, describe } from "bun:test";
+import { createDeepAgent } from "@/agent";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+import type {
+  DeepAgentEvent,
+  DoneEvent,
+  StepFinishEvent,
+  SubagentFinishEvent,
+} from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+const pricing = {
+  "mock-model-id": { inputPerMillion: 1_000_000, outputPerMillion: 2_000_000 },
+};
+
+describe("token usage", () => {
+  test("reports per-step usage and the run total on done", async () => {
+    const model = createScriptedModel([
+      {
+        toolCalls: [{ toolName: "write_todos", input: { todos: [] } }],
+        usage: { inputTokens: 100, outputTokens: 10 },
+      },
+      { text: "Done.", usage: { inputTokens: 150, outputTokens: 20 } },
+    ]);
+    const agent = createDeepAgent({ model, pricing });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Plan" }] })
+    );
+
+    const steps = events.filter((e): e is StepFinishEvent => e.type === "step-finish");
+    expect(steps.map((s) => s.usage?.inputTokens)).toEqual([100, 150]);
+    expect(steps[0]?.usage?.cost).toBe(100 + 20);
+
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+    expect(done?.usage?.agent.inputTokens).toBe(250);
+    expect(done?.usage?.total.outputTokens).toBe(30);
+    expect(done?.usage?.total.cost).toBe(250 + 60);
+    expect(done?.threadUsage).toBeUndefined();
+  });
+
+  test("counts subagent usage separately", async () => {
+    const model = createScriptedModel([
+      {
+        toolCalls: [
+          {
+            toolName: "task",
+            input: { description: "Research", subagent_type: "general-purpose" },
+          },
+        ],
+        usage: { inputTokens: 100, outputTokens: 10 },
+      },
+      // Subagent's only step
+      { text: "Findings.", usage: { inputTokens: 40, outputTokens: 4 } },
+      { text: "Done.", usage: { inputTokens: 200, outputTokens: 20 } },
+    ]);
+    const agent = createDeepAgent({ model });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Research" }] })
+    );
+
+    const finish = events.find((e): e is SubagentFinishEvent => e.type === "subagent-finish");
+    expect(finish?.usage?.inputTokens).toBe(40);
+
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+    expect(done?.usage?.subagents.totalTokens).toBe(44);
+    expect(done?.usage?.agent.totalTokens).toBe(330);
+    expect(done?.usage?.total.totalTokens).toBe(374);
+    expect(done?.usage?.total.cost).toBeUndefined();
+  });
+
+  test("accumulates thread usage across runs in checkpoints", async () => {
+    const checkpointer = new MemorySaver();
+    const model = createScriptedModel([
+      { text: "First.", usage: { inputTokens: 10, outputTokens: 1 } },
+      { text: "Second.", usage: { inputTokens: 20, outputTokens: 2 } },
+    ]);
+    const agent = createDeepAgent({ model, checkpointer });
+
+    await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "one" }], threadId: "thread-1" })
+    );
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "two" }], threadId: "thread-1" })
+    );
+
+    const done = events.find((e): e is DoneEvent => e.type === "done");
+    expect(done?.usage?.total.inputTokens).toBe(20);
+    expect(done?.threadUsage?.total.inputTokens).toBe(30);
+
+    const checkpoint = await checkpointer.load("thread-1");
+    expect(checkpoint?.usage?.total.totalTokens).toBe(33);
+  });
+});
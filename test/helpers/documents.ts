@@ -0,0 +1,200 @@
+/**
+ * Builders for small PDF, Word and Excel documents used as test fixtures.
+ */
+
+import { crc32, deflateRawSync, deflateSync } from "zlib";
+
+/**
+ * Build a zip archive with deflated entries.
+ */
+export function createZip(files: Record<string, string | Uint8Array>): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const compressed = deflateRawSync(data);
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const centralSize = centrals.reduce((size, b) => size + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, ...centrals, end]));
+}
+
+/**
+ * Build a Word document from the XML inside `<w:body>`.
+ */
+export function createDocx(bodyXml: string): Uint8Array {
+  return createZip({
+    "[Content_Types].xml": '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>',
+    "word/document.xml":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+      `<w:body>${bodyXml}</w:body></w:document>`,
+  });
+}
+
+/**
+ * A Word paragraph, optionally with a style (e.g. "Heading1").
+ */
+export function docxParagraph(text: string, style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  return `<w:p>${properties}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+/**
+ * Build an Excel workbook from the `<sheetData>` XML of each sheet.
+ * Cell style 1 uses the built-in date format and style 2 a custom date-time format.
+ */
+export function createXlsx(sheets: Record<string, string>, sharedStrings: string[] = []): Uint8Array {
+  const names = Object.keys(sheets);
+  const files: Record<string, string> = {
+    "[Content_Types].xml": '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>',
+    "xl/workbook.xml":
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      names.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+      "</sheets></workbook>",
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      names.map((_, i) => `<Relationship Id="rId${i + 1}" Target="worksheets/sheet${i + 1}.xml"/>`).join("") +
+      "</Relationships>",
+    "xl/sharedStrings.xml":
+      '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      sharedStrings.map((text) => `<si><t>${text}</t></si>`).join("") +
+      "</sst>",
+    "xl/styles.xml":
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy\-mm\-dd hh:mm"/></numFmts>' +
+      '<cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+  };
+  names.forEach((name, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] =
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheets[name]}</sheetData></worksheet>`;
+  });
+  return createZip(files);
+}
+
+/**
+ * Build a PDF whose pages show the given lines of text.
+ *
+ * With `compressed`, content streams are deflated and the page objects are
+ * stored in a compressed object stream. With `hexFont`, text is drawn with a
+ * two-byte font mapped to Unicode through a ToUnicode CMap.
+ */
+export function createPdf(
+  pages: string[][],
+  options: { compressed?: boolean; hexFont?: boolean } = {}
+): Uint8Array {
+  const { compressed = false, hexFont = false } = options;
+  const objects: string[] = [];
+  const streams = new Map<number, Buffer>();
+  const add = (body: string, stream?: Buffer) => {
+    objects.push(body);
+    if (stream) streams.set(objects.length, stream);
+    return objects.length;
+  };
+  const escape = (text: string) => text.replace(/[\\()]/g, (c) => `\\${c}`);
+  const encodeHex = (text: string) =>
+    [...text].map((c) => c.charCodeAt(0).toString(16).padStart(4, "0")).join("");
+
+  const catalog = add("");
+  const pagesNode = add("");
+  let font: number;
+  if (hexFont) {
+    const cmap = Buffer.from(
+      "/CIDInit /ProcSet findresource begin 12 dict begin begincmap\n" +
+        "1 begincodespacerange <0000> <FFFF> endcodespacerange\n" +
+        "1 beginbfrange <0020> <00FF> <0020> endbfrange\n" +
+        "endcmap CMapName currentdict /CMap defineresource pop end end"
+    );
+    const toUnicode = add(`<< /Length ${cmap.length} >>`, cmap);
+    font = add(`<< /Type /Font /Subtype /Type0 /BaseFont /Test /Encoding /Identity-H /ToUnicode ${toUnicode} 0 R >>`);
+  } else {
+    font = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  }
+
+  const pageIds: number[] = [];
+  const pageBodies: string[] = [];
+  for (const lines of pages) {
+    const text =
+      "BT /F1 12 Tf 72 720 Td 14 TL\n" +
+      lines.map((line) => (hexFont ? `<${encodeHex(line)}> Tj T*` : `(${escape(line)}) Tj T*`)).join("\n") +
+      "\nET";
+    const raw = Buffer.from(text, "latin1");
+    const data = compressed ? deflateSync(raw) : raw;
+    const content = add(`<< /Length ${data.length}${compressed ? " /Filter /FlateDecode" : ""} >>`, data);
+    const page = add("");
+    pageIds.push(page);
+    pageBodies.push(
+      `<< /Type /Page /Parent ${pagesNode} 0 R /MediaBox [0 0 612 792] /Contents ${content} 0 R >>`
+    );
+  }
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesNode} 0 R >>`;
+  objects[pagesNode - 1] =
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} ` +
+    `/Resources << /Font << /F1 ${font} 0 R >> >> >>`;
+
+  // Page dictionaries go straight into the file, or into an object stream
+  const direct = new Map<number, string>();
+  objects.forEach((body, i) => direct.set(i + 1, body));
+  if (compressed) {
+    let header = "";
+    let payload = "";
+    pageIds.forEach((id, i) => {
+      header += `${id} ${payload.length} `;
+      payload += `${pageBodies[i]}\n`;
+      direct.delete(id);
+    });
+    const data = deflateSync(Buffer.from(header + payload, "latin1"));
+    objects.push(`<< /Type /ObjStm /N ${pageIds.length} /First ${header.length} /Length ${data.length} /Filter /FlateDecode >>`);
+    streams.set(objects.length, data);
+    direct.set(objects.length, objects[objects.length - 1]!);
+  } else {
+    pageIds.forEach((id, i) => direct.set(id, pageBodies[i]!));
+  }
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  for (const [num, body] of [...direct.entries()].sort(([a], [b]) => a - b)) {
+    const stream = streams.get(num);
+    chunks.push(Buffer.from(`${num} 0 obj\n${body}\n`, "latin1"));
+    if (stream) {
+      chunks.push(Buffer.from("stream\n"), stream, Buffer.from("\nendstream\n"));
+    }
+    chunks.push(Buffer.from("endobj\n"));
+  }
+  chunks.push(Buffer.from(`trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\n%%EOF\n`));
+  return new Uint8Array(Buffer.concat(chunks));
+}
@@ -0,0 +1,127 @@
+/**
+ * Scripted mock language model for agent-level tests.
+ *
+ * Each call to the model consumes the next scripted step, so a test can
+ * describe a whole tool loop (tool calls, then a final answer) up front.
+ */
+import { MockLanguageModelV3, simulateReadableStream } from "ai/test";
+import type { LanguageModelV3Content, LanguageModelV3StreamPart } from "@ai-sdk/provider";
+
+export interface ScriptedToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+  toolCallId?: string;
+}
+
+export interface ScriptedStep {
+  /** Text emitted by the model in this step */
+  text?: string;
+  /** Tool calls emitted by the model in this step */
+  toolCalls?: ScriptedToolCall[];
+  /** Input/output token counts reported for this step */
+  usage?: { inputTokens: number; outputTokens: number };
+  /** Make the model call fail with this error instead of responding */
+  error?: Error;
+}
+
+let toolCallCounter = 0;
+
+function buildStreamParts(step: ScriptedStep): LanguageModelV3StreamPart[] {
+  const parts: LanguageModelV3StreamPart[] = [{ type: "stream-start", warnings: [] }];
+
+  if (step.text) {
+    parts.push(
+      { type: "text-start", id: "text-1" },
+      { type: "text-delta", id: "text-1", delta: step.text },
+      { type: "text-end", id: "text-1" }
+    );
+  }
+
+  for (const call of step.toolCalls ?? []) {
+    parts.push({
+      type: "tool-call",
+      toolCallId: call.toolCallId ?? `call-${++toolCallCounter}`,
+      toolName: call.toolName,
+      input: JSON.stringify(call.input),
+    });
+  }
+
+  parts.push({
+    type: "finish",
+    finishReason: buildFinishReason(step),
+    usage: buildUsage(step),
+  });
+
+  return parts;
+}
+
+function buildFinishReason(step: ScriptedStep) {
+  return {
+    unified: step.toolCalls?.length ? ("tool-calls" as const) : ("stop" as const),
+    raw: undefined,
+  };
+}
+
+function buildUsage(step: ScriptedStep) {
+  const usage = step.usage ?? { inputTokens: 10, outputTokens: 5 };
+  return {
+    inputTokens: {
+      total: usage.inputTokens,
+      noCache: usage.inputTokens,
+      cacheRead: undefined,
+      cacheWrite: undefined,
+    },
+    outputTokens: {
+      total: usage.outputTokens,
+      text: usage.outputTokens,
+      reasoning: undefined,
+    },
+  };
+}
+
+function buildContent(step: ScriptedStep): LanguageModelV3Content[] {
+  const content: LanguageModelV3Content[] = [];
+  if (step.text) {
+    content.push({ type: "text", text: step.text });
+  }
+  for (const call of step.toolCalls ?? []) {
+    content.push({
+      type: "tool-call",
+      toolCallId: call.toolCallId ?? `call-${++toolCallCounter}`,
+      toolName: call.toolName,
+      input: JSON.stringify(call.input),
+    });
+  }
+  return content;
+}
+
+/**
+ * Create a mock model that plays back the given steps in order.
+ * Streaming and non-streaming calls (used by subagents) share the script.
+ * Once the script is exhausted, the model answers with "done".
+ */
+export function createScriptedModel(steps: ScriptedStep[]): MockLanguageModelV3 {
+  let index = 0;
+  const nextStep = (): ScriptedStep => {
+    const step = steps[index++] ?? { text: "done" };
+    if (step.error) {
+      throw step.error;
+    }
+    return step;
+  };
+
+  return new MockLanguageModelV3({
+    doStream: async () => ({
+      stream: simulateReadableStream({ chunks: buildStreamParts(nextStep()) }),
+    }),
+    doGenerate: async () => {
+      const step = nextStep();
+      return {
+        content: buildContent(step),
+        finishReason: buildFinishReason(step),
+        usage: buildUsage(step),
+        warnings: [],
+      };
+    },
+  });
+}
@@ -0,0 +1,253 @@
+/**
+ * Tests for the task_batch tool: parallel subagent fan-out with concurrency limits.
+ */
+import { test, expect, describe } from "bun:test";
+import { MockLanguageModelV3 } from "ai/test";
+import type { ToolExecutionOptions } from "ai";
+import { createDeepAgent } from "@/agent";
+import { createSubagentBatchTool } from "@/tools/subagent";
+import { createFileData } from "@/backends/utils";
+import type {
+  DeepAgentEvent,
+  DeepAgentState,
+  SubagentFinishEvent,
+  SubagentStartEvent,
+} from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+function createState(): DeepAgentState {
+  return { todos: [], files: {} };
+}
+
+function executionOptions(toolCallId: string, abortSignal?: AbortSignal): ToolExecutionOptions {
+  return { toolCallId, messages: [], abortSignal };
+}
+
+/**
+ * Model that answers every call with `text` after `delayMs`, tracking how many
+ * calls are in flight. Calls reject when their abort signal fires.
+ */
+function createSlowModel(text: string, delayMs: number, tracker = { inFlight: 0, peak: 0 }) {
+  const model = new MockLanguageModelV3({
+    doGenerate: async ({ abortSignal }) => {
+      tracker.inFlight++;
+      tracker.peak = Math.max(tracker.peak, tracker.inFlight);
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, delayMs);
+          abortSignal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(abortSignal.reason);
+          });
+        });
+      } finally {
+        tracker.inFlight--;
+      }
+      return {
+        content: [{ type: "text", text }],
+        finishReason: { unified: "stop", raw: undefined },
+        usage: {
+          inputTokens: { total: 1, noCache: 1, cacheRead: undefined, cacheWrite: undefined },
+          outputTokens: { total: 1, text: 1, reasoning: undefined },
+        },
+        warnings: [],
+      };
+    },
+  });
+  return { model, tracker };
+}
+
+describe("task_batch", () => {
+  test("runs tasks on different subagent types and returns results in order", async () => {
+    const events: DeepAgentEvent[] = [];
+    const batchTool = createSubagentBatchTool(createState(), {
+      defaultModel: createScriptedModel([]),
+      includeGeneralPurposeAgent: false,
+      subagents: [
+        {
+          name: "researcher",
+          description: "Researches",
+          systemPrompt: "Research",
+          model: createSlowModel("research notes", 20).model,
+        },
+        {
+          name: "writer",
+          description: "Writes",
+          systemPrompt: "Write",
+          model: createSlowModel("draft text", 5).model,
+        },
+      ],
+      onEvent: (event) => events.push(event),
+    });
+
+    const output = (await batchTool.execute!(
+      {
+        tasks: [
+          { description: "Research the topic", subagent_type: "researcher" },
+          { description: "Write the intro", subagent_type: "writer" },
+        ],
+      },
+      executionOptions("batch-1")
+    )) as string;
+
+    expect(output).toContain("Completed 2 of 2 tasks.");
+    expect(output.indexOf("research notes")).toBeLessThan(output.indexOf("draft text"));
+    expect(output).toContain("## Task 1 (researcher, success)");
+
+    const starts = events.filter((e): e is SubagentStartEvent => e.type === "subagent-start");
+    expect(starts.map((e) => [e.name, e.batchId, e.batchIndex, e.taskId])).toEqual([
+      ["researcher", "batch-1", 0, "batch-1:0"],
+      ["writer", "batch-1", 1, "batch-1:1"],
+    ]);
+
+    const finishes = events.filter((e): e is SubagentFinishEvent => e.type === "subagent-finish");
+    // The faster writer finishes first - the batch ran in parallel
+    expect(finishes.map((e) => e.batchIndex)).toEqual([1, 0]);
+    expect(finishes.every((e) => e.status === "success")).toBe(true);
+  });
+
+  test("never runs more than maxConcurrency subagents at once", async () => {
+    const { model, tracker } = createSlowModel("ok", 10);
+    const batchTool = createSubagentBatchTool(createState(), {
+      defaultModel: model,
+      maxConcurrency: 2,
+    });
+
+    const tasks = Array.from({ length: 5 }, (_, i) => ({
+      description: `Task ${i}`,
+      subagent_type: "general-purpose",
+    }));
+    const output = await batchTool.execute!({ tasks }, executionOptions("batch-1"));
+
+    expect(output).toContain("Completed 5 of 5 tasks.");
+    expect(tracker.peak).toBe(2);
+  });
+
+  test("times out slow tasks without failing the rest of the batch", async () => {
+    const events: DeepAgentEvent[] = [];
+    const batchTool = createSubagentBatchTool(createState(), {
+      defaultModel: createSlowModel("fast result", 5).model,
+      includeGeneralPurposeAgent: true,
+      subagents: [
+        {
+          name: "slow",
+          description: "Slow agent",
+          systemPrompt: "Be slow",
+          model: createSlowModel("late result", 5000).model,
+        },
+      ],
+      onEvent: (event) => events.push(event),
+    });
+
+    const output = await batchTool.execute!(
+      {
+        tasks: [
+          { description: "Slow task", subagent_type: "slow", timeout_seconds: 0.05 },
+          { description: "Fast task", subagent_type: "general-purpose" },
+        ],
+      },
+      executionOptions("batch-1")
+    );
+
+    expect(output).toContain("Completed 1 of 2 tasks.");
+    expect(output).toContain("## Task 1 (slow, timeout)");
+    expect(output).toContain("timed out after 0.05 seconds");
+    expect(output).toContain("fast result");
+
+    const finishes = events.filter((e): e is SubagentFinishEvent => e.type === "subagent-finish");
+    expect(finishes.find((e) => e.batchIndex === 0)?.status).toBe("timeout");
+  });
+
+  test("reports unknown subagent types per task", async () => {
+    const batchTool = createSubagentBatchTool(createState(), {
+      defaultModel: createSlowModel("ok", 1).model,
+    });
+
+    const output = await batchTool.execute!(
+      {
+        tasks: [
+          { description: "Valid", subagent_type: "general-purpose" },
+          { description: "Invalid", subagent_type: "missing" },
+        ],
+      },
+      executionOptions("batch-1")
+    );
+
+    expect(output).toContain("Completed 1 of 2 tasks.");
+    expect(output).toContain("## Task 2 (missing, error)");
+  });
+
+  test("uses the agent's subagentBatch settings", async () => {
+    const { model, tracker } = createSlowModel("ok", 10);
+    const agent = createDeepAgent({
+      model,
+      subagentBatch: { maxConcurrency: 1 },
+    });
+    const tools = (agent as any).createTools(createState()) as Record<string, any>;
+    expect(tools.task_batch).toBeDefined();
+
+    await tools.task_batch.execute(
+      {
+        tasks: [
+          { description: "One", subagent_type: "general-purpose" },
+          { description: "Two", subagent_type: "general-purpose" },
+        ],
+      },
+      executionOptions("batch-1")
+    );
+    expect(tracker.peak).toBe(1);
+  });
+
+  test("concurrent shared subagents keep each other's writes and deletes", async () => {
+    const state: DeepAgentState = {
+      todos: [],
+      files: { "/old.md": createFileData("old") },
+    };
+    const slowWriter = createScriptedModel([
+      {
+        toolCalls: [
+          { toolName: "delete_file", input: { file_path: "/old.md" } },
+          { toolName: "write_file", input: { file_path: "/b.md", content: "b" } },
+        ],
+      },
+      { text: "Wrote b." },
+    ]);
+    // Start after the fast writer has finished
+    const doGenerate = slowWriter.doGenerate.bind(slowWriter);
+    slowWriter.doGenerate = async (options) => {
+      await Bun.sleep(30);
+      return doGenerate(options);
+    };
+
+    const batchTool = createSubagentBatchTool(state, {
+      defaultModel: createScriptedModel([]),
+      includeGeneralPurposeAgent: false,
+      subagents: [
+        {
+          name: "fast",
+          description: "Writes a",
+          systemPrompt: "Write",
+          model: createScriptedModel([
+            { toolCalls: [{ toolName: "write_file", input: { file_path: "/a.md", content: "a" } }] },
+            { text: "Wrote a." },
+          ]),
+        },
+        { name: "slow", description: "Writes b", systemPrompt: "Write", model: slowWriter },
+      ],
+    });
+    const files = state.files;
+
+    await batchTool.execute!(
+      {
+        tasks: [
+          { description: "Write a", subagent_type: "fast" },
+          { description: "Write b", subagent_type: "slow" },
+        ],
+      },
+      executionOptions("batch-1")
+    );
+
+    expect(state.files).toBe(files);
+    expect(Object.keys(state.files).sort()).toEqual(["/a.md", "/b.md"]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for subagent filesystem isolation modes and merging files back.
+ */
+import { test, expect, describe, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ToolExecutionOptions } from "ai";
+import { createSubagentTool } from "@/tools/subagent";
+import { createFileData } from "@/backends/utils";
+import { FilesystemBackend } from "@/backends/filesystem";
+import type {
+  BackendProtocol,
+  DeepAgentEvent,
+  DeepAgentState,
+  SubAgent,
+  SubagentFinishEvent,
+} from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+const executionOptions: ToolExecutionOptions = { toolCallId: "call-task", messages: [] };
+
+function createParentState(): DeepAgentState {
+  return {
+    todos: [],
+    files: { "/scratch.md": createFileData("parent notes") },
+  };
+}
+
+/**
+ * Subagent that overwrites the parent's scratch file and writes a report.
+ */
+function createWriterSubagent(filesystem: SubAgent["filesystem"]): SubAgent {
+  return {
+    name: "writer",
+    description: "Writes files",
+    systemPrompt: "Write files",
+    filesystem,
+    model: createScriptedModel([
+      {
+        toolCalls: [
+          {
+            toolName: "edit_file",
+            input: { file_path: "/scratch.md", old_string: "parent", new_string: "clobbered" },
+          },
+          {
+            toolName: "write_file",
+            input: { file_path: "/out/report.md", content: "report" },
+          },
+        ],
+      },
+      { text: "Wrote the report." },
+    ]),
+  };
+}
+
+async function runWriter(
+  state: DeepAgentState,
+  filesystem: SubAgent["filesystem"],
+  backend?: BackendProtocol
+) {
+  const events: DeepAgentEvent[] = [];
+  const taskTool = createSubagentTool(state, {
+    defaultModel: createScriptedModel([]),
+    backend,
+    includeGeneralPurposeAgent: false,
+    subagents: [createWriterSubagent(filesystem)],
+    onEvent: (event) => events.push(event),
+  });
+
+  const result = await taskTool.execute!(
+    { description: "Write the report", subagent_type: "writer" },
+    executionOptions
+  );
+  const finish = events.find((e): e is SubagentFinishEvent => e.type === "subagent-finish");
+  return { result, finish };
+}
+
+describe("subagent filesystem isolation", () => {
+  test("shared mode writes straight into the parent's files", async () => {
+    const state = createParentState();
+    await runWriter(state, undefined);
+
+    expect(state.files["/scratch.md"]?.content).toEqual(["clobbered notes"]);
+    expect(state.files["/out/report.md"]?.content).toEqual(["report"]);
+  });
+
+  test("isolated mode starts empty and leaves the parent untouched", async () => {
+    const state = createParentState();
+    const { result, finish } = await runWriter(state, "isolated");
+
+    // The edit fails because the subagent cannot see the parent's file
+    expect(result).toBe("Wrote the report.");
+    expect(state.files["/scratch.md"]?.content).toEqual(["parent notes"]);
+    expect(state.files["/out/report.md"]).toBeUndefined();
+    expect(finish?.mergedFiles).toEqual([]);
+  });
+
+  test("overlay mode reads parent files but keeps writes private", async () => {
+    const state = createParentState();
+    await runWriter(state, "overlay");
+
+    expect(state.files["/scratch.md"]?.content).toEqual(["parent notes"]);
+    expect(state.files["/out/report.md"]).toBeUndefined();
+  });
+
+  test("mergeBack globs copy selected outputs into the parent", async () => {
+    const state = createParentState();
+    const { finish } = await runWriter(state, { mode: "overlay", mergeBack: ["/out/**"] });
+
+    expect(state.files["/scratch.md"]?.content).toEqual(["parent notes"]);
+    expect(state.files["/out/report.md"]?.content).toEqual(["report"]);
+    expect(finish?.mergedFiles).toEqual(["/out/report.md"]);
+  });
+
+  test("mergeBack predicates select files to merge", async () => {
+    const state = createParentState();
+    await runWriter(state, {
+      mode: "overlay",
+      mergeBack: (path) => path === "/scratch.md",
+    });
+
+    expect(state.files["/scratch.md"]?.content).toEqual(["clobbered notes"]);
+    expect(state.files["/out/report.md"]).toBeUndefined();
+  });
+
+  test("scoped mode places changed files under /subagents/{name}/", async () => {
+    const state = createParentState();
+    const { finish } = await runWriter(state, "scoped");
+
+    expect(state.files["/scratch.md"]?.content).toEqual(["parent notes"]);
+    expect(state.files["/subagents/writer/scratch.md"]?.content).toEqual(["clobbered notes"]);
+    expect(state.files["/subagents/writer/out/report.md"]?.content).toEqual(["report"]);
+    expect(finish?.mergedFiles?.sort()).toEqual([
+      "/subagents/writer/out/report.md",
+      "/subagents/writer/scratch.md",
+    ]);
+  });
+});
+
+describe("subagent filesystem isolation over a FilesystemBackend", () => {
+  const tempDirs: string[] = [];
+
+  afterAll(() => {
+    for (const dir of tempDirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  function createProject() {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "subagent-fs-test-"));
+    tempDirs.push(rootDir);
+    fs.writeFileSync(path.join(rootDir, "scratch.md"), "parent notes");
+    const read = (file: string) =>
+      fs.existsSync(path.join(rootDir, file)) ? fs.readFileSync(path.join(rootDir, file), "utf-8") : undefined;
+    return { backend: new FilesystemBackend({ rootDir, virtualMode: true }), read };
+  }
+
+  test("overlay mode edits the parent's files on disk without writing them", async () => {
+    const { backend, read } = createProject();
+    const { finish } = await runWriter({ todos: [], files: {} }, "overlay", backend);
+
+    expect(finish?.status).toBe("success");
+    expect(finish?.mergedFiles).toEqual([]);
+    expect(read("scratch.md")).toBe("parent notes");
+    expect(read("out/report.md")).toBeUndefined();
+  });
+
+  test("overlay mode writes mergeBack files to the parent's backend", async () => {
+    const { backend, read } = createProject();
+    const { finish } = await runWriter({ todos: [], files: {} }, { mode: "overlay", mergeBack: ["**/*.md"] }, backend);
+
+    // The edit only succeeds because the subagent saw the file on disk
+    expect(read("scratch.md")).toBe("clobbered notes");
+    expect(read("out/report.md")).toBe("report");
+    expect(finish?.mergedFiles?.sort()).toEqual(["/out/report.md", "/scratch.md"]);
+  });
+
+  test("scoped mode writes changed files under /subagents/{name}/ on disk", async () => {
+    const { backend, read } = createProject();
+    const state: DeepAgentState = { todos: [], files: {} };
+    await runWriter(state, "scoped", backend);
+
+    expect(read("scratch.md")).toBe("parent notes");
+    expect(read("subagents/writer/scratch.md")).toBe("clobbered notes");
+    expect(read("subagents/writer/out/report.md")).toBe("report");
+    expect(state.files).toEqual({});
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for credential profiles of http_request.
+ */
+
+import { test, describe, expect, beforeAll, afterAll } from "bun:test";
+import * as http from "http";
+import * as net from "net";
+import {
+  applyCredentialProfile,
+  createSecretRedactor,
+  type HttpCredentialProfiles,
+} from "@/tools/credentials";
+import { createWebTools } from "@/tools/web";
+import { createDeepAgent } from "@/agent";
+import { MemorySaver } from "@/checkpointer/memory-saver";
+import type { DeepAgentEvent, DeepAgentState, ToolResultEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+const TOKEN = "ghp_secret1234567890";
+const API_KEY = "key/with+chars";
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://127.0.0.1");
+    if (url.pathname === "/api/to") {
+      res.writeHead(302, { Location: url.searchParams.get("location")! });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        authorization: req.headers.authorization ?? null,
+        accept: req.headers.accept ?? null,
+      })
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function profiles(): HttpCredentialProfiles {
+  return {
+    github: {
+      baseURL: `${baseUrl}/api`,
+      headers: { Authorization: `Bearer ${TOKEN}` },
+      description: "Test API",
+    },
+    keyed: {
+      baseURL: `${baseUrl}/keyed/`,
+      params: { api_key: API_KEY },
+    },
+  };
+}
+
+function createTools() {
+  const events: DeepAgentEvent[] = [];
+  const state: DeepAgentState = { todos: [], files: {} };
+  const tools = createWebTools(state, {
+    webSearchProvider: false,
+    httpCredentials: profiles(),
+    onEvent: (event) => events.push(event),
+  });
+  return { tools, events };
+}
+
+async function httpGet(tools: Record<string, any>, input: Record<string, unknown>) {
+  return tools.http_request.execute(
+    { method: "GET", timeout: 5, ...input },
+    { toolCallId: "http-1", messages: [] }
+  ) as Promise<string>;
+}
+
+describe("applyCredentialProfile", () => {
+  const github = { github: { baseURL: "https://api.github.com/v3", headers: { Authorization: "token abc" } } };
+
+  test("resolves paths under the base URL and keeps the profile's headers", () => {
+    const request = applyCredentialProfile(github, "github", {
+      url: "/repos/a/b",
+      headers: { authorization: "forged", Accept: "application/json" },
+    });
+
+    expect(typeof request).not.toBe("string");
+    if (typeof request === "string") return;
+    expect(request.url.toString()).toBe("https://api.github.com/v3/repos/a/b");
+    expect(request.headers).toEqual({ Accept: "application/json", Authorization: "token abc" });
+    expect(request.secretHeaders).toEqual(["Authorization"]);
+  });
+
+  test("rejects unknown profiles and URLs outside the base URL", () => {
+    expect(applyCredentialProfile(github, "gitlab", { url: "/x" })).toBe(
+      "Error: Unknown credential profile 'gitlab'. Available profiles: github"
+    );
+    for (const url of ["https://evil.example/v3/x", "https://api.github.com/v3x", "../other", "../../v3x/y"]) {
+      expect(applyCredentialProfile(github, "github", { url })).toStartWith("Error:");
+    }
+  });
+
+  test("redacts secrets, their tokens and their encodings", () => {
+    const redact = createSecretRedactor({
+      a: { baseURL: "https://a.example", headers: { Authorization: "Bearer tok_12345" }, params: { key: "a b/c" } },
+    });
+
+    expect(redact("Authorization: Bearer tok_12345")).toBe("Authorization: [REDACTED]");
+    expect(redact("token tok_12345")).toBe("token [REDACTED]");
+    expect(redact("https://a.example/?key=a+b%2Fc and a%20b%2Fc")).toBe(
+      "https://a.example/?key=[REDACTED] and [REDACTED]"
+    );
+  });
+});
+
+describe("http_request with credential profiles", () => {
+  test("lists the profiles in the tool description", () => {
+    const { tools } = createTools();
+
+    expect(tools.http_request.description).toContain(`- github: ${baseUrl}/api (Test API)`);
+    expect(tools.http_request.description).toContain(`- keyed: ${baseUrl}/keyed/`);
+    expect(tools.http_request.description).not.toContain(TOKEN);
+  });
+
+  test("injects the secret header and redacts it from the result", async () => {
+    const { tools, events } = createTools();
+
+    const result = await httpGet(tools, { url: "/user", credentials: "github" });
+
+    expect(result).toContain(`HTTP GET ${baseUrl}/api/user`);
+    expect(result).toContain('"path": "/api/user"');
+    expect(result).toContain('"authorization": "[REDACTED]"');
+    expect(result).not.toContain(TOKEN);
+    expect(events).toEqual([
+      { type: "http-request-start", url: `${baseUrl}/api/user`, method: "GET", credentials: "github" },
+      { type: "http-request-finish", url: `${baseUrl}/api/user`, statusCode: 200 },
+    ]);
+  });
+
+  test("adds secret query parameters and redacts them from URLs", async () => {
+    const { tools, events } = createTools();
+
+    const result = await httpGet(tools, { url: "items", params: { page: "2" }, credentials: "keyed" });
+
+    expect(result).toContain('"api_key": "[REDACTED]"');
+    expect(result).toContain('"page": "2"');
+    expect(JSON.stringify(events)).not.toContain("key%2Fwith");
+    expect(events[0]).toEqual({
+      type: "http-request-start",
+      url: `${baseUrl}/keyed/items?page=2&api_key=[REDACTED]`,
+      method: "GET",
+      credentials: "keyed",
+    });
+  });
+
+  test("does not let the model override the profile's headers", async () => {
+    const { tools } = createTools();
+
+    const result = await httpGet(tools, {
+      url: "/user",
+      headers: { authorization: "Bearer forged", Accept: "text/plain" },
+      credentials: "github",
+    });
+
+    expect(result).toContain('"authorization": "[REDACTED]"');
+    expect(result).toContain('"accept": "text/plain"');
+  });
+
+  test("refuses URLs outside the profile and unknown profiles", async () => {
+    const { tools, events } = createTools();
+
+    expect(await httpGet(tools, { url: "https://example.com/user", credentials: "github" })).toBe(
+      `Error: 'https://example.com/user' is outside the base URL of credential profile 'github' (${baseUrl}/api)`
+    );
+    expect(await httpGet(tools, { url: "/user", credentials: "gitlab" })).toStartWith(
+      "Error: Unknown credential profile 'gitlab'"
+    );
+    expect(events.filter((e) => e.type === "http-request-finish")).toHaveLength(2);
+  });
+
+  test("drops the secret header on a redirect to another origin", async () => {
+    const { tools } = createTools();
+    const otherOrigin = baseUrl.replace("127.0.0.1", "localhost");
+
+    const result = await httpGet(tools, {
+      url: `/to?location=${otherOrigin}/elsewhere`,
+      credentials: "github",
+    });
+
+    expect(result).toContain('"path": "/elsewhere"');
+    expect(result).toContain('"authorization": null');
+  });
+
+  test("sends requests without a profile unchanged", async () => {
+    const { tools } = createTools();
+
+    const result = await httpGet(tools, { url: `${baseUrl}/public` });
+
+    expect(result).toContain('"authorization": null');
+  });
+});
+
+describe("httpCredentials agent option", () => {
+  test("keeps secrets out of events, tool results and checkpoints", async () => {
+    const checkpointer = new MemorySaver();
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "http_request", input: { url: "/user", credentials: "github" } }] },
+      { text: "Fetched the user." },
+    ]);
+    const agent = createDeepAgent({
+      model,
+      webSearchProvider: false,
+      httpCredentials: profiles(),
+      checkpointer,
+    });
+
+    const events: DeepAgentEvent[] = [];
+    for await (const event of agent.streamWithEvents({
+      messages: [{ role: "user", content: "Who am I?" }],
+      threadId: "creds",
+    })) {
+      events.push(event);
+    }
+
+    const result = events.find((e): e is ToolResultEvent => e.type === "tool-result");
+    expect(result?.result).toContain('"authorization": "[REDACTED]"');
+    expect(JSON.stringify(events)).not.toContain(TOKEN);
+    expect(JSON.stringify(await checkpointer.load("creds"))).not.toContain(TOKEN);
+    expect(JSON.stringify(model.doStreamCalls)).not.toContain(TOKEN);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Tests for the network egress policy of http_request and fetch_url.
+ */
+
+import { test, describe, expect, beforeAll, afterAll } from "bun:test";
+import * as http from "http";
+import * as net from "net";
+import * as zlib from "zlib";
+import { checkEgressRequest, type EgressPolicy } from "@/tools/egress";
+import { createWebTools } from "@/tools/web";
+import { createDeepAgent } from "@/agent";
+import type { DeepAgentEvent, DeepAgentState, EgressBlockedEvent, ToolResultEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://127.0.0.1");
+    if (url.pathname.startsWith("/redirect/")) {
+      const remaining = Number(url.pathname.split("/")[2]);
+      res.writeHead(302, { Location: remaining > 0 ? `/redirect/${remaining - 1}` : "/json" });
+      res.end();
+    } else if (url.pathname === "/to") {
+      res.writeHead(302, { Location: url.searchParams.get("location")! });
+      res.end();
+    } else if (url.pathname === "/json") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true, authorization: req.headers.authorization ?? null }));
+    } else if (url.pathname === "/big") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end("x".repeat(2000));
+    } else if (url.pathname === "/gzip") {
+      res.writeHead(200, { "Content-Type": "text/plain", "Content-Encoding": "gzip" });
+      res.end(zlib.gzipSync("compressed hello"));
+    } else if (url.pathname === "/page") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<html><head><title>Docs</title></head><body><h1>Hello</h1><p>World</p></body></html>");
+    } else if (url.pathname === "/hang") {
+      // Never answer
+    } else {
+      res.writeHead(404);
+      res.end("not found");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function createState(): DeepAgentState {
+  return { todos: [], files: {} };
+}
+
+function createTools(egressPolicy: EgressPolicy) {
+  const events: DeepAgentEvent[] = [];
+  const tools = createWebTools(createState(), {
+    webSearchProvider: false,
+    egressPolicy,
+    onEvent: (event) => events.push(event),
+  });
+  return { tools, events };
+}
+
+async function httpGet(tools: Record<string, any>, url: string, extra: Record<string, unknown> = {}) {
+  return tools.http_request.execute(
+    { url, method: "GET", timeout: 5, ...extra },
+    { toolCallId: "http-1", messages: [] }
+  ) as Promise<string>;
+}
+
+describe("checkEgressRequest", () => {
+  const get = (policy: EgressPolicy, url: string, method = "GET") =>
+    checkEgressRequest(policy, new URL(url), method)?.reason;
+
+  test("applies domain allow and deny lists", () => {
+    const policy = { allowDomains: ["example.com", "*.github.io"], denyDomains: ["secret.example.com"] };
+    expect(get(policy, "https://example.com/a")).toBeUndefined();
+    expect(get(policy, "https://api.example.com/a")).toBeUndefined();
+    expect(get(policy, "https://EXAMPLE.com./a")).toBeUndefined();
+    expect(get(policy, "https://docs.github.io")).toBeUndefined();
+    expect(get(policy, "https://github.io")).toBe("domain_not_allowed");
+    expect(get(policy, "https://secret.example.com")).toBe("domain_not_allowed");
+    expect(get(policy, "https://notexample.com")).toBe("domain_not_allowed");
+  });
+
+  test("blocks private IP literals unless the private network is allowed", () => {
+    for (const url of [
+      "http://169.254.169.254/latest/meta-data",
+      "http://127.0.0.1:8080",
+      "http://10.1.2.3",
+      "http://192.168.0.1",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://[fd00::1]/",
+      "http://[64:ff9b::a9fe:a9fe]/",
+      "http://[64:ff9b::10.0.0.1]/",
+      "http://[::127.0.0.1]/",
+      "http://[64:ff9b:1::1]/",
+      "http://0.0.0.0",
+    ]) {
+      expect(get({}, url)).toBe("private_address");
+    }
+    expect(get({}, "http://93.184.216.34")).toBeUndefined();
+    expect(get({}, "http://[64:ff9b::5db8:d822]/")).toBeUndefined();
+    expect(get({ allowPrivateNetwork: true }, "http://127.0.0.1")).toBeUndefined();
+  });
+
+  test("checks the method and protocol", () => {
+    expect(get({ allowedMethods: ["GET"] }, "https://example.com", "POST")).toBe("method_not_allowed");
+    expect(get({ allowedMethods: ["get"] }, "https://example.com", "GET")).toBeUndefined();
+    expect(get({}, "ftp://example.com/file")).toBe("protocol_not_allowed");
+  });
+});
+
+describe("http_request under an egress policy", () => {
+  test("blocks local addresses and emits events", async () => {
+    const { tools, events } = createTools({});
+
+    const result = await httpGet(tools, `${baseUrl}/json`);
+
+    expect(result).toBe(
+      "Error: Request to '127.0.0.1' blocked by the egress policy: it resolves to the private address 127.0.0.1"
+    );
+    expect(events).toEqual([
+      { type: "http-request-start", url: `${baseUrl}/json`, method: "GET" },
+      {
+        type: "egress-blocked",
+        toolName: "http_request",
+        url: `${baseUrl}/json`,
+        method: "GET",
+        reason: "private_address",
+      },
+      { type: "http-request-finish", url: `${baseUrl}/json`, statusCode: 0 },
+    ]);
+  });
+
+  test("blocks hostnames that resolve to private addresses", async () => {
+    const { tools, events } = createTools({});
+    const url = baseUrl.replace("127.0.0.1", "localhost");
+
+    const result = await httpGet(tools, `${url}/json`);
+
+    expect(result).toMatch(/^Error: Request to 'localhost' blocked by the egress policy: it resolves to the private address/);
+    expect(events.find((e): e is EgressBlockedEvent => e.type === "egress-blocked")?.reason).toBe(
+      "private_address"
+    );
+  });
+
+  test("makes allowed requests and follows redirects up to the limit", async () => {
+    const { tools } = createTools({ allowPrivateNetwork: true, maxRedirects: 2 });
+
+    const ok = await httpGet(tools, `${baseUrl}/redirect/1`);
+    expect(ok).toContain("Status: 200");
+    expect(ok).toContain('"ok": true');
+
+    const tooMany = await httpGet(tools, `${baseUrl}/redirect/2`);
+    expect(tooMany).toBe(
+      `Error: Request to '${baseUrl}/redirect/2' blocked by the egress policy: more than 2 redirects`
+    );
+  });
+
+  test("checks redirect targets against the policy", async () => {
+    const { tools, events } = createTools({ allowPrivateNetwork: true, denyDomains: ["169.254.169.254"] });
+
+    const result = await httpGet(tools, `${baseUrl}/to?location=http://169.254.169.254/latest/meta-data`);
+
+    expect(result).toBe("Error: Request to '169.254.169.254' blocked by the egress policy: the domain is not allowed");
+    expect(events.find((e): e is EgressBlockedEvent => e.type === "egress-blocked")).toMatchObject({
+      url: "http://169.254.169.254/latest/meta-data",
+      reason: "domain_not_allowed",
+    });
+  });
+
+  test("does not send credentials to another origin after a redirect", async () => {
+    const { tools } = createTools({ allowPrivateNetwork: true });
+    const otherOrigin = baseUrl.replace("127.0.0.1", "localhost");
+
+    const sameOrigin = await httpGet(tools, `${baseUrl}/to?location=/json`, {
+      headers: { Authorization: "Bearer token" },
+    });
+    expect(sameOrigin).toContain('"authorization": "Bearer token"');
+
+    const crossOrigin = await httpGet(tools, `${baseUrl}/to?location=${otherOrigin}/json`, {
+      headers: { Authorization: "Bearer token" },
+    });
+    expect(crossOrigin).toContain('"authorization": null');
+  });
+
+  test("limits the response size and decompresses bodies", async () => {
+    const { tools } = createTools({ allowPrivateNetwork: true, maxResponseBytes: 1000 });
+
+    expect(await httpGet(tools, `${baseUrl}/big`)).toBe(
+      `Error: Response from '${baseUrl}/big' exceeds the egress policy limit of 1000 bytes`
+    );
+    expect(await httpGet(tools, `${baseUrl}/gzip`)).toContain("Content:\ncompressed hello");
+  });
+
+  test("enforces the method allowlist", async () => {
+    const { tools } = createTools({ allowPrivateNetwork: true, allowedMethods: ["GET"] });
+
+    const result = await tools.http_request.execute(
+      { url: `${baseUrl}/json`, method: "POST", body: { a: 1 }, timeout: 5 },
+      { toolCallId: "http-2", messages: [] }
+    );
+
+    expect(result).toBe("Error: POST requests are blocked by the egress policy. Allowed methods: GET");
+  });
+
+  test("times out like an unrestricted request", async () => {
+    const { tools } = createTools({ allowPrivateNetwork: true });
+
+    expect(await httpGet(tools, `${baseUrl}/hang`, { timeout: 0.5 })).toBe("Request timed out after 0.5 seconds");
+  });
+});
+
+describe("fetch_url under an egress policy", () => {
+  test("fetches allowed pages and blocks the rest", async () => {
+    const { tools, events } = createTools({ allowPrivateNetwork: true, allowDomains: ["127.0.0.1"] });
+
+    const page = await tools.fetch_url.execute(
+      { url: `${baseUrl}/page`, timeout: 5, extract_article: false },
+      { toolCallId: "fetch-1", messages: [] }
+    );
+    expect(page).toContain("# Hello");
+
+    const blocked = await tools.fetch_url.execute(
+      { url: "https://example.com/", timeout: 5, extract_article: false },
+      { toolCallId: "fetch-2", messages: [] }
+    );
+    expect(blocked).toBe("Error: Request to 'example.com' blocked by the egress policy: the domain is not allowed");
+    expect(events.filter((e) => e.type === "fetch-url-finish")).toEqual([
+      { type: "fetch-url-finish", url: `${baseUrl}/page`, success: true },
+      { type: "fetch-url-finish", url: "https://example.com/", success: false },
+    ]);
+  });
+
+  test("applies the agent's egress policy", async () => {
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "fetch_url", input: { url: "http://169.254.169.254/latest/meta-data" } }] },
+      { text: "Blocked." },
+    ]);
+    const agent = createDeepAgent({ model, webSearchProvider: false, egressPolicy: {} });
+
+    const events: DeepAgentEvent[] = [];
+    for await (const event of agent.streamWithEvents({ messages: [{ role: "user", content: "Read metadata" }] })) {
+      events.push(event);
+    }
+
+    expect(events.find((e): e is EgressBlockedEvent => e.type === "egress-blocked")).toEqual({
+      type: "egress-blocked",
+      toolName: "fetch_url",
+      url: "http://169.254.169.254/latest/meta-data",
+      method: "GET",
+      reason: "private_address",
+    });
+    const result = events.find((e): e is ToolResultEvent => e.type === "tool-result");
+    expect(result?.result).toContain("blocked by the egress policy");
+  });
+});
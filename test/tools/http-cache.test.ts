@@ -0,0 +1,263 @@
+/**
+ * Tests for the HTTP cache under fetch_url, http_request and web_search.
+ */
+
+import { test, describe, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import * as http from "http";
+import * as net from "net";
+import { HttpCache, normalizeCacheQuery, normalizeCacheUrl } from "@/tools/http-cache";
+import { MockSearchProvider } from "@/tools/web-search-providers";
+import { createWebTools, web_search } from "@/tools/web";
+import { InMemoryStore } from "@/backends/persistent";
+import { createDeepAgent } from "@/agent";
+import type { DeepAgentEvent, DeepAgentState } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+let server: http.Server;
+let baseUrl: string;
+let hits: Record<string, number>;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url!, "http://127.0.0.1");
+    hits[url.pathname] = (hits[url.pathname] ?? 0) + 1;
+    const count = hits[url.pathname];
+    if (url.pathname === "/etag") {
+      if (req.headers["if-none-match"] === '"v1"') {
+        res.writeHead(304, { ETag: '"v1"', "Cache-Control": "no-cache" });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/plain", ETag: '"v1"', "Cache-Control": "no-cache" });
+      res.end(`etag body ${count}`);
+    } else if (url.pathname === "/no-store") {
+      res.writeHead(200, { "Content-Type": "text/plain", "Cache-Control": "no-store" });
+      res.end(`no-store body ${count}`);
+    } else if (url.pathname === "/max-age") {
+      res.writeHead(200, { "Content-Type": "text/plain", "Cache-Control": "max-age=60", Age: "60" });
+      res.end(`max-age body ${count}`);
+    } else if (url.pathname === "/page") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(`<html><body><h1>Page ${count}</h1><p>Text</p></body></html>`);
+    } else if (url.pathname === "/json") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ count, query: Object.fromEntries(url.searchParams) }));
+    } else {
+      res.writeHead(404);
+      res.end("not found");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  hits = {};
+});
+
+function createTools(cache: HttpCache, provider?: MockSearchProvider) {
+  const events: DeepAgentEvent[] = [];
+  const state: DeepAgentState = { todos: [], files: {} };
+  const tools = createWebTools(state, {
+    webSearchProvider: provider ?? false,
+    httpCache: cache,
+    onEvent: (event) => events.push(event),
+  });
+  return { tools, events };
+}
+
+async function fetchUrl(tools: Record<string, any>, url: string) {
+  return tools.fetch_url.execute(
+    { url, timeout: 5, extract_article: false },
+    { toolCallId: "fetch-1", messages: [] }
+  ) as Promise<string>;
+}
+
+async function httpRequest(tools: Record<string, any>, input: Record<string, unknown>) {
+  return tools.http_request.execute(
+    { method: "GET", timeout: 5, ...input },
+    { toolCallId: "http-1", messages: [] }
+  ) as Promise<string>;
+}
+
+describe("cache keys", () => {
+  test("normalizes URLs and queries", () => {
+    expect(normalizeCacheUrl("HTTPS://Example.com:443/a?b=2&a=1#top")).toBe("https://example.com/a?a=1&b=2");
+    expect(normalizeCacheQuery("  Bun   Runtime ")).toBe("bun runtime");
+  });
+});
+
+describe("fetch_url with an HTTP cache", () => {
+  test("serves repeated fetches from the cache and flags the hit", async () => {
+    const { tools, events } = createTools(new HttpCache({ store: new InMemoryStore() }));
+
+    const first = await fetchUrl(tools, `${baseUrl}/page?b=2&a=1`);
+    const second = await fetchUrl(tools, `${baseUrl}/page?a=1&b=2#section`);
+
+    expect(first).toContain("Page 1");
+    expect(second).toBe(first);
+    expect(hits["/page"]).toBe(1);
+    expect(events.filter((e) => e.type === "fetch-url-finish")).toEqual([
+      { type: "fetch-url-finish", url: `${baseUrl}/page?b=2&a=1`, success: true },
+      { type: "fetch-url-finish", url: `${baseUrl}/page?b=2&a=1`, success: true, cached: true },
+    ]);
+  });
+
+  test("does not store no-store responses", async () => {
+    const { tools } = createTools(new HttpCache({ store: new InMemoryStore() }));
+
+    await fetchUrl(tools, `${baseUrl}/no-store`);
+    expect(await fetchUrl(tools, `${baseUrl}/no-store`)).toContain("no-store body 2");
+  });
+
+  test("revalidates stale entries with their ETag", async () => {
+    const { tools, events } = createTools(new HttpCache({ store: new InMemoryStore() }));
+
+    await fetchUrl(tools, `${baseUrl}/etag`);
+    const second = await fetchUrl(tools, `${baseUrl}/etag`);
+
+    expect(hits["/etag"]).toBe(2);
+    expect(second).toContain("etag body 1");
+    expect(events.filter((e) => e.type === "fetch-url-finish").map((e) => "cached" in e)).toEqual([false, true]);
+  });
+
+  test("uses max-age minus Age, and the TTL when headers are silent", async () => {
+    const { tools } = createTools(new HttpCache({ store: new InMemoryStore(), ttl: 0.05 }));
+
+    // max-age=60 with Age: 60 is already stale
+    await fetchUrl(tools, `${baseUrl}/max-age`);
+    await fetchUrl(tools, `${baseUrl}/max-age`);
+    expect(hits["/max-age"]).toBe(2);
+
+    await fetchUrl(tools, `${baseUrl}/page`);
+    await fetchUrl(tools, `${baseUrl}/page`);
+    expect(hits["/page"]).toBe(1);
+    await Bun.sleep(100);
+    await fetchUrl(tools, `${baseUrl}/page`);
+    expect(hits["/page"]).toBe(2);
+  });
+
+  test("persists entries in the store across caches", async () => {
+    const store = new InMemoryStore();
+    await fetchUrl(createTools(new HttpCache({ store })).tools, `${baseUrl}/page`);
+    await fetchUrl(createTools(new HttpCache({ store })).tools, `${baseUrl}/page`);
+    expect(hits["/page"]).toBe(1);
+
+    const cache = new HttpCache({ store });
+    await cache.clear();
+    await fetchUrl(createTools(cache).tools, `${baseUrl}/page`);
+    expect(hits["/page"]).toBe(2);
+  });
+});
+
+describe("http_request with an HTTP cache", () => {
+  test("caches GET requests only", async () => {
+    const { tools, events } = createTools(new HttpCache({ store: new InMemoryStore() }));
+
+    await httpRequest(tools, { url: `${baseUrl}/json`, params: { q: "a" } });
+    const cached = await httpRequest(tools, { url: `${baseUrl}/json`, params: { q: "a" } });
+    expect(cached).toContain('"count": 1');
+    expect(events.at(-1)).toEqual({
+      type: "http-request-finish",
+      url: `${baseUrl}/json?q=a`,
+      statusCode: 200,
+      cached: true,
+    });
+
+    await httpRequest(tools, { url: `${baseUrl}/json`, method: "POST", body: "x" });
+    await httpRequest(tools, { url: `${baseUrl}/json`, method: "POST", body: "x" });
+    expect(hits["/json"]).toBe(3);
+  });
+
+  test("keys entries by request headers", async () => {
+    const { tools } = createTools(new HttpCache({ store: new InMemoryStore() }));
+
+    await httpRequest(tools, { url: `${baseUrl}/json`, headers: { Accept: "application/json" } });
+    await httpRequest(tools, { url: `${baseUrl}/json`, headers: { accept: "application/json" } });
+    await httpRequest(tools, { url: `${baseUrl}/json`, headers: { Accept: "text/plain" } });
+
+    expect(hits["/json"]).toBe(2);
+  });
+
+  test("does not cache credentialed requests", async () => {
+    const tools = createWebTools({ todos: [], files: {} }, {
+      webSearchProvider: false,
+      httpCache: new HttpCache({ store: new InMemoryStore() }),
+      httpCredentials: { api: { baseURL: baseUrl, headers: { Authorization: "Bearer secret-token" } } },
+    });
+
+    await httpRequest(tools, { url: "/json", credentials: "api" });
+    await httpRequest(tools, { url: "/json", credentials: "api" });
+
+    expect(hits["/json"]).toBe(2);
+  });
+
+  test("does not serve cached URLs the egress policy blocks", async () => {
+    const store = new InMemoryStore();
+    await httpRequest(createTools(new HttpCache({ store })).tools, { url: `${baseUrl}/json` });
+
+    const tools = createWebTools({ todos: [], files: {} }, {
+      webSearchProvider: false,
+      httpCache: new HttpCache({ store }),
+      egressPolicy: { allowDomains: ["example.com"] },
+    });
+    expect(await httpRequest(tools, { url: `${baseUrl}/json` })).toContain("blocked by the egress policy");
+  });
+});
+
+describe("web_search with an HTTP cache", () => {
+  test("reuses results for the same normalized query and options", async () => {
+    const provider = new MockSearchProvider([{ title: "Bun", url: "https://bun.sh", content: "Runtime" }]);
+    const { tools, events } = createTools(new HttpCache({ store: new InMemoryStore() }), provider);
+    const search = (query: string, max_results = 5) =>
+      tools.web_search.execute(
+        { query, max_results, topic: "general", include_raw_content: false },
+        { toolCallId: "search-1", messages: [] }
+      );
+
+    const first = await search("Bun runtime");
+    const second = await search("  bun   RUNTIME");
+    await search("bun runtime", 3);
+
+    expect(second).toBe(first.replace('"Bun runtime"', '"  bun   RUNTIME"'));
+    expect(provider.queries).toEqual(["Bun runtime", "bun runtime"]);
+    expect(events.filter((e) => e.type === "web-search-finish")).toEqual([
+      { type: "web-search-finish", query: "Bun runtime", resultCount: 1 },
+      { type: "web-search-finish", query: "  bun   RUNTIME", resultCount: 1, cached: true },
+      { type: "web-search-finish", query: "bun runtime", resultCount: 1 },
+    ]);
+  });
+
+  test("shares the agent's cache with subagents", async () => {
+    const provider = new MockSearchProvider([{ title: "R", url: "https://r.example", content: "r" }]);
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "web_search", input: { query: "r" } }] },
+      { toolCalls: [{ toolName: "task", input: { description: "Search for r", subagent_type: "researcher" } }] },
+      { toolCalls: [{ toolName: "web_search", input: { query: "r" } }] },
+      { text: "Found r." },
+      { text: "Done." },
+    ]);
+    const agent = createDeepAgent({
+      model,
+      webSearchProvider: provider,
+      httpCache: new HttpCache({ store: new InMemoryStore() }),
+      includeGeneralPurposeAgent: false,
+      subagents: [
+        { name: "researcher", description: "Searches the web", systemPrompt: "Search.", tools: [web_search] },
+      ],
+    });
+
+    const events: DeepAgentEvent[] = [];
+    for await (const event of agent.streamWithEvents({ messages: [{ role: "user", content: "Find r" }] })) {
+      events.push(event);
+    }
+
+    expect(provider.queries).toEqual(["r"]);
+    expect(events.filter((e) => e.type === "web-search-finish").map((e) => "cached" in e)).toEqual([false, true]);
+  });
+});
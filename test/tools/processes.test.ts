@@ -0,0 +1,150 @@
+/**
+ * Tests for streamed execute output and the background process tools.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { LocalSandbox } from "@/backends/local-sandbox";
+import { createDeepAgent } from "@/agent";
+import type {
+  DeepAgentEvent,
+  ExecuteOutputEvent,
+  ProcessExitEvent,
+  ProcessStartEvent,
+  ToolResultEvent,
+} from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+const tempDirs: string[] = [];
+const sandboxes: LocalSandbox[] = [];
+
+afterAll(async () => {
+  for (const sandbox of sandboxes) {
+    await sandbox.dispose();
+  }
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createSandbox() {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "process-tools-test-"));
+  tempDirs.push(cwd);
+  const sandbox = new LocalSandbox({ cwd });
+  sandboxes.push(sandbox);
+  return sandbox;
+}
+
+async function findFreePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.listen(0, "127.0.0.1", () => {
+      const port = (server.address() as net.AddressInfo).port;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("execute-output events", () => {
+  test("streams command output while it runs", async () => {
+    const sandbox = createSandbox();
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "execute", input: { command: "echo building; echo warning >&2" } }] },
+      { text: "Built." },
+    ]);
+    const agent = createDeepAgent({ model, backend: sandbox });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Build it" }] })
+    );
+
+    const outputs = events.filter((e): e is ExecuteOutputEvent => e.type === "execute-output");
+    expect(outputs.map((e) => e.chunk).join("")).toContain("building\n");
+    expect(outputs.find((e) => e.chunk.includes("warning"))?.stream).toBe("stderr");
+    expect(outputs.every((e) => e.sandboxId === sandbox.id)).toBe(true);
+
+    const types = events.map((e) => e.type);
+    expect(types.indexOf("execute-start")).toBeLessThan(types.indexOf("execute-output"));
+    expect(types.lastIndexOf("execute-output")).toBeLessThan(types.indexOf("execute-finish"));
+  });
+});
+
+describe("background process tools", () => {
+  test("start a server, query it and stop it", async () => {
+    const sandbox = createSandbox();
+    const port = await findFreePort();
+    const server = `node -e "require('http').createServer((q, r) => r.end('pong')).listen(${port}, () => console.log('listening'))"`;
+    const query = `node -e "fetch('http://127.0.0.1:${port}').then(r => r.text()).then(console.log)"`;
+
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "start_process", input: { command: server } }] },
+      { toolCalls: [{ toolName: "read_process_output", input: { process_id: "proc-1", wait_seconds: 10 } }] },
+      { toolCalls: [{ toolName: "execute", input: { command: query } }] },
+      { toolCalls: [{ toolName: "kill_process", input: { process_id: "proc-1" } }] },
+      { toolCalls: [{ toolName: "send_process_input", input: { process_id: "proc-1", input: "x" } }] },
+      { text: "The server answered." },
+    ]);
+    const agent = createDeepAgent({ model, backend: sandbox });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "Check the server" }] })
+    );
+
+    const results = events
+      .filter((e): e is ToolResultEvent => e.type === "tool-result")
+      .map((e) => [e.toolName, e.result]);
+    expect(results).toEqual([
+      ["start_process", "Started process proc-1. Use read_process_output to see its output."],
+      ["read_process_output", "listening\n[Process proc-1 is running]"],
+      ["execute", "pong\n\n[Exit code: 0 (success)]"],
+      ["kill_process", "[Process proc-1 was stopped]"],
+      ["send_process_input", "Error: Background process 'proc-1' has already exited"],
+    ]);
+
+    expect(events.find((e): e is ProcessStartEvent => e.type === "process-start")).toEqual({
+      type: "process-start",
+      processId: "proc-1",
+      command: server,
+      sandboxId: sandbox.id,
+    });
+    const exits = events.filter((e): e is ProcessExitEvent => e.type === "process-exit");
+    expect(exits).toEqual([
+      {
+        type: "process-exit",
+        processId: "proc-1",
+        command: server,
+        exitCode: null,
+        killed: true,
+        sandboxId: sandbox.id,
+      },
+    ]);
+
+    const toolNames = model.doStreamCalls[0]!.tools?.map((t) => t.name) ?? [];
+    expect(toolNames).toEqual(
+      expect.arrayContaining(["start_process", "read_process_output", "send_process_input", "kill_process"])
+    );
+  });
+
+  test("are not added without a sandbox backend", async () => {
+    const model = createScriptedModel([{ text: "Hi." }]);
+    const agent = createDeepAgent({ model });
+    await collectEvents(agent.streamWithEvents({ messages: [{ role: "user", content: "Hi" }] }));
+
+    const toolNames = model.doStreamCalls[0]!.tools?.map((t) => t.name) ?? [];
+    expect(toolNames).not.toContain("start_process");
+    expect(toolNames).not.toContain("execute");
+  });
+});
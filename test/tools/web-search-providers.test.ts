@@ -0,0 +1,264 @@
+/**
+ * Tests for the web search provider adapters and their agent wiring.
+ */
+
+import { test, describe, expect, afterEach, mock } from "bun:test";
+import {
+  BraveSearchProvider,
+  ExaSearchProvider,
+  MockSearchProvider,
+  SearxngSearchProvider,
+  SerpApiSearchProvider,
+  TavilySearchProvider,
+  createWebSearchProviderFromEnv,
+  type WebSearchOptions,
+} from "@/tools/web-search-providers";
+import { web_search } from "@/tools/web";
+import { createDeepAgent } from "@/agent";
+import type { DeepAgentEvent, ToolResultEvent } from "@/types";
+import { createScriptedModel } from "../helpers/mock-model";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const searchOptions: WebSearchOptions = {
+  maxResults: 2,
+  topic: "general",
+  includeRawContent: false,
+};
+
+/**
+ * Mock fetch to answer with JSON and record each request.
+ */
+function mockFetch(data: unknown, status = 200) {
+  const requests: { url: string; init: RequestInit }[] = [];
+  (globalThis.fetch as any) = mock(async (url: any, init: any) => {
+    requests.push({ url: String(url), init });
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+  return requests;
+}
+
+async function collectEvents(
+  generator: AsyncGenerator<DeepAgentEvent>
+): Promise<DeepAgentEvent[]> {
+  const events: DeepAgentEvent[] = [];
+  for await (const event of generator) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("search provider adapters", () => {
+  test("BraveSearchProvider queries the web endpoint with the subscription token", async () => {
+    const requests = mockFetch({
+      web: {
+        results: [
+          { title: "Bun", url: "https://bun.sh", description: "A <strong>fast</strong> runtime", age: "2 days ago" },
+          { title: "Node", url: "https://nodejs.org", description: "Runtime" },
+          { title: "Deno", url: "https://deno.com", description: "Runtime" },
+        ],
+      },
+    });
+    const provider = new BraveSearchProvider({ apiKey: "brave-key" });
+
+    const results = await provider.search("js runtime", searchOptions);
+
+    const url = new URL(requests[0]!.url);
+    expect(url.origin + url.pathname).toBe("https://api.search.brave.com/res/v1/web/search");
+    expect(url.searchParams.get("q")).toBe("js runtime");
+    expect(url.searchParams.get("count")).toBe("2");
+    expect((requests[0]!.init.headers as Record<string, string>)["X-Subscription-Token"]).toBe("brave-key");
+    expect(results).toEqual([
+      { title: "Bun", url: "https://bun.sh", content: "A fast runtime", publishedDate: "2 days ago", rawContent: undefined },
+      { title: "Node", url: "https://nodejs.org", content: "Runtime", publishedDate: undefined, rawContent: undefined },
+    ]);
+  });
+
+  test("BraveSearchProvider uses the news endpoint for news", async () => {
+    const requests = mockFetch({ results: [{ title: "Headline", url: "https://news.example", description: "Story" }] });
+    const provider = new BraveSearchProvider({ apiKey: "brave-key" });
+
+    const results = await provider.search("today", { ...searchOptions, topic: "news" });
+
+    expect(new URL(requests[0]!.url).pathname).toBe("/res/v1/news/search");
+    expect(results.map((r) => r.title)).toEqual(["Headline"]);
+  });
+
+  test("SerpApiSearchProvider maps organic results", async () => {
+    const requests = mockFetch({
+      organic_results: [{ position: 1, title: "Bun", link: "https://bun.sh", snippet: "Fast runtime", date: "Jan 1, 2026" }],
+    });
+    const provider = new SerpApiSearchProvider({ apiKey: "serp-key" });
+
+    const results = await provider.search("bun", searchOptions);
+
+    const url = new URL(requests[0]!.url);
+    expect(url.pathname).toBe("/search.json");
+    expect(url.searchParams.get("engine")).toBe("google");
+    expect(url.searchParams.get("api_key")).toBe("serp-key");
+    expect(url.searchParams.get("tbm")).toBeNull();
+    expect(results).toEqual([
+      { title: "Bun", url: "https://bun.sh", content: "Fast runtime", publishedDate: "Jan 1, 2026" },
+    ]);
+  });
+
+  test("SerpApiSearchProvider surfaces API errors", async () => {
+    mockFetch({ error: "Invalid API key." });
+    const provider = new SerpApiSearchProvider({ apiKey: "bad" });
+
+    await expect(provider.search("bun", searchOptions)).rejects.toThrow("serpapi: Invalid API key.");
+  });
+
+  test("ExaSearchProvider posts the query and maps highlights", async () => {
+    const requests = mockFetch({
+      results: [
+        {
+          title: "Bun",
+          url: "https://bun.sh",
+          score: 0.5,
+          publishedDate: "2026-01-01",
+          highlights: ["fast", "all-in-one"],
+          text: "Full page",
+        },
+      ],
+    });
+    const provider = new ExaSearchProvider({ apiKey: "exa-key" });
+
+    const results = await provider.search("bun", { ...searchOptions, topic: "news", includeRawContent: true });
+
+    expect(requests[0]!.url).toBe("https://api.exa.ai/search");
+    expect(requests[0]!.init.method).toBe("POST");
+    expect((requests[0]!.init.headers as Record<string, string>)["x-api-key"]).toBe("exa-key");
+    expect(JSON.parse(requests[0]!.init.body as string)).toEqual({
+      query: "bun",
+      numResults: 2,
+      category: "news",
+      contents: { highlights: true, text: true },
+    });
+    expect(results).toEqual([
+      {
+        title: "Bun",
+        url: "https://bun.sh",
+        content: "fast ... all-in-one",
+        score: 0.5,
+        publishedDate: "2026-01-01",
+        rawContent: "Full page",
+      },
+    ]);
+  });
+
+  test("SearxngSearchProvider queries a self-hosted instance", async () => {
+    const requests = mockFetch({
+      results: [{ title: "Bun", url: "https://bun.sh", content: "Fast runtime", score: 2 }],
+    });
+    const provider = new SearxngSearchProvider({ baseUrl: "http://localhost:8080/" });
+
+    const results = await provider.search("bun", searchOptions);
+
+    const url = new URL(requests[0]!.url);
+    expect(url.origin + url.pathname).toBe("http://localhost:8080/search");
+    expect(url.searchParams.get("format")).toBe("json");
+    expect(url.searchParams.get("categories")).toBe("general");
+    expect(results).toEqual([
+      { title: "Bun", url: "https://bun.sh", content: "Fast runtime", score: 2, publishedDate: undefined },
+    ]);
+  });
+
+  test("providers throw on HTTP errors", async () => {
+    mockFetch({ message: "unauthorized" }, 401);
+    const provider = new BraveSearchProvider({ apiKey: "bad" });
+
+    await expect(provider.search("bun", searchOptions)).rejects.toThrow(
+      'brave search request failed with status 401: {"message":"unauthorized"}'
+    );
+  });
+
+  test("MockSearchProvider records queries and limits results", async () => {
+    const provider = new MockSearchProvider([
+      { title: "A", url: "https://a.example", content: "a" },
+      { title: "B", url: "https://b.example", content: "b" },
+      { title: "C", url: "https://c.example", content: "c" },
+    ]);
+
+    const results = await provider.search("letters", searchOptions);
+
+    expect(results.map((r) => r.title)).toEqual(["A", "B"]);
+    expect(provider.queries).toEqual(["letters"]);
+  });
+});
+
+describe("createWebSearchProviderFromEnv", () => {
+  test("picks the first configured provider", () => {
+    expect(createWebSearchProviderFromEnv({})).toBeUndefined();
+    expect(createWebSearchProviderFromEnv({ TAVILY_API_KEY: "t", EXA_API_KEY: "e" })).toBeInstanceOf(
+      TavilySearchProvider
+    );
+    expect(createWebSearchProviderFromEnv({ BRAVE_SEARCH_API_KEY: "b" })).toBeInstanceOf(BraveSearchProvider);
+    expect(createWebSearchProviderFromEnv({ SERPAPI_API_KEY: "s" })).toBeInstanceOf(SerpApiSearchProvider);
+    expect(createWebSearchProviderFromEnv({ EXA_API_KEY: "e" })).toBeInstanceOf(ExaSearchProvider);
+    expect(createWebSearchProviderFromEnv({ SEARXNG_URL: "http://localhost:8080" })).toBeInstanceOf(
+      SearxngSearchProvider
+    );
+  });
+});
+
+describe("webSearchProvider agent option", () => {
+  test("backs web_search with the given provider", async () => {
+    const provider = new MockSearchProvider([
+      { title: "Bun", url: "https://bun.sh", content: "A fast JavaScript runtime" },
+    ]);
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "web_search", input: { query: "bun runtime" } }] },
+      { text: "Bun is a runtime." },
+    ]);
+    const agent = createDeepAgent({ model, webSearchProvider: provider });
+
+    const events = await collectEvents(
+      agent.streamWithEvents({ messages: [{ role: "user", content: "What is Bun?" }] })
+    );
+
+    expect(provider.queries).toEqual(["bun runtime"]);
+    const result = events.find((e): e is ToolResultEvent => e.type === "tool-result");
+    expect(result?.result).toContain("URL: https://bun.sh");
+  });
+
+  test("keeps http_request and fetch_url without a search provider", async () => {
+    const model = createScriptedModel([{ text: "Hi." }]);
+    const agent = createDeepAgent({ model, webSearchProvider: false });
+    await collectEvents(agent.streamWithEvents({ messages: [{ role: "user", content: "Hi" }] }));
+
+    const toolNames = model.doStreamCalls[0]!.tools?.map((t) => t.name) ?? [];
+    expect(toolNames).toContain("http_request");
+    expect(toolNames).toContain("fetch_url");
+    expect(toolNames).not.toContain("web_search");
+  });
+
+  test("passes the provider to subagents given web_search", async () => {
+    const provider = new MockSearchProvider([{ title: "Result", url: "https://r.example", content: "r" }]);
+    const model = createScriptedModel([
+      { toolCalls: [{ toolName: "task", input: { description: "Search for r", subagent_type: "researcher" } }] },
+      { toolCalls: [{ toolName: "web_search", input: { query: "r" } }] },
+      { text: "Found r." },
+      { text: "Done." },
+    ]);
+    const agent = createDeepAgent({
+      model,
+      webSearchProvider: provider,
+      includeGeneralPurposeAgent: false,
+      subagents: [
+        { name: "researcher", description: "Searches the web", systemPrompt: "Search.", tools: [web_search] },
+      ],
+    });
+
+    await collectEvents(agent.streamWithEvents({ messages: [{ role: "user", content: "Find r" }] }));
+
+    expect(provider.queries).toEqual(["r"]);
+  });
+});
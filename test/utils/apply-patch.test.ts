@@ -0,0 +1,298 @@
+/**
+ * Tests for src/utils/apply-patch.ts and the apply_patch/multi_edit tools.
+ */
+
+import { test, describe, expect } from "bun:test";
+import {
+  applyFileChanges,
+  applyHunks,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+  type FileDiff,
+} from "@/utils/apply-patch";
+import { StateBackend } from "@/backends/state";
+import { createFileData } from "@/backends/utils";
+import { createApplyPatchTool, createMultiEditTool } from "@/tools/filesystem";
+import type { BackendProtocol, DeepAgentEvent, DeepAgentState, WriteResult } from "@/types";
+
+function createState(files: Record<string, string>): DeepAgentState {
+  return {
+    todos: [],
+    files: Object.fromEntries(
+      Object.entries(files).map(([path, content]) => [path, createFileData(content)])
+    ),
+  };
+}
+
+function contentOf(state: DeepAgentState, path: string): string | undefined {
+  return state.files[path]?.content.join("\n");
+}
+
+const APP = ["import a from 'a';", "", "function main() {", "  return 1;", "}", ""].join("\n");
+
+describe("parseUnifiedDiff", () => {
+  test("parses files and hunks, stripping git prefixes", () => {
+    const diffs = parseUnifiedDiff(
+      [
+        "diff --git a/src/app.ts b/src/app.ts",
+        "index 123..456 100644",
+        "--- a/src/app.ts",
+        "+++ b/src/app.ts",
+        "@@ -3,3 +3,3 @@ function main() {",
+        " function main() {",
+        "-  return 1;",
+        "+  return 2;",
+        " }",
+      ].join("\n")
+    ) as FileDiff[];
+
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]!.oldPath).toBe("src/app.ts");
+    expect(diffs[0]!.newPath).toBe("src/app.ts");
+    expect(diffs[0]!.hunks[0]!.oldStart).toBe(3);
+    expect(diffs[0]!.hunks[0]!.lines).toHaveLength(4);
+  });
+
+  test("recognises created and deleted files", () => {
+    const diffs = parseUnifiedDiff(
+      [
+        "--- /dev/null",
+        "+++ /new.txt",
+        "@@ -0,0 +1 @@",
+        "+hello",
+        "--- /old.txt",
+        "+++ /dev/null",
+        "@@ -1 +0,0 @@",
+        "-bye",
+      ].join("\n")
+    ) as FileDiff[];
+
+    expect(diffs.map((d) => [d.oldPath, d.newPath])).toEqual([
+      [null, "/new.txt"],
+      ["/old.txt", null],
+    ]);
+  });
+
+  test("rejects text without file headers", () => {
+    expect(parseUnifiedDiff("just some text")).toContain("Invalid patch");
+  });
+});
+
+describe("applyHunks", () => {
+  test("locates hunks by context when line numbers drift", () => {
+    const { content, results } = applyHunks("/app.ts", APP, [
+      { oldStart: 10, lines: ["-  return 1;", "+  return 2;"], noNewlineAtEnd: false },
+    ]);
+
+    expect(content).toContain("return 2;");
+    expect(results).toEqual([{ path: "/app.ts", index: 1, success: true, line: 4 }]);
+  });
+
+  test("reports every failing hunk and returns no content", () => {
+    const { content, results } = applyHunks("/app.ts", APP, [
+      { oldStart: 1, lines: ["-import a from 'a';", "+import b from 'b';"], noNewlineAtEnd: false },
+      { oldStart: 4, lines: ["-  return 42;", "+  return 43;"], noNewlineAtEnd: false },
+    ]);
+
+    expect(content).toBeUndefined();
+    expect(results[0]!.success).toBe(true);
+    expect(results[1]!.success).toBe(false);
+    expect(results[1]!.error).toContain("near line 4");
+  });
+
+  test("adds and removes the final newline as the end-of-file marker says", () => {
+    const apply = (content: string, ...lines: string[]) => {
+      const [diff] = parseUnifiedDiff(["--- /f", "+++ /f", ...lines].join("\n")) as FileDiff[];
+      return applyHunks("/f", content, diff!.hunks).content;
+    };
+    const noNewline = "\\ No newline at end of file";
+
+    expect(apply("a\nb", "@@ -1,2 +1,2 @@", " a", "-b", noNewline, "+b")).toBe("a\nb\n");
+    expect(apply("a\nb\n", "@@ -1,2 +1,2 @@", " a", "-b", "+b", noNewline)).toBe("a\nb");
+    expect(apply("x\n", "@@ -1 +1 @@", "-x", "+y", noNewline)).toBe("y");
+    // Without a marker the file keeps its ending
+    expect(apply("a\nb", "@@ -2 +2 @@", "-b", "+c")).toBe("a\nc");
+  });
+});
+
+describe("createUnifiedDiff", () => {
+  test("groups nearby changes into hunks with context", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+    const after = before.replace("line 2\n", "line two\n").replace("line 18\n", "");
+    const diff = createUnifiedDiff("/f.txt", "/f.txt", before, after);
+
+    expect(diff.split("\n").filter((l) => l.startsWith("@@"))).toEqual([
+      "@@ -1,5 +1,5 @@",
+      "@@ -15,6 +15,5 @@",
+    ]);
+  });
+
+  test("round-trips through parseUnifiedDiff and applyHunks", () => {
+    const before = "a\nb\nc\nd\n";
+    const after = "a\nB\nc\nd\ne\n";
+    const [diff] = parseUnifiedDiff(createUnifiedDiff("/f", "/f", before, after)) as FileDiff[];
+
+    expect(applyHunks("/f", before, diff!.hunks).content).toBe(after);
+  });
+
+  test("marks created files and missing final newlines", () => {
+    expect(createUnifiedDiff(null, "/new.txt", "", "hi")).toBe(
+      ["--- /dev/null", "+++ /new.txt", "@@ -0,0 +1,1 @@", "+hi", "\\ No newline at end of file", ""].join("\n")
+    );
+    expect(createUnifiedDiff("/f", "/f", "same\n", "same\n")).toBe("");
+  });
+});
+
+describe("applyFileChanges", () => {
+  test("writes nothing when any hunk fails", async () => {
+    const state = createState({ "/a.ts": "const a = 1;", "/b.ts": "const b = 1;" });
+    const backend = new StateBackend(state);
+    const diffs = parseUnifiedDiff(
+      [
+        "--- /a.ts",
+        "+++ /a.ts",
+        "@@ -1 +1 @@",
+        "-const a = 1;",
+        "+const a = 2;",
+        "--- /b.ts",
+        "+++ /b.ts",
+        "@@ -1 +1 @@",
+        "-const b = 999;",
+        "+const b = 2;",
+      ].join("\n")
+    ) as FileDiff[];
+
+    const result = await applyFileChanges(
+      backend,
+      diffs.map((diff) => ({ type: "diff" as const, diff }))
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.hunks.map((h) => h.success)).toEqual([true, false]);
+    expect(contentOf(state, "/a.ts")).toBe("const a = 1;");
+  });
+
+  test("restores written files when a later write fails", async () => {
+    const state = createState({ "/a.ts": "const a = 1;" });
+    const stateBackend = new StateBackend(state);
+    const backend: BackendProtocol = {
+      lsInfo: (p) => stateBackend.lsInfo(p),
+      read: (p, o, l) => stateBackend.read(p, o, l),
+      readRaw: (p) => stateBackend.readRaw(p),
+      grepRaw: (p, d, g) => stateBackend.grepRaw(p, d ?? undefined, g),
+      globInfo: (p, d) => stateBackend.globInfo(p, d),
+      edit: (p, o, n, r) => stateBackend.edit(p, o, n, r),
+      write: (): WriteResult => ({ success: false, error: "disk full" }),
+      uploadFiles: (files) => stateBackend.uploadFiles(files),
+      delete: (p, r) => stateBackend.delete(p, r),
+    };
+
+    const result = await applyFileChanges(backend, [
+      { type: "edits", path: "/a.ts", edits: [{ old_string: "1", new_string: "2" }] },
+      {
+        type: "diff",
+        diff: {
+          oldPath: null,
+          newPath: "/new.ts",
+          hunks: [{ oldStart: 0, lines: ["+new"], noNewlineAtEnd: false }],
+        },
+      },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("disk full");
+    expect(contentOf(state, "/a.ts")).toBe("const a = 1;");
+  });
+});
+
+describe("apply_patch tool", () => {
+  test("applies a multi-file diff and reports each hunk", async () => {
+    const state = createState({ "/src/app.ts": APP, "/old.txt": "bye\n" });
+    const events: DeepAgentEvent[] = [];
+    const applyPatch = createApplyPatchTool(state, new StateBackend(state), (e) => events.push(e));
+
+    const output = await applyPatch.execute!(
+      {
+        patch: [
+          "--- /src/app.ts",
+          "+++ /src/app.ts",
+          "@@ -1,1 +1,1 @@",
+          "-import a from 'a';",
+          "+import b from 'b';",
+          "@@ -4,1 +4,1 @@",
+          "-  return 1;",
+          "+  return 2;",
+          "--- /dev/null",
+          "+++ /src/new.ts",
+          "@@ -0,0 +1,1 @@",
+          "+export {};",
+          "--- /old.txt",
+          "+++ /dev/null",
+          "@@ -1 +0,0 @@",
+          "-bye",
+        ].join("\n"),
+      },
+      { toolCallId: "patch-1", messages: [] }
+    );
+
+    expect(output).toContain("Successfully applied patch");
+    expect(output).toContain("/src/app.ts #2: applied at line 4");
+    expect(contentOf(state, "/src/app.ts")).toContain("import b from 'b';");
+    expect(contentOf(state, "/src/app.ts")).toContain("return 2;");
+    expect(contentOf(state, "/src/new.ts")).toBe("export {};\n");
+    expect(state.files["/old.txt"]).toBeUndefined();
+    expect(events.map((e) => e.type)).toEqual(["file-edited", "file-written", "file-deleted"]);
+  });
+
+  test("applies edits across files", async () => {
+    const state = createState({ "/a.ts": "let x = 1;", "/b.ts": "let y = 1;" });
+    const applyPatch = createApplyPatchTool(state, new StateBackend(state));
+
+    const output = await applyPatch.execute!(
+      {
+        edits: [
+          { file_path: "/a.ts", old_string: "x", new_string: "count", replace_all: false },
+          { file_path: "/b.ts", old_string: "y", new_string: "total", replace_all: false },
+        ],
+      },
+      { toolCallId: "patch-2", messages: [] }
+    );
+
+    expect(output).toContain("modified /a.ts, /b.ts");
+    expect(contentOf(state, "/a.ts")).toBe("let count = 1;");
+    expect(contentOf(state, "/b.ts")).toBe("let total = 1;");
+  });
+});
+
+describe("multi_edit tool", () => {
+  test("applies all edits or none", async () => {
+    const state = createState({ "/a.ts": "alpha beta gamma" });
+    const multiEdit = createMultiEditTool(state, new StateBackend(state));
+
+    const failed = await multiEdit.execute!(
+      {
+        file_path: "/a.ts",
+        edits: [
+          { old_string: "alpha", new_string: "one", replace_all: false },
+          { old_string: "delta", new_string: "four", replace_all: false },
+        ],
+      },
+      { toolCallId: "edit-1", messages: [] }
+    );
+    expect(failed).toContain("No files were changed");
+    expect(failed).toContain("/a.ts #2: failed");
+    expect(contentOf(state, "/a.ts")).toBe("alpha beta gamma");
+
+    await multiEdit.execute!(
+      {
+        file_path: "/a.ts",
+        edits: [
+          { old_string: "alpha", new_string: "one", replace_all: false },
+          { old_string: "beta", new_string: "two", replace_all: false },
+        ],
+      },
+      { toolCallId: "edit-2", messages: [] }
+    );
+    expect(contentOf(state, "/a.ts")).toBe("one two gamma");
+  });
+});
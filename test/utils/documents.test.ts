@@ -0,0 +1,329 @@
+/**
+ * Tests for document extraction and its use in fetch_url and read_file.
+ */
+
+import { test, describe, expect, beforeAll, afterAll } from "bun:test";
+import * as http from "http";
+import * as net from "net";
+import { detectDocumentFormat, extractDocument, formatDocumentPage } from "@/utils/documents";
+import { readZipEntries } from "@/utils/zip";
+import { createWebTools } from "@/tools/web";
+import { createReadFileTool } from "@/tools/filesystem";
+import { StateBackend } from "@/backends/state";
+import type { DeepAgentEvent, DeepAgentState } from "@/types";
+import { createDocx, createPdf, createXlsx, createZip, docxParagraph } from "../helpers/documents";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("detectDocumentFormat", () => {
+  test("uses the content type, then the extension for generic types", () => {
+    expect(detectDocumentFormat("application/pdf; charset=binary")).toBe("pdf");
+    expect(detectDocumentFormat("application/ld+json")).toBe("json");
+    expect(detectDocumentFormat("application/octet-stream", "https://x.example/report.docx?v=2")).toBe("docx");
+    expect(detectDocumentFormat(undefined, "/data/budget.xlsx")).toBe("xlsx");
+    expect(detectDocumentFormat(undefined, "/data/table.tsv")).toBe("csv");
+    expect(detectDocumentFormat("text/html", "https://x.example/page.pdf")).toBeUndefined();
+    expect(detectDocumentFormat("text/plain", "/notes.txt")).toBeUndefined();
+  });
+});
+
+describe("PDF extraction", () => {
+  test("extracts the text of each page", () => {
+    const pdf = createPdf([["Hello (world)", "Second line"], ["Page two"]]);
+    const document = extractDocument(pdf, "pdf");
+
+    expect(document.pages).toHaveLength(2);
+    expect(document.pages[0]).toContain("Hello (world)");
+    expect(document.pages[0]).toContain("Second line");
+    expect(document.pages[1]).toContain("Page two");
+  });
+
+  test("reads compressed streams and object streams", () => {
+    const pdf = createPdf([["Compressed one"], ["Compressed two"], ["Compressed three"]], { compressed: true });
+    const document = extractDocument(pdf, "pdf");
+
+    expect(document.pages.map((page) => page.trim())).toEqual(["Compressed one", "Compressed two", "Compressed three"]);
+  });
+
+  test("maps two-byte fonts through their ToUnicode CMap", () => {
+    const pdf = createPdf([["Café au lait"]], { hexFont: true });
+    expect(extractDocument(pdf, "pdf").pages[0]?.trim()).toBe("Café au lait");
+  });
+
+  test("rejects files that are not PDFs", () => {
+    expect(() => extractDocument(encode("just text"), "pdf")).toThrow("not a PDF file");
+  });
+});
+
+describe("Word extraction", () => {
+  test("converts headings, lists and tables to markdown", () => {
+    const docx = createDocx(
+      docxParagraph("Quarterly Report", "Title") +
+        docxParagraph("Summary", "Heading2") +
+        docxParagraph("Revenue grew &amp; costs fell.") +
+        '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>First point</w:t></w:r></w:p>' +
+        "<w:tbl>" +
+        "<w:tr><w:tc>" + docxParagraph("Region") + "</w:tc><w:tc>" + docxParagraph("Sales") + "</w:tc></w:tr>" +
+        "<w:tr><w:tc>" + docxParagraph("North") + "</w:tc><w:tc>" + docxParagraph("42") + "</w:tc></w:tr>" +
+        "</w:tbl>"
+    );
+    const [page] = extractDocument(docx, "docx").pages;
+
+    expect(page).toContain("# Quarterly Report");
+    expect(page).toContain("## Summary");
+    expect(page).toContain("Revenue grew & costs fell.");
+    expect(page).toContain("- First point");
+    expect(page).toContain("| Region | Sales |");
+    expect(page).toContain("| North | 42 |");
+  });
+
+  test("starts a new page at page breaks", () => {
+    const docx = createDocx(
+      docxParagraph("Before") + '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' + docxParagraph("After")
+    );
+    const document = extractDocument(docx, "docx");
+
+    expect(document.pages.map((page) => page.trim())).toEqual(["Before", "After"]);
+  });
+
+  test("rejects archives without a document", () => {
+    expect(() => extractDocument(createZip({ "other.xml": "<x/>" }), "docx")).toThrow();
+  });
+});
+
+describe("Excel extraction", () => {
+  const workbook = () =>
+    createXlsx(
+      {
+        Sales: [
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="inlineStr"><is><t>Paid</t></is></c></row>',
+          '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>42.5</v></c><c r="C2" s="1"><v>45306</v></c><c r="D2" t="b"><v>1</v></c></row>',
+          '<row r="3"><c r="A3" s="1"/></row>',
+          '<row r="4"><c r="A4" t="s"><v>3</v></c><c r="B4"><v>7</v></c><c r="C4" s="2"><v>45306.75</v></c></row>',
+        ].join(""),
+        Notes: '<row r="1"><c r="A1" t="inlineStr"><is><r><t>Rich </t></r><r><t>text</t></r></is></c></row>',
+      },
+      ["Region", "Amount", "North &amp; East", "South"]
+    );
+
+  test("makes each sheet a page of markdown tables", () => {
+    const document = extractDocument(workbook(), "xlsx");
+
+    expect(document.pages).toHaveLength(2);
+    expect(document.pages[0]).toBe(
+      [
+        "## Sales",
+        "",
+        "Rows 1-2 of 2",
+        "",
+        "| Region | Amount |  | Paid |",
+        "| --- | --- | --- | --- |",
+        "| North & East | 42.5 | 2024-01-15 | TRUE |",
+        "| South | 7 | 2024-01-15 18:00:00 |  |",
+      ].join("\n")
+    );
+    expect(document.pages[1]).toContain("## Notes");
+    expect(document.pages[1]).toContain("| Rich text |");
+  });
+
+  test("splits long sheets, repeating the header row", () => {
+    const rows = Array.from(
+      { length: 40 },
+      (_, i) => `<row r="${i + 1}"><c r="A${i + 1}" t="inlineStr"><is><t>row ${i}</t></is></c></row>`
+    );
+    const document = extractDocument(createXlsx({ Long: rows.join("") }), "xlsx", { pageChars: 200 });
+
+    expect(document.pages.length).toBeGreaterThan(1);
+    for (const page of document.pages) {
+      expect(page).toStartWith("## Long\n\n");
+      expect(page).toContain("| row 0 |");
+    }
+  });
+
+  test("rejects archives without a workbook", () => {
+    expect(() => extractDocument(createZip({ "other.xml": "<x/>" }), "xlsx")).toThrow("not an Excel workbook");
+  });
+});
+
+describe("CSV extraction", () => {
+  test("renders quoted fields as a markdown table", () => {
+    const csv = 'name,notes\n"Smith, Jane","said ""hi""\non two lines"\nBob,|pipe|\n';
+    const [page] = extractDocument(encode(csv), "csv").pages;
+
+    expect(page).toContain("| name | notes |");
+    expect(page).toContain('| Smith, Jane | said "hi" on two lines |');
+    expect(page).toContain("| Bob | \\|pipe\\| |");
+  });
+
+  test("detects tab and semicolon delimiters", () => {
+    expect(extractDocument(encode("a\tb\n1\t2\n"), "csv").pages[0]).toContain("| 1 | 2 |");
+    expect(extractDocument(encode("a;b\n1;2\n"), "csv").pages[0]).toContain("| 1 | 2 |");
+  });
+
+  test("repeats the header row on every page", () => {
+    const rows = Array.from({ length: 40 }, (_, i) => `row${i},${i}`);
+    const document = extractDocument(encode(["key,value", ...rows].join("\n")), "csv", { pageChars: 200 });
+
+    expect(document.pages.length).toBeGreaterThan(1);
+    for (const page of document.pages) {
+      expect(page).toContain("| key | value |");
+    }
+    expect(document.pages[0]).toContain("Rows 1-");
+    expect(document.pages.at(-1)).toContain("of 40");
+  });
+});
+
+describe("JSON extraction", () => {
+  test("pretty-prints and paginates at line boundaries", () => {
+    const data = { items: Array.from({ length: 50 }, (_, i) => ({ id: i, name: `item ${i}` })) };
+    const document = extractDocument(encode(JSON.stringify(data)), "json", { pageChars: 500 });
+
+    expect(document.pages.length).toBeGreaterThan(1);
+    expect(document.pages[0]).toStartWith('{\n  "items": [');
+    expect(document.pages.every((page) => page.length <= 500)).toBe(true);
+    expect(JSON.parse(document.pages.join("\n"))).toEqual(data);
+  });
+
+  test("keeps invalid JSON as raw text", () => {
+    expect(extractDocument(encode("{ not json"), "json").pages).toEqual(["{ not json"]);
+  });
+});
+
+describe("formatDocumentPage", () => {
+  const document = { format: "pdf" as const, pages: ["First", "  "] };
+
+  test("labels the page and points to the next one", () => {
+    expect(formatDocumentPage(document, "/r.pdf", 1)).toBe(
+      "PDF /r.pdf, page 1 of 2\n\nFirst\n\n[Page 1 of 2. Read page 2 for more.]"
+    );
+    expect(formatDocumentPage(document, "/r.pdf", 2)).toBe("PDF /r.pdf, page 2 of 2\n\n(no text on this page)");
+  });
+
+  test("reports pages out of range", () => {
+    expect(formatDocumentPage(document, "/r.pdf", 3)).toBe(
+      "Error: Page 3 is out of range: '/r.pdf' has 2 pages"
+    );
+  });
+});
+
+describe("readZipEntries", () => {
+  test("reads only the included entries", () => {
+    const zip = createZip({ "a.txt": "alpha", "b.txt": "beta" });
+    const entries = readZipEntries(zip, (name) => name === "b.txt");
+
+    expect([...entries.keys()]).toEqual(["b.txt"]);
+    expect(new TextDecoder().decode(entries.get("b.txt"))).toBe("beta");
+  });
+});
+
+describe("fetch_url with documents", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === "/report") {
+        res.writeHead(200, { "Content-Type": "application/pdf" });
+        res.end(Buffer.from(createPdf([["Intro"], ["Findings"]])));
+      } else if (req.url === "/broken.pdf") {
+        res.writeHead(200, { "Content-Type": "application/octet-stream" });
+        res.end("%PDF-1.7 truncated");
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  function fetchUrl(url: string, page?: number) {
+    const events: DeepAgentEvent[] = [];
+    const tools = createWebTools({ todos: [], files: {} }, {
+      webSearchProvider: false,
+      onEvent: (event) => events.push(event),
+    });
+    const output = tools.fetch_url.execute!(
+      { url, timeout: 5, extract_article: true, page },
+      { toolCallId: "fetch-1", messages: [] }
+    ) as Promise<string>;
+    return { output, events };
+  }
+
+  test("returns the requested page of a PDF", async () => {
+    const first = await fetchUrl(`${baseUrl}/report`).output;
+    const second = await fetchUrl(`${baseUrl}/report`, 2).output;
+
+    expect(first).toContain(`PDF ${baseUrl}/report, page 1 of 2`);
+    expect(first).toContain("Intro");
+    expect(first).toContain("Read page 2 for more.");
+    expect(second).toContain("Findings");
+    expect(second).not.toContain("Intro");
+  });
+
+  test("reports documents that cannot be extracted", async () => {
+    const { output, events } = fetchUrl(`${baseUrl}/broken.pdf`);
+
+    expect(await output).toStartWith(`Error: Could not extract text from '${baseUrl}/broken.pdf'`);
+    expect(events.at(-1)).toEqual({ type: "fetch-url-finish", url: `${baseUrl}/broken.pdf`, success: false });
+  });
+});
+
+describe("read_file with documents", () => {
+  async function readFile(files: Array<[string, Uint8Array]>, input: Record<string, unknown>) {
+    const state: DeepAgentState = { todos: [], files: {} };
+    const backend = new StateBackend(state);
+    await backend.uploadFiles(files);
+    const output = await createReadFileTool(state, backend).execute!(
+      { offset: 0, limit: 2000, ...input } as { file_path: string; offset: number; limit: number },
+      { toolCallId: "read-1", messages: [] }
+    );
+    return output as string;
+  }
+
+  test("extracts PDF and Word files by page", async () => {
+    const files: Array<[string, Uint8Array]> = [
+      ["/docs/spec.pdf", createPdf([["Scope"], ["Details"]], { compressed: true })],
+      ["/docs/memo.docx", createDocx(docxParagraph("Memo", "Heading1"))],
+    ];
+
+    expect(await readFile(files, { file_path: "/docs/spec.pdf" })).toContain("Scope");
+    expect(await readFile(files, { file_path: "/docs/spec.pdf", page: 2 })).toContain("Details");
+    expect(await readFile(files, { file_path: "/docs/memo.docx" })).toBe(
+      "Word document /docs/memo.docx, page 1 of 1\n\n# Memo"
+    );
+  });
+
+  test("extracts Excel workbooks one sheet per page", async () => {
+    const workbook = createXlsx({
+      First: '<row r="1"><c r="A1" t="inlineStr"><is><t>one</t></is></c></row>',
+      Second: '<row r="1"><c r="A1" t="inlineStr"><is><t>two</t></is></c></row>',
+    });
+    const files: Array<[string, Uint8Array]> = [["/book.xlsx", workbook]];
+
+    const first = await readFile(files, { file_path: "/book.xlsx" });
+    expect(first).toStartWith("Excel workbook /book.xlsx, page 1 of 2\n\n## First");
+    expect(await readFile(files, { file_path: "/book.xlsx", page: 2 })).toContain("## Second");
+  });
+
+  test("reads CSV as raw lines unless a page is given", async () => {
+    const files: Array<[string, Uint8Array]> = [["/data.csv", encode("a,b\n1,2\n")]];
+
+    const raw = await readFile(files, { file_path: "/data.csv" });
+    expect(raw).toContain("a,b");
+    expect(raw).not.toContain("|");
+
+    const table = await readFile(files, { file_path: "/data.csv", page: 1 });
+    expect(table).toContain("| a | b |");
+  });
+
+  test("reports documents that cannot be extracted", async () => {
+    const output = await readFile([["/bad.docx", encode("not a zip")]], { file_path: "/bad.docx" });
+    expect(output).toStartWith("Error: Could not extract text from '/bad.docx'");
+  });
+});
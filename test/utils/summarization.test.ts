@@ -4,6 +4,7 @@
 
 import { test, describe, expect, mock } from "bun:test";
 import type { LanguageModel } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
 import type { ModelMessage } from "@/types";
 import {
   estimateMessagesTokens,
@@ -99,6 +100,39 @@ describe("utils/summarization", () => {
       // So we check that it returns a number (could be 0 for very short strings)
       expect(typeof result).toBe("number");
     });
+    test("should count tool call inputs and tool result outputs", () => {
+      const withoutTools: ModelMessage[] = [
+        { role: "user", content: "Read the file" },
+      ];
+      const withTools: ModelMessage[] = [
+        ...withoutTools,
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: "call-1",
+              toolName: "read_file",
+              input: { file_path: "/src/index.ts" },
+            },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "read_file",
+              output: { type: "text", value: "B".repeat(4000) },
+            },
+          ],
+        },
+      ];
+
+      const base = estimateMessagesTokens(withoutTools);
+      expect(estimateMessagesTokens(withTools)).toBeGreaterThan(base + 900);
+    });
   });
 
   describe("needsSummarization", () => {
@@ -252,6 +286,74 @@ describe("utils/summarization", () => {
     });
   });
 
+  describe("summarizeIfNeeded with tool history", () => {
+    const summaryModel = new MockLanguageModelV3({
+      doGenerate: {
+        content: [{ type: "text", text: "Earlier work summarized." }],
+        finishReason: { unified: "stop", raw: undefined },
+        usage: {
+          inputTokens: { total: 10, noCache: 10, cacheRead: undefined, cacheWrite: undefined },
+          outputTokens: { total: 5, text: 5, reasoning: undefined },
+        },
+        warnings: [],
+      },
+    });
+
+    const toolTurn = (id: string): ModelMessage[] => [
+      {
+        role: "assistant",
+        content: [
+          { type: "tool-call", toolCallId: id, toolName: "ls", input: { path: "/" } },
+        ],
+      },
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: id,
+            toolName: "ls",
+            output: { type: "text", value: "No files found" },
+          },
+        ],
+      },
+    ];
+
+    test("should not start the kept window with a tool result", async () => {
+      const messages: ModelMessage[] = [
+        { role: "user", content: "Start" },
+        { role: "assistant", content: "Working on it" },
+        ...toolTurn("call-1"),
+        ...toolTurn("call-2"),
+      ];
+
+      const result = await summarizeIfNeeded(messages, {
+        model: summaryModel,
+        tokenThreshold: 0,
+        keepMessages: 3,
+      });
+
+      expect(result.summarized).toBe(true);
+      // Summary message followed by the kept window, which starts at the assistant tool call
+      const kept = result.messages.slice(1);
+      expect(kept[0]?.role).toBe("assistant");
+      expect(kept.map((m) => m.role)).toEqual(["assistant", "tool", "assistant", "tool"]);
+    });
+
+    test("should skip summarization when only tool results could be summarized", async () => {
+      const messages: ModelMessage[] = [...toolTurn("call-1")];
+
+      const result = await summarizeIfNeeded(messages, {
+        model: summaryModel,
+        tokenThreshold: 0,
+        keepMessages: 1,
+      });
+
+      expect(result.summarized).toBe(false);
+      expect(result.messages).toEqual(messages);
+    });
+  });
+
   describe("constants", () => {
     test("DEFAULT_SUMMARIZATION_THRESHOLD should be 170000", () => {
       expect(DEFAULT_SUMMARIZATION_THRESHOLD).toBe(170000);
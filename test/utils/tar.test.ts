@@ -0,0 +1,120 @@
+/**
+ * Tests for the tar archive helpers used by DockerSandbox.
+ */
+
+import { test, describe, expect, afterAll } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { createTarArchive, readTarArchive } from "@/utils/tar";
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  for (const dir of tempDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempDir() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tar-test-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+const longName = `deep/${"nested-directory-".repeat(12)}/${"file-name-".repeat(12)}.txt`;
+
+describe("tar archives", () => {
+  test("round-trips files, including empty, binary and long-named ones", () => {
+    const binary = new Uint8Array(1500).map((_, i) => i % 256);
+    const archive = createTarArchive([
+      ["workspace/a.txt", encode("hello\n")],
+      ["workspace/empty", new Uint8Array(0)],
+      ["workspace/data.bin", binary],
+      [longName, encode("long")],
+      ["workspace/ünïcode.md", encode("# ok")],
+    ]);
+
+    expect(archive.length % 512).toBe(0);
+    const entries = readTarArchive(archive);
+    expect(entries.map((e) => e.name)).toEqual([
+      "workspace/a.txt",
+      "workspace/empty",
+      "workspace/data.bin",
+      longName,
+      "workspace/ünïcode.md",
+    ]);
+    expect(entries.every((e) => e.type === "file")).toBe(true);
+    expect(decode(entries[0]!.content)).toBe("hello\n");
+    expect(entries[1]!.content.length).toBe(0);
+    expect(entries[2]!.content).toEqual(binary);
+    expect(decode(entries[3]!.content)).toBe("long");
+  });
+
+  test("produces archives that system tar extracts", () => {
+    const dir = tempDir();
+    const archive = createTarArchive([
+      ["src/index.ts", encode("export {};\n")],
+      [longName, encode("long")],
+    ]);
+
+    execFileSync("tar", ["-x", "-f", "-", "-C", dir], { input: archive });
+
+    expect(fs.readFileSync(path.join(dir, "src/index.ts"), "utf-8")).toBe("export {};\n");
+    expect(fs.readFileSync(path.join(dir, longName), "utf-8")).toBe("long");
+  });
+
+  test("keeps file modes and symlinks, which system tar restores", () => {
+    const longTarget = `../${"target-directory-".repeat(8)}/file`;
+    const archive = createTarArchive([
+      ["bin/tool", encode("#!/bin/sh\n"), { mode: 0o755 }],
+      ["bin/link", new Uint8Array(0), { linkTarget: "tool" }],
+      ["bin/far", new Uint8Array(0), { linkTarget: longTarget }],
+    ]);
+
+    const entries = readTarArchive(archive);
+    expect(entries.map(({ name, type, mode, linkTarget }) => ({ name, type, mode, linkTarget }))).toEqual([
+      { name: "bin/tool", type: "file", mode: 0o755, linkTarget: undefined },
+      { name: "bin/link", type: "symlink", mode: 0o644, linkTarget: "tool" },
+      { name: "bin/far", type: "symlink", mode: 0o644, linkTarget: longTarget },
+    ]);
+
+    const dir = tempDir();
+    execFileSync("tar", ["-x", "-f", "-", "-C", dir], { input: archive });
+    expect(fs.statSync(path.join(dir, "bin/tool")).mode & 0o777).toBe(0o755);
+    expect(fs.readlinkSync(path.join(dir, "bin/link"))).toBe("tool");
+    expect(fs.readlinkSync(path.join(dir, "bin/far"))).toBe(longTarget);
+  });
+
+  test("reads archives created by system tar", () => {
+    const dir = tempDir();
+    fs.mkdirSync(path.join(dir, path.dirname(longName)), { recursive: true });
+    fs.writeFileSync(path.join(dir, longName), "long");
+    fs.mkdirSync(path.join(dir, "pkg"));
+    fs.writeFileSync(path.join(dir, "pkg/readme.md"), "# readme\n");
+    fs.symlinkSync("readme.md", path.join(dir, "pkg/link.md"));
+
+    for (const format of ["gnu", "pax"]) {
+      const archive = execFileSync("tar", [
+        "-c", "-f", "-", `--format=${format}`, "-C", dir, "./pkg", longName,
+      ]);
+      const entries = readTarArchive(archive);
+      const byName = new Map(entries.map((e) => [e.name, e]));
+
+      expect(byName.get("pkg")?.type).toBe("directory");
+      expect(decode(byName.get("pkg/readme.md")!.content)).toBe("# readme\n");
+      expect(byName.get("pkg/link.md")?.type).toBe("symlink");
+      expect(byName.get("pkg/link.md")?.linkTarget).toBe("readme.md");
+      expect(decode(byName.get(longName)!.content)).toBe("long");
+    }
+  });
+
+  test("rejects truncated archives", () => {
+    const archive = createTarArchive([["a.txt", new Uint8Array(2000)]]);
+    expect(() => readTarArchive(archive.subarray(0, 1024))).toThrow("Truncated tar archive");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for src/utils/usage.ts
+ */
+
+import { test, describe, expect } from "bun:test";
+import type { LanguageModelUsage } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import {
+  addToUsageSummary,
+  addUsage,
+  calculateCost,
+  createEmptyUsage,
+  createUsageSummary,
+  mergeUsageSummaries,
+  priceUsage,
+  toTokenUsage,
+} from "@/utils/usage";
+
+describe("utils/usage", () => {
+  describe("toTokenUsage", () => {
+    test("maps cache and reasoning details", () => {
+      const usage = {
+        inputTokens: 1000,
+        outputTokens: 200,
+        totalTokens: 1200,
+        inputTokenDetails: { noCacheTokens: 300, cacheReadTokens: 600, cacheWriteTokens: 100 },
+        outputTokenDetails: { textTokens: 150, reasoningTokens: 50 },
+      } as LanguageModelUsage;
+
+      expect(toTokenUsage(usage)).toEqual({
+        inputTokens: 1000,
+        outputTokens: 200,
+        totalTokens: 1200,
+        cachedInputTokens: 600,
+        cacheWriteTokens: 100,
+        reasoningTokens: 50,
+      });
+    });
+
+    test("treats missing counts as zero", () => {
+      expect(toTokenUsage(undefined)).toEqual(createEmptyUsage());
+      expect(toTokenUsage({ inputTokens: 10, outputTokens: 5 } as LanguageModelUsage)).toEqual({
+        ...createEmptyUsage(),
+        inputTokens: 10,
+        outputTokens: 5,
+        totalTokens: 15,
+      });
+    });
+  });
+
+  describe("calculateCost", () => {
+    test("prices cached and cache-write input separately", () => {
+      const usage = {
+        ...createEmptyUsage(),
+        inputTokens: 1_000_000,
+        cachedInputTokens: 400_000,
+        cacheWriteTokens: 100_000,
+        outputTokens: 100_000,
+      };
+      const cost = calculateCost(usage, {
+        inputPerMillion: 3,
+        outputPerMillion: 15,
+        cachedInputPerMillion: 0.3,
+        cacheWritePerMillion: 3.75,
+      });
+      // 0.5M uncached * 3 + 0.4M * 0.3 + 0.1M * 3.75 + 0.1M * 15
+      expect(cost).toBeCloseTo(1.5 + 0.12 + 0.375 + 1.5, 6);
+    });
+
+    test("falls back to the input price for cached tokens", () => {
+      const usage = { ...createEmptyUsage(), inputTokens: 1_000_000, cachedInputTokens: 500_000 };
+      expect(calculateCost(usage, { inputPerMillion: 2, outputPerMillion: 8 })).toBeCloseTo(2, 6);
+    });
+  });
+
+  describe("priceUsage", () => {
+    test("adds cost only for models in the price table", () => {
+      const model = new MockLanguageModelV3({ modelId: "priced-model" });
+      const usage = { ...createEmptyUsage(), inputTokens: 1_000_000, totalTokens: 1_000_000 };
+
+      expect(priceUsage(usage, model, { "priced-model": { inputPerMillion: 1, outputPerMillion: 1 } }).cost).toBe(1);
+      expect(priceUsage(usage, model, { other: { inputPerMillion: 1, outputPerMillion: 1 } }).cost).toBeUndefined();
+      expect(priceUsage(usage, model).cost).toBeUndefined();
+    });
+  });
+
+  describe("summaries", () => {
+    test("adds usage to its source and the total", () => {
+      const usage = { ...createEmptyUsage(), inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+      const summary = addToUsageSummary(createUsageSummary(), "subagents", usage);
+
+      expect(summary.subagents).toEqual(usage);
+      expect(summary.total).toEqual(usage);
+      expect(summary.agent).toEqual(createEmptyUsage());
+    });
+
+    test("merges summaries and keeps partial costs", () => {
+      const priced = { ...createEmptyUsage(), totalTokens: 10, cost: 0.5 };
+      const unpriced = { ...createEmptyUsage(), totalTokens: 20 };
+      const merged = mergeUsageSummaries(
+        addToUsageSummary(createUsageSummary(), "agent", priced),
+        addToUsageSummary(createUsageSummary(), "agent", unpriced)
+      );
+
+      expect(merged.agent).toEqual(addUsage(priced, unpriced));
+      expect(merged.total.totalTokens).toBe(30);
+      expect(merged.total.cost).toBe(0.5);
+    });
+  });
+});
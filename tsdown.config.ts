@@ -39,5 +39,8 @@ export default defineConfig({
     "fast-glob",
     "micromatch",
     "react-devtools-core",
+    // Optional SQLite drivers, loaded lazily at runtime
+    "bun:sqlite",
+    "better-sqlite3",
   ],
 });